@@ -1,5 +1,39 @@
 import * as Algebrite from 'algebrite';
 import * as mathsteps from 'mathsteps';
+import {
+  cas,
+  displayValue,
+  evaluateNumeric,
+  formatDecimal,
+  isInfinite,
+  isPolynomial,
+  numericFunction,
+  ordinal,
+  superscript,
+} from './expressionUtils';
+import { CurveAnalyzer, type CurveAnalysis } from './curveAnalyzer';
+import { DerivativeTracer, type DerivativeTrace } from './derivativeTracer';
+import { EquationSolver } from './equationSolver';
+import { ExpressionParser, ParseError, type ExpressionNode } from './expressionParser';
+import { FourierSolver, type FourierSeries } from './fourierSolver';
+import { IntegralApplicationSolver } from './integralApplicationSolver';
+import { IntegralTracer, type IntegralTrace } from './integralTracer';
+import { ImplicitSolver } from './implicitSolver';
+import { LaplaceSolver } from './laplaceSolver';
+import { LimitSolver } from './limitSolver';
+import { LinearAlgebraSolver } from './linearAlgebraSolver';
+import { MultipleIntegralSolver } from './multipleIntegralSolver';
+import { MultivariableSolver } from './multivariableSolver';
+import { NumericalSolver } from './numericalSolver';
+import { OdeSolver } from './odeSolver';
+import { PartialFractionSolver } from './partialFractionSolver';
+import { PolynomialSolver } from './polynomialSolver';
+import { SeriesSolver } from './seriesSolver';
+import { SolutionVerifier, type Verification } from './solutionVerifier';
+import { SystemSolver } from './systemSolver';
+import { TaylorSolver } from './taylorSolver';
+import { TrigIdentitySolver } from './trigIdentitySolver';
+import { VectorCalculusSolver } from './vectorCalculusSolver';
 
 export interface CalculusStep {
   step: string;
@@ -14,235 +48,669 @@ export interface CalculusSolution {
   steps: CalculusStep[];
   type: string;
   method?: string;
+  vector?: string[];
+  // Variable → value maps for a system of equations, one per solution
+  solutions?: Record<string, string>[];
+  // Independent check of the result, for the confidence badge
+  verified?: Verification;
+  // Structured report for curve sketching, alongside the one-line result
+  analysis?: CurveAnalysis;
+  // Coefficients and plot data for a Fourier series
+  fourier?: FourierSeries;
 }
 
+export interface DerivativeSpec {
+  expression: string;
+  variable: string;
+  order: number;
+}
+
+export interface IntegralSpec {
+  integrand: string;
+  variable: string;
+  lower?: string;
+  upper?: string;
+}
+
+const TRIGONOMETRIC_FUNCTIONS = new Set([
+  'sin', 'cos', 'tan', 'sec', 'csc', 'cot', 'asin', 'acos', 'atan', 'arcsin', 'arccos', 'arctan',
+]);
+// Where an antiderivative is sampled to tell a limit that does not exist at ±∞ from a value that is not real
+const FAR_OUT = 1e6;
+
 export class CalculusEngine {
   // Initialize Algebrite
   static init() {
     Algebrite.run('');
   }
 
-  // Detect calculus expression type
-  static detectCalculusType(expr: string): string {
-    if (expr.includes('d/dx') || expr.includes('derivative')) return 'Derivative';
-    if (expr.includes('integral') || expr.includes('∫')) return 'Integral';
-    if (expr.includes('limit')) return 'Limit';
-    if (expr.includes('∂')) return 'Partial Derivative';
-    if (expr.match(/\b\w+\(\w+\)\s*=.*d\w+\/d\w+/)) return 'Implicit Differentiation';
-    if (expr.includes('x^2') || expr.includes('**2')) return 'Quadratic';
-    if (expr.includes('sin') || expr.includes('cos') || expr.includes('tan')) return 'Trigonometric';
-    if (expr.includes('log') || expr.includes('ln')) return 'Logarithmic';
-    if (expr.includes('=')) return 'Equation';
+  // Detect calculus expression type from the parsed expression
+  static detectCalculusType(node: ExpressionNode): string {
+    if (node.kind === 'call' && (node.name === 'gradient' || node.name === 'grad')) return 'Gradient';
+    if (VectorCalculusSolver.isVectorCalculus(node)) return 'Vector Calculus';
+    if (NumericalSolver.isNumerical(node)) return 'Numerical Method';
+    if (LinearAlgebraSolver.isLinearAlgebra(node)) return 'Linear Algebra';
+    if (LaplaceSolver.isLaplace(node)) return 'Laplace Transform';
+    if (FourierSolver.isFourier(node)) return 'Fourier Series';
+    if (PartialFractionSolver.isPartialFractions(node)) return 'Partial Fractions';
+    if (PolynomialSolver.isPolynomialOperation(node)) return 'Polynomial';
+    const head = ExpressionParser.head(node);
+    if (head.kind === 'partial') return 'Partial Derivative';
+    if (OdeSolver.isOde(node)) return 'Differential Equation';
+    if (ImplicitSolver.isImplicit(node)) return 'Implicit Differentiation';
+    if (head.kind === 'derivative') return 'Derivative';
+    if (MultipleIntegralSolver.isMultiple(node)) return 'Multiple Integral';
+    if (IntegralApplicationSolver.isApplication(node)) return 'Integral Application';
+    if (CurveAnalyzer.isAnalysis(node)) return 'Curve Analysis';
+    if (head.kind === 'integral') return 'Integral';
+    if (head.kind === 'limit') return 'Limit';
+    if (SeriesSolver.isSeries(node)) return 'Series';
+    if (node.kind === 'call' && (node.name === 'taylor' || node.name === 'maclaurin')) return 'Taylor Series';
+    if (TrigIdentitySolver.isIdentity(node)) return 'Trigonometric Identity';
+    if (TrigIdentitySolver.isSimplification(node)) return 'Trigonometric';
+    if (SystemSolver.isSystem(node)) return 'System of Equations';
+    if (node.kind === 'equation') return this.isQuadratic(node) ? 'Quadratic' : 'Equation';
+    if (node.kind === 'call' && node.name === 'solve') return 'Equation';
+
+    const functions = ExpressionParser.functions(node);
+    if (functions.some(name => TRIGONOMETRIC_FUNCTIONS.has(name))) return 'Trigonometric';
+    if (functions.some(name => name === 'log' || name === 'ln')) return 'Logarithmic';
+    if (this.isQuadratic(node)) return 'Quadratic';
     return 'Expression';
   }
 
-  // Solve derivatives
-  static solveDerivative(expr: string): CalculusSolution {
+  // A degree-2 polynomial (or polynomial equation) in a single variable
+  static isQuadratic(node: ExpressionNode): boolean {
+    const variables = ExpressionParser.variables(node);
+    if (variables.length !== 1) return false;
+    const sides = node.kind === 'equation' ? [node.left, node.right] : [node];
+    const degrees = sides.map(side => ExpressionParser.polynomialDegree(side, variables[0]));
+    return degrees.every(degree => degree !== null) && Math.max(...degrees) === 2;
+  }
+
+  // d/dx(f), d/dt f, d²/dθ²(f), d²y/dx², y = ... and derivative(f, t, 3), already parsed into a derivative node
+  static derivativeSpec(node: ExpressionNode): DerivativeSpec {
+    const clauses = ExpressionParser.clauses(node);
+    const head = ExpressionParser.head(node);
+    if (head.kind !== 'derivative') {
+      throw new ParseError('Expected d/dx(f), dy/dx, y = f or derivative(f, x, n)', head.position);
+    }
+
+    const body = ExpressionParser.operand(clauses, head.body, head.dependent, head.position);
+    return { expression: ExpressionParser.print(body), variable: head.variable, order: head.order };
+  }
+
+  // Solve derivatives of any order with respect to any variable
+  static solveDerivative(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
     try {
-      const cleanExpr = expr.replace(/d\/dx\s*\(?(.*?)\)?/, '$1').replace(/derivative\s*\(?(.*?)\)?/, '$1');
-      const result = Algebrite.derivative(cleanExpr, 'x').toString();
+      const { expression, variable, order } = this.derivativeSpec(node);
+
+      // Differentiate one order at a time so every intermediate derivative can be traced
+      const traces: DerivativeTrace[] = [];
+      let current = expression;
+      for (let k = 0; k < order; k++) {
+        const trace = DerivativeTracer.trace(current, variable);
+        traces.push(trace);
+        current = trace.result;
+      }
+      const result = current;
       
-      const steps = this.generateDerivativeSteps(cleanExpr, result);
+      const steps = this.generateDerivativeSteps(expression, traces, variable);
+      const rules = [...new Set(traces.flatMap(trace => trace.rules))];
       
       return {
         original: expr,
         result,
         steps,
         type: 'Derivative',
-        method: 'Power Rule / Chain Rule'
+        method: traces.every(trace => trace.traced) ? rules.join(' / ') : 'Computer Algebra',
+        verified: SolutionVerifier.derivative(expression, Array(order).fill(variable), result)
       };
     } catch (error) {
-      throw new Error('Failed to compute derivative');
+      throw new Error(`Failed to compute derivative: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // integral(f, x, a, b), integral(f), ∫_a^b f dx and ∫ f dx, already parsed into an integral node
+  static integralSpec(node: ExpressionNode): IntegralSpec {
+    const head = ExpressionParser.head(node);
+    if (head.kind !== 'integral') {
+      throw new ParseError('Expected ∫ f dx, ∫_a^b f dx or integral(f, x, a, b)', head.position);
     }
+
+    const { body, variable, lower, upper } = head;
+    const integrand = ExpressionParser.print(body);
+    return lower && upper
+      ? { integrand, variable, lower: ExpressionParser.print(lower), upper: ExpressionParser.print(upper) }
+      : { integrand, variable };
   }
 
   // Solve integrals
-  static solveIntegral(expr: string): CalculusSolution {
+  static solveIntegral(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    const spec = this.integralSpec(node);
+    if (spec.lower !== undefined) {
+      return this.solveDefiniteIntegral(expr, spec);
+    }
+
     try {
-      const cleanExpr = expr.replace(/integral\s*\(?(.*?)\)?/, '$1').replace(/∫\s*(.*?)\s*dx/, '$1');
-      const result = Algebrite.integral(cleanExpr, 'x').toString();
+      const { integrand, variable } = spec;
+      const trace = IntegralTracer.trace(integrand, variable);
       
-      const steps = this.generateIntegralSteps(cleanExpr, result);
-      const method = this.detectIntegrationMethod(cleanExpr);
+      const steps = this.generateIntegralSteps(integrand, trace, variable);
       
       return {
         original: expr,
-        result: result + ' + C',
+        result: trace.result + ' + C',
         steps,
         type: 'Integral',
-        method
+        method: trace.traced ? trace.rules.join(' / ') : 'Computer Algebra',
+        verified: SolutionVerifier.antiderivative(integrand, variable, trace.result)
       };
     } catch (error) {
-      throw new Error('Failed to compute integral');
+      throw new Error(`Failed to compute integral: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Solve implicit differentiation
-  static solveImplicitDifferentiation(expr: string): CalculusSolution {
+  static solveMultipleIntegral(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
     try {
-      // Parse equation like x^2 + y^2 = 25
-      const [leftSide, rightSide] = expr.split('=');
-      
-      // Take derivative of both sides
-      const leftDerivative = Algebrite.derivative(leftSide.trim(), 'x').toString();
-      const rightDerivative = Algebrite.derivative(rightSide.trim(), 'x').toString();
-      
-      // Solve for dy/dx
-      const equation = `${leftDerivative} = ${rightDerivative}`;
-      const result = Algebrite.solve(equation, 'dy/dx').toString();
-      
-      const steps = this.generateImplicitSteps(expr, leftDerivative, rightDerivative, result);
-      
-      return {
-        original: expr,
-        result,
-        steps,
-        type: 'Implicit Differentiation',
-        method: 'Chain Rule'
-      };
+      return MultipleIntegralSolver.solve(expr, node);
     } catch (error) {
-      throw new Error('Failed to solve implicit differentiation');
+      throw new Error(`Failed to compute multiple integral: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Generate derivative steps
-  static generateDerivativeSteps(expr: string, result: string): CalculusStep[] {
-    const steps: CalculusStep[] = [];
-    
-    steps.push({
-      step: '1',
-      expression: `d/dx(${expr})`,
-      explanation: 'Find the derivative of the given function'
-    });
-
-    // Identify the rule being used
-    if (expr.includes('^')) {
-      steps.push({
-        step: '2',
-        expression: `Apply power rule: d/dx(x^n) = n·x^(n-1)`,
-        explanation: 'Use the power rule for differentiation'
-      });
+  static solveIntegralApplication(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return IntegralApplicationSolver.solve(expr, node);
+    } catch (error) {
+      throw new Error(`Failed to compute integral application: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+  }
 
-    if (expr.includes('sin') || expr.includes('cos')) {
-      steps.push({
-        step: '2',
-        expression: `Apply trigonometric rules`,
-        explanation: 'd/dx(sin(x)) = cos(x), d/dx(cos(x)) = -sin(x)'
-      });
+  static solveLinearAlgebra(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return LinearAlgebraSolver.solve(expr, node);
+    } catch (error) {
+      throw new Error(`Failed to compute matrix operation: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+  }
 
-    steps.push({
-      step: String(steps.length + 1),
-      expression: result,
-      explanation: 'Final derivative'
-    });
+  static solveNumerical(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return NumericalSolver.solve(expr, node);
+    } catch (error) {
+      throw new Error(`Failed to apply numerical method: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-    return steps;
+  static solveCurveAnalysis(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return CurveAnalyzer.solve(expr, node, (f, x) => this.solveDerivative(`derivative(${f}, ${x})`));
+    } catch (error) {
+      throw new Error(`Failed to analyze function: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
-  // Generate integral steps
-  static generateIntegralSteps(expr: string, result: string): CalculusStep[] {
+  // Solve definite integrals exactly with defint, falling back to numeric quadrature
+  static solveDefiniteIntegral(expr: string, spec: IntegralSpec): CalculusSolution {
+    const { integrand, variable, lower, upper } = spec;
+    const setup = `∫_${displayValue(lower)}^${displayValue(upper)} ${integrand} d${variable}`;
+
+    let trace: IntegralTrace;
+    try {
+      trace = IntegralTracer.trace(integrand, variable);
+    } catch {
+      return this.solveDefiniteIntegralNumerically(expr, spec);
+    }
+
+    // F is only an antiderivative on each interval where the integrand is defined, so split at the singularities inside
+    const breaks = this.interiorSingularities(integrand, variable, lower, upper);
+    const edges = [lower, ...breaks, upper];
+    const evaluate = (antiderivative: string) => edges.slice(1).map((bound, i) => ({
+      upper: this.evaluateAtBound(antiderivative, variable, bound, 'below'),
+      lower: this.evaluateAtBound(antiderivative, variable, edges[i], 'above')
+    }));
+    const improper = isInfinite(lower) || isInfinite(upper) || breaks.length > 0;
+
+    // ln(u) has no real value where u < 0, but ln|u| has the same derivative and does
+    let antiderivative = trace.result;
+    let values = evaluate(antiderivative);
+    let combined = this.combinePieces(values);
+    const absolute = combined === null ? this.absoluteLogs(antiderivative) : antiderivative;
+    if (absolute !== antiderivative) {
+      antiderivative = absolute;
+      values = evaluate(antiderivative);
+      combined = this.combinePieces(values);
+    }
+    if (combined === null) {
+      return this.solveDefiniteIntegralNumerically(expr, spec,
+        `The antiderivative ${antiderivative} has no real value at a bound, so evaluate the integral numerically`);
+    }
+    let exact = combined;
+    if (!improper && absolute === trace.result && !/infinity|undefined/.test(combined)) {
+      try {
+        exact = cas(`defint(${integrand},${variable},${lower},${upper})`);
+      } catch {
+        exact = combined;
+      }
+    }
+
+    const numeric = evaluateNumeric(exact);
+    if (exact !== 'undefined' && !/infinity/.test(exact) && Math.abs(numeric) === Infinity) {
+      return this.solveDefiniteIntegralNumerically(expr, spec, 'The exact value overflows, so evaluate the integral numerically');
+    }
+
+    const boundTerm = (bound: string, name: string) =>
+      isInfinite(bound) ? `lim ${name}→${displayValue(bound)} F(${name})` : `F(${displayValue(bound)})`;
     const steps: CalculusStep[] = [];
-    
-    steps.push({
-      step: '1',
-      expression: `∫ ${expr} dx`,
-      explanation: 'Find the indefinite integral'
-    });
+    const push = (step: Omit<CalculusStep, 'step'>) => steps.push({ ...step, step: String(steps.length + 1) });
 
-    // Detect integration method
-    if (expr.includes('x^')) {
-      steps.push({
-        step: '2',
-        expression: `Apply power rule: ∫ x^n dx = x^(n+1)/(n+1)`,
-        explanation: 'Use the power rule for integration'
+    push({
+      expression: setup,
+      explanation: improper ? 'Set up the improper definite integral' : 'Set up the definite integral'
+    });
+    if (breaks.length) {
+      push({
+        expression: edges.slice(1).map((bound, i) => `∫_${displayValue(edges[i])}^${displayValue(bound)} ${integrand} d${variable}`).join(' + '),
+        explanation: `The integrand is undefined at ${variable} = ${breaks.join(', ')} inside the interval, so split the integral there`,
+        method: 'Improper Integral'
       });
-    } else if (this.needsSubstitution(expr)) {
-      steps.push({
-        step: '2',
-        expression: `Use substitution method`,
-        explanation: 'Let u = inner function, du = derivative dx'
+    }
+    if (trace.traced) {
+      trace.steps.forEach(({ expression, explanation, method }) => push({ expression, explanation, method }));
+    }
+    push({
+      expression: `F(${variable}) = ${antiderivative}`,
+      explanation: absolute !== trace.result
+        ? 'Antiderivative F, with ln|u| in place of ln(u) so that F is real where u < 0; the constant C cancels'
+        : trace.traced
+          ? 'Antiderivative F; the constant C cancels'
+          : 'Find an antiderivative (CAS result, no derivation available); the constant C cancels'
+    });
+    const edgeTerm = (i: number, side: '⁻' | '⁺') =>
+      i === 0 ? boundTerm(lower, 'a') : i === edges.length - 1 ? boundTerm(upper, 'b') : `F(${displayValue(edges[i])}${side})`;
+    const difference = ({ upper, lower }: { upper: string | null; lower: string | null }) =>
+      `(${displayValue(upper ?? 'undefined')}) − (${displayValue(lower ?? 'undefined')})`;
+    push(breaks.length
+      ? {
+        expression: `${values.map((_, i) => `[${edgeTerm(i + 1, '⁻')} − ${edgeTerm(i, '⁺')}]`).join(' + ')} = ${values.map(value => `[${difference(value)}]`).join(' + ')}`,
+        explanation: 'Apply the Fundamental Theorem of Calculus on each piece, taking one-sided limits of F at the singularities'
+      }
+      : {
+        expression: `${boundTerm(upper, 'b')} − ${boundTerm(lower, 'a')} = ${difference(values[0])}`,
+        explanation: 'Apply the Fundamental Theorem of Calculus: evaluate F at the upper and lower bounds and subtract'
       });
-    } else if (this.needsIntegrationByParts(expr)) {
-      steps.push({
-        step: '2',
-        expression: `Use integration by parts: ∫ u dv = uv - ∫ v du`,
-        explanation: 'Choose u and dv appropriately'
+
+    const diverges = /infinity/.test(exact) || exact === 'undefined';
+    const showDecimal = !diverges && !Number.isNaN(numeric) && formatDecimal(numeric) !== exact;
+    push({
+      expression: showDecimal ? `${exact} ≈ ${formatDecimal(numeric)}` : displayValue(exact),
+      explanation: diverges
+        ? exact === 'undefined' ? 'The limit does not exist, so the improper integral diverges' : 'The improper integral diverges'
+        : 'Value of the definite integral'
+    });
+
+    return {
+      original: expr,
+      result: diverges ? (exact === 'undefined' ? 'diverges' : `${displayValue(exact)} (diverges)`) : exact,
+      steps,
+      type: 'Integral',
+      method: improper ? 'Improper Integral' : 'Fundamental Theorem of Calculus',
+      verified: diverges
+        ? SolutionVerifier.unverified('Divergence follows from the antiderivative at the bounds; quadrature cannot confirm it')
+        : SolutionVerifier.definiteIntegral(integrand, variable, lower, upper, exact)
+    };
+  }
+
+  // Numeric fallback for definite integrals without a closed-form antiderivative
+  static solveDefiniteIntegralNumerically(
+    expr: string,
+    spec: IntegralSpec,
+    reason = 'No closed-form antiderivative was found, so evaluate the integral numerically'
+  ): CalculusSolution {
+    const { integrand, variable, lower, upper } = spec;
+    if (Number.isNaN(evaluateNumeric(lower)) || Number.isNaN(evaluateNumeric(upper))) {
+      throw new Error('Failed to compute integral: bounds must be numeric for numerical integration');
+    }
+    try {
+      const solution = NumericalSolver.quadrature(expr, { command: 'gauss_kronrod', integrand, variable, lower, upper, subintervals: 1 }, reason);
+      return { ...solution, type: 'Integral' };
+    } catch (error) {
+      throw new Error(`Failed to compute integral: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+
+  // Evaluate an antiderivative at a bound, taking a one-sided limit when the bound is infinite or F blows up there
+  // 'undefined' when F stays real but has no limit at an infinite bound, as -cos(x) does
+  static evaluateAtBound(antiderivative: string, variable: string, bound: string, side: 'above' | 'below'): string | null {
+    const value = LimitSolver.valueAt(antiderivative, variable, bound, side === 'above' ? 'right' : 'left');
+    if (value.kind === 'finite') return value.value;
+    if (value.kind === 'infinite') return value.sign > 0 ? 'infinity' : '-infinity';
+    const far = evaluateNumeric(antiderivative, { [variable]: Math.sign(evaluateNumeric(bound)) * FAR_OUT });
+    return isInfinite(bound) && Number.isFinite(far) ? 'undefined' : null;
+  }
+
+  // Every ln(u) in an antiderivative as ln|u|
+  static absoluteLogs(antiderivative: string): string {
+    const rewrite = (node: ExpressionNode): ExpressionNode => {
+      if (node.kind === 'unary') return { ...node, operand: rewrite(node.operand) };
+      if (node.kind === 'binary') return { ...node, left: rewrite(node.left), right: rewrite(node.right) };
+      if (node.kind !== 'call') return node;
+      const args = node.args.map(rewrite);
+      return node.name === 'log' && args.length === 1
+        ? { ...node, args: [{ kind: 'call', name: 'abs', args, position: node.position }] }
+        : { ...node, args };
+    };
+    try {
+      return ExpressionParser.print(rewrite(ExpressionParser.parse(antiderivative)));
+    } catch {
+      return antiderivative;
+    }
+  }
+
+  // Points strictly between the bounds where the integrand is undefined: zeros of its denominators and of the radicands,
+  // plus the zeros of the cosine or sine under tan, sec, csc and cot
+  static interiorSingularities(integrand: string, variable: string, lower: string, upper: string): string[] {
+    const [a, b] = [lower, upper].map(bound => evaluateNumeric(bound)).sort((p, q) => p - q);
+    if (Number.isNaN(a) || Number.isNaN(b)) return [];
+    try {
+      const periodic = ExpressionParser.nodes(ExpressionParser.parse(integrand)).flatMap(node => {
+        if (node.kind !== 'call' || node.args.length !== 1) return [];
+        const argument = ExpressionParser.print(node.args[0]);
+        if (node.name === 'tan' || node.name === 'sec') return CurveAnalyzer.zeros(`cos(${argument})`, variable);
+        if (node.name === 'csc' || node.name === 'cot') return CurveAnalyzer.zeros(`sin(${argument})`, variable);
+        return [];
       });
+      const inside = [...CurveAnalyzer.singularities(integrand, variable), ...periodic]
+        .filter(mark => mark.value > a && mark.value < b && !CurveAnalyzer.same(mark.value, a) && !CurveAnalyzer.same(mark.value, b));
+      return CurveAnalyzer.distinct(inside).map(mark => mark.text);
+    } catch {
+      return [];
     }
+  }
 
-    steps.push({
-      step: String(steps.length + 1),
-      expression: result + ' + C',
-      explanation: 'Final integral with constant of integration'
+  // Sum F(b) − F(a) over the pieces of the interval; it diverges when any piece does, and null means F has no real value
+  // at a bound of a piece that may still converge
+  static combinePieces(values: { upper: string | null; lower: string | null }[]): string | null {
+    const pieces = values.map(({ upper, lower }) => {
+      if (upper === null || lower === null) return null;
+      if (upper === 'undefined' || lower === 'undefined') return 'undefined';
+      return /infinity/.test(upper + lower) ? this.combineInfiniteBounds(upper, lower) : cas(`(${upper})-(${lower})`);
     });
+    const infinite = [...new Set(pieces.filter(piece => piece !== null && /infinity|undefined/.test(piece)))];
+    if (infinite.length) return infinite.length > 1 || pieces.includes(null) ? 'undefined' : infinite[0];
+    if (pieces.includes(null)) return null;
+    return cas(pieces.map(piece => `(${piece})`).join('+'));
+  }
 
-    return steps;
+  // Combine F(b) − F(a) when either side is infinite
+  static combineInfiniteBounds(upperValue: string, lowerValue: string): string {
+    const upperSign = upperValue === 'infinity' ? 1 : upperValue === '-infinity' ? -1 : 0;
+    const lowerSign = lowerValue === 'infinity' ? 1 : lowerValue === '-infinity' ? -1 : 0;
+    const total = upperSign - lowerSign;
+    if (upperSign !== 0 && lowerSign !== 0 && upperSign === lowerSign) return 'undefined';
+    return total > 0 ? 'infinity' : '-infinity';
   }
 
-  // Generate implicit differentiation steps
-  static generateImplicitSteps(original: string, leftDeriv: string, rightDeriv: string, result: string): CalculusStep[] {
-    return [
-      {
-        step: '1',
-        expression: original,
-        explanation: 'Original equation'
-      },
-      {
-        step: '2',
-        expression: `d/dx(${original.split('=')[0]}) = d/dx(${original.split('=')[1]})`,
-        explanation: 'Take derivative of both sides with respect to x'
-      },
-      {
-        step: '3',
-        expression: `${leftDeriv} = ${rightDeriv}`,
-        explanation: 'Apply chain rule to terms involving y'
-      },
-      {
-        step: '4',
-        expression: `dy/dx = ${result}`,
-        explanation: 'Solve for dy/dx'
-      }
-    ];
+  // Solve limits, including one-sided limits and limits at ±∞
+  static solveLimit(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return LimitSolver.solve(expr, node);
+    } catch (error) {
+      throw new Error(`Failed to compute limit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Solve partial derivatives, including mixed partials like ∂²f/∂x∂y
+  static solvePartialDerivative(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return MultivariableSolver.solvePartial(expr, node);
+    } catch (error) {
+      throw new Error(`Failed to compute partial derivative: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Solve gradients of scalar fields, returning the vector of partial derivatives
+  static solveGradient(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return MultivariableSolver.solveGradient(expr, node);
+    } catch (error) {
+      throw new Error(`Failed to compute gradient: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Divergence, curl and Laplacian of fields, and line and surface integrals with theorem cross-checks
+  static solveVectorCalculus(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return VectorCalculusSolver.solve(expr, node, (integrand, variable, lower, upper) =>
+        this.solveIntegral(`integral(${integrand}, ${variable}, ${lower}, ${upper})`));
+    } catch (error) {
+      throw new Error(`Failed to compute vector calculus operation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Solve implicit differentiation, treating y as y(x) and isolating dy/dx
+  static solveImplicitDifferentiation(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return ImplicitSolver.solve(expr, node);
+    } catch (error) {
+      throw new Error(`Failed to solve implicit differentiation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Solve polynomial, rational, radical, exponential and logarithmic equations for all roots
+  static solveEquation(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      const solution = EquationSolver.solve(expr, node);
+      return this.isQuadratic(node) ? { ...solution, type: 'Quadratic' } : solution;
+    } catch (error) {
+      throw new Error(`Failed to solve equation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Solve systems of equations, by Gaussian elimination when linear and by substitution otherwise
+  static solveSystem(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return SystemSolver.solve(expr, node);
+    } catch (error) {
+      throw new Error(`Failed to solve system: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Expand a function as a Taylor polynomial about a point, with its remainder bound
+  static solveTaylorSeries(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return TaylorSolver.solve(expr, node);
+    } catch (error) {
+      throw new Error(`Failed to compute Taylor series: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Decide whether an infinite series converges, with its exact sum when it is geometric or telescoping
+  static solveSeries(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return SeriesSolver.solve(expr, node);
+    } catch (error) {
+      throw new Error(`Failed to analyze series: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Laplace transforms by table and shifting theorems, inverses by partial fractions, and initial-value problems by the Laplace method
+  static solveLaplace(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return LaplaceSolver.solve(expr, node);
+    } catch (error) {
+      throw new Error(`Failed to compute Laplace transform: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Partial fraction decomposition of a rational function, after long division when it is improper
+  static solvePartialFractions(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return PartialFractionSolver.solve(expr, node);
+    } catch (error) {
+      throw new Error(`Failed to decompose into partial fractions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Factoring, expansion, long and synthetic division, GCD and LCM, and root bounds, each shown step by step
+  static solvePolynomial(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return PolynomialSolver.solve(expr, node);
+    } catch (error) {
+      throw new Error(`Failed to carry out the polynomial operation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Trigonometric simplification with named identities, or a proof or counterexample for a claimed identity
+  static solveTrigonometric(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return TrigIdentitySolver.solve(expr, node);
+    } catch (error) {
+      throw new Error(`Failed to simplify the trigonometric expression: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Fourier coefficients of a periodic function, piecewise or not, with the partial sum and its plot data
+  static solveFourierSeries(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return FourierSolver.solve(expr, node);
+    } catch (error) {
+      throw new Error(`Failed to compute Fourier series: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  static solveDifferentialEquation(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    try {
+      return OdeSolver.solve(expr, node);
+    } catch (error) {
+      // With an initial condition, a first-order equation can still be tabulated numerically
+      const tabulated = error instanceof ParseError ? null : NumericalSolver.tabulate(expr, node, `No closed-form solution was found (${error instanceof Error ? error.message : 'unknown reason'})`);
+      if (tabulated) return tabulated;
+      throw new Error(`Failed to solve differential equation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
-  // Detect integration method needed
-  static detectIntegrationMethod(expr: string): string {
-    if (this.needsIntegrationByParts(expr)) return 'Integration by Parts';
-    if (this.needsSubstitution(expr)) return 'U-Substitution';
-    if (expr.includes('sin') || expr.includes('cos')) return 'Trigonometric Integration';
-    if (expr.includes('1/(x^2')) return 'Partial Fractions';
-    return 'Power Rule';
+  // Leibniz notation for an nth derivative, e.g. d²/dt²
+  static leibniz(order: number, variable: string): string {
+    return `d${superscript(order)}/d${variable}${superscript(order)}`;
   }
 
-  // Check if integration by parts is needed
-  static needsIntegrationByParts(expr: string): boolean {
-    return (expr.includes('x') && (expr.includes('sin') || expr.includes('cos') || expr.includes('e^') || expr.includes('ln')));
+  // Generate derivative steps from the rule traces, one block per successive differentiation
+  static generateDerivativeSteps(expr: string, traces: DerivativeTrace[], variable = 'x'): CalculusStep[] {
+    const order = traces.length;
+    const steps: CalculusStep[] = [];
+    const push = (step: Omit<CalculusStep, 'step'>) => steps.push({ ...step, step: String(steps.length + 1) });
+
+    push({
+      expression: `${this.leibniz(order, variable)}(${expr})`,
+      explanation: order === 1
+        ? 'Find the derivative of the given function'
+        : `Differentiate ${order} times with respect to ${variable}, one derivative at a time`
+    });
+
+    traces.forEach((trace, index) => {
+      if (order > 1) {
+        push({
+          expression: index === 0 ? `d/d${variable}(${expr})` : `${this.leibniz(index + 1, variable)}(${expr}) = d/d${variable}(${trace.input})`,
+          explanation: `${ordinal(index + 1).replace(/^./, c => c.toUpperCase())} derivative: differentiate ${index === 0 ? 'the function' : 'the previous result'}`
+        });
+      }
+      trace.steps.forEach(({ expression, explanation, method }) => push({ expression, explanation, method }));
+      const shown = trace.steps[trace.steps.length - 1]?.expression.endsWith(`= ${trace.result}`);
+      if (order > 1 && index < order - 1 && !shown) {
+        push({
+          expression: `${this.leibniz(index + 1, variable)}(${expr}) = ${trace.result}`,
+          explanation: `Simplified ${ordinal(index + 1)} derivative`
+        });
+      }
+    });
+
+    push({
+      expression: order === 1 ? traces[0].result : `${this.leibniz(order, variable)}(${expr}) = ${traces[order - 1].result}`,
+      explanation: order === 1 ? 'Final derivative' : `Final ${ordinal(order)} derivative`
+    });
+
+    return steps;
   }
 
-  // Check if substitution is needed
-  static needsSubstitution(expr: string): boolean {
-    return expr.includes('(') && (expr.includes('sin') || expr.includes('cos') || expr.includes('^'));
+  // Generate integral steps from the rule trace
+  static generateIntegralSteps(expr: string, trace: IntegralTrace, variable = 'x'): CalculusStep[] {
+    const steps: CalculusStep[] = [];
+    const push = (step: Omit<CalculusStep, 'step'>) => steps.push({ ...step, step: String(steps.length + 1) });
+
+    push({
+      expression: `∫ ${expr} d${variable}`,
+      explanation: 'Find the indefinite integral'
+    });
+    trace.steps.forEach(({ expression, explanation, method }) => push({ expression, explanation, method }));
+    push({
+      expression: trace.result + ' + C',
+      explanation: 'Final integral with constant of integration'
+    });
+
+    return steps;
   }
 
   // Solve general expressions using symbolic computation
   static solveExpression(expr: string): CalculusSolution {
     try {
-      const type = this.detectCalculusType(expr);
+      const node = ExpressionParser.parse(expr);
+      const type = this.detectCalculusType(node);
       
       // Route to appropriate solver
       if (type === 'Derivative') {
-        return this.solveDerivative(expr);
+        return this.solveDerivative(expr, node);
       } else if (type === 'Integral') {
-        return this.solveIntegral(expr);
+        return this.solveIntegral(expr, node);
+      } else if (type === 'Multiple Integral') {
+        return this.solveMultipleIntegral(expr, node);
+      } else if (type === 'Integral Application') {
+        return this.solveIntegralApplication(expr, node);
+      } else if (type === 'Linear Algebra') {
+        return this.solveLinearAlgebra(expr, node);
+      } else if (type === 'Laplace Transform') {
+        return this.solveLaplace(expr, node);
+      } else if (type === 'Fourier Series') {
+        return this.solveFourierSeries(expr, node);
+      } else if (type === 'Partial Fractions') {
+        return this.solvePartialFractions(expr, node);
+      } else if (type === 'Polynomial') {
+        return this.solvePolynomial(expr, node);
+      } else if (type === 'Trigonometric' || type === 'Trigonometric Identity') {
+        return this.solveTrigonometric(expr, node);
+      } else if (type === 'Numerical Method') {
+        return this.solveNumerical(expr, node);
+      } else if (type === 'Curve Analysis') {
+        return this.solveCurveAnalysis(expr, node);
+      } else if (type === 'Limit') {
+        return this.solveLimit(expr, node);
+      } else if (type === 'Partial Derivative') {
+        return this.solvePartialDerivative(expr, node);
+      } else if (type === 'Vector Calculus') {
+        return this.solveVectorCalculus(expr, node);
+      } else if (type === 'Gradient') {
+        return this.solveGradient(expr, node);
       } else if (type === 'Implicit Differentiation') {
-        return this.solveImplicitDifferentiation(expr);
+        return this.solveImplicitDifferentiation(expr, node);
+      } else if (type === 'Differential Equation') {
+        return this.solveDifferentialEquation(expr, node);
+      } else if (type === 'Taylor Series') {
+        return this.solveTaylorSeries(expr, node);
+      } else if (type === 'Series') {
+        return this.solveSeries(expr, node);
+      } else if (type === 'System of Equations') {
+        return this.solveSystem(expr, node);
+      } else if (type === 'Equation' || (type === 'Quadratic' && node.kind === 'equation')) {
+        return this.solveEquation(expr, node);
       } else {
+        // Nested operators print as Algebrite calls, e.g. d/dx(x^2) + 1 as d(x^2, x) + 1
+        const text = ExpressionParser.print(node);
         // Use mathsteps for algebraic step-by-step
         try {
-          const steps = mathsteps.simplifyExpression(expr);
-          const result = Algebrite.run(expr);
+          const steps = mathsteps.simplifyExpression(text);
+          const result = Algebrite.run(text);
           
           return {
             original: expr,
@@ -253,11 +721,17 @@ export class CalculusEngine {
               explanation: step.changeType || 'Simplification step'
             })),
             type,
-            method: 'Algebraic Simplification'
+            method: 'Algebraic Simplification',
+            verified: SolutionVerifier.unverified('No independent check is available for simplified expressions')
           };
         } catch {
+          // A polynomial mathsteps cannot handle is still multiplied out step by step
+          const variables = ExpressionParser.variables(node);
+          if (variables.length === 1 && isPolynomial(text, variables[0])) {
+            return this.solvePolynomial(expr, { kind: 'call', name: 'expand', args: [node], position: node.position });
+          }
           // Fallback to basic Algebrite evaluation
-          const result = Algebrite.run(expr);
+          const result = Algebrite.run(text);
           return {
             original: expr,
             result: result.toString(),
@@ -274,7 +748,8 @@ export class CalculusEngine {
               }
             ],
             type,
-            method: 'Direct Evaluation'
+            method: 'Direct Evaluation',
+            verified: SolutionVerifier.unverified('No independent check is available for evaluated expressions')
           };
         }
       }
@@ -0,0 +1,676 @@
+import type { CalculusSolution } from './calculusEngine';
+import { EquationSolver } from './equationSolver';
+import { LimitSolver, type LimitValue } from './limitSolver';
+import { OdeSolver } from './odeSolver';
+import { recordSteps, type Push } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { cas, displayValue, evaluateNumeric, formatDecimal, freeVariables, isPolynomial, numericFunction } from './expressionUtils';
+import { ExpressionParser, ParseError, type ExpressionNode, type LimitDirection } from './expressionParser';
+import { bisection, bracketRoots } from './numericalMethods';
+
+export interface CurveSpec {
+  expression: string;
+  variable: string;
+  lower?: string;
+  upper?: string;
+}
+
+export interface CurvePoint {
+  x: string;
+  y: string;
+}
+
+export interface CriticalPoint extends CurvePoint {
+  kind: 'local minimum' | 'local maximum' | 'neither';
+  test: 'Second Derivative Test' | 'First Derivative Test';
+}
+
+// Everything needed to sketch y = f(x), with intervals in interval notation
+export interface CurveAnalysis {
+  variable: string;
+  domain: string;
+  intercepts: { x: string[]; y: string | null };
+  derivative: string;
+  secondDerivative: string;
+  criticalPoints: CriticalPoint[];
+  inflectionPoints: CurvePoint[];
+  increasing: string[];
+  decreasing: string[];
+  concaveUp: string[];
+  concaveDown: string[];
+  asymptotes: { vertical: string[]; horizontal: string[]; oblique: string[] };
+  // Absolute extrema on the closed interval, when one is given
+  extrema?: { interval: [string, string]; maximum: CurvePoint[]; minimum: CurvePoint[] };
+}
+
+// A point on the x-axis, exact when possible, with its numeric value for comparisons
+interface Mark {
+  text: string;
+  value: number;
+}
+
+// An interval of the domain; a missing end is infinite
+interface Piece {
+  lower?: Mark;
+  upper?: Mark;
+  lowerClosed: boolean;
+  upperClosed: boolean;
+}
+
+// An open interval on which a derivative keeps one sign
+interface Run {
+  lower?: Mark;
+  upper?: Mark;
+  sign: number;
+}
+
+// A term as factors over a product of powers of polynomials
+interface Quotient {
+  numerator: string[];
+  denominator: Map<string, number>;
+}
+
+type Differentiate = (expression: string, variable: string) => CalculusSolution;
+
+const COMMANDS = new Set(['analyze', 'sketch']);
+// Functions with infinitely many excluded points, which a finite list of boundaries cannot describe
+const PERIODIC_POLES = new Set(['tan', 'sec', 'csc', 'cot']);
+// Values closer than this (relative to their size) are the same point
+const SAME_POINT = 1e-9;
+// Below this a sampled derivative counts as zero
+const ZERO_SIGN = 1e-10;
+// Where a finite interval is sampled for sign changes, as fractions of its width
+const SUBDIVISIONS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+// Distances from a finite end at which an infinite interval is sampled
+const OFFSETS = [0.25, 0.5, 1, 2, 4, 8, 16, 32];
+const BISECTIONS = 60;
+// Window searched numerically for roots the equation solver is not asked to find exactly
+const SCAN_WINDOW: [number, number] = [-10, 10];
+// Largest odd denominator of a constant exponent that is taken as a real root, so that x^(2/3) is defined for negative x
+const ODD_ROOT_LIMIT = 99;
+
+export class CurveAnalyzer {
+  static isAnalysis(node: ExpressionNode): boolean {
+    return node.kind === 'call' && COMMANDS.has(node.name);
+  }
+
+  // analyze(f), then optionally the variable, a closed interval [a, b], or both
+  static spec(node: ExpressionNode): CurveSpec {
+    if (node.kind !== 'call' || !COMMANDS.has(node.name) || !node.args.length || node.args.length > 4) {
+      throw new ParseError('Expected analyze(f), analyze(f, x), analyze(f, a, b) or analyze(f, x, a, b)', node.position);
+    }
+    const [body, ...rest] = node.args;
+    const expression = ExpressionParser.print(body);
+    const named = rest.length === 1 || rest.length === 3 ? rest[0] : undefined;
+    if (named && named.kind !== 'symbol') {
+      throw new ParseError('Expected the variable as a name such as x', named.position);
+    }
+    const variables = freeVariables(expression);
+    const variable = named?.kind === 'symbol' ? named.name : variables.length === 1 ? variables[0] : 'x';
+    const others = variables.filter(name => name !== variable);
+    if (others.length) {
+      throw new Error(`the function may only depend on ${variable}, but it also mentions ${others.join(', ')}`);
+    }
+    const periodic = ExpressionParser.functions(body).filter(name => PERIODIC_POLES.has(name));
+    if (periodic.length) {
+      throw new Error(`${periodic[0]} is undefined at infinitely many points, which curve analysis does not support`);
+    }
+
+    const bounds = rest.length >= 2 ? rest.slice(-2).map(bound => ExpressionParser.print(bound)) : [];
+    if (bounds.some(bound => freeVariables(bound).length || !Number.isFinite(evaluateNumeric(bound)))) {
+      throw new Error('the interval must have finite numeric endpoints');
+    }
+    if (bounds.length && evaluateNumeric(bounds[0]) >= evaluateNumeric(bounds[1])) {
+      throw new Error(`the interval [${bounds.join(', ')}] is empty`);
+    }
+    return bounds.length ? { expression, variable, lower: bounds[0], upper: bounds[1] } : { expression, variable };
+  }
+
+  // Derivatives come from the engine so their rules are reported the same way as d/dx(f)
+  static solve(expr: string, node: ExpressionNode, differentiate: Differentiate): CalculusSolution {
+    const spec = this.spec(node);
+    const { expression: f, variable: x } = spec;
+    const { steps, push, methods } = recordSteps();
+    push(`f(${x}) = ${f}`, 'Analyze the function for sketching its graph');
+
+    const pieces = this.domain(f, x);
+    const domain = this.notation(pieces);
+    const excluded = this.singularities(f, x).filter(mark => !this.contains(pieces, mark.value));
+    push(`Domain: ${domain}`, excluded.length
+      ? `f is undefined at ${x} = ${excluded.map(mark => displayValue(mark.text)).join(', ')}, where a denominator vanishes or a root or logarithm loses its meaning`
+      : domain === '(-∞, ∞)' ? `f is defined for every real ${x}` : 'Keep the values where every root and logarithm is defined', 'Domain');
+
+    // With a closed interval, everything after the domain is restricted to it
+    const closed = spec.lower !== undefined && spec.upper !== undefined ? [spec.lower, spec.upper] as const : undefined;
+    const region = closed ? this.restrict(pieces, ...closed) : pieces;
+    const scanned: [number, number][] = [];
+
+    const xIntercepts = this.zeros(f, x, scanned).filter(mark => this.contains(region, mark.value));
+    const yIntercept = this.contains(region, 0) ? this.valueAt(f, x, { text: '0', value: 0 }) : null;
+    push(`${x}-intercepts: ${xIntercepts.length ? xIntercepts.map(mark => `(${displayValue(mark.text)}, 0)`).join(', ') : 'none'}; y-intercept: ${yIntercept === null ? 'none' : `(0, ${yIntercept})`}`,
+      `Solve f(${x}) = 0 for the ${x}-intercepts and evaluate f(0) for the y-intercept`, 'Intercepts');
+
+    const first = differentiate(f, x);
+    const derivative = first.result;
+    push(`f'(${x}) = ${derivative}`, `Differentiate (${first.method})`);
+    const second = differentiate(derivative, x);
+    const secondDerivative = second.result;
+    push(`f''(${x}) = ${secondDerivative}`, `Differentiate again (${second.method})`);
+
+    // Critical numbers: where f' vanishes or is undefined, inside the domain of f
+    const slope = this.numeric(derivative, x);
+    const critical = this.refine(slope, region, [...this.zeros(derivative, x, scanned), ...this.singularities(derivative, x)]);
+    push(critical.length ? `${x} = ${critical.map(mark => displayValue(mark.text)).join(', ')}` : `f'(${x}) ≠ 0`,
+      critical.length
+        ? `Critical numbers, where f'(${x}) = 0 or f' is undefined inside the domain`
+        : `f' never vanishes and is defined throughout the domain, so there are no critical numbers`,
+      'Critical Points');
+
+    const bending = this.numeric(secondDerivative, x);
+    const criticalPoints: CriticalPoint[] = critical.map(mark => {
+      const y = this.valueAt(f, x, mark);
+      const curvature = bending(mark.value);
+      if (Number.isFinite(curvature) && Math.abs(curvature) > ZERO_SIGN) {
+        const kind = curvature > 0 ? 'local minimum' : 'local maximum';
+        push(`f''(${displayValue(mark.text)}) ${this.isDecimal(mark.text) ? '≈' : '='} ${this.valueAt(secondDerivative, x, mark)} ${curvature > 0 ? '> 0' : '< 0'}`,
+          `Concave ${curvature > 0 ? 'up' : 'down'} at ${x} = ${displayValue(mark.text)}, so (${displayValue(mark.text)}, ${y}) is a ${kind}`, 'Second Derivative Test');
+        return { x: mark.text, y, kind, test: 'Second Derivative Test' };
+      }
+      const [left, right] = this.sides(slope, mark, critical, region);
+      const kind = left < 0 && right > 0 ? 'local minimum' : left > 0 && right < 0 ? 'local maximum' : 'neither';
+      const change = `f' is ${this.signWord(left)} to the left of ${x} = ${displayValue(mark.text)} and ${this.signWord(right)} to the right`;
+      push(`f'(${displayValue(mark.text)}⁻) ${left > 0 ? '> 0' : left < 0 ? '< 0' : '= 0'}, f'(${displayValue(mark.text)}⁺) ${right > 0 ? '> 0' : right < 0 ? '< 0' : '= 0'}`,
+        kind === 'neither' ? `${change}, so ${x} = ${displayValue(mark.text)} is not an extremum` : `${change}, so (${displayValue(mark.text)}, ${y}) is a ${kind}`,
+        'First Derivative Test');
+      return { x: mark.text, y, kind, test: 'First Derivative Test' };
+    });
+
+    const monotone = this.signChart(slope, region, critical);
+    const increasing = this.intervals(monotone, 1);
+    const decreasing = this.intervals(monotone, -1);
+    push(this.list([['Increasing', increasing], ['decreasing', decreasing]], `f' is zero throughout, so f is constant`),
+      `Test the sign of f' between consecutive critical numbers`, 'First Derivative Test');
+
+    const candidates = this.refine(bending, region, [...this.zeros(secondDerivative, x, scanned), ...this.singularities(secondDerivative, x)]);
+    const concavity = this.signChart(bending, region, candidates);
+    const concaveUp = this.intervals(concavity, 1);
+    const concaveDown = this.intervals(concavity, -1);
+    const inflectionPoints: CurvePoint[] = candidates
+      .filter(mark => {
+        const [left, right] = this.sides(bending, mark, candidates, region);
+        return left * right < 0;
+      })
+      .map(mark => ({ x: mark.text, y: this.valueAt(f, x, mark) }));
+    push(this.list([['Concave up', concaveUp], ['concave down', concaveDown]], `f'' is zero throughout, so the graph is a line`),
+      candidates.length
+        ? `Test the sign of f'' between ${x} = ${candidates.map(mark => displayValue(mark.text)).join(', ')}, where f'' vanishes or is undefined`
+        : `f'' keeps one sign on each interval of the domain`,
+      'Concavity');
+    push(inflectionPoints.length ? inflectionPoints.map(point => `(${displayValue(point.x)}, ${point.y})`).join(', ') : 'none',
+      'Inflection points, where the concavity changes inside the domain', 'Concavity');
+
+    // Roots the equation solver only found by scanning a window may be incomplete outside it
+    const [start, end] = [region[0].lower?.value ?? -Infinity, region[region.length - 1].upper?.value ?? Infinity];
+    const window = scanned.find(([low, high]) => start < low || end > high);
+    if (window) {
+      push(`[${window[0]}, ${window[1]}]`,
+        `Some roots of f, f' or f'' were only found by a numerical search of [${window[0]}, ${window[1]}], so points outside it may be missing`);
+    }
+
+    const asymptotes = this.asymptotes(f, x, pieces, push);
+    const extrema = closed ? this.extrema(f, x, ...closed, criticalPoints, push) : undefined;
+
+    const analysis: CurveAnalysis = {
+      variable: x,
+      domain,
+      intercepts: { x: xIntercepts.map(mark => mark.text), y: yIntercept },
+      derivative,
+      secondDerivative,
+      criticalPoints,
+      inflectionPoints,
+      increasing,
+      decreasing,
+      concaveUp,
+      concaveDown,
+      asymptotes,
+      ...(extrema ? { extrema } : {})
+    };
+    const result = this.summary(analysis);
+    push(result, 'Summary of the analysis');
+
+    return {
+      original: expr,
+      result,
+      steps,
+      type: 'Curve Analysis',
+      method: [...methods].join(' / '),
+      analysis,
+      verified: SolutionVerifier.curveAnalysis(this.realRoots(f), x, criticalPoints, extrema)
+    };
+  }
+
+  // f as a real function of x, with odd roots of negative numbers taken real
+  static numeric(expression: string, x: string): (value: number) => number {
+    return numericFunction(this.realRoots(expression), x);
+  }
+
+  // Rewrite u^(p/q) with q odd as nthRoot(u, q)^p; the evaluator takes the principal complex root of a negative u instead
+  static realRoots(expression: string): string {
+    const rewrite = (node: ExpressionNode): ExpressionNode => {
+      if (node.kind === 'unary') return { ...node, operand: rewrite(node.operand) };
+      if (node.kind === 'call') return { ...node, args: node.args.map(rewrite) };
+      if (node.kind !== 'binary') return node;
+      const rewritten = { ...node, left: rewrite(node.left), right: rewrite(node.right) };
+      if (node.operator !== '^' || ExpressionParser.variables(node.right).length) return rewritten;
+      const power = evaluateNumeric(ExpressionParser.print(node.right));
+      if (!Number.isFinite(power) || Number.isInteger(power)) return rewritten;
+      for (let q = 3; q <= ODD_ROOT_LIMIT; q += 2) {
+        const p = Math.round(power * q);
+        if (Math.abs(power * q - p) > 1e-9) continue;
+        const { position } = node;
+        const number = (value: number): ExpressionNode => ({ kind: 'number', value: String(value), position });
+        return {
+          ...rewritten,
+          left: { kind: 'call', name: 'nthRoot', args: [rewritten.left, number(q)], position },
+          right: p < 0 ? { kind: 'unary', operator: '-', operand: number(-p), position } : number(p)
+        };
+      }
+      return rewritten;
+    };
+    return ExpressionParser.print(rewrite(ExpressionParser.parse(expression)));
+  }
+
+  // Split the real line at every point where f may be undefined and keep the intervals where it is defined
+  static domain(f: string, x: string): Piece[] {
+    const fn = this.numeric(f, x);
+    const defined = (mark?: Mark) => mark !== undefined && Number.isFinite(fn(mark.value));
+    const edges = this.singularities(f, x);
+    const gaps = [undefined, ...edges].map((lower, i) => ({ lower, upper: edges[i] }));
+
+    const pieces: Piece[] = [];
+    for (const { lower, upper } of gaps) {
+      if (!Number.isFinite(fn(this.between(lower, upper)))) continue;
+      const previous = pieces[pieces.length - 1];
+      if (previous && lower && previous.upper === lower && previous.upperClosed) {
+        previous.upper = upper;
+        previous.upperClosed = defined(upper);
+      } else {
+        pieces.push({ lower, upper, lowerClosed: defined(lower), upperClosed: defined(upper) });
+      }
+    }
+    if (!pieces.length) {
+      throw new Error(`f is not defined for any real ${x}`);
+    }
+    return pieces;
+  }
+
+  // Points where a denominator vanishes, a negative power blows up, or a root, logarithm or inverse sine reaches the edge of its domain
+  static singularities(expression: string, x: string): Mark[] {
+    const marks = ExpressionParser.nodes(ExpressionParser.parse(expression)).flatMap(node => {
+      if (node.kind === 'binary' && node.operator === '/') {
+        return this.zeros(ExpressionParser.print(node.right), x);
+      }
+      if (node.kind === 'binary' && node.operator === '^') {
+        const exponent = ExpressionParser.print(node.right);
+        const power = freeVariables(exponent).length ? NaN : evaluateNumeric(exponent);
+        return power < 0 || (Number.isFinite(power) && !Number.isInteger(power)) ? this.zeros(ExpressionParser.print(node.left), x) : [];
+      }
+      if (node.kind === 'call' && node.args.length === 1) {
+        const argument = ExpressionParser.print(node.args[0]);
+        if (['sqrt', 'log', 'ln'].includes(node.name)) return this.zeros(argument, x);
+        if (['asin', 'acos', 'arcsin', 'arccos'].includes(node.name)) {
+          return [...this.zeros(`(${argument})-1`, x), ...this.zeros(`(${argument})+1`, x)];
+        }
+      }
+      return [];
+    });
+    return this.distinct(marks);
+  }
+
+  // Real roots of expression = 0: exactly where the equation solver is quick, and by a bracket-and-bisect scan of a window,
+  // which is recorded, for quotients it would have to simplify first; the CAS can take minutes on those
+  static zeros(expression: string, x: string, scanned: [number, number][] = []): Mark[] {
+    if (!freeVariables(expression).includes(x)) return [];
+    const fn = this.numeric(expression, x);
+    const marks = this.factors(ExpressionParser.parse(expression)).flatMap(factor => {
+      const text = ExpressionParser.print(factor);
+      if (!freeVariables(text).includes(x)) return [];
+      const numerator = EquationSolver.denominators(text, x).length ? this.numerator(factor, x) : text;
+      if (numerator) return this.exactZeros(numerator, x, scanned);
+      return this.scan(this.numeric(text, x), scanned);
+    });
+    // A root of one factor where another blows up is not a root of the product
+    return this.distinct(marks.filter(mark => Number.isFinite(fn(mark.value))));
+  }
+
+  // Factors whose zeros are zeros of the whole: both sides of a product, the numerator of a quotient, the base of a positive power
+  static factors(node: ExpressionNode): ExpressionNode[] {
+    if (node.kind === 'unary' && node.operator === '-') return this.factors(node.operand);
+    if (node.kind === 'binary' && node.operator === '*') return [...this.factors(node.left), ...this.factors(node.right)];
+    if (node.kind === 'binary' && node.operator === '/') return this.factors(node.left);
+    if (node.kind === 'binary' && node.operator === '^' && node.right.kind === 'number' && Number(node.right.value) > 0) return this.factors(node.left);
+    return [node];
+  }
+
+  // The numerator of a sum of quotients over the least common denominator of their polynomial denominators, built term by
+  // term because the CAS is slow to expand the whole; null when some denominator is not a polynomial
+  static numerator(node: ExpressionNode, x: string): string | null {
+    const quotients = OdeSolver.terms(node).map(term => this.quotient(term, x));
+    if (quotients.some(quotient => !quotient)) return null;
+    const common = new Map<string, number>();
+    for (const { denominator } of quotients as Quotient[]) {
+      denominator.forEach((power, base) => common.set(base, Math.max(power, common.get(base) ?? 0)));
+    }
+    const terms = (quotients as Quotient[]).map(({ numerator, denominator }) =>
+      [...numerator, ...[...common].map(([base, power]) => `(${base})^${power - (denominator.get(base) ?? 0)}`)].join('*'));
+    try {
+      return cas(`expand(${terms.join('+')})`);
+    } catch {
+      return null;
+    }
+  }
+
+  // Factors of a term above and below the line, the polynomials below keyed by base with their powers
+  static quotient(node: ExpressionNode, x: string, quotient: Quotient = { numerator: ['1'], denominator: new Map() }, exponent = 1): Quotient | null {
+    if (node.kind === 'unary' && node.operator === '-') {
+      quotient.numerator.push('(-1)');
+      return this.quotient(node.operand, x, quotient, exponent);
+    }
+    if (node.kind === 'binary' && (node.operator === '*' || node.operator === '/')) {
+      return this.quotient(node.left, x, quotient, exponent) && this.quotient(node.right, x, quotient, node.operator === '/' ? -exponent : exponent);
+    }
+    let base: ExpressionNode = node;
+    let power = exponent;
+    if (node.kind === 'binary' && node.operator === '^' && ExpressionParser.variables(node.right).length === 0) {
+      const k = evaluateNumeric(ExpressionParser.print(node.right));
+      if (Number.isInteger(k)) [base, power] = [node.left, exponent * k];
+    }
+    const text = ExpressionParser.print(base);
+    // Anything may stand above the line, so long as it hides no further quotient
+    if (power > 0 && !EquationSolver.denominators(text, x).length) quotient.numerator.push(`(${text})^${power}`);
+    else if (power < 0 && isPolynomial(text, x)) quotient.denominator.set(text, (quotient.denominator.get(text) ?? 0) - power);
+    else if (power !== 0) return null;
+    return quotient;
+  }
+
+  static exactZeros(expression: string, x: string, scanned: [number, number][]): Mark[] {
+    try {
+      const { roots, searched } = EquationSolver.derive({ left: expression, right: '0', variable: x });
+      if (searched) scanned.push(searched);
+      return roots.filter(root => root.real).map(root => {
+        const exact = evaluateNumeric(root.value);
+        const value = Number.isFinite(exact) ? exact : evaluateNumeric(root.decimal);
+        return { text: root.approximate ? String(Number(value.toPrecision(12))) : root.value, value };
+      });
+    } catch {
+      return [];
+    }
+  }
+
+  // Sign changes on the scan window refined by bisection; a jump across a pole is not a root
+  static scan(g: (value: number) => number, scanned: [number, number][]): Mark[] {
+    const [a, b] = SCAN_WINDOW;
+    scanned.push(SCAN_WINDOW);
+    return bracketRoots(g, a, b)
+      .map(([l, r]) => (l === r ? l : bisection(g, l, r).value))
+      .filter(root => Math.abs(g(root)) <= 1e-8 * Math.max(1, Math.abs(g(root - 1e-3)), Math.abs(g(root + 1e-3))))
+      .map(root => {
+        // As with the sign chart, prefer a short decimal that is as good, so that 0 is not shown as 1e-17
+        const rounded = Number(root.toFixed(6));
+        const value = Math.abs(g(rounded)) <= Math.abs(g(root)) + 1e-14 ? rounded : Number(root.toPrecision(12));
+        return { text: String(value), value };
+      });
+  }
+
+  // Sorted, without repeats or non-numeric values
+  static distinct(marks: Mark[]): Mark[] {
+    const sorted = marks.filter(mark => Number.isFinite(mark.value)).sort((a, b) => a.value - b.value);
+    return sorted.filter((mark, i) => i === 0 || !this.same(mark.value, sorted[i - 1].value));
+  }
+
+  static same(a: number, b: number): boolean {
+    return Math.abs(a - b) <= SAME_POINT * Math.max(1, Math.abs(a));
+  }
+
+  // The marks strictly inside an interval of the domain
+  static interior(pieces: Piece[], marks: Mark[]): Mark[] {
+    return this.distinct(marks).filter(mark => pieces.some(piece =>
+      (!piece.lower || mark.value > piece.lower.value && !this.same(mark.value, piece.lower.value))
+      && (!piece.upper || mark.value < piece.upper.value && !this.same(mark.value, piece.upper.value))));
+  }
+
+  static contains(pieces: Piece[], value: number): boolean {
+    return pieces.some(({ lower, upper, lowerClosed, upperClosed }) =>
+      (!lower || value > lower.value || (lowerClosed && this.same(value, lower.value)))
+      && (!upper || value < upper.value || (upperClosed && this.same(value, upper.value))));
+  }
+
+  // A sample point strictly between two marks, either of which may be infinite
+  static between(lower?: Mark, upper?: Mark): number {
+    if (lower && upper) return (lower.value + upper.value) / 2;
+    if (lower) return lower.value + 1;
+    if (upper) return upper.value - 1;
+    return 0;
+  }
+
+  // The points strictly inside the region, plus any sign changes of g between them that the equation solver missed
+  static refine(g: (value: number) => number, pieces: Piece[], points: Mark[]): Mark[] {
+    const inside = this.interior(pieces, points);
+    const missed = pieces.flatMap(piece => {
+      const edges = [piece.lower, ...this.interior([piece], inside), piece.upper];
+      return edges.slice(1).flatMap((upper, i) => this.signChanges(g, edges[i], upper));
+    });
+    return this.distinct([...inside, ...missed]);
+  }
+
+  // Sample points spread across an interval, reaching far out along infinite ends
+  static samples(lower?: Mark, upper?: Mark): number[] {
+    if (lower && upper) return SUBDIVISIONS.map(t => lower.value + (upper.value - lower.value) * t);
+    if (lower) return OFFSETS.map(h => lower.value + h);
+    if (upper) return OFFSETS.map(h => upper.value - h).reverse();
+    return [...OFFSETS.map(h => -h).reverse(), 0, ...OFFSETS];
+  }
+
+  // Roots of g located by bisection wherever the samples change sign; jumps across a pole are discarded
+  static signChanges(g: (value: number) => number, lower?: Mark, upper?: Mark): Mark[] {
+    const points = this.samples(lower, upper).filter(value => this.sign(g(value)) !== 0);
+    return points.slice(1).flatMap((b, i) => {
+      let a = points[i];
+      if (this.sign(g(a)) === this.sign(g(b))) return [];
+      let high = b;
+      for (let k = 0; k < BISECTIONS; k++) {
+        const middle = (a + high) / 2;
+        if (this.sign(g(middle)) === this.sign(g(a))) a = middle;
+        else high = middle;
+      }
+      // Rounding error leaves bisection just short of roots such as 0, so prefer a short decimal that is as good
+      const scale = Math.max(1, Math.abs(g(points[i])), Math.abs(g(b)));
+      const rounded = Number(a.toFixed(6));
+      const root = Math.abs(g(rounded)) <= 1e-12 * scale ? rounded : Number(a.toPrecision(12));
+      return Math.abs(g(root)) <= 1e-6 * scale ? [{ text: String(root), value: root }] : [];
+    });
+  }
+
+  // Sign of g on each interval between consecutive points, merging neighbours of the same sign
+  static signChart(g: (value: number) => number, pieces: Piece[], points: Mark[]): Run[] {
+    return pieces.flatMap(piece => {
+      const inside = this.interior([piece], points);
+      const edges = [piece.lower, ...inside, piece.upper];
+      const runs: Run[] = [];
+      for (let i = 0; i + 1 < edges.length; i++) {
+        const [lower, upper] = [edges[i], edges[i + 1]];
+        const sign = this.sign(g(this.between(lower, upper)));
+        const previous = runs[runs.length - 1];
+        if (previous && previous.sign === sign) {
+          previous.upper = upper;
+        } else {
+          runs.push({ lower, upper, sign });
+        }
+      }
+      return runs;
+    });
+  }
+
+  // Signs of g just left and right of a point, sampled halfway to the neighbouring points
+  static sides(g: (value: number) => number, mark: Mark, points: Mark[], pieces: Piece[]): [number, number] {
+    const piece = pieces.find(candidate => this.interior([candidate], [mark]).length)!;
+    const inside = this.interior([piece], points);
+    const index = inside.findIndex(point => this.same(point.value, mark.value));
+    const left = index > 0 ? inside[index - 1] : piece.lower;
+    const right = index + 1 < inside.length ? inside[index + 1] : piece.upper;
+    return [this.sign(g(this.between(left, mark))), this.sign(g(this.between(mark, right)))];
+  }
+
+  static sign(value: number): number {
+    return !Number.isFinite(value) || Math.abs(value) <= ZERO_SIGN ? 0 : Math.sign(value);
+  }
+
+  static signWord(sign: number): string {
+    return sign > 0 ? 'positive' : sign < 0 ? 'negative' : 'zero';
+  }
+
+  static intervals(runs: Run[], sign: number): string[] {
+    return runs.filter(run => run.sign === sign).map(run => `(${run.lower ? displayValue(run.lower.text) : '-∞'}, ${run.upper ? displayValue(run.upper.text) : '∞'})`);
+  }
+
+  static notation(pieces: Piece[]): string {
+    return pieces.map(({ lower, upper, lowerClosed, upperClosed }) =>
+      `${lowerClosed ? '[' : '('}${lower ? displayValue(lower.text) : '-∞'}, ${upper ? displayValue(upper.text) : '∞'}${upperClosed ? ']' : ')'}`).join(' ∪ ');
+  }
+
+  // "Increasing on (-∞, -1) ∪ (1, ∞); decreasing on (-1, 1)", leaving out labels with no intervals
+  static list(labelled: [string, string[]][], otherwise: string): string {
+    const parts = labelled.filter(([, intervals]) => intervals.length).map(([label, intervals]) => `${label} on ${intervals.join(' ∪ ')}`);
+    if (!parts.length) return otherwise;
+    const text = parts.join('; ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  static isDecimal(text: string): boolean {
+    return /^-?\d*\.\d+$/.test(text);
+  }
+
+  // f at a point, exactly for exact points and as a decimal for approximate ones
+  static valueAt(f: string, x: string, mark: Mark): string {
+    const decimal = this.numeric(f, x)(mark.value);
+    if (!this.isDecimal(mark.text)) {
+      try {
+        const exact = cas(`simplify(subst((${mark.text}),${x},${f}))`);
+        if (!exact.includes('...') && Math.abs(evaluateNumeric(exact) - decimal) <= 1e-8 * Math.max(1, Math.abs(decimal))) return exact;
+      } catch {
+        // fall through to the decimal value
+      }
+    }
+    return formatDecimal(decimal);
+  }
+
+  // Vertical asymptotes at the open ends of the domain, horizontal or oblique ones as x → ±∞
+  static asymptotes(f: string, x: string, pieces: Piece[], push: Push): CurveAnalysis['asymptotes'] {
+    const vertical: string[] = [];
+    for (const { lower, upper, lowerClosed, upperClosed } of pieces) {
+      const ends: [Mark | undefined, boolean, LimitDirection][] = [[lower, lowerClosed, 'right'], [upper, upperClosed, 'left']];
+      for (const [mark, closed, direction] of ends) {
+        if (!mark || closed || vertical.includes(mark.text)) continue;
+        const limit = this.limit(f, x, mark.text, direction);
+        if (limit.kind !== 'infinite') continue;
+        vertical.push(mark.text);
+        push(`lim ${x}→${displayValue(mark.text)}${direction === 'right' ? '⁺' : '⁻'} f(${x}) = ${LimitSolver.format(limit)}`,
+          `f is unbounded near ${x} = ${displayValue(mark.text)}, so ${x} = ${displayValue(mark.text)} is a vertical asymptote`, 'Asymptotes');
+      }
+    }
+
+    const horizontal: string[] = [];
+    const oblique: string[] = [];
+    const ends: [string, boolean][] = [['infinity', !pieces[pieces.length - 1].upper], ['-infinity', !pieces[0].lower]];
+    for (const [point, unbounded] of ends) {
+      if (!unbounded) continue;
+      const limit = this.limit(f, x, point, 'both');
+      if (limit.kind === 'finite') {
+        const line = `y = ${limit.value}`;
+        push(`lim ${x}→${displayValue(point)} f(${x}) ${LimitSolver.equals(limit)}`,
+          horizontal.includes(line) ? `The same horizontal asymptote as ${x} → ${displayValue(point).replace(/^-/, '')}` : `${line} is a horizontal asymptote`, 'Asymptotes');
+        if (!horizontal.includes(line)) horizontal.push(line);
+        continue;
+      }
+      if (limit.kind !== 'infinite') continue;
+
+      const slope = this.limit(`(${f})/${x}`, x, point, 'both');
+      if (slope.kind !== 'finite' || slope.approximate || slope.value === '0') continue;
+      const intercept = this.limit(`(${f})-(${slope.value})*${x}`, x, point, 'both');
+      if (intercept.kind !== 'finite' || intercept.approximate) continue;
+      const line = `y = ${cas(`(${slope.value})*${x}+(${intercept.value})`)}`;
+      push(`m = lim ${x}→${displayValue(point)} f(${x})/${x} = ${slope.value}, b = lim ${x}→${displayValue(point)} (f(${x}) - ${cas(`(${slope.value})*${x}`)}) = ${intercept.value}`,
+        oblique.includes(line) ? `The same oblique asymptote as ${x} → ${displayValue(point).replace(/^-/, '')}` : `${line} is an oblique (slant) asymptote`, 'Asymptotes');
+      if (!oblique.includes(line)) oblique.push(line);
+    }
+
+    if (!vertical.length && !horizontal.length && !oblique.length) {
+      push('none', 'The graph has no vertical, horizontal or oblique asymptotes', 'Asymptotes');
+    }
+    return { vertical: vertical.map(text => `${x} = ${text}`), horizontal, oblique };
+  }
+
+  static limit(f: string, x: string, point: string, direction: LimitDirection): LimitValue {
+    try {
+      return LimitSolver.compute(f, { expression: f, variable: x, point, direction }, [], 0);
+    } catch {
+      return LimitSolver.probe(f, x, point, direction);
+    }
+  }
+
+  // The closed interval [a, b], which must lie within one interval of the domain
+  static restrict(pieces: Piece[], lower: string, upper: string): Piece[] {
+    const [a, b] = [lower, upper].map(text => ({ text, value: evaluateNumeric(text) }));
+    if (!pieces.some(piece => this.contains([piece], a.value) && this.contains([piece], b.value))) {
+      throw new Error(`f is not defined and continuous on all of [${displayValue(lower)}, ${displayValue(upper)}], so it need not have absolute extrema there`);
+    }
+    return [{ lower: a, upper: b, lowerClosed: true, upperClosed: true }];
+  }
+
+  // Closed Interval Method: compare f at the endpoints and at the critical numbers inside [a, b]
+  static extrema(
+    f: string,
+    x: string,
+    lower: string,
+    upper: string,
+    criticalPoints: CriticalPoint[],
+    push: Push
+  ): NonNullable<CurveAnalysis['extrema']> {
+    const [a, b] = [lower, upper].map(text => ({ text, value: evaluateNumeric(text) }));
+    const interval = `[${displayValue(lower)}, ${displayValue(upper)}]`;
+    const inside = criticalPoints.map(point => ({ text: point.x, value: evaluateNumeric(point.x) }));
+    const candidates = [a, ...inside, b].map(mark => ({ x: mark.text, y: this.valueAt(f, x, mark), value: this.numeric(f, x)(mark.value) }));
+    push(candidates.map(candidate => `f(${displayValue(candidate.x)}) = ${candidate.y}`).join(', '),
+      `Evaluate f at the endpoints of ${interval}${inside.length ? ' and at the critical numbers inside it' : ''}`, 'Closed Interval Method');
+
+    const values = candidates.map(candidate => candidate.value);
+    const [largest, smallest] = [Math.max(...values), Math.min(...values)];
+    const at = (target: number) => candidates
+      .filter(candidate => this.same(candidate.value, target))
+      .map(({ x: point, y }) => ({ x: point, y }));
+    const maximum = at(largest);
+    const minimum = at(smallest);
+    const describe = (points: CurvePoint[]) => `${points[0].y} at ${x} = ${points.map(point => displayValue(point.x)).join(', ')}`;
+    push(`Absolute maximum ${describe(maximum)}; absolute minimum ${describe(minimum)}`,
+      `The largest and smallest of these values are the absolute extrema on ${interval}`, 'Closed Interval Method');
+    return { interval: [lower, upper], maximum, minimum };
+  }
+
+  // One line naming the extrema and inflection points
+  static summary(analysis: CurveAnalysis): string {
+    const point = (p: CurvePoint) => `(${displayValue(p.x)}, ${p.y})`;
+    const parts = (['local maximum', 'local minimum'] as const).flatMap(kind => {
+      const points = analysis.criticalPoints.filter(p => p.kind === kind);
+      return points.length ? [`${kind} at ${points.map(point).join(', ')}`] : [];
+    });
+    if (analysis.inflectionPoints.length) {
+      parts.push(`inflection at ${analysis.inflectionPoints.map(point).join(', ')}`);
+    }
+    if (analysis.extrema) {
+      const { maximum, minimum } = analysis.extrema;
+      parts.push(`absolute maximum ${maximum[0].y}, absolute minimum ${minimum[0].y} on [${analysis.extrema.interval.map(displayValue).join(', ')}]`);
+    }
+    const text = parts.length ? parts.join('; ') : 'no local extrema or inflection points';
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+}
@@ -0,0 +1,331 @@
+import type { CalculusStep } from './calculusEngine';
+import { cas, evaluateNumeric, freeVariables, toAlgebrite } from './expressionUtils';
+import { ExpressionParser, type ExpressionNode } from './expressionParser';
+import { SolutionVerifier } from './solutionVerifier';
+
+export interface DerivativeTrace {
+  input: string;
+  result: string;
+  steps: CalculusStep[];
+  rules: string[];
+  // False when no rule-by-rule derivation could be produced and the steps only report the CAS result
+  traced: boolean;
+}
+
+interface TraceContext {
+  variable: string;
+  steps: CalculusStep[];
+  rules: Set<string>;
+}
+
+interface FunctionRule {
+  rule: string;
+  formula: string;
+  outer: (u: string) => string;
+}
+
+// Parenthesize anything but a bare symbol or number before it is raised to a power
+const group = (u: string) => (/^[\w.]+$/.test(u) ? u : `(${u})`);
+
+// Derivatives of the elementary functions, written for an inner argument u
+const FUNCTION_RULES: Record<string, FunctionRule> = {
+  sin: { rule: 'Trigonometric Rule', formula: "sin(u)′ = cos(u)·u′", outer: u => `cos(${u})` },
+  cos: { rule: 'Trigonometric Rule', formula: "cos(u)′ = −sin(u)·u′", outer: u => `-sin(${u})` },
+  tan: { rule: 'Trigonometric Rule', formula: "tan(u)′ = sec²(u)·u′", outer: u => `1/cos(${u})^2` },
+  sec: { rule: 'Trigonometric Rule', formula: "sec(u)′ = sec(u)tan(u)·u′", outer: u => `sin(${u})/cos(${u})^2` },
+  csc: { rule: 'Trigonometric Rule', formula: "csc(u)′ = −csc(u)cot(u)·u′", outer: u => `-cos(${u})/sin(${u})^2` },
+  cot: { rule: 'Trigonometric Rule', formula: "cot(u)′ = −csc²(u)·u′", outer: u => `-1/sin(${u})^2` },
+  asin: { rule: 'Inverse Trigonometric Rule', formula: "arcsin(u)′ = u′/√(1−u²)", outer: u => `1/sqrt(1-${group(u)}^2)` },
+  acos: { rule: 'Inverse Trigonometric Rule', formula: "arccos(u)′ = −u′/√(1−u²)", outer: u => `-1/sqrt(1-${group(u)}^2)` },
+  atan: { rule: 'Inverse Trigonometric Rule', formula: "arctan(u)′ = u′/(1+u²)", outer: u => `1/(1+${group(u)}^2)` },
+  sinh: { rule: 'Hyperbolic Rule', formula: "sinh(u)′ = cosh(u)·u′", outer: u => `cosh(${u})` },
+  cosh: { rule: 'Hyperbolic Rule', formula: "cosh(u)′ = sinh(u)·u′", outer: u => `sinh(${u})` },
+  tanh: { rule: 'Hyperbolic Rule', formula: "tanh(u)′ = (1−tanh²(u))·u′", outer: u => `1-tanh(${u})^2` },
+  exp: { rule: 'Exponential Rule', formula: "(eᵘ)′ = eᵘ·u′", outer: u => `exp(${u})` },
+  log: { rule: 'Logarithmic Rule', formula: "ln(u)′ = u′/u", outer: u => `1/${group(u)}` },
+  log10: { rule: 'Logarithmic Rule', formula: "log₁₀(u)′ = u′/(u·ln 10)", outer: u => `1/(${group(u)}*log(10))` },
+  sqrt: { rule: 'Power Rule', formula: "√u′ = u′/(2√u)", outer: u => `1/(2*sqrt(${u}))` },
+  abs: { rule: 'Absolute Value Rule', formula: "|u|′ = (u/|u|)·u′", outer: u => `${group(u)}/abs(${u})` },
+};
+// Other spellings the parser keeps as written
+const FUNCTION_ALIASES: Record<string, string> = { arcsin: 'asin', arccos: 'acos', arctan: 'atan', ln: 'log' };
+
+// Longest intermediate derivative simplified along the way; larger ones are left to the CAS-only report
+const STEP_LENGTH = 300;
+// Longest pair of derivatives still handed to Algebrite's simplify when too few sample points are usable
+const SYMBOLIC_CHECK_LENGTH = 200;
+
+export class DerivativeTracer {
+  // Differentiate by walking the expression tree, recording every rule applied along the way
+  static trace(expr: string, variable: string): DerivativeTrace {
+    const result = cas(`d(${expr},${variable})`);
+
+    try {
+      const context: TraceContext = { variable, steps: [], rules: new Set() };
+      const node = ExpressionParser.parse(expr);
+      const traced = this.differentiate(node, context);
+
+      // Only present the derivation if it really reproduces Algebrite's answer
+      if (this.agrees(traced, result, variable)) {
+        if (context.steps.length === 0) {
+          context.steps.push({
+            step: '1',
+            expression: `d/d${variable}(${expr}) = ${result}`,
+            explanation: result === '0' ? 'Constant rule: the derivative of a constant is 0' : `Identity rule: d/d${variable}(${variable}) = 1`,
+            method: result === '0' ? 'Constant Rule' : 'Identity Rule'
+          });
+        }
+        const rules = [...context.rules, ...context.steps.map(step => step.method).filter(Boolean)];
+        return { input: expr, result, steps: context.steps, rules: [...new Set(rules)], traced: true };
+      }
+    } catch {
+      // Unsupported node or function: fall through to the honest CAS-only report
+    }
+
+    return {
+      input: expr,
+      result,
+      steps: [
+        {
+          step: '1',
+          expression: `d/d${variable}(${expr}) = ${result}`,
+          explanation: 'CAS result; no rule-by-rule derivation is available for this expression'
+        }
+      ],
+      rules: [],
+      traced: false
+    };
+  }
+
+  // Numeric agreement at sample points; simplifying the difference symbolically is only attempted for short expressions
+  static agrees(traced: string, result: string, variable: string): boolean {
+    const { status } = SolutionVerifier.compareAtRandomPoints(
+      [...new Set([...freeVariables(traced), ...freeVariables(result), variable])],
+      scope => [evaluateNumeric(traced, scope), evaluateNumeric(result, scope)],
+      1e-8,
+      count => `Compared at ${count} random points`,
+      'CAS'
+    );
+    if (status !== 'unverified') return status === 'verified';
+    return traced.length + result.length <= SYMBOLIC_CHECK_LENGTH && cas(`simplify((${traced})-(${result}))`) === '0';
+  }
+
+  static differentiate(node: ExpressionNode, context: TraceContext): string {
+    const { variable } = context;
+
+    if (!ExpressionParser.mentions(node, variable)) return '0';
+    if (node.kind === 'symbol') return '1';
+    if (node.kind === 'unary') return cas(`-(${this.differentiate(node.operand, context)})`);
+
+    if (node.kind === 'binary') {
+      switch (node.operator) {
+        case '+':
+        case '-':
+          return this.sumRule(node, context);
+        case '*':
+          return this.productRule(node, context);
+        case '/':
+          return this.quotientRule(node.left, node.right, node, context);
+        case '^':
+          return this.powerRule(node.left, node.right, node, context);
+      }
+    }
+
+    if (node.kind === 'call') {
+      return this.functionRule(this.functionName(node.name), node.args, node, context);
+    }
+
+    throw new Error(`Unsupported expression: ${ExpressionParser.print(node)}`);
+  }
+
+  static sumRule(node: ExpressionNode, context: TraceContext): string {
+    const terms: Array<{ sign: string; node: ExpressionNode }> = [];
+    const collect = (current: ExpressionNode, sign: string) => {
+      if (current.kind === 'binary' && (current.operator === '+' || current.operator === '-')) {
+        collect(current.left, sign);
+        collect(current.right, current.operator === '-' ? (sign === '+' ? '-' : '+') : sign);
+      } else {
+        terms.push({ sign, node: current });
+      }
+    };
+    collect(node, '+');
+
+    const derivatives = terms.map(term => this.differentiate(term.node, context));
+    const joined = (parts: string[]) =>
+      parts.map((part, i) => `${i === 0 ? (terms[i].sign === '-' ? '-' : '') : ` ${terms[i].sign} `}${part}`).join('');
+    const raw = joined(derivatives.map(derivative => this.wrap(derivative)));
+    const result = this.simplify(raw);
+
+    this.record(context, `${this.d(node, context)} = ${joined(terms.map(term => this.d(term.node, context)))} = ${raw}`,
+      "Sum rule: differentiate term by term, (u ± v)′ = u′ ± v′", 'Sum Rule');
+    return result;
+  }
+
+  static productRule(node: ExpressionNode, context: TraceContext): string {
+    const factors: ExpressionNode[] = [];
+    const collect = (current: ExpressionNode) => {
+      if (current.kind === 'binary' && current.operator === '*') [current.left, current.right].forEach(collect);
+      else factors.push(current);
+    };
+    collect(node);
+
+    const constants = factors.filter(factor => !ExpressionParser.mentions(factor, context.variable));
+    const variables = factors.filter(factor => ExpressionParser.mentions(factor, context.variable));
+    const constant = constants.map(factor => this.print(factor)).join('*');
+
+    let derivative: string;
+    if (variables.length === 1) {
+      derivative = this.differentiate(variables[0], context);
+    } else {
+      const derivatives = variables.map(factor => this.differentiate(factor, context));
+      const terms = variables.map((_, i) =>
+        variables.map((factor, j) => (i === j ? this.wrap(derivatives[i]) : this.wrap(this.print(factor)))).join('*')
+      );
+      const raw = terms.join(' + ');
+      derivative = this.simplify(raw);
+      const product = variables.map(factor => this.wrap(this.print(factor))).join('*');
+      this.record(context, `d/d${context.variable}(${product}) = ${raw}`,
+        variables.length === 2
+          ? "Product rule: (uv)′ = u′v + uv′"
+          : "Product rule: differentiate one factor at a time, keeping the others fixed",
+        'Product Rule');
+    }
+
+    if (!constant) return derivative;
+
+    const raw = `${this.wrap(constant)}*${this.wrap(derivative)}`;
+    const result = this.simplify(raw);
+    this.record(context, `${this.d(node, context)} = ${constant}·d/d${context.variable}(${variables.map(factor => this.print(factor)).join('*')}) = ${raw}`,
+      'Constant multiple rule: (c·u)′ = c·u′', 'Constant Multiple Rule');
+    return result;
+  }
+
+  static quotientRule(numerator: ExpressionNode, denominator: ExpressionNode, node: ExpressionNode, context: TraceContext): string {
+    const { variable } = context;
+    const u = this.print(numerator);
+    const v = this.print(denominator);
+
+    if (!ExpressionParser.mentions(denominator, variable)) {
+      const du = this.differentiate(numerator, context);
+      const raw = `${this.wrap(du)}/${this.wrap(v)}`;
+      this.record(context, `${this.d(node, context)} = (1/${this.wrap(v)})·d/d${variable}(${u}) = ${raw}`,
+        'Constant multiple rule: dividing by a constant divides the derivative', 'Constant Multiple Rule');
+      return this.simplify(raw);
+    }
+
+    const du = this.differentiate(numerator, context);
+    const dv = this.differentiate(denominator, context);
+    const raw = `(${this.wrap(du)}*${this.wrap(v)} - ${this.wrap(u)}*${this.wrap(dv)})/${group(v)}^2`;
+    this.record(context, `${this.d(node, context)} = ${raw}`, "Quotient rule: (u/v)′ = (u′v − uv′)/v²", 'Quotient Rule');
+    return this.simplify(raw);
+  }
+
+  static powerRule(base: ExpressionNode, exponent: ExpressionNode, node: ExpressionNode, context: TraceContext): string {
+    const { variable } = context;
+    const u = this.print(base);
+    const n = this.print(exponent);
+    const baseVaries = ExpressionParser.mentions(base, variable);
+    const exponentVaries = ExpressionParser.mentions(exponent, variable);
+    const plainBase = base.kind === 'symbol' && base.name === variable;
+
+    if (!exponentVaries) {
+      const du = plainBase ? '1' : this.differentiate(base, context);
+      const lowered = cas(`${n}-1`);
+      const power = lowered === '1' ? `${this.wrap(n)}*${this.wrap(u)}` : `${this.wrap(n)}*${this.wrap(u)}^${/^\d+$/.test(lowered) ? lowered : `(${lowered})`}`;
+      const raw = plainBase ? power : `${power}*${this.wrap(du)}`;
+      this.record(context, `${this.d(node, context)} = ${raw}`, plainBase
+        ? "Power rule: (xⁿ)′ = n·xⁿ⁻¹"
+        : `Power rule with the chain rule (u = ${u}): (uⁿ)′ = n·uⁿ⁻¹·u′`, 'Power Rule');
+      if (!plainBase) context.rules.add('Chain Rule');
+      return this.simplify(raw);
+    }
+
+    if (!baseVaries) {
+      const dv = this.differentiate(exponent, context);
+      const natural = base.kind === 'symbol' && base.name === 'e';
+      const raw = natural
+        ? `exp(${n})*${this.wrap(dv)}`
+        : `${this.wrap(u)}^${this.wrap(n)}*log(${u})*${this.wrap(dv)}`;
+      this.record(context, `${this.d(node, context)} = ${raw}`, natural
+        ? "Exponential rule: (eᵘ)′ = eᵘ·u′"
+        : "Exponential rule: (aᵘ)′ = aᵘ·ln(a)·u′", 'Exponential Rule');
+      return this.simplify(raw);
+    }
+
+    const du = this.differentiate(base, context);
+    const dv = this.differentiate(exponent, context);
+    const raw = `${this.wrap(u)}^${this.wrap(n)}*(${this.wrap(dv)}*log(${u}) + ${this.wrap(n)}*${this.wrap(du)}/${this.wrap(u)})`;
+    this.record(context, `${this.d(node, context)} = ${raw}`,
+      "Logarithmic differentiation: (uᵛ)′ = uᵛ·(v′·ln(u) + v·u′/u)", 'Logarithmic Differentiation');
+    return this.simplify(raw);
+  }
+
+  static functionRule(name: string, args: ExpressionNode[], node: ExpressionNode, context: TraceContext): string {
+    const { variable } = context;
+
+    if (name === 'log' && args.length === 2) {
+      const base = this.print(args[1]);
+      const rewritten = ExpressionParser.parse(`log(${this.print(args[0])})/log(${base})`);
+      this.record(context, `${this.d(node, context)} = d/d${variable}(log(${this.print(args[0])})/log(${base}))`,
+        'Change of base: logₐ(u) = ln(u)/ln(a)', 'Logarithmic Rule');
+      return this.differentiate(rewritten, context);
+    }
+
+    const rule = FUNCTION_RULES[name];
+    if (!rule || args.length !== 1) {
+      throw new Error(`No differentiation rule for ${name}`);
+    }
+
+    const [argument] = args;
+    const u = this.print(argument);
+    const outer = rule.outer(u);
+    const label = rule.rule.charAt(0) + rule.rule.slice(1).toLowerCase();
+
+    if (argument.kind === 'symbol' && argument.name === variable) {
+      this.record(context, `${this.d(node, context)} = ${outer}`, `${label}: ${rule.formula} with u = ${variable}`, rule.rule);
+      return cas(outer);
+    }
+
+    const du = this.differentiate(argument, context);
+    const raw = `${this.wrap(outer)}*${this.wrap(du)}`;
+    this.record(context, `${this.d(node, context)} = ${raw}`, `${label} with the chain rule (u = ${u}): ${rule.formula}`, rule.rule);
+    context.rules.add('Chain Rule');
+    return this.simplify(raw);
+  }
+
+  // Simplify an intermediate derivative, giving up on the derivation once it grows too large to simplify quickly
+  static simplify(raw: string): string {
+    if (raw.length > STEP_LENGTH) throw new Error('The intermediate derivative is too large to trace');
+    return cas(raw);
+  }
+
+  // The name a function's rule is filed under, whichever spelling was used
+  static functionName(name: string): string {
+    return FUNCTION_ALIASES[name] ?? name;
+  }
+
+  static record(context: TraceContext, expression: string, explanation: string, method: string) {
+    context.rules.add(method);
+    context.steps.push({ step: String(context.steps.length + 1), expression, explanation, method });
+  }
+
+  static d(node: ExpressionNode, context: TraceContext): string {
+    return `d/d${context.variable}(${this.print(node)})`;
+  }
+
+  // Compact Algebrite-style rendering of a parsed node, with ln written as log
+  static print(node: ExpressionNode): string {
+    return toAlgebrite(ExpressionParser.print(node)).replace(/\bln\(/g, 'log(').replace(/\s+/g, '');
+  }
+
+  // Parenthesize an expression with a top-level sum or difference before it is multiplied or raised
+  static wrap(expr: string): string {
+    let depth = 0;
+    for (const char of expr) {
+      if (char === '(') depth++;
+      if (char === ')') depth--;
+      if (depth === 0 && (char === '+' || char === '-')) return `(${expr})`;
+    }
+    return expr;
+  }
+}
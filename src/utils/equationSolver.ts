@@ -0,0 +1,809 @@
+import * as mathsteps from 'mathsteps';
+import { complex } from 'mathjs';
+import type { CalculusSolution, CalculusStep } from './calculusEngine';
+import { recordSteps } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { cas, evaluateNumeric, formatDecimal, freeVariables, isFreeOf, isPolynomial, numericFunction } from './expressionUtils';
+import { ExpressionParser, ParseError, type ExpressionNode } from './expressionParser';
+import { bisection, bracketRoots, polynomialRoots, type ComplexRoot } from './numericalMethods';
+import { PolynomialSolver } from './polynomialSolver';
+
+export interface EquationSpec {
+  left: string;
+  right: string;
+  variable: string;
+}
+
+export interface EquationRoot {
+  // Exact form, or the decimal itself when the root could only be approximated
+  value: string;
+  // Decimal form, a + bi for complex roots
+  decimal: string;
+  real: boolean;
+  approximate: boolean;
+  multiplicity: number;
+}
+
+export interface EquationDerivation {
+  roots: EquationRoot[];
+  // Candidates that fail the original equation after squaring, clearing denominators or exponentiating
+  extraneous: string[];
+  // Every value of the variable satisfies the equation
+  identity: boolean;
+  // The interval searched numerically when no algebraic method applied
+  searched?: [number, number];
+  steps: CalculusStep[];
+  methods: string[];
+}
+
+interface Candidate {
+  value: string;
+  approximate: boolean;
+}
+
+// State shared while an equation is reduced to simpler ones
+interface Reduction {
+  steps: Omit<CalculusStep, 'step'>[];
+  // Set once a step may introduce roots the original equation does not have
+  check: boolean;
+  // Set once a step only holds for real values, as with square roots and logarithms
+  realOnly: boolean;
+  searched?: [number, number];
+}
+
+interface MathstepsStep {
+  changeType: string;
+  newEquation?: { ascii(): string };
+}
+
+const MAX_DEPTH = 6;
+const SCAN_INTERVAL: [number, number] = [-10, 10];
+const MAX_CANDIDATES_SHOWN = 16;
+// Stand-ins for the radical or logarithm being isolated, never shown to the user
+const PLACEHOLDER = 'isolatedterm';
+const SUBSTITUTION_SYMBOLS = ['u', 'w', 't', 's', 'v'];
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+export class EquationSolver {
+  // An equation, or solve(equation, x) naming the variable
+  static spec(node: ExpressionNode): EquationSpec {
+    let equation = node;
+    let variable: string | undefined;
+    if (node.kind === 'call' && node.name === 'solve') {
+      const [first, second] = node.args;
+      if (node.args.length !== 2 || second.kind !== 'symbol') {
+        throw new ParseError('Expected solve(equation, x)', node.position);
+      }
+      equation = first;
+      variable = second.name;
+    }
+    if (equation?.kind !== 'equation') {
+      throw new ParseError('Expected an equation such as x^2 - 4 = 0', equation?.position ?? node.position);
+    }
+
+    const variables = ExpressionParser.variables(equation);
+    variable ??= variables.length === 1 ? variables[0] : variables.includes('x') ? 'x' : undefined;
+    if (!variable) {
+      throw new ParseError(
+        variables.length ? 'Specify the variable to solve for, e.g. solve(a*t + b = 0, t)' : 'The equation has no variable to solve for',
+        equation.position
+      );
+    }
+    return { left: ExpressionParser.print(equation.left), right: ExpressionParser.print(equation.right), variable };
+  }
+
+  static solve(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    const spec = this.spec(node);
+    const derivation = this.derive(spec);
+    const { left, right, variable } = spec;
+    const { roots, identity } = derivation;
+
+    let verified;
+    if (identity) {
+      verified = SolutionVerifier.compareAtRandomPoints(
+        [...new Set([...freeVariables(left), ...freeVariables(right), variable])],
+        scope => [evaluateNumeric(left, scope), evaluateNumeric(right, scope)],
+        1e-9,
+        count => `Both sides agree at ${count} random points`,
+        'right side'
+      );
+    } else if (roots.length) {
+      verified = SolutionVerifier.roots(left, right, variable, roots.map(root => root.value));
+    } else {
+      verified = SolutionVerifier.unverified('There is no root to substitute back into the equation');
+    }
+
+    return {
+      original: expr,
+      result: this.describe(variable, derivation),
+      steps: derivation.steps,
+      type: 'Equation',
+      method: derivation.methods.length ? derivation.methods.join(' / ') : 'Algebraic Manipulation',
+      verified
+    };
+  }
+
+  // Roots in exact and decimal form, with extraneous candidates noted
+  static describe(variable: string, derivation: EquationDerivation): string {
+    const { roots, extraneous, identity, searched } = derivation;
+    if (identity) return 'All real numbers';
+    const extra = extraneous.length ? ` (extraneous: ${extraneous.map(value => `${variable} = ${value}`).join(', ')})` : '';
+    if (!roots.length) {
+      return (searched ? `No real root in [${searched[0]}, ${searched[1]}]` : 'No solution') + extra;
+    }
+    const window = searched ? ` (real roots in [${searched[0]}, ${searched[1]}] only)` : '';
+    return roots.map(root => this.format(variable, root)).join(', ') + window + extra;
+  }
+
+  static format(variable: string, root: EquationRoot): string {
+    const value = root.approximate
+      ? `${variable} ≈ ${root.decimal}`
+      : `${variable} = ${root.value}${root.decimal === root.value ? '' : ` ≈ ${root.decimal}`}`;
+    return root.multiplicity > 1 ? `${value} (multiplicity ${root.multiplicity})` : value;
+  }
+
+  // Reduce left = right to simpler equations until the roots can be read off, then check them
+  static derive(spec: EquationSpec): EquationDerivation {
+    const { left, right, variable: x } = spec;
+    const { steps, push, methods } = recordSteps();
+    push(`${left} = ${right}`, `Solve for ${x}`);
+
+    const difference = cas(`(${left})-(${right})`);
+    if (isFreeOf(difference, x)) {
+      const identity = difference === '0' || cas(`simplify(${difference})`) === '0';
+      push(
+        identity ? '0 = 0' : `${difference} = 0`,
+        identity
+          ? `The ${x} terms cancel and both sides are equal, so every ${x} is a solution`
+          : `The ${x} terms cancel and leave a false statement, so there is no solution`
+      );
+      return { roots: [], extraneous: [], identity, steps, methods: [...methods] };
+    }
+
+    const reduction: Reduction = { steps: [], check: false, realOnly: false };
+    const candidates = this.reduce(difference, x, reduction, 0);
+
+    // mathsteps shows the algebra for linear and rational equations; keep its steps when it reaches the same roots
+    const algebraic = this.mathstepsSteps(left, right, x, candidates);
+    if (algebraic) {
+      algebraic.forEach(step => push(step.expression, step.explanation, 'Algebraic Manipulation'));
+    } else {
+      if (right !== '0') push(`${difference} = 0`, 'Move every term to one side');
+      reduction.steps.forEach(step => push(step.expression, step.explanation, step.method));
+    }
+
+    // Merge repeated candidates into multiplicities
+    const merged = new Map<string, { candidate: Candidate; value: ComplexRoot | null; count: number }>();
+    for (const candidate of candidates) {
+      const value = SolutionVerifier.complexValue(candidate.value);
+      const key = value ? `${Math.round(value.re * 1e9) || 0},${Math.round(value.im * 1e9) || 0}` : candidate.value;
+      const entry = merged.get(key);
+      if (entry) entry.count++;
+      else merged.set(key, { candidate, value, count: 1 });
+    }
+
+    const roots: EquationRoot[] = [];
+    const extraneous: string[] = [];
+    for (const { candidate, value, count } of merged.values()) {
+      const valid = reduction.check || reduction.realOnly ? this.satisfies(left, right, x, value, reduction.realOnly) : true;
+      if (valid === false) {
+        extraneous.push(candidate.value);
+        continue;
+      }
+      const real = !value || Math.abs(value.im) <= 1e-12 * Math.max(1, Math.abs(value.re));
+      const decimal = !value ? candidate.value : real ? formatDecimal(value.re) : this.formatComplex(value);
+      roots.push({ value: candidate.value, decimal, real, approximate: candidate.approximate, multiplicity: count });
+    }
+    roots.sort((a, b) => this.order(a) - this.order(b) || (SolutionVerifier.complexValue(a.value)?.im ?? 0) - (SolutionVerifier.complexValue(b.value)?.im ?? 0));
+
+    if (extraneous.length) {
+      const listed = extraneous.map(value => `${x} = ${value}`).join(', ');
+      push(
+        listed,
+        `Check each candidate in the original equation: ${extraneous.length === 1 ? 'this one makes' : 'these make'} a side undefined or the sides unequal, so ${extraneous.length === 1 ? 'it is' : 'they are'} extraneous`,
+        'Extraneous Root Check'
+      );
+    } else if (reduction.check && roots.length) {
+      push(
+        roots.map(root => `${x} = ${root.value}`).join(', '),
+        'Check each candidate in the original equation: all of them satisfy it, so none is extraneous',
+        'Extraneous Root Check'
+      );
+    }
+
+    const derivation: EquationDerivation = {
+      roots,
+      extraneous,
+      identity: false,
+      searched: reduction.searched,
+      steps,
+      methods: [...methods]
+    };
+    // A numerical search only covers its interval, and periodic equations have further roots outside it
+    const { searched } = reduction;
+    push(
+      this.describe(x, derivation),
+      roots.length === 0
+        ? searched ? `No value in [${searched[0]}, ${searched[1]}] satisfies the equation` : 'No value satisfies the equation'
+        : searched
+          ? `The real solutions in [${searched[0]}, ${searched[1]}], in increasing order; any outside that interval were not searched for`
+          : roots.length === 1 ? 'The solution' : 'All solutions, real roots first in increasing order'
+    );
+    return derivation;
+  }
+
+  // Sort key: real roots by value, then complex roots by real part, then roots with no numeric value
+  static order(root: EquationRoot): number {
+    const value = SolutionVerifier.complexValue(root.value);
+    if (!value) return Number.MAX_VALUE;
+    return root.real ? value.re : 1e12 + value.re;
+  }
+
+  // Reduce expression = 0 for the variable, pushing steps, and return the candidate roots
+  static reduce(expression: string, variable: string, reduction: Reduction, depth: number): Candidate[] {
+    if (isFreeOf(expression, variable)) {
+      return [];
+    }
+    if (depth > MAX_DEPTH) {
+      return this.numerical(expression, variable, reduction);
+    }
+    if (isPolynomial(expression, variable)) {
+      return this.polynomial(cas(`expand(${expression})`), variable, reduction);
+    }
+
+    // The CAS cancels common factors, so add back any original denominator it dropped
+    let denominator = cas(`denominator(${expression})`);
+    const cancelled = this.denominators(expression, variable)
+      .filter(factor => !isFreeOf(cas(`denominator(simplify((${denominator})/(${factor})))`), variable));
+    if (cancelled.length) denominator = cas(`(${denominator})*${cancelled.map(factor => `(${factor})`).join('*')}`);
+    if (!isFreeOf(denominator, variable)) {
+      const numerator = cancelled.length ? cas(`expand((${expression})*(${denominator}))`) : cas(`numerator(${expression})`);
+      reduction.steps.push({
+        expression: `${numerator} = 0`,
+        explanation: `Multiply through by the common denominator ${denominator}, which cannot be 0 at a root`,
+        method: 'Clearing Denominators'
+      });
+      reduction.check = true;
+      return this.reduce(numerator, variable, reduction, depth + 1);
+    }
+
+    const node = ExpressionParser.parse(expression);
+    return this.isolateRadical(expression, node, variable, reduction, depth)
+      ?? this.substituteExponential(expression, node, variable, reduction, depth)
+      ?? this.substituteLogarithm(expression, node, variable, reduction, depth)
+      ?? this.combineLogarithms(expression, node, variable, reduction, depth)
+      ?? this.logarithmOfBothSides(node, variable, reduction, depth)
+      ?? this.numerical(expression, variable, reduction);
+  }
+
+  // Linear equations directly, quadratics by the formula, higher degrees by factoring
+  static polynomial(p: string, variable: string, reduction: Reduction): Candidate[] {
+    const degree = Number(cas(`deg(${p},${variable})`));
+    const coefficients = Array.from({ length: degree + 1 }, (_, k) => cas(`coeff(${p},${variable},${k})`));
+
+    let roots: Candidate[];
+    if (degree === 1) {
+      const root = cas(`-(${coefficients[0]})/(${coefficients[1]})`);
+      reduction.steps.push({ expression: `${variable} = ${root}`, explanation: `Solve the linear equation ${p} = 0 for ${variable}`, method: 'Linear Equation' });
+      roots = [{ value: root, approximate: false }];
+    } else if (degree === 2) {
+      roots = this.quadratic(coefficients, variable, reduction);
+    } else {
+      roots = this.higherDegree(p, variable, coefficients, reduction);
+    }
+
+    // A root of multiplicity m is also a root of the first m - 1 derivatives
+    const unique = [...new Map(roots.map(root => [root.value, root])).values()];
+    return unique.flatMap(root => {
+      let multiplicity = 1;
+      while (!root.approximate && multiplicity < degree && cas(`subst((${root.value}),${variable},d(${p},${variable},${multiplicity}))`) === '0') {
+        multiplicity++;
+      }
+      return Array<Candidate>(multiplicity).fill(root);
+    });
+  }
+
+  static quadratic(coefficients: string[], variable: string, reduction: Reduction): Candidate[] {
+    const [c, b, a] = coefficients;
+    const discriminant = cas(`(${b})^2-4*(${a})*(${c})`);
+    const sign = Math.sign(evaluateNumeric(discriminant));
+    const nature = sign > 0
+      ? ', which is positive, so there are two real roots'
+      : sign === 0
+        ? ', which is zero, so there is one repeated real root'
+        : sign < 0 ? ', which is negative, so the roots are complex conjugates' : '';
+    const roots = ['-', '+'].map(operator => cas(`(-(${b})${operator}sqrt(${discriminant}))/(2*(${a}))`));
+
+    reduction.steps.push(
+      { expression: `a = ${a}, b = ${b}, c = ${c}`, explanation: `Compare with a${variable}² + b${variable} + c = 0`, method: 'Quadratic Formula' },
+      { expression: `Δ = b² − 4ac = ${discriminant}`, explanation: `The discriminant${nature}` },
+      {
+        expression: `${variable} = (−b ± √Δ)/(2a)  ⇒  ${[...new Set(roots)].map(root => `${variable} = ${root}`).join(' or ')}`,
+        explanation: 'Apply the quadratic formula',
+        method: 'Quadratic Formula'
+      }
+    );
+    return roots.map(value => ({ value, approximate: false }));
+  }
+
+  // Factor out powers of the variable, divide out rational roots, then solve what remains
+  static higherDegree(p: string, variable: string, coefficients: string[], reduction: Reduction): Candidate[] {
+    const found: Candidate[] = [];
+    const degreeOf = (q: string) => Number(cas(`deg(${q},${variable})`));
+    let remaining = p;
+
+    const lowest = coefficients.findIndex(coefficient => coefficient !== '0');
+    if (lowest > 0) {
+      const power = lowest === 1 ? variable : `${variable}^${lowest}`;
+      remaining = cas(`quotient(${p},${power},${variable})`);
+      reduction.steps.push({ expression: `${power}*(${remaining}) = 0`, explanation: `Factor out ${power}, so ${variable} = 0 is a root`, method: 'Factoring' });
+      found.push({ value: '0', approximate: false });
+    }
+
+    const theorem = degreeOf(remaining) >= 3 ? this.rationalCandidates(remaining, variable) : null;
+    if (theorem) {
+      const { candidates, constant, leading } = theorem;
+      const shown = candidates.length > MAX_CANDIDATES_SHOWN ? [...candidates.slice(0, MAX_CANDIDATES_SHOWN), '…'] : candidates;
+      reduction.steps.push({
+        expression: `${variable} ∈ {${shown.join(', ')}}`,
+        explanation: `Rational root theorem: a rational root p/q has p dividing the constant term ${constant} and q dividing the leading coefficient ${leading}`,
+        method: 'Rational Root Theorem'
+      });
+      for (const candidate of candidates) {
+        while (degreeOf(remaining) >= 3 && cas(`subst((${candidate}),${variable},${remaining})`) === '0') {
+          const factor = cas(`${variable}-(${candidate})`);
+          const quotient = cas(`quotient(${remaining},${factor},${variable})`);
+          reduction.steps.push({
+            expression: `${remaining} = (${factor})*(${quotient})`,
+            explanation: `${variable} = ${candidate} makes the polynomial 0, so divide out (${factor}) by synthetic division`,
+            method: 'Synthetic Division'
+          });
+          found.push({ value: candidate, approximate: false });
+          remaining = quotient;
+        }
+        if (degreeOf(remaining) < 3) break;
+      }
+    }
+
+    const rest = degreeOf(remaining);
+    if (rest === 1 || rest === 2) return [...found, ...this.polynomial(remaining, variable, reduction)];
+    if (rest >= 3) return [...found, ...this.unfactorable(remaining, variable, reduction)];
+    return found;
+  }
+
+  // ±p/q for p dividing the constant term and q dividing the leading coefficient, once scaled to integers
+  static rationalCandidates(p: string, variable: string): { candidates: string[]; constant: number; leading: number } | null {
+    const degree = Number(cas(`deg(${p},${variable})`));
+    const coefficients = Array.from({ length: degree + 1 }, (_, k) => cas(`coeff(${p},${variable},${k})`));
+    const fractions = coefficients.map(coefficient => coefficient.match(/^(-?\d+)(?:\/(\d+))?$/));
+    if (fractions.some(fraction => !fraction)) return null;
+
+    const scale = fractions.reduce((lcm, fraction) => {
+      const denominator = Number(fraction[2] ?? 1);
+      return (lcm * denominator) / gcd(lcm, denominator);
+    }, 1);
+    const integers = fractions.map(fraction => (Number(fraction[1]) * scale) / Number(fraction[2] ?? 1));
+    const constant = integers[0];
+    const leading = integers[degree];
+    if (!Number.isSafeInteger(constant) || !Number.isSafeInteger(leading) || Math.abs(constant) > 1e6 || Math.abs(leading) > 1e6) {
+      return null;
+    }
+
+    const divisors = (n: number) => Array.from({ length: Math.abs(n) }, (_, i) => i + 1).filter(d => n % d === 0);
+    const values = new Map<number, string>();
+    for (const q of divisors(leading)) {
+      for (const numerator of divisors(constant)) {
+        const common = gcd(numerator, q);
+        const text = q / common === 1 ? String(numerator / common) : `${numerator / common}/${q / common}`;
+        values.set(numerator / q, text);
+        values.set(-numerator / q, `-${text}`);
+      }
+    }
+    const candidates = [...values.entries()]
+      .sort(([a], [b]) => Math.abs(a) - Math.abs(b) || b - a)
+      .map(([, text]) => text);
+    return { candidates, constant, leading };
+  }
+
+  // Every complex root numerically: the CAS roots() can run for minutes on a cubic with no rational root
+  static unfactorable(p: string, variable: string, reduction: Reduction): Candidate[] {
+    const repeated = this.repeatedRoots(p, variable, reduction);
+    if (repeated) return repeated;
+    const binomial = this.binomialRoots(p, variable, reduction);
+    if (binomial) return binomial;
+    const biquadratic = this.biquadraticRoots(p, variable, reduction);
+    if (biquadratic) return biquadratic;
+    const degree = Number(cas(`deg(${p},${variable})`));
+    const coefficients = Array.from({ length: degree + 1 }, (_, k) => evaluateNumeric(cas(`coeff(${p},${variable},${k})`)));
+    if (coefficients.some(coefficient => !Number.isFinite(coefficient))) {
+      throw new Error(`${p} = 0 has no rational root, and its coefficients are not numeric`);
+    }
+
+    const roots = polynomialRoots(coefficients).map(root => this.approximate(root));
+    reduction.steps.push({
+      expression: roots.map(root => `${variable} ≈ ${this.formatComplex(SolutionVerifier.complexValue(root.value))}`).join(', '),
+      explanation: `${p} = 0 has no rational root, so all ${degree} complex roots are approximated with the Durand–Kerner iteration`,
+      method: 'Numerical Root Finding'
+    });
+    return roots;
+  }
+
+  // A repeated root of p is also a root of p′, so dividing out gcd(p, p′) leaves a lower degree with the same roots, each once;
+  // the iteration converges poorly to repeated roots and would split them apart
+  static repeatedRoots(p: string, variable: string, reduction: Reduction): Candidate[] | null {
+    const derivative = cas(`d(${p},${variable})`);
+    const common = PolynomialSolver.gcd(p, derivative, variable);
+    if (Number(cas(`deg(${common},${variable})`)) < 1) return null;
+
+    const squareFree = cas(`quotient(${p},${common},${variable})`);
+    reduction.steps.push({
+      expression: `gcd(${p}, ${derivative}) = ${common}`,
+      explanation: `The polynomial shares the factor ${common} with its derivative, so it has repeated roots, and ${squareFree} = 0 has the same roots, each once`,
+      method: 'Repeated Roots'
+    });
+    return this.polynomial(squareFree, variable, reduction);
+  }
+
+  // a·x⁴ + b·x² + c = 0 is a quadratic in u = x², and each root u gives x = ±√u
+  static biquadraticRoots(p: string, variable: string, reduction: Reduction): Candidate[] | null {
+    const coefficients = Array.from({ length: 5 }, (_, k) => cas(`coeff(${p},${variable},${k})`));
+    if (Number(cas(`deg(${p},${variable})`)) !== 4 || coefficients[1] !== '0' || coefficients[3] !== '0') return null;
+
+    const symbol = SUBSTITUTION_SYMBOLS.find(name => name !== variable) as string;
+    reduction.steps.push({
+      expression: cas(`(${coefficients[4]})*${symbol}^2+(${coefficients[2]})*${symbol}+(${coefficients[0]})`) + ' = 0',
+      explanation: `Only even powers of ${variable} appear, so substitute ${symbol} = ${variable}^2`,
+      method: 'Substitution'
+    });
+    const values = [...new Set(this.quadratic([coefficients[0], coefficients[2], coefficients[4]], symbol, reduction).map(root => root.value))];
+    const roots = values.flatMap(value => [cas(`rect(-sqrt(${value}))`), cas(`rect(sqrt(${value}))`)]);
+    reduction.steps.push({
+      expression: roots.map(root => `${variable} = ${root}`).join(', '),
+      explanation: `Undo the substitution: ${variable} = ±√${symbol} for each value of ${symbol}`,
+      method: 'Substitution'
+    });
+    return roots.map(value => ({ value, approximate: false }));
+  }
+
+  // a·xⁿ + c = 0 has the n complex nth roots of −c/a, spaced evenly around a circle
+  static binomialRoots(p: string, variable: string, reduction: Reduction): Candidate[] | null {
+    const degree = Number(cas(`deg(${p},${variable})`));
+    const coefficients = Array.from({ length: degree + 1 }, (_, k) => cas(`coeff(${p},${variable},${k})`));
+    if (coefficients.slice(1, degree).some(coefficient => coefficient !== '0')) return null;
+
+    const value = cas(`-(${coefficients[0]})/(${coefficients[degree]})`);
+    const numeric = evaluateNumeric(value);
+    if (!Number.isFinite(numeric) || numeric === 0) return null;
+
+    // Arguments 2πk/n for a positive right side, (2k + 1)π/n for a negative one
+    const modulus = numeric > 0 ? value : cas(`-(${value})`);
+    const roots = Array.from({ length: degree }, (_, k) =>
+      cas(`rect((${modulus})^(1/${degree})*exp(${numeric > 0 ? 2 * k : 2 * k + 1}/${degree}*pi*i))`));
+    reduction.steps.push(
+      { expression: `${variable}^${degree} = ${value}`, explanation: `Isolate ${variable}^${degree}` },
+      {
+        expression: roots.map(root => `${variable} = ${root}`).join(', '),
+        explanation: `The ${degree} complex ${degree}th roots of ${value} have modulus (${modulus})^(1/${degree}) and arguments ${numeric > 0 ? `2πk/${degree}` : `(2k + 1)π/${degree}`}, k = 0, …, ${degree - 1}`,
+        method: 'nth Roots'
+      }
+    );
+    return roots.map(root => ({ value: root, approximate: false }));
+  }
+
+  // Isolate a square root or fractional power, then raise both sides to clear it
+  static isolateRadical(expression: string, node: ExpressionNode, variable: string, reduction: Reduction, depth: number): Candidate[] | null {
+    const radical = this.radicalTerm(node, variable);
+    if (!radical) return null;
+
+    const term = ExpressionParser.print(radical.term);
+    const isolated = cas(`subst(${PLACEHOLDER},${term},${expression})`);
+    const coefficient = cas(`d(${isolated},${PLACEHOLDER})`);
+    if (coefficient === '0' || !isFreeOf(coefficient, PLACEHOLDER) || !isFreeOf(coefficient, variable)) return null;
+    const value = cas(`-(${cas(`subst(0,${PLACEHOLDER},${isolated})`)})/(${coefficient})`);
+
+    const base = ExpressionParser.print(radical.base);
+    const raised = radical.numerator === 1 ? base : `(${base})^${radical.numerator < 0 ? `(${radical.numerator})` : radical.numerator}`;
+    const power = cas(`(${value})^${radical.denominator}`);
+    reduction.steps.push(
+      { expression: `${term} = ${value}`, explanation: 'Isolate the radical on one side', method: 'Isolating the Radical' },
+      {
+        expression: `${raised} = ${power}`,
+        explanation: radical.denominator === 2
+          ? 'Square both sides; squaring can introduce extraneous roots'
+          : `Raise both sides to the power ${radical.denominator}; this can introduce extraneous roots`,
+        method: radical.denominator === 2 ? 'Squaring Both Sides' : 'Raising to a Power'
+      }
+    );
+    reduction.check = true;
+    reduction.realOnly = true;
+    return this.reduce(cas(`(${raised})-(${power})`), variable, reduction, depth + 1);
+  }
+
+  // The first sqrt(f) or f^(p/q) whose base depends on the variable
+  static radicalTerm(node: ExpressionNode, variable: string): { term: ExpressionNode; base: ExpressionNode; numerator: number; denominator: number } | null {
+    for (const child of ExpressionParser.nodes(node)) {
+      if (child.kind === 'call' && child.name === 'sqrt' && child.args.length === 1 && ExpressionParser.mentions(child.args[0], variable)) {
+        return { term: child, base: child.args[0], numerator: 1, denominator: 2 };
+      }
+      if (child.kind === 'binary' && child.operator === '^' && ExpressionParser.mentions(child.left, variable) && !ExpressionParser.mentions(child.right, variable)) {
+        const exponent = evaluateNumeric(ExpressionParser.print(child.right));
+        if (!Number.isFinite(exponent) || Number.isInteger(exponent)) continue;
+        const denominator = [2, 3, 4, 5, 6, 8, 10, 12].find(q => Math.abs(exponent * q - Math.round(exponent * q)) < 1e-12);
+        if (denominator) {
+          return { term: child, base: child.left, numerator: Math.round(exponent * denominator), denominator };
+        }
+      }
+    }
+    return null;
+  }
+
+  // u = a^g when every exponential is an integer power of it, giving an equation in u
+  static substituteExponential(expression: string, node: ExpressionNode, variable: string, reduction: Reduction, depth: number): Candidate[] | null {
+    const exponentials = this.exponentials(node, variable);
+    if (!exponentials.length || this.logarithms(node, variable).length) return null;
+
+    const symbol = SUBSTITUTION_SYMBOLS.find(name => name !== variable && !ExpressionParser.mentions(node, name));
+    for (const chosen of exponentials) {
+      // Powers of u, from log(term) / log(chosen)
+      const powers = exponentials.map(({ logarithm }) => evaluateNumeric(cas(`simplify((${logarithm})/(${chosen.logarithm}))`)));
+      if (!symbol || powers.some(power => !Number.isInteger(power) || power === 0)) continue;
+
+      const substituted = exponentials
+        .map((exponential, i) => ({ ...exponential, power: powers[i] }))
+        .sort((a, b) => Math.abs(b.power) - Math.abs(a.power))
+        .reduce((text, { term, power }) => cas(`subst(${power === 1 ? symbol : `${symbol}^(${power})`},${term},${text})`), expression);
+      if (!isFreeOf(substituted, variable)) continue;
+
+      reduction.steps.push({
+        expression: `${substituted} = 0`,
+        explanation: `Substitute ${symbol} = ${chosen.term}${exponentials.length > 1 ? `, writing every exponential as a power of ${symbol}` : ''}`,
+        method: 'Substitution'
+      });
+      reduction.realOnly = true;
+      const candidates: Candidate[] = [];
+      for (const root of this.reduce(substituted, symbol, reduction, depth + 1)) {
+        const value = SolutionVerifier.complexValue(root.value);
+        if (!value || Math.abs(value.im) > 1e-12 || value.re <= 0) {
+          reduction.steps.push({ expression: `${symbol} = ${root.value}`, explanation: `Discard ${symbol} = ${root.value}: ${chosen.term} is always positive` });
+          continue;
+        }
+        const exponent = ExpressionParser.print(chosen.exponent);
+        const logged = this.logarithm(root.value, chosen.base);
+        reduction.steps.push({
+          expression: `${exponent} = ${logged}`,
+          explanation: `Take logarithms of ${chosen.term} = ${root.value}`,
+          method: 'Logarithms'
+        });
+        candidates.push(...this.reduce(cas(`(${exponent})-(${logged})`), variable, reduction, depth + 1));
+      }
+      return candidates;
+    }
+    return null;
+  }
+
+  // log base a of a value, as an integer when the value is an exact power of a
+  static logarithm(value: string, base: string): string {
+    if (base === 'e') return cas(`log(${value})`);
+    const numeric = evaluateNumeric(`log(${value})/log(${base})`);
+    const power = Math.round(numeric);
+    if (Math.abs(numeric - power) < 1e-12 && cas(`(${base})^(${power})-(${value})`) === '0') return String(power);
+    return cas(`log(${value})/log(${base})`);
+  }
+
+  // u = log(f) when a single logarithm carries the variable, then f = e^u
+  static substituteLogarithm(expression: string, node: ExpressionNode, variable: string, reduction: Reduction, depth: number): Candidate[] | null {
+    const logarithms = this.logarithms(node, variable);
+    if (logarithms.length !== 1 || this.exponentials(node, variable).length) return null;
+
+    const [{ term, argument }] = logarithms;
+    const symbol = SUBSTITUTION_SYMBOLS.find(name => name !== variable && !ExpressionParser.mentions(node, name));
+    const substituted = symbol ? cas(`subst(${symbol},${term},${expression})`) : '';
+    if (!symbol || !isFreeOf(substituted, variable)) return null;
+
+    reduction.steps.push({ expression: `${substituted} = 0`, explanation: `Substitute ${symbol} = ${term}`, method: 'Substitution' });
+    reduction.check = true;
+    reduction.realOnly = true;
+    const candidates: Candidate[] = [];
+    for (const root of this.reduce(substituted, symbol, reduction, depth + 1)) {
+      const value = SolutionVerifier.complexValue(root.value);
+      if (!value || Math.abs(value.im) > 1e-12) continue;
+      const power = cas(`exp(${root.value})`);
+      reduction.steps.push({ expression: `${argument} = ${power}`, explanation: `Exponentiate ${term} = ${root.value}`, method: 'Exponentiating' });
+      candidates.push(...this.reduce(cas(`(${argument})-(${power})`), variable, reduction, depth + 1));
+    }
+    return candidates;
+  }
+
+  // Σ kᵢ·log(fᵢ) + c = 0 with integer kᵢ becomes Πfᵢ^kᵢ = e^(−c)
+  static combineLogarithms(expression: string, node: ExpressionNode, variable: string, reduction: Reduction, depth: number): Candidate[] | null {
+    const logarithms = this.logarithms(node, variable);
+    if (logarithms.length < 2 || this.exponentials(node, variable).length) return null;
+
+    const placeholders = logarithms.map((_, i) => `${PLACEHOLDER}${String.fromCharCode(97 + i)}`);
+    const substituted = logarithms.reduce((text, { term }, i) => cas(`subst(${placeholders[i]},${term},${text})`), expression);
+    const coefficients = placeholders.map(placeholder => evaluateNumeric(cas(`d(${substituted},${placeholder})`)));
+    const remainder = placeholders.reduce((text, placeholder) => cas(`subst(0,${placeholder},${text})`), substituted);
+    if (!isFreeOf(remainder, variable) || coefficients.some(k => !Number.isInteger(k) || k === 0)) return null;
+
+    const product = (sign: number) => {
+      const factors = logarithms
+        .map(({ argument }, i) => ({ argument, power: coefficients[i] * sign }))
+        .filter(({ power }) => power > 0)
+        .map(({ argument, power }) => (power === 1 ? `(${argument})` : `(${argument})^${power}`));
+      return factors.length ? factors.join('*') : '1';
+    };
+    const numerator = product(1);
+    const denominator = product(-1);
+    const constant = cas(`-(${remainder})`);
+    const scale = cas(`exp(${constant})`);
+
+    reduction.steps.push(
+      {
+        expression: `log(${denominator === '1' ? numerator : `${numerator}/(${denominator})`}) = ${constant}`,
+        explanation: 'Combine the logarithms with log a + log b = log(ab), log a − log b = log(a/b) and k·log a = log(aᵏ)',
+        method: 'Logarithm Laws'
+      },
+      {
+        expression: `${numerator} = ${scale === '1' ? denominator : `${scale}*${denominator}`}`,
+        explanation: 'Exponentiate both sides; the combined form can admit values where an original logarithm is undefined',
+        method: 'Exponentiating'
+      }
+    );
+    reduction.check = true;
+    reduction.realOnly = true;
+    return this.reduce(cas(`${numerator}-(${scale})*${denominator}`), variable, reduction, depth + 1);
+  }
+
+  // A = B with both sides products of exponentials: take logarithms of both sides
+  static logarithmOfBothSides(node: ExpressionNode, variable: string, reduction: Reduction, depth: number): Candidate[] | null {
+    if (node.kind !== 'binary' || (node.operator !== '-' && node.operator !== '+')) return null;
+    if (!this.exponentials(node, variable).length) return null;
+
+    const left = ExpressionParser.print(node.left);
+    const right = node.operator === '-' ? ExpressionParser.print(node.right) : cas(`-(${ExpressionParser.print(node.right)})`);
+    if (isFreeOf(left, variable) || isFreeOf(right, variable)) return null;
+    const logged = cas(`log(${left})-log(${right})`);
+    if (!isPolynomial(logged, variable)) return null;
+
+    reduction.steps.push(
+      { expression: `log(${left}) = log(${right})`, explanation: `Take logarithms of ${left} = ${right}`, method: 'Logarithms' },
+      { expression: `${logged} = 0`, explanation: 'Expand with log(ab) = log a + log b and log(aᵏ) = k·log a' }
+    );
+    reduction.check = true;
+    reduction.realOnly = true;
+    return this.reduce(logged, variable, reduction, depth + 1);
+  }
+
+  // Real roots in the scan interval from sign changes refined by bisection
+  static numerical(expression: string, variable: string, reduction: Reduction): Candidate[] {
+    const others = freeVariables(expression).filter(name => name !== variable);
+    if (others.length) {
+      throw new Error(`no algebraic method isolates ${variable}, and ${others.join(', ')} must be numbers for a numerical search`);
+    }
+
+    const f = numericFunction(expression, variable);
+    const [a, b] = SCAN_INTERVAL;
+    const roots = bracketRoots(f, a, b)
+      .map(([l, r]) => (l === r ? l : bisection(f, l, r).value))
+      // A sign change across a pole is not a root
+      .filter(root => Math.abs(f(root)) <= 1e-8 * Math.max(1, Math.abs(f(root - 1e-3)), Math.abs(f(root + 1e-3))));
+    reduction.steps.push({
+      expression: roots.length ? roots.map(root => `${variable} ≈ ${formatDecimal(root)}`).join(', ') : `${expression} does not change sign on [${a}, ${b}]`,
+      explanation: `No algebraic method isolates ${variable}, so real roots in [${a}, ${b}] are bracketed by sign changes and refined by bisection`,
+      method: 'Bisection'
+    });
+    reduction.searched = SCAN_INTERVAL;
+    return roots.map(root => this.approximate({ re: root, im: 0 }));
+  }
+
+  // Distinct denominators that depend on the variable, from quotients and negative powers
+  static denominators(expression: string, variable: string): string[] {
+    const found = new Set<string>();
+    for (const child of ExpressionParser.nodes(ExpressionParser.parse(expression))) {
+      if (child.kind !== 'binary') continue;
+      if (child.operator === '/' && ExpressionParser.mentions(child.right, variable)) {
+        found.add(ExpressionParser.print(child.right));
+      } else if (child.operator === '^' && ExpressionParser.mentions(child.left, variable) && child.right.kind === 'unary') {
+        found.add(ExpressionParser.print({ ...child, right: child.right.operand }));
+      }
+    }
+    return [...found];
+  }
+
+  // Distinct exponentials a^g and exp(g) whose exponent depends on the variable
+  static exponentials(node: ExpressionNode, variable: string): { term: string; base: string; exponent: ExpressionNode; logarithm: string }[] {
+    const found = new Map<string, { term: string; base: string; exponent: ExpressionNode; logarithm: string }>();
+    for (const child of ExpressionParser.nodes(node)) {
+      const term = ExpressionParser.print(child);
+      if (child.kind === 'call' && child.name === 'exp' && ExpressionParser.mentions(child.args[0], variable)) {
+        const exponent = ExpressionParser.print(child.args[0]);
+        found.set(term, { term, base: 'e', exponent: child.args[0], logarithm: exponent });
+      } else if (child.kind === 'binary' && child.operator === '^' && ExpressionParser.mentions(child.right, variable) && !ExpressionParser.mentions(child.left, variable)) {
+        const base = ExpressionParser.print(child.left);
+        const exponent = ExpressionParser.print(child.right);
+        found.set(term, { term, base, exponent: child.right, logarithm: base === 'e' ? exponent : `(${exponent})*log(${base})` });
+      }
+    }
+    return [...found.values()];
+  }
+
+  // Distinct logarithms whose argument depends on the variable
+  static logarithms(node: ExpressionNode, variable: string): { term: string; argument: string }[] {
+    const found = new Map<string, { term: string; argument: string }>();
+    for (const child of ExpressionParser.nodes(node)) {
+      if (child.kind === 'call' && (child.name === 'log' || child.name === 'ln') && child.args.length === 1 && ExpressionParser.mentions(child.args[0], variable)) {
+        const term = ExpressionParser.print(child);
+        found.set(term, { term, argument: ExpressionParser.print(child.args[0]) });
+      }
+    }
+    return [...found.values()];
+  }
+
+  // The steps mathsteps takes for a linear or rational equation, if its final answer matches the candidates
+  static mathstepsSteps(left: string, right: string, variable: string, candidates: Candidate[]): Omit<CalculusStep, 'step'>[] | null {
+    const sides = [left, right].map(side => ExpressionParser.parse(side));
+    const rational = sides.every(side => ExpressionParser.nodes(side).every(child =>
+      child.kind !== 'call'
+      && !(child.kind === 'symbol' && child.name !== variable)
+      && !(child.kind === 'binary' && child.operator === '^' && !(child.right.kind === 'number' && Number.isInteger(Number(child.right.value))))
+    ));
+    if (!rational) return null;
+
+    try {
+      const steps = mathsteps.solveEquation(`${left} = ${right}`) as MathstepsStep[];
+      const last = steps[steps.length - 1]?.newEquation?.ascii();
+      const solved = last?.match(/^(\w+) = (.+)$/);
+      if (!solved || solved[1] !== variable || !isFreeOf(solved[2], variable)) return null;
+
+      // Compare its answer, a value or a list [a, b], with the distinct candidates
+      const answers = solved[2].replace(/^\[|\]$/g, '').split(',').map(answer => SolutionVerifier.complexValue(answer.trim()));
+      const distinct = [...new Map(candidates.map(candidate => [candidate.value, SolutionVerifier.complexValue(candidate.value)])).values()];
+      const same = answers.length === distinct.length && answers.every(answer => answer && distinct.some(value =>
+        value && Math.hypot(answer.re - value.re, answer.im - value.im) <= 1e-9 * Math.max(1, Math.hypot(value.re, value.im))
+      ));
+      if (!same) return null;
+
+      return steps.map(step => ({
+        expression: step.newEquation ? step.newEquation.ascii() : '',
+        explanation: step.changeType.charAt(0) + step.changeType.slice(1).toLowerCase().replace(/_/g, ' ')
+      }));
+    } catch {
+      return null;
+    }
+  }
+
+  // Whether a candidate satisfies the original equation; null when the sides cannot be evaluated
+  static satisfies(left: string, right: string, variable: string, root: ComplexRoot | null, realOnly: boolean): boolean | null {
+    if (!root) return null;
+    if (realOnly && Math.abs(root.im) > 1e-9 * Math.max(1, Math.abs(root.re))) return false;
+
+    try {
+      const scope = { [variable]: Math.abs(root.im) > 1e-12 ? complex(root.re, root.im) : root.re };
+      const [l, r] = [left, right].map(side => SolutionVerifier.complexValue(side, scope));
+      if (!l || !r) return null;
+      const size = Math.max(1, Math.hypot(l.re, l.im), Math.hypot(r.re, r.im));
+      if (![l.re, l.im, r.re, r.im].every(Number.isFinite)) return false;
+      if (realOnly && (Math.abs(l.im) > 1e-9 * size || Math.abs(r.im) > 1e-9 * size)) return false;
+      return Math.hypot(l.re - r.re, l.im - r.im) <= 1e-8 * size;
+    } catch {
+      return null;
+    }
+  }
+
+  // A numerically found root, written so the CAS and mathjs can both read it
+  static approximate(root: ComplexRoot): Candidate {
+    const re = Number(root.re.toPrecision(15));
+    const im = Number(root.im.toPrecision(15));
+    const value = Math.abs(im) <= 1e-12 * Math.max(1, Math.abs(re)) ? String(re) : `${re}${im < 0 ? '-' : '+'}${Math.abs(im)}*i`;
+    return { value, approximate: true };
+  }
+
+  static formatComplex(value: ComplexRoot | null): string {
+    if (!value) return 'undefined';
+    const re = formatDecimal(value.re);
+    const im = formatDecimal(Math.abs(value.im));
+    if (im === '0') return re;
+    return `${re === '0' ? '' : `${re} ${value.im < 0 ? '-' : '+'} `}${re === '0' && value.im < 0 ? '-' : ''}${im === '1' ? '' : im}i`;
+  }
+}
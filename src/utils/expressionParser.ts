@@ -0,0 +1,896 @@
+export type TokenType = 'number' | 'identifier' | 'string' | 'operator' | 'derivative' | 'partial' | 'end';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  // Index of the token in the input
+  position: number;
+  // Whether whitespace separates the token from the one before it
+  spaced: boolean;
+}
+
+export type LimitDirection = 'both' | 'left' | 'right';
+
+interface NodeBase {
+  // Index in the input where the node starts, for error messages
+  position: number;
+}
+
+export interface NumberNode extends NodeBase {
+  kind: 'number';
+  value: string;
+}
+
+export interface SymbolNode extends NodeBase {
+  kind: 'symbol';
+  name: string;
+}
+
+export interface StringNode extends NodeBase {
+  kind: 'string';
+  value: string;
+}
+
+export interface UnaryNode extends NodeBase {
+  kind: 'unary';
+  operator: '-';
+  operand: ExpressionNode;
+}
+
+export interface BinaryNode extends NodeBase {
+  kind: 'binary';
+  operator: '+' | '-' | '*' | '/' | '^';
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+export interface CallNode extends NodeBase {
+  kind: 'call';
+  name: string;
+  args: ExpressionNode[];
+}
+
+// [a, b] or a parenthesized tuple (a, b)
+export interface ListNode extends NodeBase {
+  kind: 'list';
+  bracket: '[' | '(' | '{';
+  items: ExpressionNode[];
+}
+
+export interface EquationNode extends NodeBase {
+  kind: 'equation';
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+// x → a, x → a⁺ or x → a⁻
+export interface ApproachNode extends NodeBase {
+  kind: 'approach';
+  variable: string;
+  target: ExpressionNode;
+  direction: LimitDirection;
+}
+
+// d/dx(f), dⁿ/dxⁿ f, dy/dx, y'' and derivative(f, x, n); body is null when the function is given separately
+export interface DerivativeNode extends NodeBase {
+  kind: 'derivative';
+  body: ExpressionNode | null;
+  variable: string;
+  order: number;
+  dependent?: string;
+  // Written with primes, so the variable is only assumed to be x
+  prime?: boolean;
+}
+
+// ∂/∂x(f), ∂²f/∂x∂y and partial(f, x, y)
+export interface PartialNode extends NodeBase {
+  kind: 'partial';
+  body: ExpressionNode | null;
+  // Variables in the order the differentiations are applied
+  variables: string[];
+  dependent?: string;
+}
+
+// ∫ f dx, ∫_a^b f dx and integral(f, x, a, b)
+export interface IntegralNode extends NodeBase {
+  kind: 'integral';
+  body: ExpressionNode;
+  variable: string;
+  lower?: ExpressionNode;
+  upper?: ExpressionNode;
+}
+
+// lim_{x→a} f and limit(f, x, a)
+export interface LimitNode extends NodeBase {
+  kind: 'limit';
+  body: ExpressionNode;
+  variable: string;
+  target: ExpressionNode;
+  direction: LimitDirection;
+}
+
+// Σ_{n=a}^{b} f and sum(f, n, a, b)
+export interface SumNode extends NodeBase {
+  kind: 'sum';
+  body: ExpressionNode;
+  variable: string;
+  lower: ExpressionNode;
+  upper: ExpressionNode;
+}
+
+export interface Clause {
+  // The keyword or punctuation introducing the clause, e.g. 'of', 'at' or ','
+  separator: string | null;
+  node: ExpressionNode;
+}
+
+// Top-level clauses such as "dy/dx of x^2 + y^2 = 25 at (3, 4)"
+export interface SequenceNode extends NodeBase {
+  kind: 'sequence';
+  clauses: Clause[];
+}
+
+export type ExpressionNode =
+  | NumberNode
+  | SymbolNode
+  | StringNode
+  | UnaryNode
+  | BinaryNode
+  | CallNode
+  | ListNode
+  | EquationNode
+  | ApproachNode
+  | DerivativeNode
+  | PartialNode
+  | IntegralNode
+  | LimitNode
+  | SumNode
+  | SequenceNode;
+
+export class ParseError extends Error {
+  // Index in the input where the error was found
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = 'ParseError';
+    this.position = position;
+  }
+}
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁺': '+', '⁻': '-',
+};
+
+const OPERATORS: Record<string, string> = {
+  '->': '→', '**': '^', '→': '→', '·': '*', '×': '*', '÷': '/', '−': '-', '–': '-', '∑': 'Σ', 'Σ': 'Σ',
+  '+': '+', '-': '-', '*': '*', '/': '/', '^': '^', '=': '=', ',': ',', ';': ';', ':': ':', '!': '!', '|': '|',
+  '(': '(', ')': ')', '[': '[', ']': ']', '{': '{', '}': '}', '_': '_', '√': '√', '∫': '∫',
+};
+
+const CLOSERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+// Variables a derivative can be taken with respect to
+const VARIABLE = '(?:theta|phi|alpha|beta|gamma|omega|lambda|tau|psi|rho|sigma|mu|[α-ω]|[a-zA-Z])';
+const ORDER = '(?:\\^?(\\d+)|([⁰¹²³⁴⁵⁶⁷⁸⁹]+))';
+const DERIVATIVE = new RegExp(`^d${ORDER}?\\s*([a-zA-Z]\\w*|[α-ω])?\\s*\\/\\s*d\\s*(${VARIABLE})${ORDER}?(?![\\w])`);
+const PARTIAL = new RegExp(`^∂${ORDER}?\\s*([a-zA-Z]\\w*|[α-ω])?\\s*\\/\\s*((?:∂\\s*${VARIABLE}${ORDER}?(?![\\w])\\s*)+)`);
+const PARTIAL_FACTOR = new RegExp(`∂\\s*(${VARIABLE})${ORDER}?`, 'g');
+const DIFFERENTIAL = new RegExp(`^d(${VARIABLE})$`);
+
+// Words that separate clauses, so they cannot be variable names
+const KEYWORDS = new Set(['of', 'at', 'for', 'where', 'when', 'given', 'if', 'find', 'with']);
+
+// Functions that may be applied without parentheses, as in sin x
+const FUNCTIONS = new Set([
+  'sin', 'cos', 'tan', 'sec', 'csc', 'cot', 'asin', 'acos', 'atan', 'arcsin', 'arccos', 'arctan',
+  'sinh', 'cosh', 'tanh', 'asinh', 'acosh', 'atanh', 'arcsinh', 'arccosh', 'arctanh',
+  'exp', 'log', 'ln', 'sqrt', 'abs', 'erf', 'sgn', 'sign',
+]);
+
+// Single letters that name a function when a parenthesis follows directly, as in f(x); other letters multiply
+const FUNCTION_LETTERS = new Set(['f', 'g', 'h']);
+
+const SYMBOL_ALIASES: Record<string, string> = { 'π': 'pi', 'inf': 'infinity', 'Infinity': 'infinity', '∞': 'infinity' };
+
+// Binding strength of each node when printed, higher binds tighter
+const PRECEDENCE: Record<string, number> = { '=': 0, '→': 1, '+': 2, '-': 2, '*': 3, '/': 3, unary: 4, '^': 5 };
+
+function digits(plain: string | undefined, raised: string | undefined): number | null {
+  if (plain) return Number(plain);
+  if (raised) return Number(raised.split('').map(digit => SUPERSCRIPTS[digit]).join(''));
+  return null;
+}
+
+function describe(token: Token): string {
+  return token.type === 'end' ? 'end of input' : `'${token.value}'`;
+}
+
+// Recursive-descent parser over the token stream, one instance per parse
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  // Nesting depth of integrals, inside which identifiers like dx end the integrand
+  private integrals = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  private get token(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.token;
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private is(value: string, token = this.token): boolean {
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private accept(value: string): boolean {
+    if (!this.is(value)) return false;
+    this.next();
+    return true;
+  }
+
+  private expect(value: string, context = ''): Token {
+    if (!this.is(value)) throw this.unexpected(`Expected '${value}'${context}`);
+    return this.next();
+  }
+
+  private unexpected(expected?: string): ParseError {
+    return expected
+      ? new ParseError(`${expected}, found ${describe(this.token)}`, this.token.position)
+      : new ParseError(`Unexpected ${describe(this.token)}`, this.token.position);
+  }
+
+  private isKeyword(token = this.token): boolean {
+    return token.type === 'identifier' && KEYWORDS.has(token.value);
+  }
+
+  private isDifferential(token = this.token): boolean {
+    return this.integrals > 0 && token.type === 'identifier' && DIFFERENTIAL.test(token.value);
+  }
+
+  // Whether the current token can begin a factor written without a multiplication sign, as in 2x or x sin(x)
+  private startsImplicitFactor(): boolean {
+    const token = this.token;
+    if (token.type === 'identifier') return !this.isKeyword() && !this.isDifferential();
+    return token.type === 'operator' && ['(', '√'].includes(token.value);
+  }
+
+  private startsOperand(): boolean {
+    const token = this.token;
+    if (['number', 'string', 'derivative', 'partial'].includes(token.type)) return true;
+    if (token.type === 'identifier') return !this.isKeyword() && !this.isDifferential();
+    return token.type === 'operator' && ['(', '[', '{', '|', '√', '∫', 'Σ', '-'].includes(token.value);
+  }
+
+  parseStatement(): ExpressionNode {
+    const clauses: Clause[] = [];
+    for (;;) {
+      let separator: string | null = null;
+      while (this.isKeyword() || this.is(',') || this.is(';') || this.is(':')) {
+        const token = this.next();
+        if (token.type === 'identifier' || separator === null) separator = token.value;
+      }
+      if (this.token.type === 'end') {
+        if (clauses.length === 0 || separator !== null) throw this.unexpected();
+        break;
+      }
+      if (clauses.length > 0 && separator === null) throw this.unexpected();
+      clauses.push({ separator, node: this.parseClause() });
+    }
+
+    return clauses.length === 1 ? clauses[0].node : { kind: 'sequence', clauses, position: clauses[0].node.position };
+  }
+
+  // A whole token range, such as the target of x → a
+  parseWhole(): ExpressionNode {
+    const node = this.parseAdditive();
+    if (this.token.type !== 'end') throw this.unexpected();
+    return node;
+  }
+
+  private parseClause(): ExpressionNode {
+    const left = this.parseRelation();
+    if (!this.is('=')) return left;
+
+    this.next();
+    const right = this.parseRelation();
+    if (this.is('=')) throw this.unexpected();
+    return { kind: 'equation', left, right, position: left.position };
+  }
+
+  private parseRelation(stopAtGap = false): ExpressionNode {
+    const left = this.parseAdditive();
+    if (!this.is('→')) return left;
+    if (left.kind !== 'symbol') {
+      throw new ParseError('Expected a variable before →', left.position);
+    }
+    this.next();
+    return this.parseApproach(left, stopAtGap);
+  }
+
+  // The target of x → a runs to the enclosing delimiter, or to the next space in lim x→0 f
+  private parseApproach(variable: SymbolNode, stopAtGap: boolean): ApproachNode {
+    const start = this.index;
+    let end = start;
+    let depth = 0;
+    for (; this.tokens[end].type !== 'end'; end++) {
+      const token = this.tokens[end];
+      const closes = [')', ']', '}'].some(value => this.is(value, token));
+      if (depth === 0 && (closes || [',', ';', '=', '|'].some(value => this.is(value, token)) || this.isKeyword(token)
+        || (stopAtGap && end > start && token.spaced))) {
+        break;
+      }
+      if (['(', '[', '{'].some(value => this.is(value, token))) depth++;
+      if (closes) depth--;
+    }
+
+    let range = this.tokens.slice(start, end);
+    let direction: LimitDirection = 'both';
+    const last = range[range.length - 1];
+    if (range.length > 1 && (this.is('+', last) || this.is('-', last))) {
+      direction = last.value === '+' ? 'right' : 'left';
+      range = range.slice(0, -1);
+      if (this.is('^', range[range.length - 1])) range = range.slice(0, -1);
+    }
+    if (range.length === 0) {
+      throw this.unexpected(`Expected the value ${variable.name} approaches`);
+    }
+
+    const target = new Parser([...range, { ...this.tokens[end], type: 'end' }]).parseWhole();
+    this.index = end;
+    return { kind: 'approach', variable: variable.name, target, direction, position: variable.position };
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let node = this.parseTerm();
+    while (this.is('+') || this.is('-')) {
+      const operator = this.next().value as '+' | '-';
+      node = { kind: 'binary', operator, left: node, right: this.parseTerm(), position: node.position };
+    }
+    return node;
+  }
+
+  private parseTerm(): ExpressionNode {
+    let node = this.parseUnary();
+    for (;;) {
+      if (this.is('*') || this.is('/')) {
+        const operator = this.next().value as '*' | '/';
+        node = { kind: 'binary', operator, left: node, right: this.parseUnary(), position: node.position };
+      } else if (this.startsImplicitFactor() || (node.kind === 'number' && this.is('['))) {
+        // 2[[1, 0], [0, 1]] scales a matrix
+        node = { kind: 'binary', operator: '*', left: node, right: this.parsePower(), position: node.position };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.token;
+    if (this.accept('-')) {
+      return { kind: 'unary', operator: '-', operand: this.parseUnary(), position: token.position };
+    }
+    if (this.accept('+')) return this.parseUnary();
+    return this.parsePower();
+  }
+
+  private parsePower(): ExpressionNode {
+    const token = this.token;
+    if (this.accept('√')) {
+      return { kind: 'call', name: 'sqrt', args: [this.parsePower()], position: token.position };
+    }
+
+    const base = this.parsePostfix();
+    if (!this.accept('^')) return base;
+    return { kind: 'binary', operator: '^', left: base, right: this.parseUnary(), position: base.position };
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+    if (node.kind === 'symbol' && this.is("'")) {
+      let order = 0;
+      while (this.accept("'")) order++;
+      node = { kind: 'derivative', body: null, variable: 'x', order, dependent: node.name, prime: true, position: node.position };
+    }
+    while (this.accept('!')) {
+      node = { kind: 'call', name: 'factorial', args: [node], position: node.position };
+    }
+    return node;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.token;
+    switch (token.type) {
+      case 'number':
+        this.next();
+        return { kind: 'number', value: token.value, position: token.position };
+      case 'string':
+        this.next();
+        return { kind: 'string', value: token.value, position: token.position };
+      case 'identifier':
+        return this.parseIdentifier();
+      case 'derivative':
+        return this.parseDerivative();
+      case 'partial':
+        return this.parsePartial();
+      case 'operator':
+        if (token.value === '(' || token.value === '{') return this.parseGroup();
+        if (token.value === '[') {
+          this.next();
+          const items = this.parseList(']', token);
+          return { kind: 'list', bracket: '[', items, position: token.position };
+        }
+        if (token.value === '|') {
+          this.next();
+          const operand = this.parseAdditive();
+          this.expect('|', " to close '|'");
+          return { kind: 'call', name: 'abs', args: [operand], position: token.position };
+        }
+        if (token.value === '∫') return this.parseIntegral();
+        if (token.value === 'Σ') return this.parseSum();
+    }
+    throw this.unexpected();
+  }
+
+  // (a), {a}, the tuple (a, b) or the set {a, b}
+  private parseGroup(): ExpressionNode {
+    const open = this.next();
+    const items = this.parseList(CLOSERS[open.value], open);
+    if (items.length === 1) return items[0];
+    return { kind: 'list', bracket: open.value === '{' ? '{' : '(', items, position: open.position };
+  }
+
+  private parseList(closer: string, open: Token): ExpressionNode[] {
+    if (this.is(closer)) throw this.unexpected(`Expected an expression after '${open.value}'`);
+    const items = [this.parseClause()];
+    while (this.accept(',')) items.push(this.parseClause());
+    this.expect(closer, ` to close '${open.value}'`);
+    return items;
+  }
+
+  private parseArguments(): ExpressionNode[] {
+    const open = this.expect('(');
+    if (this.accept(')')) return [];
+    return this.parseList(')', open);
+  }
+
+  private parseIdentifier(): ExpressionNode {
+    const token = this.next();
+    if (KEYWORDS.has(token.value)) {
+      throw new ParseError(`Unexpected '${token.value}'`, token.position);
+    }
+    if (token.value === 'lim') return this.parseLimit(token);
+
+    const name = SYMBOL_ALIASES[token.value] ?? token.value;
+    if (this.is('(') && (name.length > 1 || (FUNCTION_LETTERS.has(name) && !this.token.spaced))) {
+      return this.call(name, this.parseArguments(), token.position);
+    }
+    if (FUNCTIONS.has(name) && this.startsOperand() && !this.is('-')) {
+      return { kind: 'call', name, args: [this.parsePower()], position: token.position };
+    }
+    return { kind: 'symbol', name, position: token.position };
+  }
+
+  // Calls to the calculus functions become the same nodes as their operator notation
+  private call(name: string, args: ExpressionNode[], position: number): ExpressionNode {
+    const variableAt = (index: number, fallback?: string): string => {
+      const arg = args[index];
+      if (arg === undefined && fallback) return fallback;
+      if (arg?.kind !== 'symbol') {
+        throw new ParseError(`Expected a variable as argument ${index + 1} of ${name}`, arg?.position ?? position);
+      }
+      return arg.name;
+    };
+
+    switch (name) {
+      case 'derivative': {
+        if (args.length === 0 || args.length > 3) {
+          throw new ParseError('Expected derivative(f), derivative(f, t) or derivative(f, t, n)', position);
+        }
+        const order = args[2];
+        return {
+          kind: 'derivative',
+          body: args[0],
+          variable: variableAt(1, 'x'),
+          order: order ? this.order(order.kind === 'number' ? Number(order.value) : NaN, order.position) : 1,
+          position
+        };
+      }
+      case 'integral':
+        if (args.length === 0 || args.length === 3 || args.length > 4) {
+          throw new ParseError('Expected integral(f), integral(f, x) or integral(f, x, a, b)', position);
+        }
+        return { kind: 'integral', body: args[0], variable: variableAt(1, 'x'), lower: args[2], upper: args[3], position };
+      case 'limit': {
+        const [body, approach, ...rest] = args;
+        if (approach?.kind === 'approach' && rest.length <= 1) {
+          const direction = rest[0] ? this.direction(rest[0]) : approach.direction;
+          return { kind: 'limit', body, variable: approach.variable, target: approach.target, direction, position };
+        }
+        if (args.length < 3 || args.length > 4) {
+          throw new ParseError("Expected limit(f, x, a) or limit(f, x, a, '+')", position);
+        }
+        const direction = rest[1] ? this.direction(rest[1]) : 'both';
+        return { kind: 'limit', body, variable: variableAt(1), target: rest[0], direction, position };
+      }
+      case 'partial':
+        if (args.length < 2) {
+          throw new ParseError('Expected partial(f, x) or partial(f, x, y, ...)', position);
+        }
+        return { kind: 'partial', body: args[0], variables: args.slice(1).map((_, i) => variableAt(i + 1)), position };
+      case 'sum':
+        if (args.length !== 4) {
+          throw new ParseError('Expected sum(f, n, a, b)', position);
+        }
+        return { kind: 'sum', body: args[0], variable: variableAt(1), lower: args[2], upper: args[3], position };
+      default:
+        return { kind: 'call', name, args, position };
+    }
+  }
+
+  private order(order: number, position: number): number {
+    if (!Number.isInteger(order) || order < 1) {
+      throw new ParseError('The order of a derivative must be a positive integer', position);
+    }
+    return order;
+  }
+
+  // '+', '-', 'left', 'right' and the like as the side of a one-sided limit
+  private direction(node: ExpressionNode): LimitDirection {
+    const side = node.kind === 'string' ? node.value.trim().toLowerCase() : node.kind === 'symbol' ? node.name : '';
+    if (['+', '+0', 'right'].includes(side)) return 'right';
+    if (['-', '-0', 'left'].includes(side)) return 'left';
+    throw new ParseError("Expected the side of the limit as '+' or '-'", node.position);
+  }
+
+  // lim_{x→a} f, lim_(x→a⁺) f or lim x→a f
+  private parseLimit(token: Token): LimitNode {
+    this.accept('_');
+    let approach: ExpressionNode;
+    if (this.is('{') || this.is('(')) {
+      const open = this.next();
+      approach = this.parseRelation();
+      this.expect(CLOSERS[open.value], ` to close '${open.value}'`);
+    } else {
+      approach = this.parseRelation(true);
+    }
+    if (approach.kind !== 'approach') {
+      throw new ParseError('Expected lim_{x→a} after lim', approach.position);
+    }
+    if (!this.startsOperand()) throw this.unexpected('Expected the function after the limit');
+
+    const { variable, target, direction } = approach;
+    return { kind: 'limit', body: this.parseAdditive(), variable, target, direction, position: token.position };
+  }
+
+  // The function an operator applies to: a parenthesized group, or the rest of the term
+  private parseOperand(): ExpressionNode | null {
+    if (!this.startsOperand()) return null;
+    return this.is('(') ? this.parseGroup() : this.parseAdditive();
+  }
+
+  private parseDerivative(): DerivativeNode {
+    const token = this.next();
+    const [, top, raisedTop, dependent, variable, bottom, raisedBottom] = token.value.match(DERIVATIVE) ?? [];
+    const numerator = digits(top, raisedTop);
+    const denominator = digits(bottom, raisedBottom);
+    if (numerator !== null && denominator !== null && numerator !== denominator) {
+      throw new ParseError(`The orders d^${numerator} and d${variable}^${denominator} do not match`, token.position);
+    }
+
+    const order = this.order(numerator ?? denominator ?? 1, token.position);
+    const body = dependent ? null : this.parseOperand();
+    return { kind: 'derivative', body, variable, order, position: token.position, ...(dependent ? { dependent } : {}) };
+  }
+
+  private parsePartial(): PartialNode {
+    const token = this.next();
+    const [, top, raisedTop, dependent, denominator] = token.value.match(PARTIAL) ?? [];
+    const written: string[] = [];
+    for (const [, variable, power, raisedPower] of denominator.matchAll(PARTIAL_FACTOR)) {
+      written.push(...Array(digits(power, raisedPower) ?? 1).fill(variable));
+    }
+    const order = digits(top, raisedTop);
+    if (order !== null && order !== written.length) {
+      throw new ParseError(`The order ∂^${order} does not match the ${written.length} variables in the denominator`, token.position);
+    }
+
+    const body = dependent ? (this.is('(') ? this.parseGroup() : null) : this.parseOperand();
+    // ∂²f/∂x∂y = ∂/∂x(∂f/∂y): the rightmost variable is applied first
+    return { kind: 'partial', body, variables: written.reverse(), position: token.position, ...(dependent ? { dependent } : {}) };
+  }
+
+  // A bound after _ or ^: a braced group or a single, possibly negated, value
+  private parseBound(): ExpressionNode {
+    const token = this.token;
+    if (this.accept('-')) {
+      return { kind: 'unary', operator: '-', operand: this.parsePrimary(), position: token.position };
+    }
+    return this.parsePrimary();
+  }
+
+  private parseIntegral(): IntegralNode {
+    const token = this.next();
+    let lower: ExpressionNode | undefined;
+    let upper: ExpressionNode | undefined;
+    if (this.accept('_')) {
+      lower = this.parseBound();
+      this.expect('^', ' before the upper bound');
+      upper = this.parseBound();
+    }
+
+    this.integrals++;
+    const body = this.parseAdditive();
+    const differential = this.token;
+    if (!this.isDifferential()) {
+      throw this.unexpected('Expected the differential, such as dx, after the integrand');
+    }
+    this.integrals--;
+    this.next();
+
+    const variable = differential.value.slice(1);
+    return { kind: 'integral', body, variable, lower, upper, position: token.position };
+  }
+
+  // Σ_{n=a}^{b} f
+  private parseSum(): SumNode {
+    const token = this.next();
+    this.expect('_', ' after Σ');
+    const range = this.is('{') || this.is('(') ? this.parseGroup() : this.parseIndex();
+    if (range.kind !== 'equation' || range.left.kind !== 'symbol') {
+      throw new ParseError('Expected the index range as Σ_{n=a}^{b}', range.position);
+    }
+    this.expect('^', ' before the upper limit of the sum');
+    const upper = this.parseBound();
+    return { kind: 'sum', body: this.parseAdditive(), variable: range.left.name, lower: range.right, upper, position: token.position };
+  }
+
+  // n=a written without braces
+  private parseIndex(): ExpressionNode {
+    const left = this.parsePrimary();
+    this.expect('=', ' in the index of the sum');
+    return { kind: 'equation', left, right: this.parseBound(), position: left.position };
+  }
+}
+
+export class ExpressionParser {
+  // Split the input into tokens, recording where each starts
+  static tokenize(input: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    const push = (type: TokenType, value: string, position: number) =>
+      tokens.push({ type, value, position, spaced: position > 0 && /\s/.test(input[position - 1]) });
+
+    while (i < input.length) {
+      const rest = input.slice(i);
+      const space = rest.match(/^\s+/);
+      if (space) {
+        i += space[0].length;
+        continue;
+      }
+
+      const derivative = rest.match(DERIVATIVE) ?? rest.match(PARTIAL);
+      // y', y'' and y′ are primes directly after a name or another prime, not the start of a string
+      const previous = tokens[tokens.length - 1];
+      const prime = /^['′″]/.test(rest) && !/\s/.test(input[i - 1] ?? ' ')
+        && (previous?.type === 'identifier' || (previous?.type === 'operator' && previous.value === "'"));
+      const number = rest.match(/^(?:\d+(?:\.\d+)?|\.\d+)/);
+      const identifier = rest.match(/^(?:lim(?=_)|[a-zA-Z][a-zA-Z0-9]*(?:_[a-zA-Z0-9]+)*|[α-ω∞])/);
+      const string = rest.match(/^(?:'([^']*)'|"([^"]*)")/);
+      const raised = rest.match(/^[⁺⁻]?[⁰¹²³⁴⁵⁶⁷⁸⁹]*/)?.[0] ?? '';
+      const operator = OPERATORS[rest.slice(0, 2)] ? rest.slice(0, 2) : OPERATORS[rest[0]] ? rest[0] : null;
+
+      if (derivative) {
+        push(rest.startsWith('∂') ? 'partial' : 'derivative', derivative[0], i);
+        i += derivative[0].length;
+      } else if (number) {
+        push('number', number[0], i);
+        i += number[0].length;
+      } else if (identifier) {
+        push('identifier', identifier[0], i);
+        i += identifier[0].length;
+      } else if (prime) {
+        push('operator', "'", i);
+        if (rest[0] === '″') push('operator', "'", i);
+        i++;
+      } else if (string) {
+        push('string', string[1] ?? string[2], i);
+        i += string[0].length;
+      } else if (raised) {
+        // x² → x^2 and 0⁺ → 0^+
+        push('operator', '^', i);
+        const exponent = raised.split('').map(char => SUPERSCRIPTS[char]).join('');
+        if (/^[+-]/.test(exponent)) push('operator', exponent[0], i);
+        if (/\d/.test(exponent)) push('number', exponent.replace(/^[+-]/, ''), i);
+        i += raised.length;
+      } else if (operator) {
+        push('operator', OPERATORS[operator], i);
+        i += operator.length;
+      } else {
+        throw new ParseError(`Unexpected character '${rest[0]}'`, i);
+      }
+    }
+
+    tokens.push({ type: 'end', value: '', position: input.length, spaced: false });
+    return tokens;
+  }
+
+  static parse(input: string): ExpressionNode {
+    if (!input.trim()) {
+      throw new ParseError('Empty expression', 0);
+    }
+    return new Parser(this.tokenize(input)).parseStatement();
+  }
+
+  // The top-level clauses of a parsed input; a single expression is one clause
+  static clauses(node: ExpressionNode): Clause[] {
+    return node.kind === 'sequence' ? node.clauses : [{ separator: null, node }];
+  }
+
+  // The clause naming the operation, e.g. dy/dx in "dy/dx, y = x^3"
+  static head(node: ExpressionNode): ExpressionNode {
+    const clauses = this.clauses(node);
+    const operation = clauses.find(({ node: clause }) => ['derivative', 'partial', 'integral', 'limit', 'sum'].includes(clause.kind));
+    return (operation ?? clauses[0]).node;
+  }
+
+  // The function an operator without a body applies to: a definition such as f = x^2, or the following clause
+  static operand(clauses: Clause[], body: ExpressionNode | null, name: string | undefined, position: number): ExpressionNode {
+    if (body) return body;
+
+    const definition = clauses.find(({ node }) => node.kind === 'equation');
+    if (definition?.node.kind === 'equation') {
+      const { left, right } = definition.node;
+      if (left.kind !== 'symbol' || (name && left.name !== name)) {
+        throw new ParseError(`Expected a definition of ${name ?? 'the function'}`, left.position);
+      }
+      return right;
+    }
+    const following = clauses.find(({ node }) => node.position > position);
+    if (!following) {
+      throw new ParseError('Missing the function to differentiate', position);
+    }
+    return following.node;
+  }
+
+  static children(node: ExpressionNode): ExpressionNode[] {
+    switch (node.kind) {
+      case 'unary':
+        return [node.operand];
+      case 'binary':
+      case 'equation':
+        return [node.left, node.right];
+      case 'call':
+        return node.args;
+      case 'list':
+        return node.items;
+      case 'approach':
+        return [node.target];
+      case 'derivative':
+      case 'partial':
+        return node.body ? [node.body] : [];
+      case 'integral':
+        return [node.body, ...(node.lower ? [node.lower] : []), ...(node.upper ? [node.upper] : [])];
+      case 'limit':
+        return [node.body, node.target];
+      case 'sum':
+        return [node.body, node.lower, node.upper];
+      case 'sequence':
+        return node.clauses.map(clause => clause.node);
+      default:
+        return [];
+    }
+  }
+
+  // Every node of the tree, parents before children
+  static nodes(node: ExpressionNode): ExpressionNode[] {
+    return [node, ...this.children(node).flatMap(child => this.nodes(child))];
+  }
+
+  static mentions(node: ExpressionNode, name: string): boolean {
+    return this.nodes(node).some(child => child.kind === 'symbol' && child.name === name);
+  }
+
+  // Variables in the tree, excluding the constants e, pi, i and infinity, in alphabetical order
+  static variables(node: ExpressionNode): string[] {
+    const names = this.nodes(node)
+      .filter((child): child is SymbolNode => child.kind === 'symbol' && !['e', 'pi', 'i', 'infinity'].includes(child.name))
+      .map(child => child.name);
+    return [...new Set(names)].sort();
+  }
+
+  static functions(node: ExpressionNode): string[] {
+    return [...new Set(this.nodes(node).flatMap(child => (child.kind === 'call' ? [child.name] : [])))];
+  }
+
+  // Degree of a polynomial in the variable, or null when the expression is not a polynomial in it
+  static polynomialDegree(node: ExpressionNode, variable: string): number | null {
+    const degree = (child: ExpressionNode): number | null => this.polynomialDegree(child, variable);
+    switch (node.kind) {
+      case 'number':
+        return 0;
+      case 'symbol':
+        return node.name === variable ? 1 : 0;
+      case 'unary':
+        return degree(node.operand);
+      case 'binary': {
+        const left = degree(node.left);
+        const right = degree(node.right);
+        if (left === null || right === null) return null;
+        if (node.operator === '+' || node.operator === '-') return Math.max(left, right);
+        if (node.operator === '*') return left + right;
+        if (node.operator === '/') return right === 0 ? left : null;
+        if (right !== 0) return null;
+        if (left === 0) return 0;
+        return node.right.kind === 'number' && Number.isInteger(Number(node.right.value)) ? left * Number(node.right.value) : null;
+      }
+      default:
+        return this.mentions(node, variable) ? null : 0;
+    }
+  }
+
+  // Print a tree as an expression Algebrite and mathjs accept, with the fewest parentheses
+  static print(node: ExpressionNode): string {
+    const print = (child: ExpressionNode) => this.print(child);
+    const list = (items: ExpressionNode[]) => items.map(print).join(', ');
+
+    switch (node.kind) {
+      case 'number':
+        return node.value;
+      case 'symbol':
+        return node.name;
+      case 'string':
+        return `'${node.value}'`;
+      case 'unary':
+        return `-${this.printOperand(node.operand, PRECEDENCE.unary, false)}`;
+      case 'binary': {
+        const precedence = PRECEDENCE[node.operator];
+        const left = this.printOperand(node.left, precedence, node.operator === '^', true);
+        const right = node.operator === '^'
+          ? (['number', 'symbol', 'call'].includes(node.right.kind) ? print(node.right) : `(${print(node.right)})`)
+          : this.printOperand(node.right, precedence, node.operator === '-' || node.operator === '/');
+        return node.operator === '+' || node.operator === '-' ? `${left} ${node.operator} ${right}` : `${left}${node.operator}${right}`;
+      }
+      case 'call':
+        return `${node.name}(${list(node.args)})`;
+      case 'list':
+        return `${node.bracket}${list(node.items)}${CLOSERS[node.bracket]}`;
+      case 'equation':
+        return `${print(node.left)} = ${print(node.right)}`;
+      case 'approach':
+        return `${node.variable} → ${print(node.target)}${node.direction === 'right' ? '+' : node.direction === 'left' ? '-' : ''}`;
+      case 'derivative':
+        return `d(${node.body ? print(node.body) : node.dependent}, ${node.variable}${node.order > 1 ? `, ${node.order}` : ''})`;
+      case 'partial':
+        return `d(${node.body ? print(node.body) : node.dependent ?? 'f'}, ${node.variables.join(', ')})`;
+      case 'integral':
+        return node.lower && node.upper
+          ? `defint(${print(node.body)}, ${node.variable}, ${print(node.lower)}, ${print(node.upper)})`
+          : `integral(${print(node.body)}, ${node.variable})`;
+      case 'limit':
+        return `limit(${print(node.body)}, ${node.variable}, ${print(node.target)}${node.direction === 'both' ? '' : node.direction === 'right' ? ", '+'" : ", '-'"})`;
+      case 'sum':
+        return `sum(${print(node.body)}, ${node.variable}, ${print(node.lower)}, ${print(node.upper)})`;
+      case 'sequence':
+        return node.clauses.map(clause => print(clause.node)).join(', ');
+    }
+  }
+
+  // Print an operand, parenthesized when it binds looser than its operator, or equally on the non-associative side
+  private static printOperand(node: ExpressionNode, precedence: number, strict: boolean, leading = false): string {
+    const text = this.print(node);
+    // Algebrite rejects a sign straight after an operator, as in x+-y
+    if (!leading && text.startsWith('-')) return `(${text})`;
+    if (node.kind === 'unary') return precedence < PRECEDENCE['^'] ? text : `(${text})`;
+    const own = node.kind === 'binary' ? PRECEDENCE[node.operator] : node.kind === 'equation' ? PRECEDENCE['='] : node.kind === 'approach' ? PRECEDENCE['→'] : Infinity;
+    return own < precedence || (strict && own === precedence) ? `(${text})` : text;
+  }
+}
@@ -0,0 +1,246 @@
+import * as Algebrite from 'algebrite';
+import {
+  compile,
+  evaluate,
+  isConstantNode,
+  isFunctionNode,
+  isOperatorNode,
+  isParenthesisNode,
+  isSymbolNode,
+  parse,
+  type EvalFunction,
+  type MathNode,
+} from 'mathjs';
+
+// Greek letters Algebrite cannot tokenize, mapped to names it treats as plain symbols
+const GREEK_LETTERS: Record<string, string> = {
+  'α': 'alpha', 'β': 'beta', 'γ': 'gamma', 'θ': 'theta', 'λ': 'lambda', 'μ': 'mu',
+  'ρ': 'rho', 'σ': 'sigma', 'τ': 'tau', 'φ': 'phi', 'ψ': 'psi', 'ω': 'omega',
+};
+
+const SUPERSCRIPT_DIGITS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9',
+};
+
+// Run an Algebrite command, surfacing its "Stop:" messages and any other output that is not an expression,
+// such as "Unsupported function abs", as errors
+export function cas(command: string): string {
+  const letters = Object.keys(GREEK_LETTERS).filter(letter => command.includes(letter));
+  const input = letters.reduce((text, letter) => text.split(letter).join(GREEK_LETTERS[letter]), toAlgebrite(command));
+
+  const result = Algebrite.run(input).toString();
+  const stop = result.indexOf('Stop:');
+  if (stop >= 0) {
+    throw new Error(result.slice(stop).replace(/^Stop:\s*/, ''));
+  }
+  if (result && !isCasExpression(result)) {
+    throw new Error(result.trim());
+  }
+  return letters.reduce(
+    (text, letter) => text.replace(new RegExp(`\\b${GREEK_LETTERS[letter]}\\b`, 'g'), letter),
+    result
+  );
+}
+
+// Algebrite prints expressions without spaces, so words separated by spaces are a message rather than a result
+function isCasExpression(result: string): boolean {
+  if (/\s/.test(result.trim())) return false;
+  try {
+    parse(toMathjs(result));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Superscript form of an exponent for display, omitting 1
+export function superscript(n: number): string {
+  if (n === 1) return '';
+  const digits = Object.fromEntries(Object.entries(SUPERSCRIPT_DIGITS).map(([sup, digit]) => [digit, sup]));
+  return String(n).split('').map(digit => digits[digit] ?? digit).join('');
+}
+
+// Subscript form of an index for display, as in x₁₂
+export function subscript(n: number): string {
+  return String(n).split('').map(digit => String.fromCharCode(0x2080 + Number(digit))).join('');
+}
+
+export function ordinal(n: number): string {
+  const words = ['zeroth', 'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+  return words[n] ?? `${n}th`;
+}
+
+// Normalize the spellings of infinity accepted as input to Algebrite's `infinity`
+export function normalizeInfinity(expr: string): string {
+  return expr
+    .replace(/∞/g, 'infinity')
+    .replace(/\b(inf|Infinity)\b/g, 'infinity')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function isInfinite(expr: string): boolean {
+  return /^[+-]?\s*infinity$/.test(normalizeInfinity(expr));
+}
+
+// Translate Algebrite syntax into mathjs syntax for numeric evaluation
+export function toMathjs(expr: string): string {
+  return unitSteps(expr)
+    .replace(/\.\.\./g, '')
+    .replace(/\barcsin\(/g, 'asin(')
+    .replace(/\barccos\(/g, 'acos(')
+    .replace(/\barctan\(/g, 'atan(')
+    .replace(/\barcsinh\(/g, 'asinh(')
+    .replace(/\barccosh\(/g, 'acosh(')
+    .replace(/\barctanh\(/g, 'atanh(')
+    .replace(/\bln\(/g, 'log(')
+    .replace(/\bsgn\(/g, 'sign(')
+    .replace(/\binfinity\b/g, 'Infinity');
+}
+
+// mathjs has no unit step, so heaviside(u) becomes (1 + sign(u))/2, which is 1/2 at the jump
+function unitSteps(expr: string): string {
+  let text = expr;
+  let start = text.search(/\bheaviside\(/);
+  while (start >= 0) {
+    const open = text.indexOf('(', start);
+    let depth = 0;
+    let close = open;
+    for (; close < text.length; close++) {
+      if (text[close] === '(') depth++;
+      if (text[close] === ')' && --depth === 0) break;
+    }
+    if (close >= text.length) return text;
+    text = `${text.slice(0, start)}((1+sign(${text.slice(open + 1, close)}))/2)${text.slice(close + 1)}`;
+    start = text.search(/\bheaviside\(/);
+  }
+  return text;
+}
+
+// Translate mathjs output (e.g. from a parsed node) back into Algebrite syntax
+export function toAlgebrite(expr: string): string {
+  return expr
+    // Algebrite marks its own rounded decimals with a trailing ..., which it cannot read back
+    .replace(/(\d)\.\.\./g, '$1')
+    .replace(/\basin\(/g, 'arcsin(')
+    .replace(/\bacos\(/g, 'arccos(')
+    .replace(/\batan\(/g, 'arctan(')
+    .replace(/\basinh\(/g, 'arcsinh(')
+    .replace(/\bacosh\(/g, 'arccosh(')
+    .replace(/\batanh\(/g, 'arctanh(')
+    .replace(/\bsign\(/g, 'sgn(')
+    .replace(/\bInfinity\b/g, 'infinity');
+}
+
+// Evaluate an expression to a real number, returning NaN for complex or symbolic results
+export function evaluateNumeric(expr: string, scope: Record<string, number> = {}): number {
+  try {
+    const value = evaluate(toMathjs(expr), { ...scope });
+    return typeof value === 'number' ? value : NaN;
+  } catch {
+    return NaN;
+  }
+}
+
+// Build a numeric function of one variable from an expression
+export function numericFunction(expr: string, variable: string): (value: number) => number {
+  return (value: number) => evaluateNumeric(expr, { [variable]: value });
+}
+
+// Compile an expression once for repeated evaluation, as quadrature needs; NaN for complex or symbolic results
+export function compileNumeric(expr: string): (scope: Record<string, number>) => number {
+  let compiled: EvalFunction;
+  try {
+    compiled = compile(toMathjs(expr));
+  } catch {
+    return () => NaN;
+  }
+  return (scope: Record<string, number>) => {
+    try {
+      const value = compiled.evaluate({ ...scope });
+      return typeof value === 'number' ? value : NaN;
+    } catch {
+      return NaN;
+    }
+  };
+}
+
+// Whether a parsed expression mentions the given variable
+function mentions(node: MathNode, variable: string): boolean {
+  return node.filter(child => isSymbolNode(child) && child.name === variable).length > 0;
+}
+
+// Whether an expression is free of the given variable
+export function isFreeOf(expr: string, variable: string): boolean {
+  try {
+    return !mentions(parse(toMathjs(expr)), variable);
+  } catch {
+    return !new RegExp(`\\b${variable}\\b`).test(expr);
+  }
+}
+
+const CONSTANT_SYMBOLS = new Set(['e', 'pi', 'i', 'infinity', 'Infinity']);
+
+// Variables appearing in an expression, in alphabetical order
+export function freeVariables(expr: string): string[] {
+  const names = new Set<string>();
+  try {
+    parse(toMathjs(expr)).traverse((node, path) => {
+      if (isSymbolNode(node) && path !== 'fn' && !CONSTANT_SYMBOLS.has(node.name)) {
+        names.add(node.name);
+      }
+    });
+  } catch {
+    return [];
+  }
+  return [...names].sort();
+}
+
+// Whether an expression is a polynomial in the given variable; other symbols count as constants
+export function isPolynomial(expr: string, variable: string): boolean {
+  const check = (node: MathNode): boolean => {
+    if (isConstantNode(node) || isSymbolNode(node)) return true;
+    if (isParenthesisNode(node)) return check(node.content);
+    if (isFunctionNode(node)) return !mentions(node, variable);
+    if (!isOperatorNode(node)) return false;
+
+    switch (node.fn) {
+      case 'add':
+      case 'subtract':
+      case 'multiply':
+      case 'unaryMinus':
+      case 'unaryPlus':
+        return node.args.every(check);
+      case 'divide':
+        return check(node.args[0]) && !mentions(node.args[1], variable);
+      case 'pow': {
+        const [base, exponent] = node.args;
+        if (!mentions(base, variable)) return !mentions(exponent, variable);
+        try {
+          const power = exponent.evaluate();
+          return typeof power === 'number' && Number.isInteger(power) && power >= 0 && check(base);
+        } catch {
+          return false;
+        }
+      }
+      default:
+        return false;
+    }
+  };
+
+  try {
+    return check(parse(toMathjs(expr)));
+  } catch {
+    return false;
+  }
+}
+
+export function formatDecimal(value: number, digits = 6): string {
+  if (!Number.isFinite(value)) return value > 0 ? '∞' : value < 0 ? '-∞' : 'undefined';
+  return String(Number(value.toFixed(digits)));
+}
+
+// Display form of an Algebrite result, using ∞ for infinity
+export function displayValue(expr: string): string {
+  return expr.replace(/\binfinity\b/g, '∞');
+}
@@ -0,0 +1,425 @@
+import type { CalculusSolution } from './calculusEngine';
+import { IntegralTracer } from './integralTracer';
+import { LaplaceSolver, PRODUCT_TO_SUM } from './laplaceSolver';
+import { OdeSolver } from './odeSolver';
+import { recordSteps } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { cas, compileNumeric, displayValue, evaluateNumeric, formatDecimal, freeVariables, isFreeOf, numericFunction, subscript } from './expressionUtils';
+import { ExpressionParser, ParseError, type CallNode, type ExpressionNode } from './expressionParser';
+import { bisection, bracketRoots, gaussKronrod } from './numericalMethods';
+
+// f on [from, to]; a function given as one expression is a single piece over the period centred on 0
+export interface FourierPiece {
+  expression: string;
+  from: string;
+  to: string;
+}
+
+export interface FourierSpec {
+  pieces: FourierPiece[];
+  variable: string;
+  period: string;
+  terms: number;
+}
+
+export interface FourierCoefficient {
+  n: number;
+  a: string;
+  b: string;
+}
+
+// a₀/2 + Σ (aₙ cos(nπx/L) + bₙ sin(nπx/L)) with L half the period, and the data to plot it against f
+export interface FourierSeries {
+  variable: string;
+  period: string;
+  a0: string;
+  // General formulas in n, when the integrals could be done with n left symbolic
+  an?: string;
+  bn?: string;
+  coefficients: FourierCoefficient[];
+  partialSum: string;
+  // f extended periodically and the partial sum, sampled over two periods; omitted when f has parameters
+  points?: { x: number; f: number; partial: number }[];
+}
+
+type Symmetry = 'even' | 'odd' | null;
+
+const COMMANDS = new Set(['fourier', 'fourier_series', 'fourierseries']);
+// Functions that switch at a zero of their argument, splitting f into pieces there
+const SWITCHES = new Set(['sign', 'sgn', 'abs', 'heaviside']);
+const DEFAULT_TERMS = 5;
+const MAX_TERMS = 50;
+const PLOT_SAMPLES = 400;
+// Largest denominator tried when recognising a zero of a switch argument as p/q or p·π/q
+const MAX_DENOMINATOR = 24;
+// Fractions of the half period where f(-x) is compared with f(x) when looking for symmetry
+const SYMMETRY_SAMPLES = [0.13, 0.29, 0.41, 0.67, 0.83, 0.97];
+
+export class FourierSolver {
+  static isFourier(node: ExpressionNode): boolean {
+    return node.kind === 'call' && COMMANDS.has(node.name);
+  }
+
+  static solve(expr: string, node: ExpressionNode): CalculusSolution {
+    if (node.kind !== 'call' || !COMMANDS.has(node.name)) {
+      throw new ParseError('Expected fourier(f, x, period, n)', node.position);
+    }
+    return this.series(expr, this.spec(node));
+  }
+
+  // fourier(f, x, period, n), or fourier([[f₁, a, b], [f₂, b, c], …], x, period, n) for f given piece by piece;
+  // x defaults to x, n to 5, and the period to 2π, or to the span of the pieces
+  static spec(node: CallNode): FourierSpec {
+    const [body, variableNode, periodNode, termsNode, ...extra] = node.args;
+    if (!body || extra.length || (variableNode && variableNode.kind !== 'symbol')) {
+      throw new ParseError('Expected fourier(f, x, period, n)', node.position);
+    }
+    const variable = variableNode?.kind === 'symbol' ? variableNode.name : 'x';
+    const terms = termsNode ? evaluateNumeric(ExpressionParser.print(termsNode)) : DEFAULT_TERMS;
+    if (!Number.isInteger(terms) || terms < 1 || terms > MAX_TERMS) {
+      throw new Error(`the number of terms must be a whole number from 1 to ${MAX_TERMS}`);
+    }
+
+    const given = body.kind === 'list' && body.items.every(item => item.kind === 'list') ? this.pieces(body.items, variable) : null;
+    const period = periodNode
+      ? ExpressionParser.print(periodNode)
+      : given ? cas(`(${given[given.length - 1].to})-(${given[0].from})`) : '2*pi';
+    if (!isFreeOf(period, variable) || evaluateNumeric(period) <= 0) {
+      throw new Error(`the period must be a positive constant, but got ${period}`);
+    }
+    if (given) {
+      const span = cas(`(${given[given.length - 1].to})-(${given[0].from})`);
+      if (cas(`(${span})-(${period})`) !== '0') {
+        throw new Error(`the pieces span ${span}, which must be exactly one period ${period}`);
+      }
+    }
+    const half = cas(`(${period})/2`);
+    return { pieces: given ?? [{ expression: ExpressionParser.print(body), from: cas(`-(${half})`), to: half }], variable, period, terms };
+  }
+
+  // [[f₁, a, b], [f₂, b, c], …] with each piece starting where the one before it ends
+  static pieces(items: ExpressionNode[], variable: string): FourierPiece[] {
+    const pieces = items.map(item => {
+      if (item.kind !== 'list' || item.items.length !== 3) {
+        throw new ParseError('Expected each piece as [f, a, b], meaning f on a ≤ x < b', item.position);
+      }
+      const [expression, from, to] = item.items.map(part => ExpressionParser.print(part));
+      if (!isFreeOf(from, variable) || !isFreeOf(to, variable)) {
+        throw new Error(`the ends of each piece must be constants, but got [${from}, ${to}]`);
+      }
+      return { expression: cas(expression), from: cas(from), to: cas(to) };
+    });
+    pieces.slice(1).forEach((piece, i) => {
+      if (cas(`(${piece.from})-(${pieces[i].to})`) !== '0') {
+        throw new Error(`the piece starting at ${piece.from} must start where the one before it ends, at ${pieces[i].to}`);
+      }
+    });
+    return pieces;
+  }
+
+  static series(expr: string, spec: FourierSpec): CalculusSolution {
+    const { variable: x, period, terms } = spec;
+    const { steps, push, methods } = recordSteps();
+    const L = cas(`(${period})/2`);
+    const index = spec.pieces.some(piece => freeVariables(piece.expression).includes('n')) ? 'k' : 'n';
+    const sub = index === 'n' ? 'ₙ' : 'ₖ';
+    const harmonic = (k: string) => cas(`${k}*pi*${x}/(${L})`);
+    const [start, end] = [spec.pieces[0].from, spec.pieces[spec.pieces.length - 1].to];
+
+    push(`f(${x}) = ${this.show(spec.pieces, x)}, with period ${period}`,
+      `Expand f over one period [${displayValue(start)}, ${displayValue(end)}] as a₀/2 + Σ (a${sub}·cos(${index}π${x}/L) + b${sub}·sin(${index}π${x}/L)), where L = ${L} is half the period`);
+    const pieces = spec.pieces.flatMap(piece => this.split(piece, x));
+    if (pieces.length > spec.pieces.length) {
+      push(`f(${x}) = ${this.show(pieces, x)}`,
+        `Split the period where the argument of ${[...SWITCHES].filter(name => spec.pieces.some(piece => new RegExp(`\\b${name}\\(`).test(piece.expression))).join(', ')} changes sign, so each piece is a plain expression`, 'Piecewise Function');
+    }
+
+    const centred = cas(`(${start})+(${end})`) === '0';
+    const symmetry = centred ? this.symmetry(pieces, x) : null;
+    if (symmetry === 'even') {
+      push(`b${sub} = 0`, `f is even, so f(${x})·sin(${index}π${x}/L) is odd and integrates to 0 over [-L, L]`, 'Symmetry');
+    } else if (symmetry === 'odd') {
+      push(`a₀ = 0, a${sub} = 0`, `f is odd, so f(${x}) and f(${x})·cos(${index}π${x}/L) are odd and integrate to 0 over [-L, L]`, 'Symmetry');
+    }
+
+    const integral = (kernel: string) => `(1/${LaplaceSolver.group(L)})·${pieces.length > 1 ? '(' : ''}${pieces
+      .map(({ expression, from, to }) => `∫_${displayValue(from)}^${displayValue(to)} ${LaplaceSolver.group(expression)}${kernel === '1' ? '' : `·${kernel}`} d${x}`)
+      .join(' + ')}${pieces.length > 1 ? ')' : ''}`;
+    const a0 = symmetry === 'odd' ? '0' : this.exact(pieces, x, L, '1', index, methods)?.value ?? this.numeric(pieces, x, L, () => 1);
+    if (symmetry !== 'odd') {
+      push(`a₀ = ${integral('1')} = ${a0}`, 'Integrate f over one period and divide by L', 'Fourier Coefficients');
+    }
+
+    const family = (name: 'a' | 'b', trig: 'cos' | 'sin', skip: boolean) => {
+      if (skip) return { general: '0', derived: false, values: Array.from({ length: terms }, () => '0') };
+      const kernel = (k: string) => `${trig}(${harmonic(k)})`;
+      const exact = this.exact(pieces, x, L, kernel(index), index, methods);
+      const general = exact ? cas(`simplify(${exact.value})`) : null;
+      if (general !== null) {
+        push(`${name}${sub} = ${integral(kernel(index))} = ${general}`,
+          `Integrate with ${index} left as a symbol, using sin(${index}π) = 0 and cos(${index}π) = (-1)^${index} for whole numbers ${index}`, 'Fourier Coefficients');
+      }
+      const values = Array.from({ length: terms }, (_, i) => {
+        const m = i + 1;
+        if (exact) {
+          try {
+            // The formula as integrated, before sin(nπ) and cos(nπ) were simplified, shows where it breaks down
+            const value = cas(`subst(${m},${index},${exact.raw})`);
+            if (!/\b(infinity|nan)\b/.test(value)) return value;
+          } catch {
+            // The general formula divides by zero at this n
+          }
+        }
+        const value = this.exact(pieces, x, L, kernel(String(m)), index, methods)?.value
+          ?? this.numeric(pieces, x, L, u => (trig === 'cos' ? Math.cos : Math.sin)(m * Math.PI * u / evaluateNumeric(L)));
+        push(`${name}${subscript(m)} = ${integral(kernel(String(m)))} = ${value}`,
+          general === null
+            ? `Integrate with ${index} = ${m}${/\d\.\d/.test(value) ? ', numerically since no antiderivative was found' : ''}`
+            : `The general formula divides by zero at ${index} = ${m}, so integrate again with ${index} = ${m}`, 'Fourier Coefficients');
+        return value;
+      });
+      return { general, derived: general !== null, values };
+    };
+    const cosines = family('a', 'cos', symmetry === 'odd');
+    const sines = family('b', 'sin', symmetry === 'even');
+    const coefficients: FourierCoefficient[] = cosines.values.map((a, i) => ({ n: i + 1, a, b: sines.values[i] }));
+    if (cosines.derived || sines.derived) {
+      coefficients.forEach(({ n, a, b }) => push(`a${subscript(n)} = ${a}, b${subscript(n)} = ${b}`, `Evaluate the coefficients at ${index} = ${n}`, 'Fourier Coefficients'));
+    }
+
+    const partialSum = this.partialSum(a0, coefficients, harmonic);
+    push(`S${subscript(terms)}(${x}) = ${partialSum}`, `Add a₀/2 and the first ${terms} harmonic${terms > 1 ? 's' : ''}`, 'Partial Sum');
+    const jumps = this.jumps(pieces, x);
+    if (jumps.length) {
+      push(jumps.map(({ at, average }) => `S(${displayValue(at)}) → ${average}`).join(', '),
+        `f jumps at ${jumps.map(({ at }) => displayValue(at)).join(', ')}, where the series converges to the average of the one-sided limits; next to a jump the partial sums overshoot by about 9% of its size (the Gibbs phenomenon)`,
+        "Dirichlet's Theorem");
+    }
+
+    const points = this.points(pieces, x, period, partialSum);
+    return {
+      original: expr,
+      result: partialSum,
+      steps,
+      type: 'Fourier Series',
+      method: [...methods].join(' / '),
+      verified: SolutionVerifier.fourier(pieces, x, L, [{ n: 0, a: a0, b: '0' }, ...coefficients]),
+      fourier: {
+        variable: x,
+        period,
+        a0,
+        ...(cosines.general !== null ? { an: cosines.general } : {}),
+        ...(sines.general !== null ? { bn: sines.general } : {}),
+        coefficients,
+        partialSum,
+        ...(points ? { points } : {}),
+      }
+    };
+  }
+
+  // f on a piece split where the argument of sign, abs or heaviside crosses zero, with those functions replaced on each part
+  static split(piece: FourierPiece, x: string): FourierPiece[] {
+    const node = ExpressionParser.parse(piece.expression);
+    const switches = ExpressionParser.nodes(node).filter((child): child is CallNode =>
+      child.kind === 'call' && SWITCHES.has(child.name) && child.args.length === 1 && ExpressionParser.mentions(child, x));
+    if (!switches.length) return [piece];
+    const [from, to] = [piece.from, piece.to].map(end => evaluateNumeric(end));
+    if (![from, to].every(Number.isFinite)) {
+      throw new Error(`f is split into pieces, so the period must be numeric, but the interval is [${piece.from}, ${piece.to}]`);
+    }
+
+    const breaks = switches.flatMap(call => {
+      const argument = call.args[0];
+      const text = ExpressionParser.print(argument);
+      if (freeVariables(text).some(name => name !== x)) {
+        throw new Error(`${ExpressionParser.print(call)} has parameters, so f cannot be split into pieces where its argument changes sign`);
+      }
+      if (ExpressionParser.polynomialDegree(argument, x) === 1) {
+        const root = cas(`-(${cas(`subst(0,${x},${text})`)})/(${cas(`d(${text},${x})`)})`);
+        const value = evaluateNumeric(root);
+        return value > from && value < to ? [{ text: root, value }] : [];
+      }
+      const g = numericFunction(text, x);
+      return bracketRoots(g, from, to).flatMap(([a, b]) => {
+        const { value } = bisection(g, a, b);
+        if (!(value > from && value < to) || Math.abs(value - from) < 1e-9 || Math.abs(value - to) < 1e-9) return [];
+        const root = this.recognize(value);
+        if (root === null) {
+          throw new Error(`${text} changes sign at ${x} ≈ ${formatDecimal(value)}, which could not be found exactly to split f into pieces`);
+        }
+        return [{ text: root, value }];
+      });
+    }).sort((p, q) => p.value - q.value)
+      .filter((mark, i, marks) => i === 0 || mark.value - marks[i - 1].value > 1e-12);
+
+    const ends = [{ text: piece.from, value: from }, ...breaks, { text: piece.to, value: to }];
+    const source = ExpressionParser.print(node);
+    return ends.slice(1).map((end, i) => {
+      const middle = (ends[i].value + end.value) / 2;
+      const expression = switches.reduce((text, call) => {
+        const argument = ExpressionParser.print(call.args[0]);
+        const sign = Math.sign(evaluateNumeric(argument, { [x]: middle }));
+        const value = call.name === 'abs' ? `(${sign}*(${argument}))` : call.name === 'heaviside' ? String(sign > 0 ? 1 : 0) : String(sign);
+        return text.split(ExpressionParser.print(call)).join(value);
+      }, source);
+      return { expression: cas(expression), from: ends[i].text, to: end.text };
+    });
+  }
+
+  // A zero found numerically, recognised as a fraction or a fraction of π so the pieces can be integrated exactly
+  static recognize(value: number): string | null {
+    for (let q = 1; q <= MAX_DENOMINATOR; q++) {
+      for (const [unit, name] of [[1, ''], [Math.PI, '*pi']] as const) {
+        const p = Math.round((value * q) / unit);
+        if (Math.abs(value - (p * unit) / q) < 1e-9 * Math.max(1, Math.abs(value))) return cas(`${p}${name}/${q}`);
+      }
+    }
+    return null;
+  }
+
+  // Even or odd over a period centred on 0, exactly for a single piece and by sampling otherwise
+  static symmetry(pieces: FourierPiece[], x: string): Symmetry {
+    if (pieces.length === 1) {
+      const [{ expression }] = pieces;
+      const mirrored = cas(`subst(-${x},${x},${expression})`);
+      if (cas(`(${mirrored})-(${expression})`) === '0') return 'even';
+      if (cas(`(${mirrored})+(${expression})`) === '0') return 'odd';
+      return null;
+    }
+    const f = this.evaluator(pieces, x);
+    const half = evaluateNumeric(pieces[pieces.length - 1].to);
+    if (!f || !Number.isFinite(half)) return null;
+    const pairs = SYMMETRY_SAMPLES.map(r => [f(r * half), f(-r * half)]);
+    const close = (p: number, q: number) => Math.abs(p - q) <= 1e-9 * Math.max(1, Math.abs(p), Math.abs(q));
+    if (pairs.every(([right, left]) => close(left, right))) return 'even';
+    if (pairs.every(([right, left]) => close(left, -right))) return 'odd';
+    return null;
+  }
+
+  // (1/L)·Σ ∫ f·kernel over the pieces as integrated and reduced for whole-number n, or null when some piece has no antiderivative
+  static exact(pieces: FourierPiece[], x: string, L: string, kernel: string, index: string, methods: Set<string>): { value: string; raw: string } | null {
+    try {
+      const parts = pieces.map(({ expression, from, to }) => {
+        const { antiderivative, rules } = this.antiderivative(`(${expression})*(${kernel})`, x);
+        rules.forEach(rule => methods.add(rule));
+        return cas(`subst(${LaplaceSolver.group(to)},${x},${antiderivative})-subst(${LaplaceSolver.group(from)},${x},${antiderivative})`);
+      });
+      const raw = cas(`(${parts.map(part => `(${part})`).join('+')})/(${L})`);
+      const pattern = new RegExp(`\\b(sin|cos)\\((?:(\\d+)\\*)?${index}\\*pi\\)`, 'g');
+      const value = cas(raw.replace(pattern, (_, name: string, multiple?: string) =>
+        (name === 'sin' ? '0' : Number(multiple ?? 1) % 2 === 0 ? '1' : `(-1)^${index}`)));
+      return { value, raw };
+    } catch {
+      return null;
+    }
+  }
+
+  // The antiderivative, first rewriting products and powers of sin and cos as sums when the integrator cannot handle them directly
+  static antiderivative(integrand: string, x: string): { antiderivative: string; rules: string[] } {
+    const trace = (text: string) => {
+      const { result, rules, traced } = IntegralTracer.trace(text, x);
+      return { antiderivative: result, rules: traced ? rules : [] };
+    };
+    try {
+      return trace(integrand);
+    } catch (error) {
+      const linear = this.linearize(integrand, x);
+      if (linear === cas(integrand)) throw error;
+      const parts = OdeSolver.terms(ExpressionParser.parse(linear)).map(term => trace(ExpressionParser.print(term)));
+      return {
+        antiderivative: cas(parts.map(({ antiderivative }) => `(${antiderivative})`).join('+')),
+        rules: [...new Set(['Product-to-Sum', ...parts.flatMap(({ rules }) => rules)])]
+      };
+    }
+  }
+
+  // A sum of terms with at most one sine or cosine of x each, pairing factors off with the product-to-sum identities
+  static linearize(expression: string, x: string): string {
+    return cas(OdeSolver.terms(ExpressionParser.parse(cas(expression))).map(term => {
+      const factors = LaplaceSolver.factors(term).flatMap(factor => {
+        const repeated = LaplaceSolver.repeated(factor);
+        return repeated.length ? repeated : [factor];
+      });
+      const trig = factors.flatMap((factor, i) =>
+        (factor.kind === 'call' && (factor.name === 'sin' || factor.name === 'cos') && ExpressionParser.mentions(factor, x) ? [i] : []));
+      if (trig.length < 2) return `(${ExpressionParser.print(term)})`;
+      const [first, second] = trig.slice(0, 2).map(i => factors[i] as CallNode);
+      const identity = PRODUCT_TO_SUM[`${first.name},${second.name}`](ExpressionParser.print(first.args[0]), ExpressionParser.print(second.args[0]));
+      const rest = factors.filter((_, i) => i !== trig[0] && i !== trig[1]).map(factor => `*(${ExpressionParser.print(factor)})`).join('');
+      return `(${this.linearize(`(${identity})${rest}`, x)})`;
+    }).join('+'));
+  }
+
+  // (1/L)·Σ ∫ f·kernel over the pieces by Gauss–Kronrod quadrature, for integrands without an elementary antiderivative
+  static numeric(pieces: FourierPiece[], x: string, L: string, kernel: (u: number) => number): string {
+    const half = evaluateNumeric(L);
+    const total = pieces.reduce((sum, { expression, from, to }) => {
+      const f = compileNumeric(expression);
+      return sum + gaussKronrod(u => f({ [x]: u }) * kernel(u), evaluateNumeric(from), evaluateNumeric(to)).value;
+    }, 0);
+    const value = total / half;
+    if (!Number.isFinite(value)) throw new Error('a Fourier coefficient could not be integrated, even numerically');
+    return formatDecimal(value);
+  }
+
+  // a₀/2 + Σ aₙ cos + bₙ sin, written in order of n and leaving out the zero terms
+  static partialSum(a0: string, coefficients: FourierCoefficient[], harmonic: (k: string) => string): string {
+    // A coefficient that is a sum or a decimal stays in one piece instead of being multiplied through
+    const term = (coefficient: string, wave: string) => (coefficient === '0'
+      ? '0'
+      : /^-?\d+\.\d+$/.test(coefficient) || OdeSolver.terms(ExpressionParser.parse(coefficient)).length > 1
+        ? `${/^-?[\d.]+$/.test(coefficient) ? coefficient : `(${coefficient})`}*${wave}`
+        : cas(`(${coefficient})*${wave}`));
+    const terms = [
+      cas(`(${a0})/2`),
+      ...coefficients.flatMap(({ n, a, b }) => [term(a, `cos(${harmonic(String(n))})`), term(b, `sin(${harmonic(String(n))})`)])
+    ].filter(text => text !== '0');
+    return terms.length ? terms.join(' + ').replace(/\+ -/g, '- ') : '0';
+  }
+
+  // Points in the period, and its end, where neighbouring pieces of f disagree
+  static jumps(pieces: FourierPiece[], x: string): { at: string; average: string }[] {
+    const limit = (expression: string, at: string) => cas(`subst(${LaplaceSolver.group(at)},${x},${expression})`);
+    const last = pieces[pieces.length - 1];
+    const joins = [
+      ...pieces.slice(1).map((piece, i) => ({ at: piece.from, left: limit(pieces[i].expression, pieces[i].to), right: limit(piece.expression, piece.from) })),
+      { at: last.to, left: limit(last.expression, last.to), right: limit(pieces[0].expression, pieces[0].from) }
+    ];
+    return joins
+      .filter(({ left, right }) => cas(`(${left})-(${right})`) !== '0')
+      .map(({ at, left, right }) => ({ at, average: cas(`((${left})+(${right}))/2`) }));
+  }
+
+  // f(x) for x anywhere, shifted into the period first, or null when the pieces are not all numeric
+  static evaluator(pieces: FourierPiece[], x: string): ((point: number) => number) | null {
+    if (pieces.some(({ expression }) => freeVariables(expression).some(name => name !== x))) return null;
+    const parts = pieces.map(({ expression, from, to }) => ({ f: compileNumeric(expression), from: evaluateNumeric(from), to: evaluateNumeric(to) }));
+    if (!parts.every(({ from, to }) => Number.isFinite(from) && Number.isFinite(to))) return null;
+    const [start, end] = [parts[0].from, parts[parts.length - 1].to];
+    const period = end - start;
+    return point => {
+      const shifted = start + ((((point - start) % period) + period) % period);
+      const part = parts.find(({ to }) => shifted < to) ?? parts[parts.length - 1];
+      return part.f({ [x]: shifted });
+    };
+  }
+
+  // f and the partial sum across two periods, centred on the one given, for plotting
+  static points(pieces: FourierPiece[], x: string, period: string, partialSum: string): { x: number; f: number; partial: number }[] | null {
+    const f = this.evaluator(pieces, x);
+    if (!f || freeVariables(partialSum).some(name => name !== x)) return null;
+    const sum = compileNumeric(partialSum);
+    const width = evaluateNumeric(period);
+    const start = evaluateNumeric(pieces[0].from) - width / 2;
+    return Array.from({ length: PLOT_SAMPLES + 1 }, (_, i) => {
+      const point = start + (2 * width * i) / PLOT_SAMPLES;
+      return { x: point, f: f(point), partial: sum({ [x]: point }) };
+    }).filter(sample => Number.isFinite(sample.f) && Number.isFinite(sample.partial));
+  }
+
+  static show(pieces: FourierPiece[], x: string): string {
+    if (pieces.length === 1) return pieces[0].expression;
+    return pieces.map(({ expression, from, to }) => `${expression} for ${displayValue(from)} ≤ ${x} < ${displayValue(to)}`).join('; ');
+  }
+
+}
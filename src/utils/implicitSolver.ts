@@ -0,0 +1,230 @@
+import type { CalculusSolution } from './calculusEngine';
+import { DerivativeTracer } from './derivativeTracer';
+import { recordSteps } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { cas, evaluateNumeric, freeVariables, ordinal, superscript } from './expressionUtils';
+import { ExpressionParser, ParseError, type Clause, type EquationNode, type ExpressionNode } from './expressionParser';
+
+export interface ImplicitSpec {
+  left: string;
+  right: string;
+  dependent: string;
+  independent: string;
+  order: number;
+  point?: [string, string];
+}
+
+export class ImplicitSolver {
+  // Whether the input asks for dy/dx of an equation that does not already give y explicitly
+  static isImplicit(node: ExpressionNode): boolean {
+    if (node.kind === 'call' && node.name === 'implicit') return true;
+    const clauses = ExpressionParser.clauses(node);
+    const derivative = clauses.find(({ node: clause }) => clause.kind === 'derivative')?.node;
+    if (derivative?.kind !== 'derivative') return false;
+    if (derivative.body) return derivative.body.kind === 'equation';
+    if (!derivative.dependent) return false;
+
+    const equation = this.findEquation(clauses);
+    if (!equation) return false;
+    const { left, right } = equation;
+    return !(left.kind === 'symbol' && left.name === derivative.dependent && !ExpressionParser.mentions(right, derivative.dependent));
+  }
+
+  // implicit(equation[, order][, (x0, y0)]) or clauses such as "dy/dx of x^2 + y^2 = 25 at (3, 4)"
+  static spec(node: ExpressionNode): ImplicitSpec {
+    const print = (side: ExpressionNode) => ExpressionParser.print(side);
+    if (node.kind === 'call' && node.name === 'implicit') {
+      const [equation, ...options] = node.args;
+      if (equation?.kind !== 'equation') {
+        throw new ParseError('Expected implicit(equation), implicit(equation, order) or implicit(equation, order, (x0, y0))', node.position);
+      }
+      const spec: ImplicitSpec = { left: print(equation.left), right: print(equation.right), dependent: 'y', independent: 'x', order: 1 };
+      for (const option of options) {
+        if (option.kind === 'number') spec.order = Number(option.value);
+        else spec.point = this.point([option], spec.independent, spec.dependent);
+      }
+      return this.validate(spec);
+    }
+
+    const clauses = ExpressionParser.clauses(node);
+    const derivative = clauses.find(({ node: clause }) => clause.kind === 'derivative')?.node;
+    const spec: Omit<ImplicitSpec, 'left' | 'right'> = derivative?.kind === 'derivative'
+      ? { dependent: derivative.dependent ?? 'y', independent: derivative.variable, order: derivative.order }
+      : { dependent: 'y', independent: 'x', order: 1 };
+
+    const at = clauses.findIndex(({ separator }) => separator === 'at');
+    // (x0, y0) in one clause, or x = x0, y = y0 spread over two
+    const pointClauses = at < 0 ? [] : clauses.slice(at, clauses[at].node.kind === 'equation' ? at + 2 : at + 1);
+    if (pointClauses.length) {
+      spec.point = this.point(pointClauses.map(({ node: clause }) => clause), spec.independent, spec.dependent);
+    }
+
+    const equation = derivative?.kind === 'derivative' && derivative.body?.kind === 'equation'
+      ? derivative.body
+      : this.findEquation(clauses.filter(clause => !pointClauses.includes(clause)));
+    if (!equation) {
+      throw new ParseError('Expected an equation relating x and y, e.g. dy/dx of x^2 + y^2 = 25', node.position);
+    }
+    return this.validate({ ...spec, left: print(equation.left), right: print(equation.right) });
+  }
+
+  // The first clause that is an equation
+  static findEquation(clauses: Clause[]): EquationNode | null {
+    const equation = clauses.find(({ node }) => node.kind === 'equation')?.node;
+    return equation?.kind === 'equation' ? equation : null;
+  }
+
+  // (x0, y0), [x0, y0] or x = x0, y = y0
+  static point(nodes: ExpressionNode[], independent = 'x', dependent = 'y'): [string, string] {
+    if (nodes.every(node => node.kind === 'equation' && node.left.kind === 'symbol') && nodes.length === 2) {
+      const values: Record<string, string> = {};
+      for (const node of nodes) {
+        if (node.kind === 'equation' && node.left.kind === 'symbol') values[node.left.name] = ExpressionParser.print(node.right);
+      }
+      if (values[independent] === undefined || values[dependent] === undefined) {
+        throw new ParseError(`Expected the point as ${independent} = a, ${dependent} = b`, nodes[0].position);
+      }
+      return [values[independent], values[dependent]];
+    }
+
+    const [tuple] = nodes;
+    if (nodes.length !== 1 || tuple.kind !== 'list' || tuple.items.length !== 2) {
+      throw new ParseError('Expected the point as (x0, y0)', tuple?.position ?? 0);
+    }
+    return [ExpressionParser.print(tuple.items[0]), ExpressionParser.print(tuple.items[1])];
+  }
+
+  static validate(spec: ImplicitSpec): ImplicitSpec {
+    if (!Number.isInteger(spec.order) || spec.order < 1 || spec.order > 4) {
+      throw new Error('The derivative order must be between 1 and 4');
+    }
+    if (spec.dependent === spec.independent) {
+      throw new Error('The dependent and independent variables must differ');
+    }
+    return spec;
+  }
+
+  static solve(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    const spec = this.spec(node);
+    const { left, right, dependent: y, independent: x, order, point } = spec;
+    // Stand-in symbol for dy/dx while the CAS manipulates the differentiated equation
+    const prime = `d${y}d${x}`;
+    const show = (text: string) => text.replace(new RegExp(`\\b${prime}\\b`, 'g'), `d${y}/d${x}`);
+    const dydx = `d${y}/d${x}`;
+
+    const { steps, push } = recordSteps();
+
+    push(`${left} = ${right}`, `Treat ${y} as a function of ${x}, ${y} = ${y}(${x})`);
+    push(`d/d${x}(${left}) = d/d${x}(${right})`, `Differentiate both sides with respect to ${x}`);
+
+    // d/dx F(x, y(x)) = ∂F/∂x + ∂F/∂y·dy/dx
+    const differentiate = (side: string) => cas(`d(${side},${x})+d(${side},${y})*${prime}`);
+    const leftDerivative = differentiate(left);
+    const rightDerivative = differentiate(right);
+    push(`${show(leftDerivative)} = ${show(rightDerivative)}`,
+      `Chain rule: every term containing ${y} picks up a factor ${dydx}`, 'Chain Rule');
+
+    const difference = cas(`(${leftDerivative})-(${rightDerivative})`);
+    const coefficient = cas(`d(${difference},${prime})`);
+    const remainder = cas(`subst(0,${prime},${difference})`);
+    if (coefficient === '0') {
+      throw new Error(`the equation does not involve ${y}, so ${dydx} cannot be isolated`);
+    }
+    push(`${DerivativeTracer.wrap(coefficient)}·${dydx} = ${cas(`-(${remainder})`)}`,
+      `Collect the ${dydx} terms on one side and everything else on the other`);
+
+    const first = cas(`simplify(-(${remainder})/(${coefficient}))`);
+    push(`${dydx} = ${first}`, `Divide by ${coefficient} to solve for ${dydx}`, 'Implicit Differentiation');
+
+    const derivatives = [first];
+    for (let k = 2; k <= order; k++) {
+      const previous = derivatives[k - 2];
+      const raw = differentiate(previous);
+      push(`${this.notation(k, y, x)} = d/d${x}(${previous}) = ${show(raw)}`,
+        `Differentiate the ${ordinal(k - 1)} derivative with respect to ${x}, again treating ${y} as ${y}(${x})`, 'Chain Rule');
+      const next = cas(`simplify(subst(${first},${prime},${raw}))`);
+      push(`${this.notation(k, y, x)} = ${next}`, `Substitute ${dydx} = ${first} and simplify`, 'Implicit Differentiation');
+
+      const reduced = this.reduceWithEquation(next, left, right);
+      if (reduced) {
+        push(`${this.notation(k, y, x)} = ${reduced}`, `Use the original equation ${left} = ${right} to simplify further`);
+      }
+      derivatives.push(reduced ?? next);
+    }
+
+    const highest = derivatives[order - 1];
+    const firstCheck = SolutionVerifier.implicitDerivative(left, right, y, x, first);
+    const verified = order === 1 || firstCheck.status === 'failed'
+      ? firstCheck
+      : SolutionVerifier.unverified(`${dydx} passed its check (${firstCheck.check.charAt(0).toLowerCase()}${firstCheck.check.slice(1)}); higher derivatives were not checked independently`);
+    if (!point) {
+      return {
+        original: expr,
+        result: highest,
+        steps,
+        type: 'Implicit Differentiation',
+        method: 'Implicit Differentiation / Chain Rule',
+        verified
+      };
+    }
+
+    const [x0, y0] = point;
+    const at = (text: string) => cas(`subst(${y0},${y},subst(${x0},${x},${text}))`);
+    const residual = evaluateNumeric(at(`(${left})-(${right})`));
+    if (!Number.isFinite(residual) || Math.abs(residual) > 1e-9) {
+      throw new Error(`the point (${x0}, ${y0}) does not lie on the curve ${left} = ${right}`);
+    }
+
+    const label = `(${x0}, ${y0})`;
+    if (at(coefficient) === '0') {
+      push(`${x} = ${x0}`,
+        `The coefficient of ${dydx} vanishes at ${label}, so ${dydx} is undefined there and the tangent line is vertical`);
+      return {
+        original: expr,
+        result: `${highest} (undefined at ${label}: vertical tangent)`,
+        steps,
+        type: 'Implicit Differentiation',
+        method: 'Implicit Differentiation / Chain Rule',
+        verified
+      };
+    }
+
+    const slope = at(first);
+    push(`${dydx} at ${label} = ${slope}`, 'Substitute the point to get the slope of the tangent line');
+    const line = cas(`(${slope})*(${x}-(${x0}))+(${y0})`);
+    push(`${y} − ${y0} = ${DerivativeTracer.wrap(slope)}·(${x} − ${x0})  ⇒  ${y} = ${line}`, 'Point-slope form of the tangent line');
+
+    const value = order === 1 ? slope : at(highest);
+    if (order > 1) {
+      push(`${this.notation(order, y, x)} at ${label} = ${value}`, `Substitute the point into the ${ordinal(order)} derivative`);
+    }
+
+    return {
+      original: expr,
+      result: `${highest} = ${value} at ${label}`,
+      steps,
+      type: 'Implicit Differentiation',
+      method: 'Implicit Differentiation / Chain Rule',
+      verified
+    };
+  }
+
+  // Replace a numerator that is a constant multiple of one side of the equation by the other side
+  static reduceWithEquation(expr: string, left: string, right: string): string | null {
+    const numerator = cas(`numerator(${expr})`);
+    const denominator = cas(`denominator(${expr})`);
+    for (const [side, other] of [[left, right], [right, left]]) {
+      if (freeVariables(side).length === 0) continue;
+      const ratio = cas(`simplify((${numerator})/(${side}))`);
+      if (freeVariables(ratio).length > 0) continue;
+      const reduced = cas(`(${ratio})*(${other})/(${denominator})`);
+      return reduced === expr ? null : reduced;
+    }
+    return null;
+  }
+
+  // dy/dx, d²y/dx², ...
+  static notation(order: number, dependent: string, independent: string): string {
+    return `d${superscript(order)}${dependent}/d${independent}${superscript(order)}`;
+  }
+}
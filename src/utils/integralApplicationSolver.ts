@@ -0,0 +1,289 @@
+import type { CalculusSolution } from './calculusEngine';
+import { EquationSolver } from './equationSolver';
+import { IntegralTracer } from './integralTracer';
+import { recordSteps, type Push } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { cas, compileNumeric, displayValue, evaluateNumeric, formatDecimal, freeVariables } from './expressionUtils';
+import { ExpressionParser, ParseError, type ExpressionNode } from './expressionParser';
+import { adaptiveSimpson } from './numericalMethods';
+
+export type ApplicationKind = 'area' | 'disk' | 'washer' | 'shell' | 'arcLength' | 'surface';
+
+export interface ApplicationSpec {
+  kind: ApplicationKind;
+  functions: string[];
+  variable: string;
+  lower?: string;
+  upper?: string;
+}
+
+interface Application {
+  kind: ApplicationKind;
+  // Number of curves the command takes before the variable and bounds
+  curves: number;
+  method: string;
+  usage: string;
+}
+
+// A definite integral evaluated exactly when an antiderivative is found, otherwise numerically
+interface Evaluation {
+  value: string;
+  exact: boolean;
+}
+
+const APPLICATIONS: Record<string, Application> = {
+  area_between: { kind: 'area', curves: 2, method: 'Area Between Curves', usage: 'area_between(f, g, x, a, b)' },
+  volume_disk: { kind: 'disk', curves: 1, method: 'Disk Method', usage: 'volume_disk(f, x, a, b)' },
+  volume_washer: { kind: 'washer', curves: 2, method: 'Washer Method', usage: 'volume_washer(outer, inner, x, a, b)' },
+  volume_shell: { kind: 'shell', curves: 1, method: 'Shell Method', usage: 'volume_shell(f, x, a, b)' },
+  arc_length: { kind: 'arcLength', curves: 1, method: 'Arc Length', usage: 'arc_length(f, x, a, b)' },
+  surface_area: { kind: 'surface', curves: 1, method: 'Surface Area of Revolution', usage: 'surface_area(f, x, a, b)' }
+};
+
+export class IntegralApplicationSolver {
+  static isApplication(node: ExpressionNode): boolean {
+    return node.kind === 'call' && node.name in APPLICATIONS;
+  }
+
+  // The curves, then optionally the variable, the bounds, or both
+  static spec(node: ExpressionNode): ApplicationSpec {
+    if (node.kind !== 'call' || !(node.name in APPLICATIONS)) {
+      throw new ParseError(`Expected one of ${Object.values(APPLICATIONS).map(application => application.usage).join(', ')}`, node.position);
+    }
+    const { kind, curves, usage } = APPLICATIONS[node.name];
+    const functions = node.args.slice(0, curves).map(arg => ExpressionParser.print(arg));
+    const rest = node.args.slice(curves);
+    if (functions.length < curves || rest.length > 3) {
+      throw new ParseError(`Expected ${usage}`, node.position);
+    }
+
+    const named = rest.length === 1 || rest.length === 3 ? rest[0] : undefined;
+    if (named && named.kind !== 'symbol') {
+      throw new ParseError('Expected the variable of integration as a name such as x', named.position);
+    }
+    const variables = [...new Set(functions.flatMap(freeVariables))];
+    const variable = named?.kind === 'symbol' ? named.name : variables.length === 1 ? variables[0] : 'x';
+    const others = variables.filter(name => name !== variable);
+    if (others.length) {
+      throw new Error(`the curves may only depend on ${variable}, but they also mention ${others.join(', ')}`);
+    }
+    const bounds = rest.length >= 2 ? rest.slice(-2).map(bound => ExpressionParser.print(bound)) : [];
+    if (bounds.some(bound => freeVariables(bound).length || Number.isNaN(evaluateNumeric(bound)))) {
+      throw new Error('the bounds must be numbers');
+    }
+    return bounds.length ? { kind, functions, variable, lower: bounds[0], upper: bounds[1] } : { kind, functions, variable };
+  }
+
+  static solve(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    const spec = this.spec(node);
+    const { kind, functions, variable: x } = spec;
+    const { method } = this.application(kind);
+    const { steps, push, methods } = recordSteps();
+    methods.add(method);
+    push(this.formula(spec), this.description(spec));
+
+    const [lower, upper] = spec.lower !== undefined && spec.upper !== undefined ? [spec.lower, spec.upper] : this.bounds(spec, push);
+    const [f, g] = functions;
+    const symbol = kind === 'area' ? 'A' : kind === 'arcLength' ? 'L' : kind === 'surface' ? 'S' : 'V';
+    let integrand: string;
+    let checked: string;
+    let total: Evaluation;
+
+    if (kind === 'area') {
+      // Split at every crossing inside the interval so each piece has one curve on top
+      const crossings = this.crossings(f, g, x, lower, upper);
+      const edges = [lower, ...crossings, upper];
+      if (crossings.length) {
+        push(`${x} = ${crossings.join(', ')}`, `The curves cross inside [${displayValue(lower)}, ${displayValue(upper)}], so split the region there`, 'Intersection Points');
+      }
+      const pieces = edges.slice(1).map((right, i) => {
+        const left = edges[i];
+        const middle = (evaluateNumeric(left) + evaluateNumeric(right)) / 2;
+        const [top, bottom] = evaluateNumeric(f, { [x]: middle }) >= evaluateNumeric(g, { [x]: middle }) ? [f, g] : [g, f];
+        const difference = cas(`(${top})-(${bottom})`);
+        push(`∫_${displayValue(left)}^${displayValue(right)} (${difference}) d${x}`,
+          `On [${displayValue(left)}, ${displayValue(right)}] the curve ${top} lies above ${bottom}`, method);
+        return this.evaluate(difference, x, left, right, push);
+      });
+      total = this.add(pieces);
+      integrand = cas(`(${f})-(${g})`);
+      checked = `abs(${integrand})`;
+      if (pieces.length > 1) {
+        push(`${symbol} = ${pieces.map(piece => piece.value).join(' + ')} = ${total.value}`, 'Add the areas of the pieces', method);
+      }
+    } else {
+      integrand = this.integrand(spec, push);
+      checked = integrand;
+      push(`${symbol} = ∫_${displayValue(lower)}^${displayValue(upper)} ${integrand} d${x}`, 'Substitute into the formula', method);
+      const exact = this.exactly(integrand, x, lower, upper, push);
+      // Under one square root the radicand often simplifies, as 2π·sqrt(x)·sqrt(1 + 1/(4x)) does to π·sqrt(4x + 1)
+      const combined = kind === 'surface' ? cas(`2*pi*sqrt(simplify((${f})^2*(1+d(${f},${x})^2)))`) : integrand;
+      if (exact) {
+        total = exact;
+      } else if (combined !== integrand) {
+        push(`${symbol} = ∫_${displayValue(lower)}^${displayValue(upper)} ${combined} d${x}`, `For f(${x}) ≥ 0, f·sqrt(1 + f'^2) = sqrt(f^2·(1 + f'^2))`, method);
+        total = this.evaluate(combined, x, lower, upper, push);
+      } else {
+        total = this.numerically(integrand, x, lower, upper, push);
+      }
+    }
+
+    const decimal = evaluateNumeric(total.value);
+    const result = total.exact ? total.value : `≈ ${total.value}`;
+    push(total.exact && Number.isFinite(decimal) && formatDecimal(decimal) !== total.value ? `${symbol} = ${total.value} ≈ ${formatDecimal(decimal)}` : `${symbol} ${total.exact ? '=' : '≈'} ${total.value}`,
+      this.conclusion(kind));
+    return {
+      original: expr,
+      result,
+      steps,
+      type: 'Integral Application',
+      method: [...methods].join(' / '),
+      verified: total.exact
+        ? SolutionVerifier.definiteIntegral(checked, x, lower, upper, total.value)
+        : SolutionVerifier.unverified('The value is itself a numerical estimate')
+    };
+  }
+
+  // The formula being applied, before anything is substituted
+  static formula({ kind, variable: x, lower = 'a', upper = 'b' }: ApplicationSpec): string {
+    const range = `∫_${displayValue(lower)}^${displayValue(upper)}`;
+    switch (kind) {
+      case 'area':
+        return `A = ${range} |f(${x}) - g(${x})| d${x}`;
+      case 'disk':
+        return `V = π ${range} f(${x})^2 d${x}`;
+      case 'washer':
+        return `V = π ${range} (R(${x})^2 - r(${x})^2) d${x}`;
+      case 'shell':
+        return `V = 2π ${range} ${x}·f(${x}) d${x}`;
+      case 'arcLength':
+        return `L = ${range} sqrt(1 + f'(${x})^2) d${x}`;
+      case 'surface':
+        return `S = 2π ${range} f(${x})·sqrt(1 + f'(${x})^2) d${x}`;
+    }
+  }
+
+  static description({ kind, functions, variable: x }: ApplicationSpec): string {
+    const [f, g] = functions;
+    switch (kind) {
+      case 'area':
+        return `Area between f(${x}) = ${f} and g(${x}) = ${g}`;
+      case 'disk':
+        return `Volume of the solid swept out by rotating y = ${f} about the ${x}-axis, a disk of radius f(${x}) at each ${x}`;
+      case 'washer':
+        return `Volume of the solid between R(${x}) = ${f} and r(${x}) = ${g} rotated about the ${x}-axis, a washer at each ${x}`;
+      case 'shell':
+        return `Volume of the solid swept out by rotating the region under y = ${f} about the y-axis, a shell of radius ${x} and height f(${x}) at each ${x}`;
+      case 'arcLength':
+        return `Length of the curve y = ${f}`;
+      case 'surface':
+        return `Area of the surface swept out by rotating y = ${f} about the ${x}-axis`;
+    }
+  }
+
+  static application(kind: ApplicationKind): Application {
+    return Object.values(APPLICATIONS).find(application => application.kind === kind) as Application;
+  }
+
+  static conclusion(kind: ApplicationKind): string {
+    return kind === 'area' ? 'Area of the region' : kind === 'arcLength' ? 'Length of the curve' : kind === 'surface' ? 'Area of the surface' : 'Volume of the solid';
+  }
+
+  // Build the integrand from the curves, showing f'(x) for lengths and surfaces
+  static integrand({ kind, functions, variable: x }: ApplicationSpec, push: Push): string {
+    const [f, g] = functions;
+    switch (kind) {
+      case 'disk':
+        return cas(`pi*(${f})^2`);
+      case 'washer':
+        return cas(`pi*((${f})^2-(${g})^2)`);
+      case 'shell':
+        return cas(`2*pi*${x}*(${f})`);
+      default: {
+        const derivative = cas(`d(${f},${x})`);
+        const radicand = cas(`simplify(1+(${derivative})^2)`);
+        push(`f'(${x}) = ${derivative}, 1 + f'(${x})^2 = ${radicand}`, 'Differentiate the curve', this.application(kind).method);
+        return kind === 'arcLength' ? cas(`sqrt(${radicand})`) : cas(`2*pi*(${f})*sqrt(${radicand})`);
+      }
+    }
+  }
+
+  // Omitted bounds: where the two curves meet, or where a single curve meets the axis
+  static bounds({ kind, functions, variable: x }: ApplicationSpec, push: Push): [string, string] {
+    if (kind === 'arcLength') {
+      throw new Error('arc length needs the bounds, as in arc_length(f, x, a, b)');
+    }
+    const [f, g = '0'] = kind === 'area' || kind === 'washer' ? functions : [functions[0]];
+    const points = this.intersections(f, g, x);
+    if (points.length < 2) {
+      throw new Error(`${g === '0' ? `${f} = 0` : `${f} = ${g}`} has fewer than two real solutions, so the bounds must be given`);
+    }
+    const [lower, upper] = [points[0], points[points.length - 1]];
+    push(`${f} = ${g}: ${x} = ${points.join(', ')}`,
+      `${g === '0' ? 'The curve meets the axis' : 'The curves intersect'} at these points, so integrate from ${x} = ${lower} to ${x} = ${upper}`,
+      'Intersection Points');
+    return [lower, upper];
+  }
+
+  // Real solutions of f = g in increasing order
+  static intersections(f: string, g: string, x: string): string[] {
+    try {
+      return EquationSolver.derive({ left: f, right: g, variable: x }).roots
+        .filter(root => root.real)
+        .map(root => root.value)
+        .sort((a, b) => evaluateNumeric(a) - evaluateNumeric(b));
+    } catch {
+      return [];
+    }
+  }
+
+  static crossings(f: string, g: string, x: string, lower: string, upper: string): string[] {
+    const [a, b] = [evaluateNumeric(lower), evaluateNumeric(upper)].sort((p, q) => p - q);
+    return this.intersections(f, g, x).filter(point => {
+      const value = evaluateNumeric(point);
+      return value > a + 1e-12 && value < b - 1e-12;
+    });
+  }
+
+  static evaluate(integrand: string, x: string, lower: string, upper: string, push: Push): Evaluation {
+    return this.exactly(integrand, x, lower, upper, push) ?? this.numerically(integrand, x, lower, upper, push);
+  }
+
+  // F(b) − F(a) for an antiderivative F; a decimal bound, such as an approximated intersection, makes the value a decimal too
+  static exactly(integrand: string, x: string, lower: string, upper: string, push: Push): Evaluation | null {
+    const antiderivative = IntegralTracer.realAntiderivative(integrand, x);
+    if (antiderivative === null) return null;
+    const approximate = /\d\.\d/.test(lower + upper);
+    const F = compileNumeric(antiderivative);
+    const value = approximate
+      ? formatDecimal(F({ [x]: evaluateNumeric(upper) }) - F({ [x]: evaluateNumeric(lower) }))
+      : cas(`simplify((${cas(`subst((${upper}),${x},${antiderivative})`)})-(${cas(`subst((${lower}),${x},${antiderivative})`)}))`);
+    if (!Number.isFinite(evaluateNumeric(value))) return null;
+
+    push(`∫ ${integrand} d${x} = ${antiderivative}`, 'Find an antiderivative F', 'Fundamental Theorem of Calculus');
+    push(`F(${displayValue(upper)}) − F(${displayValue(lower)}) ${approximate ? '≈' : '='} ${value}`, 'Evaluate F at the bounds and subtract', 'Fundamental Theorem of Calculus');
+    return { value, exact: !approximate };
+  }
+
+  static numerically(integrand: string, x: string, lower: string, upper: string, push: Push): Evaluation {
+    const { value, errorEstimate, evaluations } = adaptiveSimpson(
+      t => compileNumeric(integrand)({ [x]: t }),
+      evaluateNumeric(lower),
+      evaluateNumeric(upper)
+    );
+    if (!Number.isFinite(value)) {
+      throw new Error(`the integral of ${integrand} could not be evaluated`);
+    }
+    push(`∫_${displayValue(lower)}^${displayValue(upper)} ${integrand} d${x} ≈ ${formatDecimal(value)}`,
+      `No closed-form antiderivative was found, so use adaptive Simpson's rule with ${evaluations} function evaluations, estimated error ${errorEstimate.toExponential(2)}`,
+      'Numerical Integration');
+    return { value: formatDecimal(value), exact: false };
+  }
+
+  // Total of the pieces, exact only when every piece is
+  static add(pieces: Evaluation[]): Evaluation {
+    return pieces.every(piece => piece.exact)
+      ? { value: cas(`simplify(${pieces.map(piece => `(${piece.value})`).join('+')})`), exact: true }
+      : { value: formatDecimal(pieces.reduce((sum, piece) => sum + evaluateNumeric(piece.value), 0)), exact: false };
+  }
+}
@@ -0,0 +1,662 @@
+import type { CalculusStep } from './calculusEngine';
+import { DerivativeTracer } from './derivativeTracer';
+import { cas, compileNumeric, evaluateNumeric, freeVariables, isFreeOf, isPolynomial, toAlgebrite } from './expressionUtils';
+import { ExpressionParser, type ExpressionNode } from './expressionParser';
+import { PartialFractionSolver, type Decomposition } from './partialFractionSolver';
+
+export interface IntegralTrace {
+  input: string;
+  result: string;
+  steps: CalculusStep[];
+  rules: string[];
+  // False when no rule-by-rule derivation could be produced and the steps only report the CAS result
+  traced: boolean;
+}
+
+interface Derivation {
+  result: string;
+  steps: CalculusStep[];
+}
+
+interface IntegrationContext {
+  variable: string;
+  // Integrand of the outermost integral, used to spot it reappearing after repeated integration by parts
+  root: string | null;
+  substitutions: number;
+  parts: number;
+}
+
+interface TableRule {
+  integrand: string;
+  antiderivative: string;
+  rule: string;
+}
+
+// Placeholder for the original integral I while solving I = A + c·I
+const SELF = 'selfintegral';
+const MAX_SUBSTITUTIONS = 2;
+const MAX_PARTS = 3;
+// Irregular points, so that coincidental agreement of two different expressions is unlikely
+const SAMPLE_POINTS = [0.37, 0.83, 1.61, 2.29];
+// Relative agreement required at the sample points, looser for antiderivatives with decimal coefficients
+const TOLERANCE = 1e-9;
+const DECIMAL_TOLERANCE = 1e-5;
+const DECIMAL = /\d\.\d/;
+// Where an antiderivative is evaluated to check that it is real
+const REAL_SAMPLE_POINT = 0.61;
+
+// Standard antiderivatives, written in x and matched after substituting the integration variable
+const TABLE: TableRule[] = [
+  { integrand: 'sin(x)', antiderivative: '-cos(x)', rule: 'Trigonometric Integral' },
+  { integrand: 'cos(x)', antiderivative: 'sin(x)', rule: 'Trigonometric Integral' },
+  { integrand: 'tan(x)', antiderivative: '-log(cos(x))', rule: 'Trigonometric Integral' },
+  { integrand: '1/cos(x)^2', antiderivative: 'tan(x)', rule: 'Trigonometric Integral' },
+  { integrand: '1/sin(x)^2', antiderivative: '-cos(x)/sin(x)', rule: 'Trigonometric Integral' },
+  { integrand: 'sin(x)/cos(x)^2', antiderivative: '1/cos(x)', rule: 'Trigonometric Integral' },
+  { integrand: 'sinh(x)', antiderivative: 'cosh(x)', rule: 'Hyperbolic Integral' },
+  { integrand: 'cosh(x)', antiderivative: 'sinh(x)', rule: 'Hyperbolic Integral' },
+  { integrand: 'exp(x)', antiderivative: 'exp(x)', rule: 'Exponential Rule' },
+  { integrand: '1/x', antiderivative: 'log(x)', rule: 'Logarithmic Rule' },
+  { integrand: '1/(1+x^2)', antiderivative: 'arctan(x)', rule: 'Inverse Trigonometric Integral' },
+  { integrand: '1/sqrt(1-x^2)', antiderivative: 'arcsin(x)', rule: 'Inverse Trigonometric Integral' },
+];
+
+// LIATE order for choosing u in integration by parts: logarithmic, inverse trig, algebraic, trig, exponential
+const LIATE: Array<{ label: string; names: string[] }> = [
+  { label: 'logarithmic', names: ['log', 'log10'] },
+  { label: 'inverse trigonometric', names: ['asin', 'acos', 'atan'] },
+  { label: 'algebraic', names: [] },
+  { label: 'trigonometric', names: ['sin', 'cos', 'tan', 'sec', 'csc', 'cot'] },
+  { label: 'exponential', names: ['exp'] },
+];
+
+export class IntegralTracer {
+  // Integrate by choosing a concrete rule at every level: table lookups, u-substitution or integration by parts
+  static trace(expr: string, variable: string): IntegralTrace {
+    let casResult: string | null;
+    try {
+      casResult = cas(`integral(${expr},${variable})`);
+    } catch {
+      casResult = null;
+    }
+
+    try {
+      const context: IntegrationContext = { variable, root: cas(expr), substitutions: 0, parts: 0 };
+      const derivation = this.integrate(expr, context);
+      if (derivation) {
+        const resolved = this.resolveSelf(derivation, expr, variable);
+        // Only present the derivation if differentiating it gives back the integrand; decimal coefficients, from partial
+        // fractions over approximate roots, are only worth showing when the CAS has no exact antiderivative
+        const approximate = resolved !== null && DECIMAL.test(resolved.result);
+        if (resolved && !(approximate && casResult !== null)
+          && this.differentiatesTo(resolved.result, expr, variable, approximate ? DECIMAL_TOLERANCE : TOLERANCE)) {
+          const steps = resolved.steps.map((step, index) => ({ ...step, step: String(index + 1) }));
+          const rules = [...new Set(steps.map(step => step.method).filter((method): method is string => Boolean(method)))];
+          return { input: expr, result: resolved.result, steps, rules, traced: true };
+        }
+      }
+    } catch {
+      // Unsupported node or failed CAS call: fall through to the honest CAS-only report
+    }
+
+    if (casResult === null) {
+      throw new Error('no antiderivative could be found');
+    }
+
+    return {
+      input: expr,
+      result: casResult,
+      steps: [
+        {
+          step: '1',
+          expression: `∫ ${expr} d${variable} = ${casResult}`,
+          explanation: 'CAS result, no derivation available: none of the substitution, parts or table rules applies'
+        }
+      ],
+      rules: [],
+      traced: false
+    };
+  }
+
+  // An antiderivative that evaluates to real numbers, or null when none is found; forms such as erf(i·x) are left to quadrature
+  static realAntiderivative(integrand: string, variable: string): string | null {
+    let result: string;
+    try {
+      result = this.trace(integrand, variable).result;
+    } catch {
+      return null;
+    }
+    const sample = Object.fromEntries(freeVariables(result).map(name => [name, REAL_SAMPLE_POINT]));
+    return /integral/.test(result) || !Number.isFinite(compileNumeric(result)(sample)) ? null : result;
+  }
+
+  static integrate(expr: string, context: IntegrationContext): Derivation | null {
+    const { variable } = context;
+    const node = ExpressionParser.parse(toAlgebrite(expr));
+    const integral = `∫ ${this.print(node)} d${variable}`;
+
+    if (!ExpressionParser.mentions(node, variable)) {
+      const constant = this.print(node);
+      const result = constant === '1' ? variable : `${DerivativeTracer.wrap(constant)}*${variable}`;
+      return this.single(`${integral} = ${result}`, 'Constant rule: ∫ c dx = c·x', 'Constant Rule', result);
+    }
+
+    if (node.kind === 'binary' && (node.operator === '+' || node.operator === '-')) {
+      return this.sumRule(node, context);
+    }
+
+    if (node.kind === 'unary') {
+      const inner = this.integrate(this.print(node.operand), context);
+      return inner && { result: cas(`-(${inner.result})`), steps: inner.steps };
+    }
+
+    return this.constantMultiple(node, context)
+      ?? this.powerRule(node, context)
+      ?? this.tableRule(node, context)
+      ?? this.substitution(node, context, false)
+      ?? this.expandPolynomial(node, context)
+      ?? this.partialFractions(node, context)
+      ?? this.byParts(node, context)
+      ?? this.substitution(node, context, true);
+  }
+
+  static sumRule(node: ExpressionNode, context: IntegrationContext): Derivation | null {
+    const { variable } = context;
+    const terms: Array<{ sign: string; node: ExpressionNode }> = [];
+    const collect = (current: ExpressionNode, sign: string) => {
+      if (current.kind === 'binary' && (current.operator === '+' || current.operator === '-')) {
+        collect(current.left, sign);
+        collect(current.right, current.operator === '-' ? (sign === '+' ? '-' : '+') : sign);
+      } else {
+        terms.push({ sign, node: current });
+      }
+    };
+    collect(node, '+');
+
+    const joined = (parts: string[]) =>
+      parts.map((part, i) => `${i === 0 ? (terms[i].sign === '-' ? '-' : '') : ` ${terms[i].sign} `}${part}`).join('');
+    const steps: CalculusStep[] = [{
+      step: '',
+      expression: `∫ ${this.print(node)} d${variable} = ${joined(terms.map(term => `∫ ${this.print(term.node)} d${variable}`))}`,
+      explanation: 'Sum rule: integrate term by term, ∫ (f ± g) dx = ∫ f dx ± ∫ g dx',
+      method: 'Sum Rule'
+    }];
+
+    const results: string[] = [];
+    for (const term of terms) {
+      const derivation = this.integrate(this.print(term.node), context);
+      if (!derivation) return null;
+      steps.push(...derivation.steps);
+      results.push(DerivativeTracer.wrap(derivation.result));
+    }
+
+    return { result: cas(joined(results)), steps };
+  }
+
+  static constantMultiple(node: ExpressionNode, context: IntegrationContext): Derivation | null {
+    const { variable } = context;
+    const factors: ExpressionNode[] = [];
+    const divisors: ExpressionNode[] = [];
+    const flatten = (current: ExpressionNode): ExpressionNode[] =>
+      current.kind === 'binary' && current.operator === '*' ? [...flatten(current.left), ...flatten(current.right)] : [current];
+    const collect = (current: ExpressionNode) => {
+      if (current.kind === 'binary' && current.operator === '*') [current.left, current.right].forEach(collect);
+      else if (current.kind === 'binary' && current.operator === '/') {
+        // c·f/(k·g): constants from both sides come out in front of f·(1/g)
+        collect(current.left);
+        for (const factor of flatten(current.right)) {
+          if (ExpressionParser.mentions(factor, variable)) factors.push(ExpressionParser.parse(`1/${this.group(factor)}`));
+          else divisors.push(factor);
+        }
+      } else factors.push(current);
+    };
+    collect(node);
+
+    const constants = factors.filter(factor => !ExpressionParser.mentions(factor, variable) && this.print(factor) !== '1');
+    const variables = factors.filter(factor => ExpressionParser.mentions(factor, variable));
+    if (constants.length === 0 && divisors.length === 0) return null;
+
+    const numerator = constants.map(factor => DerivativeTracer.wrap(this.print(factor))).join('*') || '1';
+    const constant = cas(divisors.length
+      ? `${numerator}/(${divisors.map(divisor => DerivativeTracer.wrap(this.print(divisor))).join('*')})`
+      : numerator);
+    const rest = variables.map(factor => DerivativeTracer.wrap(this.print(factor))).join('*');
+    if (constant === '1') return this.integrate(rest, context);
+
+    const inner = this.integrate(rest, context);
+    if (!inner) return null;
+
+    return {
+      result: cas(`${DerivativeTracer.wrap(constant)}*${DerivativeTracer.wrap(inner.result)}`),
+      steps: [
+        {
+          step: '',
+          expression: `∫ ${this.print(node)} d${variable} = ${this.multiple(constant, `∫ ${rest} d${variable}`)}`,
+          explanation: 'Constant multiple rule: ∫ c·f dx = c·∫ f dx',
+          method: 'Constant Multiple Rule'
+        },
+        ...inner.steps
+      ]
+    };
+  }
+
+  // ∫ xⁿ dx = xⁿ⁺¹/(n+1) for n ≠ −1, including roots and reciprocal powers of the variable itself
+  static powerRule(node: ExpressionNode, context: IntegrationContext): Derivation | null {
+    const { variable } = context;
+    const isVariable = (current: ExpressionNode) => current.kind === 'symbol' && current.name === variable;
+
+    let exponent: string | null = null;
+    if (isVariable(node)) exponent = '1';
+    if (node.kind === 'binary' && node.operator === '^' && isVariable(node.left) && !ExpressionParser.mentions(node.right, variable)) {
+      exponent = this.print(node.right);
+    }
+    if (node.kind === 'call' && node.name === 'sqrt' && isVariable(node.args[0])) exponent = '1/2';
+    if (node.kind === 'binary' && node.operator === '/' && node.left.kind === 'number' && this.print(node.left) === '1') {
+      const denominator = node.right;
+      if (denominator.kind === 'binary' && denominator.operator === '^' && isVariable(denominator.left)
+        && !ExpressionParser.mentions(denominator.right, variable)) {
+        exponent = cas(`-(${this.print(denominator.right)})`);
+      }
+      if (denominator.kind === 'call' && denominator.name === 'sqrt' && isVariable(denominator.args[0])) exponent = '-1/2';
+    }
+    if (exponent === null || cas(`${exponent}+1`) === '0') return null;
+
+    const raised = cas(`${exponent}+1`);
+    const power = /^\d+$/.test(raised) ? raised : `(${raised})`;
+    const result = cas(`${variable}^${power}/${power}`);
+    return this.single(
+      `∫ ${this.print(node)} d${variable} = ${variable}^${power}/${power} = ${result}`,
+      'Power rule: ∫ xⁿ dx = xⁿ⁺¹/(n+1), n ≠ −1',
+      'Power Rule',
+      result
+    );
+  }
+
+  static tableRule(node: ExpressionNode, context: IntegrationContext): Derivation | null {
+    const { variable } = context;
+    const expr = this.print(node);
+    const at = (template: string) => template.replace(/\bx\b/g, variable);
+
+    // Exponentials with a constant base: ∫ aˣ dx = aˣ/ln(a)
+    if (node.kind === 'binary' && node.operator === '^' && node.right.kind === 'symbol' && node.right.name === variable
+      && !ExpressionParser.mentions(node.left, variable) && this.print(node.left) !== 'e') {
+      const base = this.print(node.left);
+      const result = `${DerivativeTracer.wrap(base)}^${variable}/log(${base})`;
+      return this.single(`∫ ${expr} d${variable} = ${result}`, 'Exponential rule: ∫ aˣ dx = aˣ/ln(a)', 'Exponential Rule', result);
+    }
+
+    for (const entry of TABLE) {
+      if (!this.agree(expr, at(entry.integrand), variable)) continue;
+      const result = at(entry.antiderivative);
+      return this.single(
+        `∫ ${expr} d${variable} = ${result}`,
+        `Standard integral: ∫ ${entry.integrand} dx = ${entry.antiderivative}`,
+        entry.rule,
+        result
+      );
+    }
+    return null;
+  }
+
+  // Try each inner expression as u until the integrand becomes a function of u alone times du.
+  // Substitutions that need x solved from a linear u come last, after integration by parts has been tried.
+  static substitution(node: ExpressionNode, context: IntegrationContext, solveLinear: boolean): Derivation | null {
+    const { variable } = context;
+    if (context.substitutions >= MAX_SUBSTITUTIONS) return null;
+
+    const expr = this.print(node);
+    // Inside integration by parts u is already taken, so substitute with another letter
+    const symbols = context.parts > 0 ? ['w', 't', 's'] : ['u', 'w', 't', 's'];
+    const symbol = symbols.find(name => name !== variable && isFreeOf(expr, name));
+    if (!symbol) return null;
+
+    for (const candidate of this.substitutionCandidates(node, variable)) {
+      const u = this.print(candidate);
+      let du: string;
+      let rewritten: string;
+      // A CAS error for one candidate, such as dividing by a du that vanishes, only rules out that candidate
+      try {
+        du = cas(`d(${u},${variable})`);
+        if (du === '0') continue;
+
+        rewritten = cas(`simplify((${this.print(this.replace(node, u, symbol))})/(${du}))`);
+
+        if (!isFreeOf(rewritten, variable)) {
+          // A linear u can be solved for x, which removes any leftover x
+          const slope = solveLinear && cas(`d(${du},${variable})`) === '0' ? du : null;
+          if (!slope) continue;
+          const intercept = cas(`subst(0,${variable},${u})`);
+          rewritten = cas(`subst((${symbol}-(${intercept}))/(${slope}),${variable},${rewritten})`);
+          if (!isFreeOf(rewritten, variable)) continue;
+        }
+      } catch {
+        continue;
+      }
+
+      const inner = this.integrate(rewritten, {
+        variable: symbol,
+        root: null,
+        substitutions: context.substitutions + 1,
+        parts: context.parts,
+      });
+      if (!inner) continue;
+
+      // Substitute textually so the answer keeps u intact instead of being expanded by the CAS
+      const result = inner.result.replace(new RegExp(`\\b${symbol}\\b`, 'g'), (match, offset: number, text: string) =>
+        text[offset - 1] === '(' && text[offset + match.length] === ')' ? u : this.group(candidate));
+      return {
+        result,
+        steps: [
+          {
+            step: '',
+            expression: `${symbol} = ${u},  d${symbol} = ${DerivativeTracer.wrap(du)} d${variable}`,
+            explanation: `u-substitution: let ${symbol} = ${u}, so d${symbol}/d${variable} = ${du}`,
+            method: 'U-Substitution'
+          },
+          {
+            step: '',
+            expression: `∫ ${expr} d${variable} = ∫ ${rewritten} d${symbol}`,
+            explanation: `Rewrite the integral entirely in terms of ${symbol}`,
+            method: 'U-Substitution'
+          },
+          ...inner.steps,
+          {
+            step: '',
+            expression: `${inner.result} = ${result}`,
+            explanation: `Back-substitute ${symbol} = ${u}`,
+            method: 'U-Substitution'
+          }
+        ]
+      };
+    }
+    return null;
+  }
+
+  // Inner arguments, bases and denominators first, then whole function calls such as ln(x) or sin(x)
+  static substitutionCandidates(node: ExpressionNode, variable: string): ExpressionNode[] {
+    const inner: ExpressionNode[] = [];
+    const outer: ExpressionNode[] = [];
+    const isVariable = (current: ExpressionNode) => current.kind === 'symbol' && current.name === variable;
+
+    for (const child of ExpressionParser.nodes(node).slice(1)) {
+      if (child.kind === 'call') {
+        inner.push(...child.args);
+        outer.push(child);
+      }
+      if (child.kind === 'binary' && child.operator === '^') {
+        inner.push(child.left.kind === 'symbol' && child.left.name === 'e' ? child.right : child.left);
+        outer.push(child);
+      }
+      if (child.kind === 'binary' && child.operator === '/') inner.push(child.right);
+    }
+    if (node.kind === 'binary' && node.operator === '/') inner.push(node.right);
+    if (node.kind === 'call') inner.push(...node.args);
+    if (node.kind === 'binary' && node.operator === '^') inner.push(node.left, node.right);
+
+    const seen = new Set<string>();
+    return [...inner, ...outer].filter(candidate => {
+      const key = this.print(candidate);
+      if (seen.has(key) || isVariable(candidate) || !ExpressionParser.mentions(candidate, variable)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  // Products and powers of polynomials are multiplied out and integrated term by term
+  static expandPolynomial(node: ExpressionNode, context: IntegrationContext): Derivation | null {
+    const { variable } = context;
+    const expr = this.print(node);
+    if (node.kind !== 'binary' || !['*', '^'].includes(node.operator) || !isPolynomial(expr, variable)) return null;
+
+    const expanded = cas(expr);
+    if (expanded === expr) return null;
+    const inner = this.integrate(expanded, context);
+    if (!inner) return null;
+
+    return {
+      result: inner.result,
+      steps: [
+        {
+          step: '',
+          expression: `∫ ${expr} d${variable} = ∫ ${expanded} d${variable}`,
+          explanation: 'Expand the polynomial so it can be integrated term by term',
+          method: 'Polynomial Expansion'
+        },
+        ...inner.steps
+      ]
+    };
+  }
+
+  // A quotient of polynomials is split into partial fractions, which integrate to logs, powers and arctangents
+  static partialFractions(node: ExpressionNode, context: IntegrationContext): Derivation | null {
+    const { variable } = context;
+    const expr = this.print(node);
+    if (node.kind !== 'binary' || node.operator !== '/' || ![node.left, node.right].every(side => isPolynomial(this.print(side), variable))) return null;
+
+    const steps: CalculusStep[] = [];
+    let decomposition: Decomposition;
+    try {
+      decomposition = PartialFractionSolver.decompose(toAlgebrite(expr), variable, (expression, explanation, method) => {
+        steps.push({ step: '', expression, explanation, ...(method ? { method } : {}) });
+      });
+    } catch {
+      return null;
+    }
+    const { quotient, fractions } = decomposition;
+
+    const pieces = [...(quotient === '0' ? [] : [quotient]), ...fractions.map(fraction => PartialFractionSolver.display(fraction, variable))];
+    // A lone simple fraction needs no splitting, only its own rule
+    if (pieces.length === 1 && quotient === '0' && fractions[0].power === 1) steps.length = 0;
+    else steps.push({
+      step: '',
+      expression: `∫ ${expr} d${variable} = ${pieces.map(piece => `∫ ${piece} d${variable}`).join(' + ')}`,
+      explanation: 'Integrate the partial fractions one at a time',
+      method: 'Partial Fractions'
+    });
+    const results: string[] = [];
+    const inner = (piece: string) => {
+      const derivation = this.integrate(piece, context);
+      if (!derivation) return false;
+      steps.push(...derivation.steps);
+      results.push(derivation.result);
+      return true;
+    };
+    if (quotient !== '0' && !inner(quotient)) return null;
+    for (const fraction of fractions) {
+      const piece = PartialFractionSolver.display(fraction, variable);
+      if (fraction.kind === 'linear') {
+        const { root, power, coefficient } = fraction;
+        const antiderivative = power === 1
+          ? cas(`(${coefficient})*log(${variable}-(${root}))`)
+          : cas(`-(${coefficient})/(${power - 1}*(${variable}-(${root}))^${power - 1})`);
+        steps.push({
+          step: '',
+          expression: `∫ ${piece} d${variable} = ${antiderivative}`,
+          explanation: power === 1 ? '∫ A/(x − r) dx = A·ln(x − r)' : '∫ A/(x − r)ᵏ dx = −A/((k − 1)(x − r)ᵏ⁻¹)',
+          method: 'Logarithmic Rule'
+        });
+        results.push(antiderivative);
+      } else if (fraction.power === 1) {
+        const { re, im, linear, constant } = fraction;
+        // B·x + C = (B/2)·(2(x − α)) + (C + B·α), a multiple of the derivative of the quadratic plus a constant
+        const quadratic = cas(`expand((${variable}-(${re}))^2+(${im})^2)`);
+        const arctangent = cas(`((${constant})+(${linear})*(${re}))/(${im})`);
+        const antiderivative = cas(`(${linear})/2*log(${quadratic})+(${arctangent})*arctan((${variable}-(${re}))/(${im}))`);
+        steps.push({
+          step: '',
+          expression: `∫ ${piece} d${variable} = ${antiderivative}`,
+          explanation: `Complete the square, ${quadratic} = (${cas(`${variable}-(${re})`)})^2 + ${DerivativeTracer.wrap(im)}^2, and split the numerator into a multiple of the quadratic's derivative, which gives a log, plus a constant, which gives an arctangent`,
+          method: 'Completing the Square'
+        });
+        results.push(antiderivative);
+      } else if (cas(`(${piece})-(${toAlgebrite(expr)})`) === '0' || !inner(piece)) {
+        return null;
+      }
+    }
+
+    return { result: cas(results.map(part => `(${part})`).join('+')), steps };
+  }
+
+  // ∫ u dv = uv − ∫ v du, with u chosen as the factor that comes first in LIATE
+  static byParts(node: ExpressionNode, context: IntegrationContext): Derivation | null {
+    const { variable } = context;
+    if (context.parts >= MAX_PARTS) return null;
+
+    const factors: ExpressionNode[] = [];
+    const collect = (current: ExpressionNode) => {
+      if (current.kind === 'binary' && current.operator === '*') [current.left, current.right].forEach(collect);
+      else factors.push(current);
+    };
+    collect(node);
+
+    const ranked = factors
+      .filter(factor => ExpressionParser.mentions(factor, variable))
+      .map(factor => ({ factor, rank: this.liateRank(factor, variable) }));
+    if (ranked.length === 0) return null;
+    const chosen = ranked.reduce((best, entry) => (entry.rank < best.rank ? entry : best));
+    if (chosen.rank >= LIATE.length || (factors.length === 1 && chosen.rank > 1)) return null;
+
+    const u = this.print(chosen.factor);
+    const rest = factors.filter(factor => factor !== chosen.factor);
+    const dv = rest.length ? rest.map(factor => DerivativeTracer.wrap(this.print(factor))).join('*') : '1';
+    if (rest.some(factor => this.liateRank(factor, variable) >= LIATE.length)) return null;
+
+    let v: string;
+    try {
+      v = cas(`integral(${dv},${variable})`);
+    } catch {
+      return null;
+    }
+    const du = cas(`d(${u},${variable})`);
+    const remaining = cas(`simplify(${DerivativeTracer.wrap(v)}*${DerivativeTracer.wrap(du)})`);
+    const uv = cas(`${DerivativeTracer.wrap(u)}*${DerivativeTracer.wrap(v)}`);
+
+    const steps: CalculusStep[] = [
+      {
+        step: '',
+        expression: `u = ${u},  dv = ${dv} d${variable}  ⇒  du = ${du} d${variable},  v = ${v}`,
+        explanation: `Integration by parts: by LIATE, choose the ${LIATE[chosen.rank].label} factor as u`,
+        method: 'Integration by Parts'
+      },
+      {
+        step: '',
+        expression: `∫ ${this.print(node)} d${variable} = ${uv} − ∫ ${remaining} d${variable}`,
+        explanation: 'Apply ∫ u dv = uv − ∫ v du',
+        method: 'Integration by Parts'
+      }
+    ];
+
+    // After repeated parts the original integral may come back as a constant multiple of itself
+    if (context.root && context.parts > 0) {
+      const ratio = cas(`simplify((${remaining})/(${context.root}))`);
+      if (isFreeOf(ratio, variable) && evaluateNumeric(ratio) !== 0) {
+        steps.push({
+          step: '',
+          expression: `∫ ${remaining} d${variable} = ${this.multiple(ratio, 'I')}`,
+          explanation: 'The remaining integral is a constant multiple of the original integral I',
+          method: 'Integration by Parts'
+        });
+        return { result: cas(`${DerivativeTracer.wrap(uv)} - ${DerivativeTracer.wrap(ratio)}*${SELF}`), steps };
+      }
+    }
+
+    const inner = this.integrate(remaining, { ...context, parts: context.parts + 1 });
+    if (!inner) return null;
+
+    return {
+      result: cas(`${DerivativeTracer.wrap(uv)} - (${inner.result})`),
+      steps: [...steps, ...inner.steps]
+    };
+  }
+
+  static liateRank(node: ExpressionNode, variable: string): number {
+    if (node.kind === 'call') {
+      const name = DerivativeTracer.functionName(node.name);
+      const index = LIATE.findIndex(group => group.names.includes(name));
+      if (index >= 0) return index;
+      return name === 'sqrt' && isPolynomial(this.print(node.args[0]), variable) ? 2 : LIATE.length;
+    }
+    if (node.kind === 'binary' && node.operator === '^') {
+      const { left: base, right: exponent } = node;
+      if (!ExpressionParser.mentions(base, variable)) return 4;
+      if (!ExpressionParser.mentions(exponent, variable) && isPolynomial(this.print(base), variable)) return 2;
+    }
+    return isPolynomial(this.print(node), variable) ? 2 : LIATE.length;
+  }
+
+  // Solve I = A + c·I for I when integration by parts brought the original integral back
+  static resolveSelf(derivation: Derivation, expr: string, variable: string): Derivation | null {
+    if (isFreeOf(derivation.result, SELF)) return derivation;
+
+    const rest = cas(`subst(0,${SELF},${derivation.result})`);
+    const coefficient = cas(`d(${derivation.result},${SELF})`);
+    if (coefficient === '1') return null;
+    const negative = coefficient.startsWith('-');
+    const magnitude = negative ? coefficient.slice(1) : coefficient;
+    const term = `${negative ? '−' : '+'} ${this.multiple(magnitude, 'I')}`;
+
+    const result = cas(`simplify((${rest})/(1-(${coefficient})))`);
+    return {
+      result,
+      steps: [
+        ...derivation.steps,
+        {
+          step: '',
+          expression: `I = ${rest} ${term}  ⇒  ∫ ${expr} d${variable} = ${result}`,
+          explanation: 'Solve the equation for the original integral I',
+          method: 'Integration by Parts'
+        }
+      ]
+    };
+  }
+
+  // Check F′ = f at sample points, asking the CAS only when too few points are in the domain
+  static differentiatesTo(antiderivative: string, integrand: string, variable: string, tolerance = TOLERANCE): boolean {
+    const derivative = cas(`d(${antiderivative},${variable})`);
+    const samples = this.samples(derivative, integrand, variable);
+    if (samples.length >= 2) return this.agree(derivative, integrand, variable, tolerance);
+    return cas(`simplify((${derivative})-(${integrand}))`) === '0';
+  }
+
+  // Numeric equality of two expressions at the sample points where both are real
+  static agree(left: string, right: string, variable: string, tolerance = TOLERANCE): boolean {
+    const samples = this.samples(left, right, variable);
+    return samples.length >= 2 && samples.every(([a, b]) => Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(b)));
+  }
+
+  static samples(left: string, right: string, variable: string): Array<[number, number]> {
+    return SAMPLE_POINTS
+      .map((point): [number, number] => [evaluateNumeric(left, { [variable]: point }), evaluateNumeric(right, { [variable]: point })])
+      .filter(([a, b]) => Number.isFinite(a) && Number.isFinite(b));
+  }
+
+  static single(expression: string, explanation: string, method: string, result: string): Derivation {
+    return { result: cas(result), steps: [{ step: '', expression, explanation, method }] };
+  }
+
+  // c·name, dropping a unit coefficient
+  static multiple(coefficient: string, name: string): string {
+    if (coefficient === '1') return name;
+    if (coefficient === '-1') return `-${name}`;
+    return `${DerivativeTracer.wrap(coefficient)}·${name}`;
+  }
+
+  // Print a node, parenthesized unless it is a symbol, number or function call
+  static group(node: ExpressionNode): string {
+    const text = this.print(node);
+    return ['symbol', 'number', 'call'].includes(node.kind) ? text : `(${text})`;
+  }
+
+  // The tree with every subtree printed as u replaced by the symbol standing for it
+  static replace(node: ExpressionNode, u: string, symbol: string): ExpressionNode {
+    if (this.print(node) === u) return { kind: 'symbol', name: symbol, position: node.position };
+    if (node.kind === 'unary') return { ...node, operand: this.replace(node.operand, u, symbol) };
+    if (node.kind === 'binary') return { ...node, left: this.replace(node.left, u, symbol), right: this.replace(node.right, u, symbol) };
+    if (node.kind === 'call') return { ...node, args: node.args.map(arg => this.replace(arg, u, symbol)) };
+    return node;
+  }
+
+  static print(node: ExpressionNode): string {
+    return DerivativeTracer.print(node);
+  }
+}
@@ -0,0 +1,512 @@
+import type { CalculusSolution } from './calculusEngine';
+import { OdeSolver } from './odeSolver';
+import { PartialFractionSolver, type PartialFraction } from './partialFractionSolver';
+import { recordSteps, type Push } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { cas, evaluateNumeric, isFreeOf, isPolynomial, ordinal } from './expressionUtils';
+import { ExpressionParser, ParseError, type CallNode, type ExpressionNode } from './expressionParser';
+
+export type LaplaceDirection = 'forward' | 'inverse';
+
+export interface LaplaceSpec {
+  direction: LaplaceDirection;
+  expression: string;
+  // The variable transformed from and the one transformed to: t and s forward, s and t for the inverse
+  from: string;
+  to: string;
+}
+
+type QuadraticFraction = Extract<PartialFraction, { kind: 'quadratic' }>;
+// (a + bi)/(s − α − βi)^power, which is inverted together with its conjugate
+interface ConjugatePair {
+  re: string;
+  im: string;
+  power: number;
+  real: string;
+  imaginary: string;
+}
+
+const COMMANDS: Record<string, LaplaceDirection> = {
+  laplace: 'forward',
+  invlaplace: 'inverse',
+  ilaplace: 'inverse',
+  inverse_laplace: 'inverse',
+};
+// Table entries for the transform of f(k·t), as functions of s and k
+const TABLE: Record<string, { transform: (s: string, k: string) => string; entry: string }> = {
+  sin: { transform: (s, k) => `(${k})/(${s}^2+(${k})^2)`, entry: 'ℒ{sin(kt)} = k/(s² + k²)' },
+  cos: { transform: (s, k) => `${s}/(${s}^2+(${k})^2)`, entry: 'ℒ{cos(kt)} = s/(s² + k²)' },
+  sinh: { transform: (s, k) => `(${k})/(${s}^2-(${k})^2)`, entry: 'ℒ{sinh(kt)} = k/(s² − k²)' },
+  cosh: { transform: (s, k) => `${s}/(${s}^2-(${k})^2)`, entry: 'ℒ{cosh(kt)} = s/(s² − k²)' },
+};
+// sin(u + φ) and the like, written with the table functions of u and constants in φ
+const ANGLE_ADDITION: Record<string, (u: string, phi: string) => string> = {
+  sin: (u, phi) => `sin(${u})*cos(${phi})+cos(${u})*sin(${phi})`,
+  cos: (u, phi) => `cos(${u})*cos(${phi})-sin(${u})*sin(${phi})`,
+  sinh: (u, phi) => `sinh(${u})*cosh(${phi})+cosh(${u})*sinh(${phi})`,
+  cosh: (u, phi) => `cosh(${u})*cosh(${phi})+sinh(${u})*sinh(${phi})`,
+};
+// Product-to-sum identities for sin and cos, keyed by the two function names
+export const PRODUCT_TO_SUM: Record<string, (u: string, v: string) => string> = {
+  'sin,sin': (u, v) => `(cos((${u})-(${v}))-cos((${u})+(${v})))/2`,
+  'cos,cos': (u, v) => `(cos((${u})-(${v}))+cos((${u})+(${v})))/2`,
+  'sin,cos': (u, v) => `(sin((${u})+(${v}))+sin((${u})-(${v})))/2`,
+  'cos,sin': (u, v) => `(sin((${u})+(${v}))-sin((${u})-(${v})))/2`,
+};
+const HYPERBOLIC_DEFINITIONS: Record<string, (u: string) => string> = {
+  sinh: u => `(exp(${u})-exp(-(${u})))/2`,
+  cosh: u => `(exp(${u})+exp(-(${u})))/2`,
+};
+
+export class LaplaceSolver {
+  static isLaplace(node: ExpressionNode): boolean {
+    return node.kind === 'call' && node.name in COMMANDS;
+  }
+
+  static solve(expr: string, node: ExpressionNode): CalculusSolution {
+    if (node.kind !== 'call' || !(node.name in COMMANDS)) {
+      throw new ParseError('Expected laplace(f, t, s) or invlaplace(F, s, t)', node.position);
+    }
+    if (COMMANDS[node.name] === 'forward' && node.args[0]?.kind === 'equation') return this.initialValueProblem(expr, node);
+    const spec = this.spec(node);
+    return spec.direction === 'forward' ? this.forward(expr, spec) : this.inverse(expr, spec);
+  }
+
+  // laplace(f, t, s) and invlaplace(F, s, t), with the variables defaulting to t and s
+  static spec(node: CallNode): LaplaceSpec {
+    const direction = COMMANDS[node.name];
+    const [body, from, to, ...extra] = node.args;
+    const usage = direction === 'forward' ? 'laplace(f, t, s)' : 'invlaplace(F, s, t)';
+    if (!body || extra.length || [from, to].some(arg => arg && arg.kind !== 'symbol')) {
+      throw new ParseError(`Expected ${usage}`, node.position);
+    }
+    const [fromDefault, toDefault] = direction === 'forward' ? ['t', 's'] : ['s', 't'];
+    const spec = {
+      direction,
+      expression: ExpressionParser.print(body),
+      from: from?.kind === 'symbol' ? from.name : fromDefault,
+      to: to?.kind === 'symbol' ? to.name : toDefault,
+    };
+    if (spec.from === spec.to || !isFreeOf(spec.expression, spec.to)) {
+      throw new Error(`the transform must take ${spec.from} to a new variable, but ${spec.to} already appears`);
+    }
+    return spec;
+  }
+
+  static forward(expr: string, spec: LaplaceSpec): CalculusSolution {
+    const { expression: f, from: t, to: s } = spec;
+    const { steps, push, methods } = recordSteps();
+    push(`ℒ{${f}} = ∫₀^∞ e^(-${s}${t})·(${f}) d${t}`,
+      'Rather than integrate directly, build the transform from the table using linearity and the shifting theorems');
+    const result = this.transform(f, t, s, push);
+    push(`ℒ{${f}} = ${result}`, 'Laplace transform');
+    return {
+      original: expr,
+      result,
+      steps,
+      type: 'Laplace Transform',
+      method: [...methods].join(' / '),
+      verified: SolutionVerifier.laplace(f, t, result, s)
+    };
+  }
+
+  static inverse(expr: string, spec: LaplaceSpec): CalculusSolution {
+    const { expression: F, from: s, to: t } = spec;
+    const { steps, push, methods } = recordSteps();
+    push(`ℒ⁻¹{${F}}`, `Find the function of ${t} whose transform is F(${s}) by reading terms off the table`);
+    const result = this.invert(F, s, t, push);
+    push(`ℒ⁻¹{${F}} = ${result}`, 'Inverse Laplace transform');
+    return {
+      original: expr,
+      result,
+      steps,
+      type: 'Laplace Transform',
+      method: [...methods].join(' / '),
+      verified: SolutionVerifier.laplace(result, t, F, s)
+    };
+  }
+
+  // laplace(a·y'' + b·y' + c·y = g(t), y(0) = y0, y'(0) = y1): transform, solve for Y(s) and invert
+  static initialValueProblem(expr: string, node: CallNode): CalculusSolution {
+    const [equation, ...conditions] = node.args;
+    const spec = OdeSolver.spec({
+      kind: 'sequence',
+      clauses: [{ separator: null, node: equation }, ...conditions.map(condition => ({ separator: ',', node: condition }))],
+      position: node.position
+    });
+    const { dependent: y, order, names } = spec;
+    // With only primes and no mention of the variable, transform in t rather than the parser's default x
+    const implicit = !ExpressionParser.mentions(equation, spec.independent) && OdeSolver.derivatives(equation).every(derivative => derivative.prime);
+    const t = implicit ? 't' : spec.independent;
+    const s = t === 's' ? 'p' : 's';
+    const image = y.toUpperCase() === y ? 'F' : y.toUpperCase();
+    const show = (text: string) => OdeSolver.show(text, names).replace(new RegExp(`\\b${image}\\b`, 'g'), `${image}(${s})`);
+    const { steps, push, methods } = recordSteps();
+
+    const difference = cas(`(${spec.left})-(${spec.right})`);
+    const coefficients = names.map(name => cas(`d(${difference},${name})`));
+    if (coefficients.some(coefficient => !isFreeOf(coefficient, t) || names.some(name => !isFreeOf(coefficient, name)))) {
+      throw new Error(`the Laplace method needs an equation that is linear in ${y} and its derivatives, with constant coefficients`);
+    }
+    const forcing = cas(`-(${names.reduce((text, name) => cas(`subst(0,${name},${text})`), difference)})`);
+    const values = names.slice(0, order).map((_, k) => {
+      const condition = spec.conditions.find(candidate => candidate.order === k);
+      if (!condition || evaluateNumeric(condition.at) !== 0) {
+        throw new Error(`the Laplace method needs ${names.slice(0, order).map((__, j) => `${y}${"'".repeat(j)}(0)`).join(', ')} as initial conditions at ${t} = 0`);
+      }
+      return condition.value;
+    });
+    const operator = cas(coefficients.map((coefficient, k) => `(${coefficient})*${names[k]}`).join('+'));
+    push(`${show(operator)} = ${forcing}, ${values.map((value, k) => `${y}${"'".repeat(k)}(0) = ${value}`).join(', ')}`,
+      `A linear ${ordinal(order)}-order initial-value problem with constant coefficients`);
+    push(`ℒ{${show(operator)}} = ℒ{${forcing}}`,
+      `Take the transform of both sides; by linearity each term transforms separately, and ℒ{${y}} = ${image}(${s})`, 'Linearity');
+
+    coefficients.forEach((coefficient, k) => {
+      if (k === 0 || coefficient === '0') return;
+      const general = [`${s}${k > 1 ? `^${k}` : ''}·${image}(${s})`, ...values.slice(0, k).map((_, j) => {
+        const power = k - 1 - j;
+        return `${power ? `${s}${power > 1 ? `^${power}` : ''}·` : ''}${y}${"'".repeat(j)}(0)`;
+      })].join(' - ');
+      const transformed = this.derivativeTransform(k, s, image, values);
+      push(`ℒ{${y}${"'".repeat(k)}} = ${general} = ${show(transformed)}`,
+        `Transform of the ${ordinal(k)} derivative, with the initial conditions substituted`, 'Transform of Derivatives');
+    });
+
+    const right = forcing === '0' ? '0' : this.transform(forcing, t, s, push);
+    const polynomial = cas(coefficients.map((coefficient, k) => `(${coefficient})*${s}^${k}`).join('+'));
+    const initial = cas(`(${polynomial})*${image}-(${coefficients.map((coefficient, k) => `(${coefficient})*(${this.derivativeTransform(k, s, image, values)})`).join('+')})`);
+    push(`(${polynomial})·${image}(${s})${initial === '0' ? '' : ` - ${this.group(initial)}`} = ${right}`,
+      `Substitute the transforms and collect the terms in ${image}(${s}); the initial conditions turn the differential equation into an algebraic one`, 'Algebra');
+    const combined = cas(`(${right}+(${initial}))/(${polynomial})`);
+    const solved = /\bexp\(/.test(combined) ? combined : PartialFractionSolver.lowestTerms(combined, s).map(part => this.group(part)).join('/');
+    push(`${image}(${s}) = ${solved}`, `Solve for ${image}(${s})`, 'Algebra');
+
+    const solution = this.invert(solved, s, t, push);
+    push(`${y}(${t}) = ${solution}`, `Invert ${image}(${s}) to get the solution of the initial-value problem`);
+    return {
+      original: expr,
+      result: `${y} = ${solution}`,
+      steps,
+      type: 'Laplace Transform',
+      method: [...methods].join(' / '),
+      verified: SolutionVerifier.ode(spec.left, spec.right, names, t, { left: y, right: solution, constants: [] }, spec.conditions)
+    };
+  }
+
+  // ℒ{y⁽ᵏ⁾} = sᵏ·Y − sᵏ⁻¹·y(0) − … − y⁽ᵏ⁻¹⁾(0)
+  static derivativeTransform(k: number, s: string, image: string, values: string[]): string {
+    const initial = values.slice(0, k).map((value, j) => `${s}^${k - 1 - j}*(${value})`);
+    return cas(`${s}^${k}*${image}${initial.length ? `-(${initial.join('+')})` : ''}`);
+  }
+
+  // The forward transform by table lookup, term by term
+  static transform(f: string, t: string, s: string, push: Push): string {
+    const expression = cas(f);
+    if (isFreeOf(expression, t)) {
+      const result = cas(`(${expression})/${s}`);
+      push(`ℒ{${expression}} = ${result}`, `ℒ{1} = 1/${s}, so a constant c transforms to c/${s}`, 'Transform Table');
+      return result;
+    }
+    const terms = OdeSolver.terms(ExpressionParser.parse(expression)).map(term => cas(ExpressionParser.print(term)));
+    if (terms.length === 1) return this.product(expression, t, s, push);
+
+    push(`ℒ{${expression}} = ${terms.map(term => `ℒ{${term}}`).join(' + ')}`, 'The transform is linear, so transform term by term', 'Linearity');
+    const results = terms.map(term => this.transform(term, t, s, push));
+    const result = cas(results.map(term => `(${term})`).join('+'));
+    push(`ℒ{${expression}} = ${result}`, 'Add the transforms of the terms', 'Linearity');
+    return result;
+  }
+
+  // A single term: constant factors first, then the shifting theorems, multiplication by tⁿ and the table
+  static product(expression: string, t: string, s: string, push: Push): string {
+    const factors = this.factors(ExpressionParser.parse(expression));
+    const constant = cas(factors.filter(factor => isFreeOf(ExpressionParser.print(factor), t)).map(factor => `(${ExpressionParser.print(factor)})`).join('*') || '1');
+    const varying = factors.filter(factor => !isFreeOf(ExpressionParser.print(factor), t));
+    const without = (...omitted: ExpressionNode[]) =>
+      cas(varying.filter(factor => !omitted.includes(factor)).map(factor => `(${ExpressionParser.print(factor)})`).join('*') || '1');
+
+    if (constant !== '1') {
+      const rest = without();
+      push(`ℒ{${expression}} = ${constant === '-1' ? '-' : `${constant}·`}ℒ{${rest}}`, 'Constant factors come out of the transform', 'Linearity');
+      const result = cas(`(${constant})*(${this.transform(rest, t, s, push)})`);
+      push(`ℒ{${expression}} = ${result}`, `Multiply by ${constant}`, 'Linearity');
+      return result;
+    }
+
+    const steps = varying.filter(factor => factor.kind === 'call' && factor.name === 'heaviside');
+    if (steps.length > 1) {
+      throw new Error(`only one unit step per term is supported, but ${expression} has ${steps.length}`);
+    }
+    if (steps.length === 1) return this.secondShift(expression, steps[0], without(steps[0]), t, s, push);
+
+    const exponentials = varying.filter(factor => factor.kind === 'call' && factor.name === 'exp');
+    if (exponentials.length) {
+      const exponent = cas(exponentials.map(factor => `(${ExpressionParser.print((factor as CallNode).args[0])})`).join('+'));
+      return this.firstShift(expression, exponent, without(...exponentials), t, s, push);
+    }
+
+    const powers = varying.filter(factor => this.power(factor, t) !== null);
+    const degree = powers.reduce((total, factor) => total + (this.power(factor, t) as number), 0);
+    if (powers.length && powers.length === varying.length) {
+      const result = cas(`${this.factorial(degree)}/${s}^${degree + 1}`);
+      push(`ℒ{${expression}} = ${degree}!/${s}^${degree + 1} = ${result}`, `ℒ{tⁿ} = n!/s^(n+1) with n = ${degree}`, 'Transform Table');
+      return result;
+    }
+    if (powers.length) {
+      const rest = without(...powers);
+      push(`ℒ{${expression}} = ${degree % 2 ? '-' : ''}d${degree > 1 ? `^${degree}` : ''}/d${s}${degree > 1 ? `^${degree}` : ''} ℒ{${rest}}`,
+        `Multiplication by tⁿ: ℒ{tⁿ·g(t)} = (-1)ⁿ·dⁿ/dsⁿ G(s) with n = ${degree}`, 'Multiplication by tⁿ');
+      const transformed = this.transform(rest, t, s, push);
+      const result = cas(`simplify((-1)^${degree}*d(${transformed},${s},${degree}))`);
+      push(`ℒ{${expression}} = ${result}`, `Differentiate ${transformed} ${degree === 1 ? 'once' : `${degree} times`} with respect to ${s}`, 'Multiplication by tⁿ');
+      return result;
+    }
+
+    if (varying.length === 1 && isPolynomial(expression, t)) {
+      const expanded = cas(`expand(${expression})`);
+      push(`${expression} = ${expanded}`, 'Expand the polynomial into powers of t', 'Algebra');
+      return this.transform(expanded, t, s, push);
+    }
+    const periodic = varying.flatMap(factor => this.repeated(factor));
+    if (varying.every(factor => this.repeated(factor).length)) {
+      return periodic.length === 1 ? this.tableEntry(expression, periodic[0], t, s, push) : this.rewriteProduct(expression, periodic, t, s, push);
+    }
+    throw new Error(`no rule of the transform table applies to ${expression}`);
+  }
+
+  // ℒ{u(t − a)·g(t)} = e^(−as)·ℒ{g(t + a)}
+  static secondShift(expression: string, step: ExpressionNode, rest: string, t: string, s: string, push: Push): string {
+    const argument = ExpressionParser.print((step as CallNode).args[0]);
+    const slope = cas(`d(${argument},${t})`);
+    const delay = cas(`simplify(-(${cas(`subst(0,${t},${argument})`)})/(${slope}))`);
+    if (!isFreeOf(slope, t) || !(evaluateNumeric(slope) > 0)) {
+      throw new Error(`the unit step must switch on as ${t} increases, as in heaviside(${t} - a)`);
+    }
+    if (evaluateNumeric(delay) <= 0) {
+      push(`ℒ{${expression}} = ℒ{${rest}}`, `heaviside(${argument}) = 1 for every ${t} > 0`, 'Second Shifting Theorem');
+      return this.transform(rest, t, s, push);
+    }
+    const advanced = cas(`subst((${t})+(${delay}),${t},${rest})`);
+    push(`ℒ{${expression}} = e^(-${this.group(delay)}${s})·ℒ{${advanced}}`,
+      `Second shifting theorem: ℒ{u(${t} - a)·g(${t})} = e^(-a${s})·ℒ{g(${t} + a)} with a = ${delay} and g(${t}) = ${rest}`, 'Second Shifting Theorem');
+    const result = cas(`exp(-(${delay})*${s})*(${this.transform(advanced, t, s, push)})`);
+    push(`ℒ{${expression}} = ${result}`, `Multiply by e^(-${this.group(delay)}${s})`, 'Second Shifting Theorem');
+    return result;
+  }
+
+  // ℒ{e^(at)·g(t)} = G(s − a)
+  static firstShift(expression: string, exponent: string, rest: string, t: string, s: string, push: Push): string {
+    const rate = cas(`d(${exponent},${t})`);
+    const offset = cas(`subst(0,${t},${exponent})`);
+    if (!isFreeOf(rate, t)) {
+      throw new Error(`e^(${exponent}) has no table transform, since its exponent is not linear in ${t}`);
+    }
+    if (offset !== '0') {
+      const shifted = cas(`exp((${rate})*${t})*(${rest})`);
+      push(`ℒ{${expression}} = e^(${offset})·ℒ{${shifted}}`, `e^(${offset}) is a constant factor`, 'Linearity');
+      const result = cas(`exp(${offset})*(${this.transform(shifted, t, s, push)})`);
+      push(`ℒ{${expression}} = ${result}`, `Multiply by e^(${offset})`, 'Linearity');
+      return result;
+    }
+    if (rest === '1') {
+      const result = cas(`1/(${s}-(${rate}))`);
+      push(`ℒ{${expression}} = ${result}`, `ℒ{e^(at)} = 1/(s - a) with a = ${rate}`, 'Transform Table');
+      return result;
+    }
+    const shifted = cas(`${s}-(${rate})`);
+    push(`ℒ{${expression}} = ℒ{${rest}} with ${s} → ${shifted}`,
+      `First shifting theorem: ℒ{e^(at)·g(t)} = G(s - a) with a = ${rate}`, 'First Shifting Theorem');
+    const transformed = this.transform(rest, t, s, push);
+    const result = cas(`simplify(subst((${shifted}),${s},${transformed}))`);
+    push(`ℒ{${expression}} = ${result}`, `Replace ${s} by ${shifted} in ${transformed}`, 'First Shifting Theorem');
+    return result;
+  }
+
+  // sin, cos, sinh or cosh of a linear argument; a phase is split off with the addition formulas first
+  static tableEntry(expression: string, factor: CallNode, t: string, s: string, push: Push): string {
+    const argument = ExpressionParser.print(factor.args[0]);
+    const rate = cas(`d(${argument},${t})`);
+    const phase = cas(`subst(0,${t},${argument})`);
+    if (!isFreeOf(rate, t)) {
+      throw new Error(`${expression} has no table transform, since the argument of ${factor.name} is not linear in ${t}`);
+    }
+    if (phase !== '0') {
+      const expanded = cas(ANGLE_ADDITION[factor.name](`(${rate})*${t}`, phase));
+      push(`${expression} = ${expanded}`, `Split off the constant ${phase} with the addition formula for ${factor.name}`, 'Angle Addition');
+      return this.transform(expanded, t, s, push);
+    }
+    const { transform, entry } = TABLE[factor.name];
+    const result = cas(transform(s, rate));
+    push(`ℒ{${expression}} = ${result}`, `${entry} with k = ${rate}`, 'Transform Table');
+    return result;
+  }
+
+  // Products and powers of sin, cos, sinh and cosh become sums the table covers
+  static rewriteProduct(expression: string, factors: CallNode[], t: string, s: string, push: Push): string {
+    const print = (factor: CallNode) => `(${ExpressionParser.print(factor)})`;
+    if (factors.some(factor => factor.name in HYPERBOLIC_DEFINITIONS)) {
+      const exponential = factors.map(factor => factor.name in HYPERBOLIC_DEFINITIONS
+        ? `(${HYPERBOLIC_DEFINITIONS[factor.name](ExpressionParser.print(factor.args[0]))})`
+        : print(factor));
+      const expanded = cas(exponential.join('*'));
+      push(`${expression} = ${expanded}`, 'Write sinh and cosh with exponentials, sinh(u) = (e^u - e^(-u))/2 and cosh(u) = (e^u + e^(-u))/2', 'Hyperbolic Definitions');
+      return this.transform(expanded, t, s, push);
+    }
+    const [first, second, ...others] = factors;
+    const identity = PRODUCT_TO_SUM[`${first.name},${second.name}`](ExpressionParser.print(first.args[0]), ExpressionParser.print(second.args[0]));
+    const expanded = cas(`(${identity})${others.map(factor => `*${print(factor)}`).join('')}`);
+    push(`${expression} = ${expanded}`, `Product-to-sum identity for ${first.name}·${second.name}`, 'Product-to-Sum');
+    return this.transform(expanded, t, s, push);
+  }
+
+  // The inverse transform, grouping terms by their delay e^(−as) and inverting each rational part
+  static invert(F: string, s: string, t: string, push: Push): string {
+    const groups = this.delays(cas(F), s);
+    const delayed = groups.some(({ delay }) => delay !== '0');
+    if (delayed) {
+      push(`${F} = ${groups.map(({ delay, part }) => (delay === '0' ? `(${part})` : `e^(-${this.group(delay)}${s})·(${part})`)).join(' + ')}`,
+        `Group the terms by their factor e^(-a${s}), each of which delays the inverse transform by a`, 'Second Shifting Theorem');
+    }
+    const parts = groups.map(({ delay, part }) => {
+      const inverse = this.invertRational(part, s, t, push);
+      if (delay === '0') return inverse;
+      const result = cas(`heaviside(${t}-(${delay}))*(${cas(`subst((${t})-(${delay}),${t},${inverse})`)})`);
+      push(`ℒ⁻¹{e^(-${this.group(delay)}${s})·(${part})} = ${result}`,
+        `Second shifting theorem: ℒ⁻¹{e^(-a${s})·F(${s})} = u(${t} - a)·f(${t} - a) with a = ${delay} and f(${t}) = ${inverse}`, 'Second Shifting Theorem');
+      return result;
+    });
+    if (parts.length === 1) return parts[0];
+    const result = cas(parts.map(part => `(${part})`).join('+'));
+    push(`ℒ⁻¹{${F}} = ${result}`, 'Add the inverse transforms of the groups', 'Linearity');
+    return result;
+  }
+
+  // F(s) as a sum of e^(−a·s)·R(s) with R rational, one entry per delay a
+  static delays(F: string, s: string): { delay: string; part: string }[] {
+    if (!/\bexp\(/.test(F)) return [{ delay: '0', part: F }];
+    const groups = new Map<string, string[]>();
+    for (const term of OdeSolver.terms(ExpressionParser.parse(cas(`expand(${F})`)))) {
+      const factors = this.factors(term);
+      const exponentials = factors.filter(factor => factor.kind === 'call' && factor.name === 'exp' && !isFreeOf(ExpressionParser.print(factor), s));
+      const exponent = cas(exponentials.map(factor => `(${ExpressionParser.print((factor as CallNode).args[0])})`).join('+') || '0');
+      const rate = cas(`d(${exponent},${s})`);
+      if (!isFreeOf(rate, s) || evaluateNumeric(rate) > 0) {
+        throw new Error(`e^(${exponent}) has no inverse transform; only delays e^(-a${s}) with a ≥ 0 are supported`);
+      }
+      const delay = cas(`-(${rate})`);
+      const part = cas([`exp(${cas(`subst(0,${s},${exponent})`)})`, ...factors.filter(factor => !exponentials.includes(factor)).map(factor => `(${ExpressionParser.print(factor)})`)].join('*'));
+      groups.set(delay, [...(groups.get(delay) ?? []), part]);
+    }
+    return [...groups].map(([delay, parts]) => ({ delay, part: cas(parts.map(part => `(${part})`).join('+')) }));
+  }
+
+  // A proper rational function of s, by partial fractions and the table read backwards
+  static invertRational(R: string, s: string, t: string, push: Push): string {
+    const [numerator, denominator] = PartialFractionSolver.lowestTerms(R, s);
+    if (Number(cas(`deg(${numerator},${s})`)) >= Number(cas(`deg(${denominator},${s})`))) {
+      throw new Error(`${R} is not a proper fraction, so its inverse transform would involve the Dirac delta`);
+    }
+
+    const { fractions } = PartialFractionSolver.decompose(`(${numerator})/(${denominator})`, s, push);
+    // A repeated quadratic has no table entry of its own, so its terms are inverted together as conjugate pairs
+    const repeated = (fraction: PartialFraction) => fraction.kind === 'quadratic'
+      && fractions.some(other => other.kind === 'quadratic' && other.re === fraction.re && other.im === fraction.im && other.power > 1);
+    const pairs = new Map<string, QuadraticFraction[]>();
+    fractions.forEach(fraction => {
+      if (fraction.kind === 'quadratic' && repeated(fraction)) pairs.set(`${fraction.re},${fraction.im}`, [...(pairs.get(`${fraction.re},${fraction.im}`) ?? []), fraction]);
+    });
+    const inverses = [
+      ...fractions.filter(fraction => !repeated(fraction)).map(fraction => {
+        const shown = PartialFractionSolver.display(fraction, s);
+        if (fraction.kind === 'linear') {
+          const { root: pole, power, coefficient } = fraction;
+          const result = cas(`(${coefficient})*${t}^${power - 1}*exp((${pole})*${t})/${this.factorial(power - 1)}`);
+          const [entry, method] = power === 1
+            ? [pole === '0' ? 'ℒ{1} = 1/s' : `ℒ{e^(at)} = 1/(s - a) with a = ${pole}`, 'Transform Table']
+            : pole === '0'
+              ? [`ℒ{tⁿ} = n!/s^(n+1) with n = ${power - 1}`, 'Transform Table']
+              : [`ℒ{tⁿ·e^(at)} = n!/(s - a)^(n+1) with n = ${power - 1} and a = ${pole}`, 'First Shifting Theorem'];
+          push(`ℒ⁻¹{${shown}} = ${result}`, entry, method);
+          return result;
+        }
+        const { re, im, linear, constant } = fraction as QuadraticFraction;
+        // B·s + C = B·(s − α) + K·β, with K = (C + B·α)/β
+        const sine = cas(`((${constant})+(${linear})*(${re}))/(${im})`);
+        const result = cas(`exp((${re})*${t})*((${linear})*cos((${im})*${t})+(${sine})*sin((${im})*${t}))`);
+        const shifted = re === '0' ? s : `(${s} - ${this.group(re)})`;
+        push(`ℒ⁻¹{${shown}} = ${result}`,
+          `Write the numerator as ${linear}·${shifted} + ${sine}·${this.group(im)} over ${shifted}^2 + ${this.group(im)}^2 and read off cos and sin${re === '0' ? '' : `, shifted by e^(${re}${t})`}`,
+          re === '0' ? 'Transform Table' : 'First Shifting Theorem');
+        return result;
+      }),
+      ...[...pairs.values()].flatMap(group => this.conjugatePairs(group, s, push).map(({ re, im, power, real, imaginary }) => {
+        // (a + bi)·tⁿ·e^((α + βi)t)/n! plus its conjugate is 2·tⁿ·e^(αt)·(a·cos(βt) − b·sin(βt))/n!
+        const result = cas(`2*${t}^${power - 1}*exp((${re})*${t})*((${real})*cos((${im})*${t})-(${imaginary})*sin((${im})*${t}))/${this.factorial(power - 1)}`);
+        push(`ℒ⁻¹{${this.group(cas(`(${real})+(${imaginary})*i`))}/(${s} - (${cas(`(${re})+(${im})*i`)}))^${power} + conjugate} = ${result}`,
+          `ℒ{tⁿ·e^(pt)} = n!/(s - p)^(n+1) with n = ${power - 1} and p = ${re} ± ${this.group(im)}i, where a conjugate pair adds up to twice the real part`, 'First Shifting Theorem');
+        return result;
+      })),
+    ];
+    if (inverses.length === 1) return inverses[0];
+    const result = cas(inverses.map(inverse => `(${inverse})`).join('+'));
+    push(`ℒ⁻¹{(${numerator})/(${denominator})} = ${result}`, 'Add the inverse transforms of the partial fractions', 'Linearity');
+    return result;
+  }
+
+  // The terms (B·s + C)/((s − α)² + β²)^j of a repeated quadratic rewritten as (a + bi)/(s − p)^k plus conjugates, with p = α + βi,
+  // from the expansion of (s − p)^m times their sum in powers of h = s − p
+  static conjugatePairs(group: QuadraticFraction[], s: string, push: Push): ConjugatePair[] {
+    const [{ re, im }] = group;
+    const multiplicity = Math.max(...group.map(({ power }) => power));
+    const at = `(${re})+(${im})*i`;
+    const quadratic = cas(`expand((${s}-(${re}))^2+(${im})^2)`);
+    // Substituting s = p + h term by term keeps the CAS from clearing the complex denominator into 0/0 at the pole
+    const local = cas(`(${group.map(({ power, linear, constant }) => `((${linear})*(${at}+h)+(${constant}))*subst(${at}+h,${s},${quadratic})^${multiplicity - power}`).join('+')})/(h+2*(${im})*i)^${multiplicity}`);
+    const pairs = Array.from({ length: multiplicity }, (_, j) => {
+      const value = cas(`rect(subst(0,h,${j ? cas(`d(${local},h,${j})`) : local})/${this.factorial(j)})`);
+      return { re, im, power: multiplicity - j, real: cas(`real(${value})`), imaginary: cas(`imag(${value})`) };
+    }).filter(({ real, imaginary }) => real !== '0' || imaginary !== '0');
+    push(pairs.map(({ power, real, imaginary }) => `${this.group(cas(`(${real})+(${imaginary})*i`))}/(${s} - (${cas(at)}))^${power}`).join(' + '),
+      `Over the complex numbers (${quadratic})^${multiplicity} splits into (${s} - (${cas(at)}))^${multiplicity} and its conjugate: expand the rest at ${s} = ${cas(at)}, dividing the jth derivative by j!; the conjugate pole has the conjugate coefficients`,
+      'Partial Fractions');
+    return pairs;
+  }
+
+  // The factors of a product, with division by c as the factor 1/c and a minus sign as −1
+  static factors(node: ExpressionNode): ExpressionNode[] {
+    if (node.kind === 'binary' && node.operator === '*') return [...this.factors(node.left), ...this.factors(node.right)];
+    if (node.kind === 'binary' && node.operator === '/') {
+      return [...this.factors(node.left), ExpressionParser.parse(`1/(${ExpressionParser.print(node.right)})`)];
+    }
+    if (node.kind === 'unary' && node.operator === '-') return [ExpressionParser.parse('-1'), ...this.factors(node.operand)];
+    return [node];
+  }
+
+  // n for a factor t or tⁿ with n a whole number, null otherwise
+  static power(node: ExpressionNode, t: string): number | null {
+    if (node.kind === 'symbol' && node.name === t) return 1;
+    if (node.kind !== 'binary' || node.operator !== '^' || node.left.kind !== 'symbol' || node.left.name !== t) return null;
+    const exponent = evaluateNumeric(ExpressionParser.print(node.right));
+    if (!Number.isInteger(exponent) || exponent < 1) {
+      throw new Error(`the table covers tⁿ for whole numbers n, not ${ExpressionParser.print(node)}`);
+    }
+    return exponent;
+  }
+
+  // sin, cos, sinh or cosh factors, with a whole-number power written out as repeated factors
+  static repeated(node: ExpressionNode): CallNode[] {
+    if (node.kind === 'call' && node.name in TABLE) return [node];
+    if (node.kind !== 'binary' || node.operator !== '^' || node.left.kind !== 'call' || !(node.left.name in TABLE)) return [];
+    const exponent = evaluateNumeric(ExpressionParser.print(node.right));
+    return Number.isInteger(exponent) && exponent > 0 ? Array.from({ length: exponent }, () => node.left as CallNode) : [];
+  }
+
+  static factorial(n: number): number {
+    return n <= 1 ? 1 : n * this.factorial(n - 1);
+  }
+
+  static group(text: string): string {
+    return /^[\w.]+$/.test(text) ? text : `(${text})`;
+  }
+}
@@ -0,0 +1,511 @@
+import type { CalculusSolution, CalculusStep } from './calculusEngine';
+import {
+  cas,
+  displayValue,
+  evaluateNumeric,
+  formatDecimal,
+  isFreeOf,
+  isPolynomial,
+  numericFunction,
+  toAlgebrite,
+} from './expressionUtils';
+import { ExpressionParser, ParseError, type ExpressionNode, type LimitDirection } from './expressionParser';
+import { SolutionVerifier } from './solutionVerifier';
+
+export type { LimitDirection };
+
+export interface LimitSpec {
+  expression: string;
+  variable: string;
+  point: string;
+  direction: LimitDirection;
+}
+
+export type LimitValue =
+  | { kind: 'finite'; value: string; approximate?: boolean }
+  | { kind: 'infinite'; sign: 1 | -1 }
+  | { kind: 'none' };
+
+// Known values Algebrite leaves unevaluated when infinity is substituted in
+const INFINITY_LIMITS: Array<[RegExp, string]> = [
+  [/exp\(-infinity\)/g, '0'],
+  [/exp\(infinity\)/g, 'infinity'],
+  [/arctan\(-infinity\)/g, '(-1/2*pi)'],
+  [/arctan\(infinity\)/g, '(1/2*pi)'],
+  [/erf\(-infinity\)/g, '(-1)'],
+  [/erf\(infinity\)/g, '1'],
+  [/1\/infinity(\^\d+)?/g, '0'],
+];
+
+const MAX_REWRITES = 6;
+
+export class LimitSolver {
+  // limit(f, x, a), limit(f, x, a, '+'), limit(f, x→a⁺) and lim_{x→a} f, already parsed into a limit node
+  static spec(node: ExpressionNode): LimitSpec {
+    const head = ExpressionParser.head(node);
+    if (head.kind !== 'limit') {
+      throw new ParseError("Expected limit(f, x, a) or limit(f, x, a, '+')", head.position);
+    }
+    const { body, variable, target, direction } = head;
+    return { expression: ExpressionParser.print(body), variable, point: ExpressionParser.print(target), direction };
+  }
+
+  static solve(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    const spec = this.spec(node);
+    const { expression, variable, point, direction } = spec;
+    const steps: CalculusStep[] = [];
+
+    if (Number.isNaN(evaluateNumeric(point))) {
+      throw new Error('the limit point must be a number or ±∞');
+    }
+
+    steps.push({
+      step: '1',
+      expression: `${this.label(spec)}${expression}`,
+      explanation: direction === 'both'
+        ? `Evaluate the limit as ${variable} approaches ${displayValue(point)}`
+        : `Evaluate the one-sided limit as ${variable} approaches ${displayValue(point)} from the ${direction}`
+    });
+
+    let value: LimitValue;
+    const finitePoint = Number.isFinite(evaluateNumeric(point));
+    const sides = direction === 'both' && finitePoint ? this.compareSides(expression, variable, point) : null;
+
+    if (sides) {
+      const left = this.compute(expression, { ...spec, direction: 'left' }, steps, 0);
+      const right = this.compute(expression, { ...spec, direction: 'right' }, steps, 0);
+      value = this.sameValue(left, right) ? left : { kind: 'none' };
+      steps.push({
+        step: String(steps.length + 1),
+        expression: `${this.label({ ...spec, direction: 'left' })}${expression} ${this.equals(left)},  ${this.label({ ...spec, direction: 'right' })}${expression} ${this.equals(right)}`,
+        explanation: value.kind === 'none'
+          ? 'The one-sided limits differ, so the two-sided limit does not exist'
+          : 'The one-sided limits agree'
+      });
+    } else {
+      value = this.compute(expression, spec, steps, 0);
+    }
+
+    const result = this.format(value);
+    steps.push({
+      step: String(steps.length + 1),
+      expression: `${this.label(spec)}${expression} ${this.equals(value)}`,
+      explanation: value.kind === 'none' ? 'The limit does not exist' : 'Final value of the limit'
+    });
+
+    const methods = [...new Set(steps.map(step => step.method).filter(method => method && method !== 'Direct Substitution'))];
+    return {
+      original: expr,
+      result,
+      steps: steps.map((step, index) => ({ ...step, step: String(index + 1) })),
+      type: 'Limit',
+      method: methods.length ? methods.join(' / ') : 'Direct Substitution',
+      verified: SolutionVerifier.limit(spec, result, this.probe(expression, variable, point, direction))
+    };
+  }
+
+  // Evaluate a limit symbolically, recording each substitution, rewrite and L'Hôpital application
+  static compute(f: string, spec: LimitSpec, steps: CalculusStep[], depth: number): LimitValue {
+    const { variable, point, direction } = spec;
+    const label = this.label(spec);
+    const pointValue = evaluateNumeric(point);
+    const push = (expression: string, explanation: string, method?: string) =>
+      steps.push({ step: String(steps.length + 1), expression, explanation, method });
+
+    if (Number.isFinite(pointValue)) {
+      const direct = this.substitute(f, variable, point);
+      if (direct !== null && this.agreesWithProbe(f, variable, point, direction, direct)) {
+        push(`${label}${f} = ${direct}`, `Substitute ${variable} = ${displayValue(point)}; the function is continuous there`, 'Direct Substitution');
+        return { kind: 'finite', value: direct };
+      }
+    }
+
+    if (depth >= MAX_REWRITES) {
+      return this.numericFallback(f, spec, push);
+    }
+
+    let expression = f;
+    let numerator = this.tryCas(`numerator(${expression})`);
+    let denominator = this.tryCas(`denominator(${expression})`);
+
+    if (denominator === '1') {
+      const combined = this.tryCas(`rationalize(${expression})`);
+      const combinedDenominator = combined && this.tryCas(`denominator(${combined})`);
+      if (combined && combinedDenominator && combinedDenominator !== '1') {
+        push(`${label}${combined}`, 'Combine the terms into a single fraction', 'Algebraic Simplification');
+        expression = combined;
+        numerator = this.tryCas(`numerator(${combined})`);
+        denominator = combinedDenominator;
+      }
+    }
+
+    if (numerator === null || denominator === null || denominator === '1') {
+      return this.computeSpecialForm(expression, spec, steps, depth, push);
+    }
+
+    const top = this.valueAt(numerator, variable, point, direction);
+    const bottom = this.valueAt(denominator, variable, point, direction);
+    const isZero = (value: LimitValue) => value.kind === 'finite' && evaluateNumeric(value.value) === 0;
+    const quotient = `(${numerator})/(${denominator})`;
+
+    if (top.kind === 'finite' && bottom.kind === 'finite' && !isZero(bottom)) {
+      if (top.approximate || bottom.approximate) {
+        const value = formatDecimal(evaluateNumeric(top.value) / evaluateNumeric(bottom.value));
+        push(`${label}${quotient} ≈ (${top.value})/(${bottom.value}) ≈ ${value}`, 'The limit of a quotient is the quotient of the limits when the denominator is nonzero', 'Quotient Law');
+        return { kind: 'finite', value, approximate: true };
+      }
+      const value = cas(`(${top.value})/(${bottom.value})`);
+      push(`${label}${quotient} = (${top.value})/(${bottom.value}) = ${value}`, 'The limit of a quotient is the quotient of the limits when the denominator is nonzero', 'Quotient Law');
+      return { kind: 'finite', value };
+    }
+
+    if (top.kind === 'finite' && bottom.kind === 'infinite') {
+      push(`${label}${quotient} = 0`, `A bounded numerator over an unbounded denominator tends to 0`, 'Quotient Law');
+      return { kind: 'finite', value: '0' };
+    }
+
+    if ((top.kind === 'finite' && !isZero(top) && isZero(bottom)) || (top.kind === 'infinite' && bottom.kind === 'finite')) {
+      const value = this.probe(expression, variable, point, direction);
+      const form = top.kind === 'infinite' ? '∞/c' : 'c/0';
+      push(`${label}${quotient} → ${form}`, value.kind === 'none'
+        ? `Form ${form}: the function grows without bound with opposite signs on each side`
+        : `Form ${form}: the function grows without bound`, 'Unbounded Quotient');
+      return value;
+    }
+
+    const zeroOverZero = isZero(top) && isZero(bottom);
+    const infinityOverInfinity = top.kind === 'infinite' && bottom.kind === 'infinite';
+    if (!zeroOverZero && !infinityOverInfinity) {
+      return this.numericFallback(expression, spec, push);
+    }
+
+    const form = zeroOverZero ? '0/0' : '∞/∞';
+    push(`${label}${quotient} → ${form}`, `Substitution gives the indeterminate form ${form}`);
+
+    if (isPolynomial(numerator, variable) && isPolynomial(denominator, variable)) {
+      if (Number.isFinite(pointValue)) {
+        const common = this.tryCas(`gcd(${numerator},${denominator})`);
+        if (common && !isFreeOf(common, variable)) {
+          const reducedTop = cas(`quotient(${numerator},${common},${variable})`);
+          const reducedBottom = cas(`quotient(${denominator},${common},${variable})`);
+          push(`${label}((${common})·(${reducedTop}))/((${common})·(${reducedBottom})) = ${label}(${reducedTop})/(${reducedBottom})`, `Factor and cancel the common factor ${common}`, 'Factoring');
+          return this.compute(`(${reducedTop})/(${reducedBottom})`, spec, steps, depth + 1);
+        }
+      } else {
+        return this.compareDegrees(numerator, denominator, spec, push);
+      }
+    }
+
+    const rewritten = this.derivativeQuotient(numerator, denominator, variable);
+    if (rewritten === null) {
+      return this.numericFallback(expression, spec, push);
+    }
+    push(`${label}${quotient} = ${label}(${rewritten.numerator})/(${rewritten.denominator})`, "Apply L'Hôpital's rule: differentiate the numerator and denominator separately", "L'Hôpital's Rule");
+    return this.compute(this.simplified(rewritten, spec, push), spec, steps, depth + 1);
+  }
+
+  // Let Algebrite tidy a quotient produced by L'Hôpital's rule, showing the simplification when it changes the form
+  static simplified(
+    quotient: { numerator: string; denominator: string },
+    spec: LimitSpec,
+    push: (expression: string, explanation: string, method?: string) => void
+  ): string {
+    const raw = `(${quotient.numerator})/(${quotient.denominator})`;
+    const tidy = this.tryCas(raw);
+    if (tidy === null) return raw;
+    if (tidy !== quotient.numerator && tidy.replace(/\s/g, '') !== `${quotient.numerator}/${quotient.denominator}`.replace(/\s/g, '') && quotient.denominator !== '1') {
+      push(`${this.label(spec)}${raw} = ${this.label(spec)}${tidy}`, 'Simplify the new quotient', 'Algebraic Simplification');
+    }
+    return tidy;
+  }
+
+  // Handle 1^∞, 0^0, ∞^0, 0·∞ and ∞−∞ forms that are not already quotients
+  static computeSpecialForm(
+    f: string,
+    spec: LimitSpec,
+    steps: CalculusStep[],
+    depth: number,
+    push: (expression: string, explanation: string, method?: string) => void
+  ): LimitValue {
+    const { variable, point, direction } = spec;
+    const label = this.label(spec);
+
+    let node: ExpressionNode;
+    try {
+      node = ExpressionParser.parse(toAlgebrite(f));
+    } catch {
+      return this.numericFallback(f, spec, push);
+    }
+
+    if (node.kind === 'binary' && node.operator === '^') {
+      const base = ExpressionParser.print(node.left);
+      const exponent = ExpressionParser.print(node.right);
+      if (!isFreeOf(exponent, variable) && !isFreeOf(base, variable)) {
+        push(`${label}${f} = exp(${label}(${exponent})·log(${base}))`, 'Variable base and exponent: rewrite with the exponential and take the limit of the logarithm', 'Logarithmic Rewrite');
+        const inner = this.compute(`(${exponent})*log(${base})`, spec, steps, depth + 1);
+        if (inner.kind === 'finite' && inner.approximate) {
+          const value = formatDecimal(Math.exp(evaluateNumeric(inner.value)));
+          push(`exp(${inner.value}) ≈ ${value}`, 'Exponentiate the limit of the logarithm', 'Logarithmic Rewrite');
+          return { kind: 'finite', value, approximate: true };
+        }
+        if (inner.kind === 'finite') {
+          const value = cas(`exp(${inner.value})`);
+          push(`exp(${inner.value}) = ${value}`, 'Exponentiate the limit of the logarithm', 'Logarithmic Rewrite');
+          return { kind: 'finite', value };
+        }
+        if (inner.kind === 'infinite') {
+          return inner.sign > 0 ? inner : { kind: 'finite', value: '0' };
+        }
+        return inner;
+      }
+    }
+
+    if (node.kind === 'binary' && node.operator === '*') {
+      const [first, second] = [node.left, node.right].map(side => ExpressionParser.print(side));
+      const firstValue = this.valueAt(first, variable, point, direction);
+      const secondValue = this.valueAt(second, variable, point, direction);
+      const zero = (value: LimitValue) => value.kind === 'finite' && evaluateNumeric(value.value) === 0;
+      const unbounded = firstValue.kind === 'infinite' ? first : secondValue.kind === 'infinite' ? second : null;
+      const vanishing = zero(firstValue) ? first : zero(secondValue) ? second : null;
+      if (unbounded && vanishing) {
+        // Keep logarithms and inverse trig functions upstairs: they simplify when differentiated
+        const logarithmic = /log|arc/.test(vanishing);
+        const numerator = logarithmic ? vanishing : unbounded;
+        const denominator = cas(`1/(${logarithmic ? unbounded : vanishing})`);
+        const form = logarithmic ? '0/0' : '∞/∞';
+        push(`${label}(${numerator})/(${denominator})`, logarithmic
+          ? 'Form 0·∞: move the unbounded factor to the denominator as its reciprocal'
+          : 'Form 0·∞: move the vanishing factor to the denominator as its reciprocal', 'Algebraic Simplification');
+        const rewritten = this.derivativeQuotient(numerator, denominator, variable);
+        if (rewritten) {
+          push(`${label}(${numerator})/(${denominator}) = ${label}(${rewritten.numerator})/(${rewritten.denominator})`, `Form ${form}: apply L'Hôpital's rule`, "L'Hôpital's Rule");
+          return this.compute(this.simplified(rewritten, spec, push), spec, steps, depth + 1);
+        }
+      }
+    }
+
+    if (node.kind === 'binary' && (node.operator === '+' || node.operator === '-') && /sqrt|\^\s*\(?1\s*\/\s*2/.test(ExpressionParser.print(node))) {
+      const [first, second] = [node.left, node.right].map(side => ExpressionParser.print(side));
+      const other = node.operator === '-' ? `-(${second})` : second;
+      const numerator = this.tryCas(`(${first})^2-(${other})^2`);
+      const denominator = this.tryCas(`(${first})-(${other})`);
+      if (numerator && denominator && denominator !== '0') {
+        push(`${label}(${numerator})/(${denominator})`, 'Multiply and divide by the conjugate to remove the radical difference', 'Conjugate Multiplication');
+        return this.compute(`(${numerator})/(${denominator})`, spec, steps, depth + 1);
+      }
+    }
+
+    const value = this.valueAt(f, variable, point, direction);
+    if (value.kind === 'finite' && Number.isFinite(evaluateNumeric(point))) {
+      return this.numericFallback(f, spec, push);
+    }
+    push(`${label}${f} ${this.equals(value)}`, value.kind === 'infinite'
+      ? `The function grows without bound as ${variable} → ${displayValue(point)}`
+      : value.kind === 'none'
+        ? `The function does not settle on a single value as ${variable} → ${displayValue(point)}`
+        : `The function levels off as ${variable} → ${displayValue(point)}`, 'End Behaviour');
+    return value;
+  }
+
+  // Rational functions at ±∞: compare the degrees of numerator and denominator
+  static compareDegrees(
+    numerator: string,
+    denominator: string,
+    spec: LimitSpec,
+    push: (expression: string, explanation: string, method?: string) => void
+  ): LimitValue {
+    const { variable, point } = spec;
+    const n = Number(cas(`deg(${numerator},${variable})`));
+    const m = Number(cas(`deg(${denominator},${variable})`));
+    const leadingTop = cas(`coeff(${numerator},${variable},${n})`);
+    const leadingBottom = cas(`coeff(${denominator},${variable},${m})`);
+
+    push(`(${numerator})/(${denominator}) ~ (${leadingTop}·${variable}^${n})/(${leadingBottom}·${variable}^${m})`, `Divide numerator and denominator by ${variable}^${m}; only the leading terms matter as ${variable} → ${displayValue(point)}`, 'Leading Terms');
+
+    if (n < m) return { kind: 'finite', value: '0' };
+    if (n === m) return { kind: 'finite', value: cas(`(${leadingTop})/(${leadingBottom})`) };
+
+    const ratio = evaluateNumeric(`(${leadingTop})/(${leadingBottom})`);
+    const towardNegative = evaluateNumeric(point) < 0 && (n - m) % 2 === 1;
+    const sign = (ratio > 0) !== towardNegative ? 1 : -1;
+    return { kind: 'infinite', sign };
+  }
+
+  // Value of a sub-expression at the limit point: exact substitution when continuous, else a probed limit
+  static valueAt(f: string, variable: string, point: string, direction: LimitDirection): LimitValue {
+    const pointValue = evaluateNumeric(point);
+
+    if (Number.isFinite(pointValue) || Number.isNaN(pointValue)) {
+      const direct = this.substitute(f, variable, point);
+      if (direct !== null) {
+        const numeric = evaluateNumeric(direct);
+        if (Number.isFinite(numeric) || Number.isNaN(pointValue)) return { kind: 'finite', value: direct };
+      }
+      if (Number.isNaN(pointValue)) return { kind: 'none' };
+      return this.probe(f, variable, point, direction);
+    }
+
+    const probed = this.probe(f, variable, point, direction);
+    if (probed.kind !== 'finite') return probed;
+
+    // Prefer an exact value when Algebrite's substitution resolves to the numeric limit
+    const approximate = evaluateNumeric(probed.value);
+    try {
+      let exact = cas(`subst(infinity*(${Math.sign(pointValue)}),${variable},${f})`);
+      for (const [pattern, replacement] of INFINITY_LIMITS) {
+        exact = exact.replace(pattern, replacement);
+      }
+      exact = cas(exact);
+      if (!/infinity/.test(exact) && Math.abs(evaluateNumeric(exact) - approximate) < 1e-6 * Math.max(1, Math.abs(approximate))) {
+        return { kind: 'finite', value: exact };
+      }
+    } catch {
+      // fall through to the numeric limit
+    }
+    return probed;
+  }
+
+  // Estimate a limit numerically from samples approaching the point
+  static probe(f: string, variable: string, point: string, direction: LimitDirection): LimitValue {
+    const fn = numericFunction(f, variable);
+    const pointValue = evaluateNumeric(point);
+
+    if (!Number.isFinite(pointValue)) {
+      const sign = pointValue > 0 ? 1 : -1;
+      return this.classify([1e3, 1e4, 1e5, 1e6, 1e7].map(magnitude => fn(sign * magnitude)));
+    }
+
+    const offsets = [1e-2, 1e-3, 1e-4, 1e-5, 1e-6];
+    const right = this.classify(offsets.map(h => fn(pointValue + h)));
+    const left = this.classify(offsets.map(h => fn(pointValue - h)));
+    if (direction === 'right') return right;
+    if (direction === 'left') return left;
+
+    // Only one side in the domain (e.g. √x at 0): use that side alone
+    const undefinedOn = (h: number) => Number.isNaN(fn(pointValue + h));
+    if (offsets.every(h => undefinedOn(-h))) return right;
+    if (offsets.every(h => undefinedOn(h))) return left;
+    return this.sameValue(left, right) ? right : { kind: 'none' };
+  }
+
+  // Classify samples taken ever closer to the limit point
+  static classify(samples: number[]): LimitValue {
+    const near = samples[0];
+    const previous = samples[samples.length - 2];
+    const far = samples[samples.length - 1];
+
+    if (!Number.isFinite(far)) {
+      return Number.isNaN(far) ? { kind: 'none' } : { kind: 'infinite', sign: far > 0 ? 1 : -1 };
+    }
+
+    const scale = Math.max(1, Math.abs(far));
+    if (Math.abs(far - previous) <= 1e-4 * scale && Math.abs(far - near) <= 5e-2 * scale) {
+      return { kind: 'finite', value: formatDecimal(far, 6), approximate: true };
+    }
+
+    // Slow but geometric convergence (e.g. √h): extrapolate the remaining tail
+    const differences = samples.slice(1).map((value, i) => value - samples[i]);
+    const ratios = differences.slice(1).map((difference, i) => difference / differences[i]);
+    if (ratios.every(ratio => ratio > 0 && ratio < 0.7)) {
+      const ratio = ratios[ratios.length - 1];
+      const tail = differences[differences.length - 1] * ratio / (1 - ratio);
+      if (Math.abs(tail) <= 1e-2 * scale) {
+        return { kind: 'finite', value: formatDecimal(far + tail, 6), approximate: true };
+      }
+    }
+
+    // Steadily growing magnitude of one sign means ±∞; anything else has no limit
+    const growing = samples.every((value, i) => i === 0 || (Math.abs(value) > Math.abs(samples[i - 1]) && Math.sign(value) === Math.sign(far)));
+    return growing ? { kind: 'infinite', sign: far > 0 ? 1 : -1 } : { kind: 'none' };
+  }
+
+  // Numerically decide whether the left and right limits clearly disagree
+  static compareSides(f: string, variable: string, point: string): boolean {
+    const left = this.probe(f, variable, point, 'left');
+    const right = this.probe(f, variable, point, 'right');
+    const bothDefined = left.kind !== 'none' && right.kind !== 'none';
+    return bothDefined && !this.sameValue(left, right);
+  }
+
+  static sameValue(a: LimitValue, b: LimitValue): boolean {
+    if (a.kind === 'finite' && b.kind === 'finite') {
+      const x = evaluateNumeric(a.value);
+      const y = evaluateNumeric(b.value);
+      return a.value === b.value || Math.abs(x - y) <= 1e-4 * Math.max(1, Math.abs(x));
+    }
+    if (a.kind === 'infinite' && b.kind === 'infinite') return a.sign === b.sign;
+    return false;
+  }
+
+  static format(value: LimitValue): string {
+    if (value.kind === 'finite') return value.approximate ? `≈ ${value.value}` : value.value;
+    if (value.kind === 'infinite') return value.sign > 0 ? '∞' : '-∞';
+    return 'does not exist';
+  }
+
+  // Relation and value for display: "= 3" for exact values, "≈ 2.718282" for estimates
+  static equals(value: LimitValue): string {
+    return value.kind === 'finite' && value.approximate ? `≈ ${value.value}` : `= ${this.format(value)}`;
+  }
+
+  static label(spec: LimitSpec): string {
+    const side = spec.direction === 'right' ? '⁺' : spec.direction === 'left' ? '⁻' : '';
+    return `lim ${spec.variable}→${displayValue(spec.point)}${side} `;
+  }
+
+  static substitute(f: string, variable: string, point: string): string | null {
+    if (!this.finiteParts(f, variable, point)) return null;
+    const value = this.tryCas(`subst((${point}),${variable},${f})`);
+    if (value === null || /infinity|log\(0\)/.test(value)) return null;
+    const numeric = evaluateNumeric(value);
+    return Math.abs(numeric) === Infinity ? null : value;
+  }
+
+  // The CAS simplifies 0·log(0) to 0, so substitution is only valid when no subterm blows up at the point
+  static finiteParts(f: string, variable: string, point: string): boolean {
+    const value = evaluateNumeric(point);
+    if (!Number.isFinite(value)) return true;
+    let node: ExpressionNode;
+    try {
+      node = ExpressionParser.parse(f);
+    } catch {
+      return true;
+    }
+    return ExpressionParser.nodes(node).every(part =>
+      Math.abs(evaluateNumeric(ExpressionParser.print(part), { [variable]: value })) !== Infinity);
+  }
+
+  // Direct substitution is only trusted when the nearby values approach the same number
+  static agreesWithProbe(f: string, variable: string, point: string, direction: LimitDirection, value: string): boolean {
+    const expected = evaluateNumeric(value);
+    if (Number.isNaN(expected)) return true;
+    const probed = this.probe(f, variable, point, direction);
+    if (probed.kind !== 'finite') return false;
+    return Math.abs(evaluateNumeric(probed.value) - expected) <= 1e-3 * Math.max(1, Math.abs(expected));
+  }
+
+  static derivativeQuotient(numerator: string, denominator: string, variable: string) {
+    const top = this.tryCas(`d(${numerator},${variable})`);
+    const bottom = this.tryCas(`d(${denominator},${variable})`);
+    if (top === null || bottom === null || bottom === '0') return null;
+    return { numerator: top, denominator: bottom };
+  }
+
+  static numericFallback(
+    f: string,
+    spec: LimitSpec,
+    push: (expression: string, explanation: string, method?: string) => void
+  ): LimitValue {
+    const value = this.probe(f, spec.variable, spec.point, spec.direction);
+    push(`${this.label(spec)}${f} ${this.equals(value)}`, 'No algebraic rule applies; estimate the limit from values approaching the point', 'Numerical Estimation');
+    return value;
+  }
+
+  static tryCas(command: string): string | null {
+    try {
+      return cas(command);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,573 @@
+import { lusolve } from 'mathjs';
+import type { CalculusSolution } from './calculusEngine';
+import { EquationSolver } from './equationSolver';
+import { recordSteps, type Push } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { cas, evaluateNumeric, formatDecimal, freeVariables, subscript } from './expressionUtils';
+import { ExpressionParser, ParseError, type CallNode, type ExpressionNode, type ListNode } from './expressionParser';
+
+// Rows of entries in Algebrite syntax; a column vector is a matrix with one column
+export type Matrix = string[][];
+
+export type MatrixValue = { kind: 'matrix'; rows: Matrix } | { kind: 'scalar'; value: string };
+
+export interface Eigenspace {
+  value: string;
+  // Algebraic multiplicity, as a root of the characteristic polynomial
+  multiplicity: number;
+  // A decimal root of a characteristic polynomial with no exact roots
+  approximate?: boolean;
+  // Basis of the eigenspace; fewer vectors than the multiplicity make the matrix defective
+  vectors: string[][];
+}
+
+interface Reduction {
+  rows: Matrix;
+  pivots: number[];
+}
+
+// Accepted function names for each operation
+const OPERATIONS: Record<string, string> = {
+  det: 'det',
+  determinant: 'det',
+  inv: 'inv',
+  inverse: 'inv',
+  transpose: 'transpose',
+  trace: 'trace',
+  rref: 'rref',
+  rank: 'rank',
+  nullspace: 'nullspace',
+  kernel: 'nullspace',
+  eigenvalues: 'eigenvalues',
+  eigenvectors: 'eigenvectors',
+  eigen: 'eigenvectors',
+};
+// Operations whose result is not a single matrix or number, so they cannot appear inside arithmetic
+const STANDALONE = new Set(['nullspace', 'eigenvalues', 'eigenvectors']);
+// Largest matrices for cofactor expansion and for the characteristic polynomial
+const MAX_COFACTOR_SIZE = 4;
+const MAX_EIGEN_SIZE = 4;
+// Solves with A − μI when refining the eigenvector of an approximate eigenvalue
+const INVERSE_ITERATIONS = 3;
+const MAX_POWER = 12;
+// Name of the eigenvalue variable inside Algebrite, displayed as λ
+const LAMBDA = 'lambda';
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+export class LinearAlgebraSolver {
+  // A matrix literal such as [[1, 2], [3, 4]], arithmetic involving one, or det(...), rref(...), eigenvalues(...) and the like
+  static isLinearAlgebra(node: ExpressionNode): boolean {
+    if (node.kind === 'call') return node.name in OPERATIONS;
+    return ['list', 'unary', 'binary'].includes(node.kind) && ExpressionParser.nodes(node).some(child => this.isMatrix(child));
+  }
+
+  // A bracketed list of bracketed rows
+  static isMatrix(node: ExpressionNode): boolean {
+    return node.kind === 'list' && node.bracket === '[' && node.items.length > 0
+      && node.items.every(item => item.kind === 'list' && item.bracket === '[');
+  }
+
+  static solve(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    const { steps, push, methods } = recordSteps();
+    const solution = (result: string, verified: CalculusSolution['verified']): CalculusSolution => ({
+      original: expr,
+      result,
+      steps,
+      type: 'Linear Algebra',
+      method: [...methods].join(' / '),
+      verified
+    });
+
+    // A lone matrix is row-reduced, as are the operands of rref, rank and nullspace
+    const operation = node.kind === 'call' ? OPERATIONS[node.name] : this.isMatrix(node) ? 'rref' : undefined;
+    if (operation && ['rref', 'rank', 'nullspace', 'eigenvalues', 'eigenvectors'].includes(operation)) {
+      const matrix = this.matrixOperand(node, push);
+      const parameters = this.parameters(matrix);
+      if (operation === 'eigenvalues' || operation === 'eigenvectors') {
+        const eigenspaces = this.eigen(matrix, operation === 'eigenvectors', push);
+        const result = operation === 'eigenvectors'
+          ? eigenspaces.map(space => `λ ${space.approximate ? '≈' : '='} ${this.label(space)}: ${space.vectors.length
+            ? space.vectors.map(vector => this.show(vector.map(entry => [this.label({ value: entry, approximate: space.approximate })]), true)).join(', ')
+            : 'no eigenvector found'}`).join('; ')
+          : `λ ${eigenspaces.every(space => space.approximate) ? '≈' : '='} ${eigenspaces.map(space => `${space.approximate && !eigenspaces.every(other => other.approximate) ? '≈ ' : ''}${this.label(space)}${space.multiplicity > 1 ? ` (multiplicity ${space.multiplicity})` : ''}`).join(', ')}`;
+        return solution(result, SolutionVerifier.eigen(matrix, eigenspaces, parameters));
+      }
+
+      push(this.show(matrix), operation === 'nullspace' ? 'Solve Ax = 0 by row-reducing A' : 'Row-reduce to reduced row echelon form');
+      const reduction = this.reduce(matrix, push);
+      const columns = matrix[0].length;
+      const basis = this.basis(reduction, columns);
+      const rank = reduction.pivots.length;
+      const verified = SolutionVerifier.nullSpace(matrix, basis, parameters);
+      if (operation === 'rref') {
+        push(`rank = ${rank}`, `${rank} pivot${rank === 1 ? '' : 's'}, in column${rank === 1 ? '' : 's'} ${reduction.pivots.map(column => column + 1).join(', ') || 'none'}`);
+        return solution(this.show(reduction.rows), verified);
+      }
+      if (operation === 'rank') {
+        push(`rank = ${rank}`, `Count the pivots; the remaining ${columns - rank} column${columns - rank === 1 ? '' : 's'} give the nullity`);
+        return solution(`rank = ${rank}`, verified);
+      }
+      return solution(this.nullSpace(reduction, basis, columns, push), verified);
+    }
+
+    push(ExpressionParser.print(node), 'Evaluate the matrix expression');
+    const value = this.evaluate(node, push);
+    const result = value.kind === 'matrix' ? this.show(value.rows) : value.value;
+    const check = this.mathjsForm(node);
+    return solution(result, check
+      ? SolutionVerifier.matrix(check, value.kind === 'matrix' ? value.rows : value.value, freeVariables(check))
+      : SolutionVerifier.unverified('mathjs has no equivalent of every operation in the expression'));
+  }
+
+  // The matrix an operation applies to, or the lone matrix itself
+  static matrixOperand(node: ExpressionNode, push: Push): Matrix {
+    if (node.kind !== 'call') return this.literal(node as ListNode);
+    if (node.args.length !== 1) {
+      throw new ParseError(`Expected ${node.name}(matrix) with a matrix such as [[1, 2], [3, 4]]`, node.position);
+    }
+    const value = this.evaluate(node.args[0], push);
+    if (value.kind !== 'matrix') {
+      throw new ParseError(`Expected ${node.name}(matrix) with a matrix such as [[1, 2], [3, 4]]`, node.args[0].position);
+    }
+    return value.rows;
+  }
+
+  // Matrix arithmetic with +, -, *, / by a scalar, integer powers, ^T and the operations returning a matrix or number
+  static evaluate(node: ExpressionNode, push: Push): MatrixValue {
+    if (node.kind === 'list') return { kind: 'matrix', rows: this.literal(node) };
+    if (node.kind === 'call' && node.name in OPERATIONS) return this.apply(OPERATIONS[node.name], node, push);
+    if (node.kind === 'unary') {
+      const operand = this.evaluate(node.operand, push);
+      return operand.kind === 'scalar' ? { kind: 'scalar', value: this.entry(`-(${operand.value})`) } : this.scale(operand.rows, '-1', push);
+    }
+    if (node.kind === 'binary') {
+      if (node.operator === '^') return this.power(node.left, node.right, push);
+      const left = this.evaluate(node.left, push);
+      const right = this.evaluate(node.right, push);
+      if (left.kind === 'scalar' && right.kind === 'scalar') {
+        return { kind: 'scalar', value: this.entry(`(${left.value})${node.operator}(${right.value})`) };
+      }
+      if (node.operator === '*') {
+        if (left.kind === 'scalar' && right.kind === 'matrix') return this.scale(right.rows, left.value, push);
+        if (left.kind === 'matrix' && right.kind === 'scalar') return this.scale(left.rows, right.value, push);
+        if (left.kind === 'matrix' && right.kind === 'matrix') return { kind: 'matrix', rows: this.multiply(left.rows, right.rows, push) };
+      }
+      if (node.operator === '/') {
+        if (right.kind === 'matrix') throw new Error('cannot divide by a matrix; multiply by its inverse instead');
+        if (left.kind === 'matrix') return this.scale(left.rows, this.entry(`1/(${right.value})`), push);
+      }
+      if (left.kind === 'matrix' && right.kind === 'matrix') {
+        return { kind: 'matrix', rows: this.add(left.rows, right.rows, node.operator === '-', push) };
+      }
+      throw new Error(`cannot ${node.operator === '-' ? 'subtract' : 'add'} a matrix and a number`);
+    }
+    if (ExpressionParser.nodes(node).some(child => child.kind === 'list')) {
+      throw new ParseError('Matrices can only be combined with +, -, *, / and ^', node.position);
+    }
+    return { kind: 'scalar', value: this.entry(ExpressionParser.print(node)) };
+  }
+
+  // [[a, b], [c, d]] row by row; a flat list [a, b] is a column vector
+  static literal(node: ListNode): Matrix {
+    if (node.bracket !== '[' || !node.items.length) {
+      throw new ParseError('Expected a matrix such as [[1, 2], [3, 4]]', node.position);
+    }
+    const rows = this.isMatrix(node) ? node.items.map(row => (row as ListNode).items) : node.items.map(item => [item]);
+    if (rows.some(row => row.length !== rows[0].length || !row.length)) {
+      throw new ParseError('Every row of a matrix needs the same number of entries', node.position);
+    }
+    return rows.map(row => row.map(item => {
+      if (['list', 'equation', 'sequence'].includes(item.kind)) {
+        throw new ParseError('Matrix entries must be numbers or expressions', item.position);
+      }
+      return this.entry(ExpressionParser.print(item));
+    }));
+  }
+
+  static apply(operation: string, node: CallNode, push: Push): MatrixValue {
+    if (STANDALONE.has(operation)) {
+      throw new Error(`${node.name}(...) cannot be combined with other operations`);
+    }
+    const rows = this.matrixOperand(node, push);
+    const n = rows.length;
+    if (operation === 'transpose') return { kind: 'matrix', rows: this.transpose(rows, push) };
+    if (operation === 'rref') {
+      push(this.show(rows), 'Row-reduce to reduced row echelon form');
+      return { kind: 'matrix', rows: this.reduce(rows, push).rows };
+    }
+    if (operation === 'rank') {
+      const { pivots } = this.reduce(rows, push);
+      push(`rank = ${pivots.length}`, 'Count the pivots');
+      return { kind: 'scalar', value: String(pivots.length) };
+    }
+
+    this.requireSquare(rows, operation === 'det' ? 'determinant' : operation === 'inv' ? 'inverse' : 'trace');
+    if (operation === 'trace') {
+      const value = this.entry(rows.map((row, i) => `(${row[i]})`).join('+'));
+      push(`tr${this.show(rows)} = ${rows.map((row, i) => row[i]).join(' + ')} = ${value}`, 'Add the diagonal entries', 'Trace');
+      return { kind: 'scalar', value };
+    }
+    if (operation === 'inv') return { kind: 'matrix', rows: this.inverse(rows, push) };
+    if (n > MAX_COFACTOR_SIZE) {
+      throw new Error(`cofactor expansion is limited to ${MAX_COFACTOR_SIZE}×${MAX_COFACTOR_SIZE} matrices`);
+    }
+    return { kind: 'scalar', value: this.determinant(rows, push) };
+  }
+
+  // A^n by repeated multiplication, A^-n through the inverse, A^T as the transpose
+  static power(base: ExpressionNode, exponent: ExpressionNode, push: Push): MatrixValue {
+    const value = this.evaluate(base, push);
+    if (exponent.kind === 'symbol' && exponent.name === 'T' && value.kind === 'matrix') {
+      return { kind: 'matrix', rows: this.transpose(value.rows, push) };
+    }
+    if (ExpressionParser.nodes(exponent).some(child => child.kind === 'list')) {
+      throw new Error('a matrix cannot be used as an exponent');
+    }
+    if (value.kind === 'scalar') {
+      return { kind: 'scalar', value: this.entry(`(${value.value})^(${ExpressionParser.print(exponent)})`) };
+    }
+    const k = Number(cas(ExpressionParser.print(exponent)));
+    if (!Number.isInteger(k) || Math.abs(k) > MAX_POWER) {
+      throw new Error(`a matrix can only be raised to an integer power between -${MAX_POWER} and ${MAX_POWER}, or to T for the transpose`);
+    }
+    this.requireSquare(value.rows, 'power');
+    const factor = k < 0 ? this.inverse(value.rows, push) : value.rows;
+    if (k === 0) {
+      const identity = value.rows.map((row, i) => row.map((_, j) => (i === j ? '1' : '0')));
+      push(`A^0 = ${this.show(identity)}`, 'Any square matrix to the power 0 is the identity', 'Matrix Arithmetic');
+      return { kind: 'matrix', rows: identity };
+    }
+    let rows = factor;
+    for (let i = 1; i < Math.abs(k); i++) {
+      rows = this.multiply(rows, factor, i === 1 ? push : null);
+    }
+    if (Math.abs(k) > 2) {
+      push(`${this.show(value.rows)}^${k} = ${this.show(rows)}`,
+        `Multiply ${k < 0 ? 'the inverse' : 'the matrix'} by itself ${Math.abs(k)} times`, 'Matrix Arithmetic');
+    }
+    return { kind: 'matrix', rows };
+  }
+
+  static add(left: Matrix, right: Matrix, subtract: boolean, push: Push): Matrix {
+    if (left.length !== right.length || left[0].length !== right[0].length) {
+      throw new Error(`cannot ${subtract ? 'subtract' : 'add'} a ${this.size(left)} matrix and a ${this.size(right)} matrix`);
+    }
+    const rows = left.map((row, i) => row.map((entry, j) => this.entry(`(${entry})${subtract ? '-' : '+'}(${right[i][j]})`)));
+    push(`${this.show(left)} ${subtract ? '-' : '+'} ${this.show(right)} = ${this.show(rows)}`,
+      `${subtract ? 'Subtract' : 'Add'} corresponding entries`, 'Matrix Arithmetic');
+    return rows;
+  }
+
+  static scale(matrix: Matrix, factor: string, push: Push): MatrixValue {
+    const rows = matrix.map(row => row.map(entry => this.entry(`(${factor})*(${entry})`)));
+    push(`${factor === '-1' ? '-' : `${this.group(factor)}·`}${this.show(matrix)} = ${this.show(rows)}`,
+      factor === '-1' ? 'Negate every entry' : `Multiply every entry by ${factor}`, 'Matrix Arithmetic');
+    return { kind: 'matrix', rows };
+  }
+
+  // Row i of the left matrix times column j of the right, shown as sums of products
+  static multiply(left: Matrix, right: Matrix, push: Push | null): Matrix {
+    if (left[0].length !== right.length) {
+      throw new Error(`cannot multiply a ${this.size(left)} matrix by a ${this.size(right)} matrix; the inner dimensions differ`);
+    }
+    const terms = left.map(row => right[0].map((_, j) => row.map((entry, k) => [entry, right[k][j]])));
+    const rows = terms.map(row => row.map(products => this.entry(products.map(([a, b]) => `(${a})*(${b})`).join('+'))));
+    push?.(`${this.show(left)}·${this.show(right)} = ${this.show(terms.map(row => row.map(products =>
+      products.map(([a, b]) => `${this.group(a)}·${this.group(b)}`).join(' + '))))} = ${this.show(rows)}`,
+    `Entry (i, j) is row i of the left matrix times column j of the right, giving a ${this.size(rows)} matrix`, 'Matrix Multiplication');
+    return rows;
+  }
+
+  static transpose(matrix: Matrix, push: Push): Matrix {
+    const rows = matrix[0].map((_, j) => matrix.map(row => row[j]));
+    push(`${this.show(matrix)}^T = ${this.show(rows)}`, 'Rows become columns', 'Transpose');
+    return rows;
+  }
+
+  // Expand along the row or column with the most zeros, recursing into the minors down to ad - bc
+  static determinant(matrix: Matrix, push: Push): string {
+    const method = 'Cofactor Expansion';
+    if (matrix.length === 1) return matrix[0][0];
+    if (matrix.length === 2) {
+      const [[a, b], [c, d]] = matrix;
+      const value = this.entry(`(${a})*(${d})-(${b})*(${c})`);
+      push(`det${this.show(matrix)} = ${this.group(a)}·${this.group(d)} - ${this.group(b)}·${this.group(c)} = ${value}`,
+        'For a 2×2 matrix, det = ad − bc', method);
+      return value;
+    }
+
+    const zeros = (line: string[]) => line.filter(entry => entry === '0').length;
+    const lines = [
+      ...matrix.map((row, index) => ({ byRow: true, index, count: zeros(row) })),
+      ...matrix.map((_, index) => ({ byRow: false, index, count: zeros(matrix.map(row => row[index])) }))
+    ];
+    const best = lines.reduce((chosen, line) => (line.count > chosen.count ? line : chosen));
+    const name = `${best.byRow ? 'row' : 'column'} ${best.index + 1}`;
+    const terms = matrix
+      .map((_, k) => (best.byRow ? [best.index, k] : [k, best.index]))
+      .map(([i, j]) => ({ entry: matrix[i][j], negative: (i + j) % 2 === 1, minor: this.minor(matrix, i, j) }))
+      .filter(term => term.entry !== '0');
+    if (!terms.length) {
+      push(`det${this.show(matrix)} = 0`, `Every entry of ${name} is 0`, method);
+      return '0';
+    }
+
+    const combine = (parts: string[]) => parts
+      .map((part, k) => `${k === 0 ? (terms[k].negative ? '-' : '') : terms[k].negative ? ' - ' : ' + '}${part}`)
+      .join('');
+    push(`det${this.show(matrix)} = ${combine(terms.map(({ entry, minor }) => `${this.group(entry)}·det${this.show(minor)}`))}`,
+      `Expand along ${name}${best.count ? ', which has the most zeros' : ''}; the cofactor signs follow the checkerboard (−1)^(i+j)`, method);
+    const minors = terms.map(({ minor }) => this.determinant(minor, push));
+    const value = this.entry(terms.map(({ entry, negative }, k) => `${negative ? '-' : '+'}(${entry})*(${minors[k]})`).join(''));
+    push(`det${this.show(matrix)} = ${combine(terms.map(({ entry }, k) => `${this.group(entry)}·${this.group(minors[k])}`))} = ${value}`,
+      `Combine the entries of ${name} with their minors`, method);
+    return value;
+  }
+
+  static minor(matrix: Matrix, row: number, column: number): Matrix {
+    return matrix.filter((_, i) => i !== row).map(entries => entries.filter((_, j) => j !== column));
+  }
+
+  // Row-reduce [A | I] until the left half is the identity; the right half is then the inverse
+  static inverse(matrix: Matrix, push: Push): Matrix {
+    this.requireSquare(matrix, 'inverse');
+    const n = matrix.length;
+    const augmented = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? '1' : '0'))]);
+    push(this.show(augmented, false, n), 'Augment A with the identity matrix and row-reduce [A | I]', 'Gauss–Jordan Elimination');
+    const { rows, pivots } = this.reduce(augmented, push, n);
+    if (pivots.length < n) {
+      throw new Error(`the matrix is singular (its rank is ${pivots.length} < ${n}), so it has no inverse`);
+    }
+    let inverse = rows.map(row => row.slice(n));
+    push(`A^(-1) = ${this.show(inverse)}`, 'The left half is now I, so the right half is A⁻¹', 'Gauss–Jordan Elimination');
+    if (this.parameters(matrix).length) {
+      // Row reduction leaves nested fractions in symbolic entries, so put every entry over det A
+      const determinant = cas(`det(${this.show(matrix)})`);
+      inverse = inverse.map(row => row.map(entry => cas(`(${cas(`simplify((${entry})*(${determinant}))`)})/(${determinant})`)));
+      push(`A^(-1) = ${this.show(inverse)}`, `Write every entry over det A = ${determinant}`, 'Gauss–Jordan Elimination');
+    }
+    return inverse;
+  }
+
+  // Gauss–Jordan elimination; with split, only the first split columns take pivots and a bar separates the rest
+  static reduce(matrix: Matrix, push: Push | null, split?: number): Reduction {
+    const method = 'Gauss–Jordan Elimination';
+    const rows = matrix.map(row => [...row]);
+    const show = () => this.show(rows, false, split);
+    const pivots: number[] = [];
+    for (let column = 0; column < (split ?? rows[0].length) && pivots.length < rows.length; column++) {
+      const r = pivots.length;
+      const candidates = rows.map((_, i) => i).filter(i => i >= r && rows[i][column] !== '0');
+      if (!candidates.length) continue;
+      // Prefer a pivot of 1, then a numeric one, to keep the arithmetic simple
+      const pivot = candidates.find(i => rows[i][column] === '1')
+        ?? candidates.find(i => !freeVariables(rows[i][column]).length)
+        ?? candidates[0];
+      if (pivot !== r) {
+        [rows[r], rows[pivot]] = [rows[pivot], rows[r]];
+        push?.(show(), `Swap R${r + 1} and R${pivot + 1} to bring a nonzero pivot into column ${column + 1}`, method);
+      }
+
+      const value = rows[r][column];
+      if (value !== '1') {
+        rows[r] = rows[r].map(entry => this.entry(`(${entry})/(${value})`));
+        push?.(show(), `R${r + 1} → R${r + 1}/${this.group(value)} makes the pivot 1${freeVariables(value).length ? ` (assuming ${value} ≠ 0)` : ''}`, method);
+      }
+
+      const operations: string[] = [];
+      rows.forEach((row, i) => {
+        const factor = row[column];
+        if (i === r || factor === '0') return;
+        rows[i] = row.map((entry, j) => this.entry(`(${entry})-(${factor})*(${rows[r][j]})`));
+        operations.push(this.rowOperation(i, factor, r));
+      });
+      if (operations.length) {
+        push?.(show(), `${operations.join(', ')} clear${operations.length === 1 ? 's' : ''} the rest of column ${column + 1}`, method);
+      }
+      pivots.push(column);
+    }
+    return { rows, pivots };
+  }
+
+  // R2 → R2 − 3·R1, or R2 → R2 + 3·R1 for a negative factor
+  static rowOperation(target: number, factor: string, source: number): string {
+    const negative = /^-[\w./^]+$/.test(factor);
+    const magnitude = negative ? factor.slice(1) : factor;
+    const multiple = magnitude === '1' ? '' : `${this.group(magnitude)}·`;
+    return `R${target + 1} → R${target + 1} ${negative ? '+' : '−'} ${multiple}R${source + 1}`;
+  }
+
+  // One null space vector per free column: that variable 1, the other free ones 0, and the pivot variables read off the rows
+  static basis({ rows, pivots }: Reduction, columns: number): Matrix {
+    const indices = [...Array(columns).keys()];
+    return indices.filter(free => !pivots.includes(free)).map(free => this.clear(indices.map(j =>
+      j === free ? '1' : pivots.includes(j) ? this.entry(`-(${rows[pivots.indexOf(j)][free]})`) : '0')));
+  }
+
+  static nullSpace({ rows, pivots }: Reduction, basis: Matrix, columns: number, push: Push): string {
+    const method = 'Null Space';
+    const names = [...Array(columns).keys()].map(j => `x${subscript(j + 1)}`);
+    const free = names.filter((_, j) => !pivots.includes(j));
+    if (!free.length) {
+      push('x = 0', 'Every column has a pivot, so only the zero vector solves Ax = 0', method);
+      return 'N(A) = {0}';
+    }
+    const equations = pivots.map((column, i) => {
+      const terms = names
+        .map((name, j) => (pivots.includes(j) || rows[i][j] === '0' ? '' : `-(${rows[i][j]})*x${j + 1}`))
+        .join('');
+      const value = terms ? cas(terms).replace(/\bx(\d+)\b/g, (_, index) => `x${subscript(Number(index))}`) : '0';
+      return `${names[column]} = ${value}`;
+    });
+    push(equations.join(', ') || `${free.join(', ')} free`,
+      `Solve each row for its pivot variable; ${free.join(', ')} ${free.length === 1 ? 'is' : 'are'} free`, method);
+    push(`x = ${basis.map((vector, k) => `${free[k]}·${this.show(vector.map(entry => [entry]), true)}`).join(' + ')}`,
+      `Each free variable contributes one basis vector${basis.some(vector => !vector.includes('1')) ? ', scaled to clear fractions' : ''}`, method);
+    return `N(A) = span{${basis.map(vector => this.show(vector.map(entry => [entry]), true)).join(', ')}}`;
+  }
+
+  // Roots of det(A − λI), then the null space of A − λI for each
+  static eigen(matrix: Matrix, vectors: boolean, push: Push): Eigenspace[] {
+    this.requireSquare(matrix, 'eigenvalues');
+    const n = matrix.length;
+    if (n > MAX_EIGEN_SIZE) {
+      throw new Error(`eigenvalues are limited to ${MAX_EIGEN_SIZE}×${MAX_EIGEN_SIZE} matrices`);
+    }
+    const display = (text: string) => text.replace(new RegExp(`\\b${LAMBDA}\\b`, 'g'), 'λ');
+    const shifted = matrix.map((row, i) => row.map((entry, j) => (i === j ? this.entry(`(${entry})-${LAMBDA}`) : entry)));
+    push(`A - λI = ${display(this.show(shifted))}`, 'Subtract λ from each diagonal entry', 'Characteristic Polynomial');
+    const polynomial = cas(`expand(det(${this.show(shifted)}))`);
+    push(`det(A - λI) = ${display(polynomial)} = 0`, 'The eigenvalues are the roots of the characteristic polynomial', 'Characteristic Polynomial');
+
+    const derivation = EquationSolver.derive({ left: polynomial, right: '0', variable: LAMBDA });
+    if (!derivation.roots.length) {
+      throw new Error(`the roots of ${display(polynomial)} could not be found`);
+    }
+    push(derivation.roots.map(root => `λ ${root.approximate ? `≈ ${root.decimal}` : `= ${root.value}`}${root.multiplicity > 1 ? ` (multiplicity ${root.multiplicity})` : ''}`).join(', '),
+      `Solve the characteristic equation${derivation.methods.length ? ` (${derivation.methods.join(', ')})` : ''}`, 'Characteristic Polynomial');
+    const found = derivation.roots.reduce((total, root) => total + root.multiplicity, 0);
+    if (found < n) {
+      push(`${found} of ${n} eigenvalues`, 'Only some roots of the characteristic polynomial could be found exactly');
+    }
+
+    return derivation.roots.map(root => {
+      const space: Eigenspace = { value: root.value, multiplicity: root.multiplicity, vectors: [], ...(root.approximate ? { approximate: true } : {}) };
+      if (!vectors) return space;
+      if (root.approximate) {
+        const vector = root.real && !this.parameters(matrix).length ? this.inverseIteration(matrix, Number(root.value)) : null;
+        if (vector) space.vectors = [vector];
+        push(`λ ≈ ${root.decimal}${vector ? `, v ≈ ${this.show(vector.map(entry => [formatDecimal(Number(entry))]), true)}` : ''}`,
+          vector
+            ? 'This eigenvalue is only known approximately, so its eigenvector is found numerically by inverse iteration on A − λI'
+            : 'This eigenvalue is complex and only known approximately, so its eigenvectors are not computed',
+          'Eigenvectors');
+        return space;
+      }
+      const difference = shifted.map(row => row.map(entry => this.entry(`subst((${root.value}),${LAMBDA},${entry})`)));
+      const reduction = this.reduce(difference, null);
+      space.vectors = this.basis(reduction, n);
+      const shown = space.vectors.map(vector => this.show(vector.map(entry => [entry]), true)).join(', ');
+      push(`A - ${this.group(root.value)}I → ${this.show(reduction.rows)}, v = ${shown || 'none'}`,
+        `Row-reduce A − λI for λ = ${root.value}; its null space is the eigenspace`, 'Eigenvectors');
+      if (space.vectors.length < root.multiplicity) {
+        push(`dim E(${root.value}) = ${space.vectors.length} < ${root.multiplicity}`,
+          `λ = ${root.value} has multiplicity ${root.multiplicity} but only ${space.vectors.length} independent eigenvector${space.vectors.length === 1 ? '' : 's'}, so A is not diagonalizable`, 'Eigenvectors');
+      }
+      return space;
+    });
+  }
+
+  // Repeatedly solve (A − μI)w = v for μ just off the eigenvalue, which turns v toward its eigenvector; scaled so the largest entry is 1
+  static inverseIteration(matrix: Matrix, eigenvalue: number): string[] | null {
+    const a = matrix.map(row => row.map(entry => evaluateNumeric(entry)));
+    const scale = Math.max(1, ...a.flat().map(Math.abs));
+    const shifted = a.map((row, i) => row.map((entry, j) => (i === j ? entry - eigenvalue - 1e-10 * scale : entry)));
+    let vector = a.map((_, i) => 1 + i / a.length);
+    try {
+      for (let iteration = 0; iteration < INVERSE_ITERATIONS; iteration++) {
+        const next = (lusolve(shifted, vector) as number[][]).map(([entry]) => entry);
+        const largest = next.reduce((best, entry) => (Math.abs(entry) > Math.abs(best) ? entry : best), 0);
+        vector = next.map(entry => entry / largest);
+      }
+    } catch {
+      return null;
+    }
+    return vector.every(Number.isFinite) ? vector.map(entry => String(Number(entry.toPrecision(12)))) : null;
+  }
+
+  // The value itself, or its rounded decimal when it is approximate
+  static label({ value, approximate }: { value: string; approximate?: boolean }): string {
+    return approximate ? EquationSolver.formatComplex(SolutionVerifier.complexValue(value)) : value;
+  }
+
+  // The expression in mathjs syntax for an independent numerical check, or null when mathjs lacks an operation
+  static mathjsForm(node: ExpressionNode): string | null {
+    const forms = (nodes: ExpressionNode[]) => {
+      const printed = nodes.map(child => this.mathjsForm(child));
+      return printed.every((form): form is string => form !== null) ? printed : null;
+    };
+    if (node.kind === 'list') {
+      const items = forms(node.items);
+      return items && `[${items.join(', ')}]`;
+    }
+    if (node.kind === 'unary') {
+      const operand = this.mathjsForm(node.operand);
+      return operand && `-(${operand})`;
+    }
+    if (node.kind === 'binary') {
+      const [left, right] = forms([node.left, node.right]) ?? [];
+      if (left === undefined || right === undefined) return null;
+      return node.operator === '^' && node.right.kind === 'symbol' && node.right.name === 'T'
+        ? `transpose(${left})`
+        : `(${left})${node.operator}(${right})`;
+    }
+    if (node.kind === 'call' && node.name in OPERATIONS) {
+      const name = OPERATIONS[node.name];
+      const args = forms(node.args);
+      return args && ['det', 'inv', 'transpose', 'trace'].includes(name) ? `${name}(${args.join(', ')})` : null;
+    }
+    return ExpressionParser.print(node);
+  }
+
+  // Simplified entry, treating values that vanish numerically (such as leftover radicals) as exactly 0
+  static entry(text: string): string {
+    const value = cas(`simplify(${text})`);
+    const numeric = freeVariables(value).length ? null : SolutionVerifier.complexValue(value);
+    return numeric && Math.hypot(numeric.re, numeric.im) < 1e-10 ? '0' : value;
+  }
+
+  // Scale a vector of rational entries to integers
+  static clear(vector: string[]): string[] {
+    if (!vector.every(entry => /^-?\d+(\/\d+)?$/.test(entry))) return vector;
+    const multiple = vector.map(entry => Number(entry.split('/')[1] ?? 1)).reduce((lcm, denominator) => lcm * denominator / gcd(lcm, denominator));
+    return multiple === 1 ? vector : vector.map(entry => cas(`(${entry})*${multiple}`));
+  }
+
+  static requireSquare(matrix: Matrix, operation: string): void {
+    if (matrix.length !== matrix[0].length) {
+      throw new Error(`the ${operation} needs a square matrix, but this one is ${this.size(matrix)}`);
+    }
+  }
+
+  // Symbols in the entries, which the checks give random values
+  static parameters(matrix: Matrix): string[] {
+    return [...new Set(matrix.flatMap(row => row.flatMap(entry => freeVariables(entry))))];
+  }
+
+  static size(matrix: Matrix): string {
+    return `${matrix.length}×${matrix[0].length}`;
+  }
+
+  // [[1, 2], [3, 4]], [1, 2] for a column vector, or [[1, 2 | 1, 0], ...] with a bar before column split
+  static show(matrix: Matrix, vector = false, split?: number): string {
+    if (vector) return `[${matrix.map(row => row[0]).join(', ')}]`;
+    return `[${matrix.map(row => (split === undefined
+      ? `[${row.join(', ')}]`
+      : `[${row.slice(0, split).join(', ')} | ${row.slice(split).join(', ')}]`)).join(', ')}]`;
+  }
+
+  static group(text: string): string {
+    return /^[\w.]+$/.test(text) ? text : `(${text})`;
+  }
+}
@@ -0,0 +1,214 @@
+import type { CalculusSolution, CalculusStep } from './calculusEngine';
+import { IntegralTracer } from './integralTracer';
+import { recordSteps, type Push } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { cas, compileNumeric, displayValue, formatDecimal, freeVariables, isFreeOf, isInfinite } from './expressionUtils';
+import { ExpressionParser, ParseError, type ExpressionNode } from './expressionParser';
+import { iteratedSimpson } from './numericalMethods';
+
+export interface IntegrationLevel {
+  variable: string;
+  lower: string;
+  upper: string;
+}
+
+export interface MultipleIntegralSpec {
+  integrand: string;
+  // Innermost integral first
+  levels: IntegrationLevel[];
+}
+
+// x, y, z in terms of the variables of integration, once a Cartesian integrand has been rewritten
+export interface CoordinateChange {
+  formulas: Record<string, string>;
+  coordinates: string[];
+}
+
+// Cartesian coordinates in terms of new ones, which are listed in the order that makes the Jacobian positive
+interface CoordinateSystem {
+  name: string;
+  coordinates: string[];
+  axes: string[];
+  cartesian: (names: Record<string, string>) => Record<string, string>;
+}
+
+const COORDINATE_SYSTEMS: CoordinateSystem[] = [
+  {
+    name: 'polar',
+    coordinates: ['r', 'theta'],
+    axes: ['x', 'y'],
+    cartesian: ({ r, theta }) => ({ x: `${r}*cos(${theta})`, y: `${r}*sin(${theta})` })
+  },
+  {
+    name: 'cylindrical',
+    coordinates: ['r', 'theta', 'z'],
+    axes: ['x', 'y', 'z'],
+    cartesian: ({ r, theta, z }) => ({ x: `${r}*cos(${theta})`, y: `${r}*sin(${theta})`, z })
+  },
+  {
+    name: 'spherical',
+    coordinates: ['rho', 'phi', 'theta'],
+    axes: ['x', 'y', 'z'],
+    cartesian: ({ rho, phi, theta }) => ({
+      x: `${rho}*sin(${phi})*cos(${theta})`,
+      y: `${rho}*sin(${phi})*sin(${theta})`,
+      z: `${rho}*cos(${phi})`
+    })
+  }
+];
+// Greek letters accepted for the coordinate names
+const COORDINATE_ALIASES: Record<string, string> = { 'θ': 'theta', 'φ': 'phi', 'ρ': 'rho' };
+
+export class MultipleIntegralSolver {
+  // An integral whose integrand is itself a definite integral, with bounds on every level
+  static isMultiple(node: ExpressionNode): boolean {
+    const head = ExpressionParser.head(node);
+    return head.kind === 'integral' && head.body.kind === 'integral'
+      && ExpressionParser.nodes(head).every(child => child.kind !== 'integral' || Boolean(child.lower && child.upper));
+  }
+
+  // integral(integral(f, y, c, d), x, a, b) or ∫_a^b ∫_c^d f dy dx, with inner bounds depending on outer variables only
+  static spec(node: ExpressionNode): MultipleIntegralSpec {
+    const outer: IntegrationLevel[] = [];
+    let current = ExpressionParser.head(node);
+    while (current.kind === 'integral') {
+      if (!current.lower || !current.upper) {
+        throw new ParseError('Every integral of a multiple integral needs bounds', current.position);
+      }
+      outer.push({ variable: current.variable, lower: ExpressionParser.print(current.lower), upper: ExpressionParser.print(current.upper) });
+      current = current.body;
+    }
+    const levels = outer.reverse();
+
+    const variables = levels.map(level => level.variable);
+    if (new Set(variables).size < variables.length) {
+      throw new Error(`each variable may only be integrated once, but the integrals are over ${variables.join(', ')}`);
+    }
+    for (const [i, { variable, lower, upper }] of levels.entries()) {
+      const inner = variables.slice(0, i + 1).filter(name => !isFreeOf(`(${lower})+(${upper})`, name));
+      if (inner.length) {
+        throw new Error(`the bounds for ${variable} may only depend on the variables integrated after it, but they mention ${inner.join(', ')}`);
+      }
+    }
+    return { integrand: ExpressionParser.print(current), levels };
+  }
+
+  static solve(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    const spec = this.spec(node);
+    const { levels } = spec;
+    const { steps, push, methods } = recordSteps();
+    const dimension = levels.length === 2 ? 'double' : levels.length === 3 ? 'triple' : `${levels.length}-fold`;
+    push(this.notation(spec.integrand, levels), `Set up the ${dimension} integral and evaluate it from the innermost integral outward`);
+
+    const { integrand, change } = this.changeVariables(spec.integrand, levels, push);
+    let current = integrand;
+    for (const [i, { variable, lower, upper }] of levels.entries()) {
+      const held = levels.slice(i + 1).map(level => level.variable);
+      const antiderivative = IntegralTracer.realAntiderivative(current, variable);
+      if (antiderivative === null) {
+        return this.numeric(expr, integrand, levels, current, i, steps, push);
+      }
+      push(`∫ ${current} d${variable} = ${antiderivative}`,
+        held.length ? `Integrate with respect to ${variable}, treating ${held.join(', ')} as constant` : `Integrate with respect to ${variable}`,
+        'Iterated Integration');
+      const [top, bottom] = [upper, lower].map(bound => cas(`subst((${bound}),${variable},${antiderivative})`));
+      const value = cas(`simplify((${top})-(${bottom}))`);
+      push(`[${antiderivative}]_{${variable}=${displayValue(lower)}}^{${displayValue(upper)}} = ${value}`,
+        `Evaluate between the bounds for ${variable}`, 'Iterated Integration');
+      current = value;
+    }
+
+    const decimal = compileNumeric(current)({});
+    push(Number.isFinite(decimal) && formatDecimal(decimal) !== current ? `${current} ≈ ${formatDecimal(decimal)}` : current,
+      `Value of the ${dimension} integral`);
+    return {
+      original: expr,
+      result: current,
+      steps,
+      type: 'Multiple Integral',
+      method: [...methods].join(' / '),
+      verified: SolutionVerifier.multipleIntegral(spec.integrand, levels, current, change)
+    };
+  }
+
+  // Rewrite a Cartesian integrand in polar, cylindrical or spherical coordinates when those are the variables of integration;
+  // an integrand already written in the new coordinates is integrated exactly as given, Jacobian and all
+  static changeVariables(integrand: string, levels: IntegrationLevel[], push: Push): { integrand: string; change?: CoordinateChange } {
+    const canonical = levels.map(level => COORDINATE_ALIASES[level.variable] ?? level.variable);
+    const system = COORDINATE_SYSTEMS.find(candidate =>
+      candidate.coordinates.length === canonical.length && candidate.coordinates.every(name => canonical.includes(name)));
+    if (!system) return { integrand };
+    const cartesian = system.axes.filter(name => !canonical.includes(name));
+    if (!cartesian.some(name => !isFreeOf(integrand, name))) {
+      push(`${this.group(integrand)} ${levels.map(level => `d${level.variable}`).join(' ')}`,
+        `The integrand does not mention ${cartesian.join(', ')}, so it is integrated as written; for an area or volume in ${system.name} coordinates it must already include the Jacobian`);
+      return { integrand };
+    }
+
+    const names = Object.fromEntries(canonical.map((name, i) => [name, levels[i].variable]));
+    const formulas = system.cartesian(names);
+    const method = 'Change of Variables';
+    push(Object.entries(formulas).filter(([name]) => cartesian.includes(name)).map(([name, formula]) => `${name} = ${formula}`).join(', '),
+      `The variables of integration are ${system.name} coordinates, so write ${cartesian.join(', ')} in terms of them`, method);
+
+    const coordinates = system.coordinates.map(name => names[name]);
+    const rows = Object.values(formulas).map(formula => coordinates.map(coordinate => cas(`d(${formula},${coordinate})`)));
+    const jacobian = cas(`simplify(det([${rows.map(row => `[${row.join(',')}]`).join(',')}]))`);
+    const symbolic = Object.keys(formulas).map(name => `[${coordinates.map(coordinate => `∂${name}/∂${coordinate}`).join(', ')}]`).join(', ');
+    push(`J = det[${symbolic}] = det[${rows.map(row => `[${row.join(', ')}]`).join(', ')}] = ${jacobian}`,
+      `The Jacobian ∂(${Object.keys(formulas).join(', ')})/∂(${coordinates.join(', ')}) scales the volume element`, method);
+
+    const substituted = Object.entries(formulas).reduce((text, [name, formula]) => cas(`subst((${formula}),${name},${text})`), integrand);
+    const converted = cas(`simplify((${substituted})*(${jacobian}))`);
+    const element = levels.length === 2 ? 'dA' : 'dV';
+    push(`${this.group(integrand)} ${element} = ${converted} ${levels.map(level => `d${level.variable}`).join(' ')}`,
+      `Substitute and multiply by |J| = ${jacobian}`, method);
+    return { integrand: converted, change: { formulas, coordinates } };
+  }
+
+  // Finish with nested quadrature once an inner integral has no closed form
+  static numeric(
+    expr: string,
+    integrand: string,
+    levels: IntegrationLevel[],
+    current: string,
+    from: number,
+    steps: CalculusStep[],
+    push: Push
+  ): CalculusSolution {
+    const remaining = levels.slice(from);
+    const outer = remaining.flatMap(level => [level.lower, level.upper]);
+    if (outer.some(bound => isInfinite(bound)) || freeVariables(current).some(name => !remaining.some(level => level.variable === name))) {
+      throw new Error(`no antiderivative of ${current} with respect to ${remaining[0].variable} could be found`);
+    }
+    const { value, errorEstimate } = iteratedSimpson(compileNumeric(current), remaining.map(level => ({
+      variable: level.variable,
+      lower: compileNumeric(level.lower),
+      upper: compileNumeric(level.upper)
+    })));
+    if (!Number.isFinite(value)) {
+      throw new Error('the integral could not be evaluated numerically');
+    }
+    push(`${this.notation(current, remaining)} ≈ ${formatDecimal(value)}`,
+      `No closed-form antiderivative with respect to ${remaining[0].variable} was found, so the remaining integrals are evaluated with nested adaptive Simpson's rule, estimated error ${errorEstimate.toExponential(2)}`,
+      'Numerical Integration');
+    return {
+      original: expr,
+      result: `≈ ${formatDecimal(value)}`,
+      steps,
+      type: 'Multiple Integral',
+      method: [...new Set(steps.flatMap(step => (step.method ? [step.method] : [])))].join(' / '),
+      verified: SolutionVerifier.unverified('The value is itself a numerical estimate')
+    };
+  }
+
+  // ∫_a^b ∫_c^d f dy dx, outermost integral first
+  static notation(integrand: string, levels: IntegrationLevel[]): string {
+    const signs = [...levels].reverse().map(({ lower, upper }) => `∫_${this.group(displayValue(lower))}^${this.group(displayValue(upper))}`);
+    return `${signs.join(' ')} ${integrand} ${levels.map(level => `d${level.variable}`).join(' ')}`;
+  }
+
+  static group(text: string): string {
+    return /^-?[\w.]+$/.test(text) ? text : `(${text})`;
+  }
+}
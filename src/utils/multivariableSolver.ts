@@ -0,0 +1,180 @@
+import type { CalculusSolution, CalculusStep } from './calculusEngine';
+import { cas, freeVariables, superscript } from './expressionUtils';
+import { ExpressionParser, ParseError, type ExpressionNode } from './expressionParser';
+import { SolutionVerifier } from './solutionVerifier';
+
+export interface PartialDerivativeSpec {
+  expression: string;
+  // Variables in the order the differentiations are applied
+  variables: string[];
+}
+
+export class MultivariableSolver {
+  // partial(f, x, y), ∂/∂y(f), ∂²/∂x∂y(f), ∂²f/∂x² and ∂²f/∂x∂y, f = ..., already parsed into a partial node
+  static partialSpec(node: ExpressionNode): PartialDerivativeSpec {
+    const head = ExpressionParser.head(node);
+    if (head.kind !== 'partial') {
+      throw new ParseError('Expected ∂/∂x(f), ∂²/∂x∂y(f) or partial(f, x)', head.position);
+    }
+
+    const body = ExpressionParser.operand(ExpressionParser.clauses(node), head.body, head.dependent, head.position);
+    return { expression: ExpressionParser.print(body), variables: head.variables };
+  }
+
+  static solvePartial(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    const { expression, variables } = this.partialSpec(node);
+    const allVariables = [...new Set([...freeVariables(expression), ...variables])].sort();
+    const notation = this.notation(variables);
+    const mixed = new Set(variables).size > 1;
+
+    const steps: CalculusStep[] = [
+      {
+        step: '1',
+        expression: `${notation}(${expression})`,
+        explanation: variables.length === 1
+          ? `Find the partial derivative with respect to ${variables[0]}`
+          : mixed
+            ? `Find the mixed partial derivative by differentiating with respect to ${variables.join(', then ')}`
+            : `Find the order-${variables.length} partial derivative by differentiating with respect to ${variables[0]} ${variables.length} times`
+      }
+    ];
+
+    let current = expression;
+    for (const variable of variables) {
+      const next = cas(`d(${current},${variable})`);
+      steps.push({
+        step: String(steps.length + 1),
+        expression: `∂/∂${variable}(${current}) = ${next}`,
+        explanation: this.heldConstantNote(variable, allVariables)
+      });
+      current = next;
+    }
+
+    if (mixed) {
+      const reversed = [...variables].reverse().reduce((value, variable) => cas(`d(${value},${variable})`), expression);
+      const agree = cas(`simplify((${reversed})-(${current}))`) === '0';
+      steps.push({
+        step: String(steps.length + 1),
+        expression: `${this.notation([...variables].reverse())}(${expression}) = ${reversed}`,
+        explanation: agree
+          ? "Check: differentiating in the opposite order gives the same result, as Clairaut's theorem predicts"
+          : "Differentiating in the opposite order gives a different result; the mixed partials are not continuous here"
+      });
+    }
+
+    steps.push({
+      step: String(steps.length + 1),
+      expression: `${notation} = ${current}`,
+      explanation: 'Final partial derivative'
+    });
+
+    return {
+      original: expr,
+      result: current,
+      steps,
+      type: 'Partial Derivative',
+      method: mixed ? 'Mixed Partial Differentiation' : 'Partial Differentiation',
+      verified: SolutionVerifier.derivative(expression, variables, current)
+    };
+  }
+
+  // gradient(f, [x, y, z]) or grad(f), optionally evaluated at a point: gradient(f, [x, y], [1, 2])
+  static solveGradient(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    if (node.kind !== 'call' || (node.name !== 'gradient' && node.name !== 'grad') || node.args.length === 0 || node.args.length > 3) {
+      throw new ParseError('Expected gradient(f, [x, y, z])', node.position);
+    }
+
+    const [field, variableList, pointList] = node.args;
+    const expression = ExpressionParser.print(field);
+    const variables = variableList ? this.variableList(variableList) : ExpressionParser.variables(field);
+    if (variables.length === 0) {
+      throw new Error('The gradient needs at least one variable');
+    }
+
+    const steps: CalculusStep[] = [
+      {
+        step: '1',
+        expression: `∇f = [${variables.map(variable => `∂f/∂${variable}`).join(', ')}], f = ${expression}`,
+        explanation: `The gradient collects the partial derivatives with respect to ${variables.join(', ')}`
+      }
+    ];
+
+    const components = variables.map(variable => {
+      const component = cas(`d(${expression},${variable})`);
+      steps.push({
+        step: String(steps.length + 1),
+        expression: `∂f/∂${variable} = ${component}`,
+        explanation: this.heldConstantNote(variable, variables)
+      });
+      return component;
+    });
+
+    let vector = components;
+    let point: string[] | undefined;
+    steps.push({
+      step: String(steps.length + 1),
+      expression: `∇f = [${components.join(', ')}]`,
+      explanation: 'Assemble the gradient vector'
+    });
+
+    if (pointList) {
+      point = this.items(pointList).map(coordinate => ExpressionParser.print(coordinate));
+      if (point.length !== variables.length) {
+        throw new Error(`Expected a point with ${variables.length} coordinates`);
+      }
+      const coordinates = point;
+      vector = components.map(component =>
+        variables.reduce((value, variable, i) => cas(`subst((${coordinates[i]}),${variable},${value})`), component)
+      );
+      steps.push({
+        step: String(steps.length + 1),
+        expression: `∇f(${point.join(', ')}) = [${vector.join(', ')}]`,
+        explanation: `Evaluate each component at (${variables.join(', ')}) = (${point.join(', ')})`
+      });
+    }
+
+    return {
+      original: expr,
+      result: `[${vector.join(', ')}]`,
+      steps,
+      type: 'Gradient',
+      method: 'Partial Differentiation',
+      vector,
+      verified: SolutionVerifier.gradient(expression, variables, vector, point)
+    };
+  }
+
+  static heldConstantNote(variable: string, variables: string[]): string {
+    const held = variables.filter(name => name !== variable);
+    return held.length
+      ? `Differentiate with respect to ${variable}, holding ${held.join(', ')} constant`
+      : `Differentiate with respect to ${variable}; no other variables appear`;
+  }
+
+  // Leibniz notation for a sequence of partial derivatives, e.g. [y, x] → ∂²f/∂x∂y
+  static notation(variables: string[]): string {
+    const order = variables.length;
+    const groups: Array<{ variable: string; count: number }> = [];
+    for (const variable of [...variables].reverse()) {
+      const last = groups[groups.length - 1];
+      if (last && last.variable === variable) last.count++;
+      else groups.push({ variable, count: 1 });
+    }
+
+    return `∂${superscript(order)}f/${groups.map(({ variable, count }) => `∂${variable}${superscript(count)}`).join('')}`;
+  }
+
+  // [x, y, z], (x, y, z) or a single x
+  static items(node: ExpressionNode): ExpressionNode[] {
+    return node.kind === 'list' ? node.items : [node];
+  }
+
+  static variableList(node: ExpressionNode): string[] {
+    return this.items(node).map(item => {
+      if (item.kind !== 'symbol') {
+        throw new ParseError('Expected a list of variables such as [x, y, z]', item.position);
+      }
+      return item.name;
+    });
+  }
+}
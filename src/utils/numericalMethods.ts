@@ -0,0 +1,407 @@
+export interface NumericIntegral {
+  value: number;
+  errorEstimate: number;
+  evaluations: number;
+}
+
+// Map an interval with infinite endpoints onto a finite one so standard quadrature applies
+function finiteInterval(f: (x: number) => number, a: number, b: number) {
+  if (Number.isFinite(a) && Number.isFinite(b)) {
+    return { g: f, lower: a, upper: b };
+  }
+  if (Number.isFinite(a)) {
+    // x = a + t / (1 - t), t ∈ [0, 1)
+    return {
+      g: (t: number) => f(a + t / (1 - t)) / ((1 - t) * (1 - t)),
+      lower: 0,
+      upper: 1,
+    };
+  }
+  if (Number.isFinite(b)) {
+    // x = b - (1 - t) / t, t ∈ (0, 1]
+    return {
+      g: (t: number) => f(b - (1 - t) / t) / (t * t),
+      lower: 0,
+      upper: 1,
+    };
+  }
+  // x = t / (1 - t²), t ∈ (-1, 1)
+  return {
+    g: (t: number) => f(t / (1 - t * t)) * (1 + t * t) / ((1 - t * t) * (1 - t * t)),
+    lower: -1,
+    upper: 1,
+  };
+}
+
+// Adaptive Simpson's rule; open-ended transforms never sample the endpoints themselves
+export function adaptiveSimpson(
+  f: (x: number) => number,
+  a: number,
+  b: number,
+  tolerance = 1e-10,
+  maxDepth = 16
+): NumericIntegral {
+  if (a === b) return { value: 0, errorEstimate: 0, evaluations: 0 };
+  if (a > b) {
+    const flipped = adaptiveSimpson(f, b, a, tolerance, maxDepth);
+    return { ...flipped, value: -flipped.value };
+  }
+
+  const { g, lower, upper } = finiteInterval(f, a, b);
+  let evaluations = 0;
+  const sample = (x: number) => {
+    evaluations++;
+    // Nudge off endpoints where the transformed integrand is singular
+    const y = g(x);
+    if (Number.isFinite(y)) return y;
+    const nudged = g(x + (x <= lower ? 1e-12 : -1e-12));
+    return Number.isFinite(nudged) ? nudged : NaN;
+  };
+
+  let errorEstimate = 0;
+  const recurse = (l: number, r: number, fl: number, fm: number, fr: number, whole: number, tol: number, depth: number): number => {
+    const m = (l + r) / 2;
+    const lm = (l + m) / 2;
+    const rm = (m + r) / 2;
+    const flm = sample(lm);
+    const frm = sample(rm);
+    const left = (m - l) / 6 * (fl + 4 * flm + fm);
+    const right = (r - m) / 6 * (fm + 4 * frm + fr);
+    const delta = left + right - whole;
+
+    if (depth <= 0 || Math.abs(delta) <= 15 * tol) {
+      errorEstimate += Math.abs(delta) / 15;
+      return left + right + delta / 15;
+    }
+    return recurse(l, m, fl, flm, fm, left, tol / 2, depth - 1) + recurse(m, r, fm, frm, fr, right, tol / 2, depth - 1);
+  };
+
+  const fa = sample(lower);
+  const fb = sample(upper);
+  const fm = sample((lower + upper) / 2);
+  const whole = (upper - lower) / 6 * (fa + 4 * fm + fb);
+  const value = recurse(lower, upper, fa, fm, fb, whole, tolerance, maxDepth);
+
+  return { value, errorEstimate, evaluations };
+}
+
+// A composite rule with its sample points, each with the weight it contributes
+export interface CompositeRule extends NumericIntegral {
+  nodes: Array<{ x: number; y: number; weight: number }>;
+}
+
+function compositeRule(f: (x: number) => number, a: number, b: number, n: number, weight: (i: number, h: number) => number) {
+  const h = (b - a) / n;
+  const nodes = Array.from({ length: n + 1 }, (_, i) => {
+    const x = a + i * h;
+    return { x, y: f(x), weight: weight(i, h) };
+  });
+  return { value: nodes.reduce((sum, node) => sum + node.weight * node.y, 0), nodes };
+}
+
+// Composite trapezoidal rule on n subintervals; the error is estimated by Richardson extrapolation against 2n
+export function trapezoidRule(f: (x: number) => number, a: number, b: number, n: number): CompositeRule {
+  const weight = (count: number) => (i: number, h: number) => (i === 0 || i === count ? h / 2 : h);
+  const { value, nodes } = compositeRule(f, a, b, n, weight(n));
+  const finer = compositeRule(f, a, b, 2 * n, weight(2 * n)).value;
+  return { value, errorEstimate: Math.abs(finer - value) * 4 / 3, evaluations: 3 * n + 2, nodes };
+}
+
+// Composite Simpson's rule on an even number n of subintervals, with the error estimated against 2n
+export function simpsonRule(f: (x: number) => number, a: number, b: number, n: number): CompositeRule {
+  const weight = (count: number) => (i: number, h: number) => (i === 0 || i === count ? h / 3 : i % 2 ? 4 * h / 3 : 2 * h / 3);
+  const { value, nodes } = compositeRule(f, a, b, n, weight(n));
+  const finer = compositeRule(f, a, b, 2 * n, weight(2 * n)).value;
+  return { value, errorEstimate: Math.abs(finer - value) * 16 / 15, evaluations: 3 * n + 2, nodes };
+}
+
+// Nodes of the 15-point Kronrod rule on [-1, 1] from the outside in; the odd-indexed ones and 0 are the 7-point Gauss nodes
+const KRONROD_NODES = [
+  0.9914553711208126, 0.9491079123427585, 0.8648644233597691, 0.7415311855993945,
+  0.5860872354676911, 0.4058451513773972, 0.20778495500789848, 0,
+];
+const KRONROD_WEIGHTS = [
+  0.022935322010529224, 0.06309209262997856, 0.10479001032225019, 0.14065325971552592,
+  0.1690047266392679, 0.19035057806478542, 0.20443294007529889, 0.20948214108472782,
+];
+const GAUSS_WEIGHTS = [0.1294849661688697, 0.27970539148927664, 0.3818300505051189, 0.4179591836734694];
+
+// The state of adaptive Gauss–Kronrod quadrature after each subdivision
+export interface QuadratureIteration {
+  intervals: number;
+  value: number;
+  errorEstimate: number;
+}
+
+export interface AdaptiveIntegral extends NumericIntegral {
+  history: QuadratureIteration[];
+}
+
+// 15-point Kronrod value on [l, r], with its distance from the embedded 7-point Gauss value as the error
+function kronrodPanel(g: (x: number) => number, l: number, r: number) {
+  const center = (l + r) / 2;
+  const half = (r - l) / 2;
+  const middle = g(center);
+  let kronrod = KRONROD_WEIGHTS[7] * middle;
+  let gauss = GAUSS_WEIGHTS[3] * middle;
+  for (let i = 0; i < 7; i++) {
+    const dx = half * KRONROD_NODES[i];
+    const pair = g(center - dx) + g(center + dx);
+    kronrod += KRONROD_WEIGHTS[i] * pair;
+    if (i % 2 === 1) gauss += GAUSS_WEIGHTS[(i - 1) / 2] * pair;
+  }
+  return { lower: l, upper: r, value: half * kronrod, error: Math.abs(half * (kronrod - gauss)) };
+}
+
+// Globally adaptive Gauss–Kronrod (G7–K15) quadrature: repeatedly halve the panel with the largest error
+export function gaussKronrod(
+  f: (x: number) => number,
+  a: number,
+  b: number,
+  tolerance = 1e-10,
+  maxIntervals = 200
+): AdaptiveIntegral {
+  if (a === b) return { value: 0, errorEstimate: 0, evaluations: 0, history: [] };
+  if (a > b) {
+    const flipped = gaussKronrod(f, b, a, tolerance, maxIntervals);
+    return { ...flipped, value: -flipped.value, history: flipped.history.map(row => ({ ...row, value: -row.value })) };
+  }
+
+  // Kronrod nodes never touch the ends, so open-ended transforms are safe here
+  const { g, lower, upper } = finiteInterval(f, a, b);
+  const panels = [kronrodPanel(g, lower, upper)];
+  const history: QuadratureIteration[] = [];
+  const total = () => panels.reduce((sum, panel) => sum + panel.value, 0);
+  const error = () => panels.reduce((sum, panel) => sum + panel.error, 0);
+  for (;;) {
+    const value = total();
+    const errorEstimate = error();
+    history.push({ intervals: panels.length, value, errorEstimate });
+    if (!Number.isFinite(value) || errorEstimate <= Math.max(tolerance, 1e-14 * Math.abs(value)) || panels.length >= maxIntervals) {
+      return { value, errorEstimate, evaluations: 15 * (2 * panels.length - 1), history };
+    }
+    const worst = panels.reduce((largest, panel, i) => (panel.error > panels[largest].error ? i : largest), 0);
+    const { lower: l, upper: r } = panels[worst];
+    const m = (l + r) / 2;
+    panels.splice(worst, 1, kronrodPanel(g, l, m), kronrodPanel(g, m, r));
+  }
+}
+
+// A point of a numerical ODE solution, with the slopes sampled on the step that reached it
+export interface OdePoint {
+  x: number;
+  y: number;
+  slopes: number[];
+}
+
+// Euler's method for y' = f(x, y) with n steps of size h
+export function eulerMethod(f: (x: number, y: number) => number, x0: number, y0: number, h: number, n: number): OdePoint[] {
+  const points: OdePoint[] = [{ x: x0, y: y0, slopes: [] }];
+  for (let i = 0; i < n; i++) {
+    const { x, y } = points[i];
+    const slope = f(x, y);
+    points.push({ x: x0 + (i + 1) * h, y: y + h * slope, slopes: [slope] });
+  }
+  return points;
+}
+
+// The classical fourth-order Runge–Kutta method for y' = f(x, y) with n steps of size h
+export function rungeKutta4(f: (x: number, y: number) => number, x0: number, y0: number, h: number, n: number): OdePoint[] {
+  const points: OdePoint[] = [{ x: x0, y: y0, slopes: [] }];
+  for (let i = 0; i < n; i++) {
+    const { x, y } = points[i];
+    const k1 = f(x, y);
+    const k2 = f(x + h / 2, y + h * k1 / 2);
+    const k3 = f(x + h / 2, y + h * k2 / 2);
+    const k4 = f(x + h, y + h * k3);
+    points.push({ x: x0 + (i + 1) * h, y: y + h * (k1 + 2 * k2 + 2 * k3 + k4) / 6, slopes: [k1, k2, k3, k4] });
+  }
+  return points;
+}
+
+export interface IteratedLevel {
+  variable: string;
+  // Bounds may depend on the variables of the levels outside this one
+  lower: (point: Record<string, number>) => number;
+  upper: (point: Record<string, number>) => number;
+}
+
+// Nested adaptive Simpson for an iterated integral, levels listed innermost first
+export function iteratedSimpson(
+  f: (point: Record<string, number>) => number,
+  levels: IteratedLevel[],
+  tolerance = 1e-8
+): NumericIntegral {
+  let evaluations = 0;
+  // The error of an outer level adds the largest inner error times the width of its interval
+  const integrate = (depth: number, point: Record<string, number>): NumericIntegral => {
+    const { variable, lower, upper } = levels[depth];
+    const [a, b] = [lower(point), upper(point)];
+    let innerError = 0;
+    // Outer levels are shallower, since every sample there is a whole inner integral
+    const result = adaptiveSimpson(
+      t => {
+        const inner = { ...point, [variable]: t };
+        if (depth === 0) {
+          evaluations++;
+          return f(inner);
+        }
+        const { value, errorEstimate } = integrate(depth - 1, inner);
+        innerError = Math.max(innerError, errorEstimate);
+        return value;
+      },
+      a,
+      b,
+      tolerance,
+      depth === 0 ? 16 : 10
+    );
+    return { ...result, errorEstimate: result.errorEstimate + innerError * Math.abs(b - a) };
+  };
+  const { value, errorEstimate } = integrate(levels.length - 1, {});
+  return { value, errorEstimate, evaluations };
+}
+
+export interface NumericRoot {
+  value: number;
+  iterations: number;
+}
+
+// One row of a root-finding table: the new iterate, f there, and how far it moved
+export interface RootIteration {
+  x: number;
+  value: number;
+  change: number;
+  // The bracket halved by bisection, or the slope used by Newton's and the secant method
+  lower?: number;
+  upper?: number;
+  slope?: number;
+}
+
+export interface IterativeRoot extends NumericRoot {
+  converged: boolean;
+  history: RootIteration[];
+}
+
+export interface ComplexRoot {
+  re: number;
+  im: number;
+}
+
+// Subintervals of [a, b] on which f changes sign, found by uniform sampling
+export function bracketRoots(f: (x: number) => number, a: number, b: number, samples = 2000): Array<[number, number]> {
+  const brackets: Array<[number, number]> = [];
+  const h = (b - a) / samples;
+  let x0 = a;
+  let y0 = f(x0);
+  for (let i = 1; i <= samples; i++) {
+    const x1 = a + i * h;
+    const y1 = f(x1);
+    if (y0 === 0) {
+      brackets.push([x0, x0]);
+    } else if (Number.isFinite(y0) && Number.isFinite(y1) && y1 !== 0 && Math.sign(y0) !== Math.sign(y1)) {
+      brackets.push([x0, x1]);
+    }
+    x0 = x1;
+    y0 = y1;
+  }
+  if (y0 === 0) brackets.push([x0, x0]);
+  return brackets;
+}
+
+// Bisection on an interval whose endpoints give values of opposite sign
+export function bisection(f: (x: number) => number, a: number, b: number, tolerance = 1e-13, maxIterations = 200): IterativeRoot {
+  let fa = f(a);
+  let iterations = 0;
+  const history: RootIteration[] = [];
+  while (iterations < maxIterations && Math.abs(b - a) > tolerance * Math.max(1, Math.abs(a))) {
+    iterations++;
+    const m = (a + b) / 2;
+    const fm = f(m);
+    history.push({ x: m, value: fm, change: (b - a) / 2, lower: a, upper: b });
+    if (fm === 0) return { value: m, iterations, converged: true, history };
+    if (Math.sign(fm) === Math.sign(fa)) {
+      a = m;
+      fa = fm;
+    } else {
+      b = m;
+    }
+  }
+  return { value: (a + b) / 2, iterations, converged: iterations < maxIterations, history };
+}
+
+// Newton's method from one starting guess; stops early where the derivative vanishes or the iterates blow up
+export function newtonMethod(
+  f: (x: number) => number,
+  df: (x: number) => number,
+  x0: number,
+  tolerance = 1e-12,
+  maxIterations = 50
+): IterativeRoot {
+  let x = x0;
+  const history: RootIteration[] = [{ x, value: f(x), change: NaN }];
+  for (let iterations = 1; iterations <= maxIterations; iterations++) {
+    const { value } = history[history.length - 1];
+    const slope = df(x);
+    if (value === 0) return { value: x, iterations: iterations - 1, converged: true, history };
+    if (!Number.isFinite(value) || !Number.isFinite(slope) || slope === 0) break;
+    const next = x - value / slope;
+    history.push({ x: next, value: f(next), change: Math.abs(next - x), slope });
+    x = next;
+    if (Math.abs(history[history.length - 1].change) <= tolerance * Math.max(1, Math.abs(x))) {
+      return { value: x, iterations, converged: Number.isFinite(history[history.length - 1].value), history };
+    }
+  }
+  return { value: x, iterations: history.length - 1, converged: false, history };
+}
+
+// The secant method from two starting guesses, replacing the derivative by the slope through the last two iterates
+export function secantMethod(f: (x: number) => number, x0: number, x1: number, tolerance = 1e-12, maxIterations = 50): IterativeRoot {
+  const history: RootIteration[] = [{ x: x0, value: f(x0), change: NaN }, { x: x1, value: f(x1), change: Math.abs(x1 - x0) }];
+  for (let iterations = 1; iterations <= maxIterations; iterations++) {
+    const [previous, current] = history.slice(-2);
+    if (current.value === 0) return { value: current.x, iterations: iterations - 1, converged: true, history };
+    const slope = (current.value - previous.value) / (current.x - previous.x);
+    if (!Number.isFinite(slope) || slope === 0) break;
+    const next = current.x - current.value / slope;
+    history.push({ x: next, value: f(next), change: Math.abs(next - current.x), slope });
+    if (Math.abs(next - current.x) <= tolerance * Math.max(1, Math.abs(next))) {
+      return { value: next, iterations, converged: Number.isFinite(history[history.length - 1].value), history };
+    }
+  }
+  return { value: history[history.length - 1].x, iterations: history.length - 2, converged: false, history };
+}
+
+// All complex roots of a polynomial by the Durand–Kerner iteration; coefficients run from the constant term up
+export function polynomialRoots(coefficients: number[], tolerance = 1e-14, maxIterations = 1000): ComplexRoot[] {
+  const degree = coefficients.length - 1;
+  const leading = coefficients[degree];
+  const monic = coefficients.map(c => c / leading);
+  const multiply = (p: ComplexRoot, q: ComplexRoot): ComplexRoot => ({ re: p.re * q.re - p.im * q.im, im: p.re * q.im + p.im * q.re });
+  const divide = (p: ComplexRoot, q: ComplexRoot): ComplexRoot => {
+    const norm = q.re * q.re + q.im * q.im;
+    return { re: (p.re * q.re + p.im * q.im) / norm, im: (p.im * q.re - p.re * q.im) / norm };
+  };
+  const evaluateAt = (z: ComplexRoot) => monic.reduceRight<ComplexRoot>((sum, c) => {
+    const product = multiply(sum, z);
+    return { re: product.re + c, im: product.im };
+  }, { re: 0, im: 0 });
+
+  // Start on a circle enclosing every root, at angles that avoid symmetric stalls
+  const radius = 1 + Math.max(...monic.slice(0, degree).map(Math.abs));
+  let roots = Array.from({ length: degree }, (_, k) => {
+    const angle = (2 * Math.PI * k) / degree + 0.4;
+    return { re: radius * Math.cos(angle), im: radius * Math.sin(angle) };
+  });
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let change = 0;
+    roots = roots.map((z, i) => {
+      const denominator = roots.reduce((product, w, j) => (i === j ? product : multiply(product, { re: z.re - w.re, im: z.im - w.im })), { re: 1, im: 0 });
+      const delta = divide(evaluateAt(z), denominator);
+      change = Math.max(change, Math.hypot(delta.re, delta.im));
+      return { re: z.re - delta.re, im: z.im - delta.im };
+    });
+    if (change <= tolerance * radius) break;
+  }
+  return roots;
+}
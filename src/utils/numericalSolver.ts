@@ -0,0 +1,403 @@
+import type { CalculusSolution } from './calculusEngine';
+import { OdeSolver, type OdeSpec } from './odeSolver';
+import { recordSteps, type Push } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { cas, compileNumeric, displayValue, evaluateNumeric, formatDecimal, freeVariables, isFreeOf, isInfinite, numericFunction, subscript } from './expressionUtils';
+import { ExpressionParser, ParseError, type CallNode, type ExpressionNode } from './expressionParser';
+import {
+  bisection,
+  eulerMethod,
+  gaussKronrod,
+  newtonMethod,
+  rungeKutta4,
+  secantMethod,
+  simpsonRule,
+  trapezoidRule,
+  type CompositeRule,
+  type IterativeRoot,
+} from './numericalMethods';
+
+export type NumericalKind = 'quadrature' | 'root' | 'ode';
+
+export interface QuadratureSpec {
+  command: string;
+  integrand: string;
+  variable: string;
+  lower: string;
+  upper: string;
+  // Subintervals for the composite rules
+  subintervals: number;
+}
+
+export interface RootSpec {
+  command: string;
+  // Solve expression = 0
+  expression: string;
+  variable: string;
+  guesses: string[];
+}
+
+export interface StepSpec {
+  command: string;
+  // y' = slope(x, y)
+  slope: string;
+  dependent: string;
+  independent: string;
+  start: string;
+  value: string;
+  end: string;
+  steps: number;
+}
+
+interface NumericalCommand {
+  kind: NumericalKind;
+  method: string;
+  // How the explanations refer to the method
+  phrase: string;
+  usage: string;
+  // Numbers after the function (and optional variable): the bounds, the starting guesses, or the end point
+  inputs: number;
+  // Whether one more number, the subintervals or steps, may follow
+  count?: boolean;
+}
+
+const COMMANDS: Record<string, NumericalCommand> = {
+  trapezoid: { kind: 'quadrature', method: 'Trapezoidal Rule', phrase: 'the trapezoidal rule', usage: 'trapezoid(f, x, a, b, n)', inputs: 2, count: true },
+  simpson: { kind: 'quadrature', method: "Simpson's Rule", phrase: "Simpson's rule", usage: 'simpson(f, x, a, b, n)', inputs: 2, count: true },
+  gauss_kronrod: { kind: 'quadrature', method: 'Gauss–Kronrod Quadrature', phrase: 'adaptive Gauss–Kronrod quadrature', usage: 'gauss_kronrod(f, x, a, b)', inputs: 2 },
+  bisection: { kind: 'root', method: 'Bisection Method', phrase: 'the bisection method', usage: 'bisection(f, x, a, b)', inputs: 2 },
+  newton: { kind: 'root', method: "Newton's Method", phrase: "Newton's method", usage: 'newton(f, x, x0)', inputs: 1 },
+  secant: { kind: 'root', method: 'Secant Method', phrase: 'the secant method', usage: 'secant(f, x, x0, x1)', inputs: 2 },
+  euler: { kind: 'ode', method: "Euler's Method", phrase: "Euler's method", usage: "euler(y' = f(x, y), y(x0) = y0, x1, n)", inputs: 1, count: true },
+  rk4: { kind: 'ode', method: 'Runge–Kutta Method (RK4)', phrase: 'the fourth-order Runge–Kutta method', usage: "rk4(y' = f(x, y), y(x0) = y0, x1, n)", inputs: 1, count: true }
+};
+const DEFAULT_SUBINTERVALS = 10;
+const DEFAULT_STEPS = 10;
+// Digits shown for iterates and results
+const DIGITS = 10;
+// Longer tables keep their first and last rows only
+const MAX_ROWS = 24;
+
+export class NumericalSolver {
+  static isNumerical(node: ExpressionNode): boolean {
+    return node.kind === 'call' && node.name in COMMANDS;
+  }
+
+  static solve(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    if (node.kind !== 'call' || !(node.name in COMMANDS)) {
+      throw new ParseError(`Expected one of ${Object.values(COMMANDS).map(command => command.usage).join(', ')}`, node.position);
+    }
+    const { kind } = COMMANDS[node.name];
+    if (kind === 'ode') return this.step(expr, this.stepSpec(node));
+    if (kind === 'root') return this.root(expr, this.rootSpec(node));
+    return this.quadrature(expr, this.quadratureSpec(node));
+  }
+
+  // The function, then optionally its variable, then the numbers the command takes
+  static arguments(node: CallNode): { body: ExpressionNode; expression: string; variable: string; numbers: string[] } {
+    const { usage, inputs, count } = COMMANDS[node.name];
+    const [body, ...rest] = node.args;
+    if (!body) throw new ParseError(`Expected ${usage}`, node.position);
+    const expression = body.kind === 'equation'
+      ? cas(`(${ExpressionParser.print(body.left)})-(${ExpressionParser.print(body.right)})`)
+      : ExpressionParser.print(body);
+    const variables = freeVariables(expression);
+    const named = rest[0]?.kind === 'symbol' && variables.includes(rest[0].name) ? rest[0].name : undefined;
+    const numbers = (named ? rest.slice(1) : rest).map(arg => ExpressionParser.print(arg));
+    if (numbers.length < inputs || numbers.length > inputs + (count ? 1 : 0)) {
+      throw new ParseError(`Expected ${usage}`, node.position);
+    }
+    const variable = named ?? (variables.length === 1 ? variables[0] : 'x');
+    const others = variables.filter(name => name !== variable);
+    if (others.length) {
+      throw new Error(`the function may only depend on ${variable}, but it also mentions ${others.join(', ')}`);
+    }
+    if (numbers.some(number => freeVariables(number).length || Number.isNaN(evaluateNumeric(number)))) {
+      throw new Error(`the numbers in ${usage} must be numeric`);
+    }
+    return { body, expression, variable, numbers };
+  }
+
+  static count(text: string | undefined, fallback: number, what: string): number {
+    if (text === undefined) return fallback;
+    const n = evaluateNumeric(text);
+    if (!Number.isInteger(n) || n < 1) {
+      throw new Error(`the number of ${what} must be a positive integer, not ${text}`);
+    }
+    return n;
+  }
+
+  static quadratureSpec(node: CallNode): QuadratureSpec {
+    const { expression, variable, numbers } = this.arguments(node);
+    const [lower, upper, n] = numbers;
+    const subintervals = this.count(n, DEFAULT_SUBINTERVALS, 'subintervals');
+    if (node.name !== 'gauss_kronrod' && [lower, upper].some(bound => !Number.isFinite(evaluateNumeric(bound)))) {
+      throw new Error(`${COMMANDS[node.name].phrase} needs finite bounds; use gauss_kronrod for improper integrals`);
+    }
+    if (node.name === 'simpson' && subintervals % 2) {
+      throw new Error(`Simpson's rule needs an even number of subintervals, not ${subintervals}`);
+    }
+    return { command: node.name, integrand: expression, variable, lower, upper, subintervals };
+  }
+
+  static rootSpec(node: CallNode): RootSpec {
+    const { expression, variable, numbers } = this.arguments(node);
+    if (numbers.some(number => !Number.isFinite(evaluateNumeric(number)))) {
+      throw new Error('the starting values must be finite');
+    }
+    return { command: node.name, expression, variable, guesses: numbers };
+  }
+
+  // euler(y' = f(x, y), y(x0) = y0, x1, n), read with the differential equation parser
+  static stepSpec(node: CallNode): StepSpec {
+    const { usage } = COMMANDS[node.name];
+    const [equation, condition, end, count, ...extra] = node.args;
+    if (!equation || !condition || !end || extra.length) {
+      throw new ParseError(`Expected ${usage}`, node.position);
+    }
+    const spec = OdeSolver.spec({
+      kind: 'sequence',
+      clauses: [{ separator: null, node: equation }, { separator: ',', node: condition }],
+      position: node.position
+    });
+    const { dependent, independent, conditions } = spec;
+    if (spec.order !== 1 || conditions.length !== 1) {
+      throw new Error(`${COMMANDS[node.name].phrase} needs a first-order equation and the value of ${dependent} at one point`);
+    }
+    const slope = this.slope(spec);
+    if (slope === null) {
+      throw new Error(`the equation must be linear in ${dependent}' so it can be written as ${dependent}' = f(${independent}, ${dependent})`);
+    }
+
+    const finish = ExpressionParser.print(end);
+    if (freeVariables(finish).length || !Number.isFinite(evaluateNumeric(finish))) {
+      throw new Error(`the end point of ${usage} must be a number`);
+    }
+    const { at, value } = conditions[0];
+    if (evaluateNumeric(finish) === evaluateNumeric(at)) {
+      throw new Error(`the end point must differ from ${independent} = ${at}`);
+    }
+    const steps = this.count(count ? ExpressionParser.print(count) : undefined, DEFAULT_STEPS, 'steps');
+    return { command: node.name, slope, dependent, independent, start: at, value, end: finish, steps };
+  }
+
+  // Trapezoidal and Simpson's rules list their weighted samples; Gauss–Kronrod lists each subdivision
+  static quadrature(expr: string, spec: QuadratureSpec, reason?: string): CalculusSolution {
+    const { command, integrand, variable: x, lower, upper, subintervals: n } = spec;
+    const { method, phrase } = COMMANDS[command];
+    const { steps, push, methods } = recordSteps();
+    push(`∫_${displayValue(lower)}^${displayValue(upper)} ${integrand} d${x}`, reason ?? `Approximate the integral with ${phrase}`);
+    const f = numericFunction(integrand, x);
+    const [a, b] = [lower, upper].map(bound => evaluateNumeric(bound));
+
+    let value: number;
+    let errorEstimate: number;
+    let check: string;
+    if (command === 'gauss_kronrod') {
+      const integral = gaussKronrod(f, a, b);
+      value = integral.value;
+      // K₁₅ and G₇ can agree to the last bit, but rounding error remains
+      errorEstimate = Math.max(integral.errorEstimate, Number.EPSILON * Math.abs(value));
+      if (isInfinite(lower) || isInfinite(upper)) {
+        push(`${x} = ${Number.isFinite(a) ? `${displayValue(lower)} + t/(1 - t)` : Number.isFinite(b) ? `${displayValue(upper)} - (1 - t)/t` : 't/(1 - t^2)'}`,
+          'Map the infinite interval onto a finite one in t before applying the rule', method);
+      }
+      this.table(integral.history.map(({ intervals, value: estimate, errorEstimate: error }, i) => [
+        `${intervals} panel${intervals === 1 ? '' : 's'}: Q ≈ ${formatDecimal(estimate, DIGITS)}, error ≈ ${error.toExponential(2)}`,
+        i === 0
+          ? 'Apply the 15-point Kronrod rule to the whole interval; its difference from the embedded 7-point Gauss rule estimates the error'
+          : 'Halve the panel with the largest error and apply both rules to each half'
+      ]), push, method);
+      check = `the sum over all panels of |K₁₅ − G₇|, after ${integral.evaluations} function evaluations`;
+    } else {
+      const rule: CompositeRule = command === 'simpson' ? simpsonRule(f, a, b, n) : trapezoidRule(f, a, b, n);
+      ({ value, errorEstimate } = rule);
+      const h = (b - a) / n;
+      const [unit, pattern, symbol, factor] = command === 'simpson'
+        ? ['h/3', 'f(x₀) + 4f(x₁) + 2f(x₂) + … + 4f(xₙ₋₁) + f(xₙ)', 'S', '16/15']
+        : ['h/2', 'f(x₀) + 2f(x₁) + … + 2f(xₙ₋₁) + f(xₙ)', 'T', '4/3'];
+      push(`h = (${displayValue(upper)} - ${displayValue(lower)})/${n} = ${formatDecimal(h, DIGITS)}`, `Split [${displayValue(lower)}, ${displayValue(upper)}] into ${n} subintervals of width h`, method);
+      push(`${symbol}${subscript(n)} = ${unit}·[${pattern}]`, `The weights of ${phrase}`, method);
+      const scale = command === 'simpson' ? h / 3 : h / 2;
+      this.table(rule.nodes.map(({ x: point, y, weight }, i) => [
+        `x${subscript(i)} = ${formatDecimal(point, DIGITS)}, f(x${subscript(i)}) = ${formatDecimal(y, DIGITS)}`,
+        `Coefficient ${formatDecimal(weight / scale)}`
+      ]), push, method);
+      push(`${symbol}${subscript(n)} = ${formatDecimal(value, DIGITS)}`, `Add the weighted samples and multiply by ${unit}`, method);
+      check = `${factor}·|${symbol}${subscript(2 * n)} − ${symbol}${subscript(n)}| by Richardson extrapolation`;
+    }
+    if (!Number.isFinite(value)) {
+      throw new Error('the integrand could not be evaluated on the whole interval');
+    }
+    push(`|error| ≈ ${errorEstimate.toExponential(2)}`, `Estimated as ${check}`, method);
+
+    return {
+      original: expr,
+      result: `≈ ${formatDecimal(value, DIGITS)} (error ≈ ${errorEstimate.toExponential(2)})`,
+      steps,
+      type: 'Numerical Method',
+      method: [...methods].join(' / '),
+      verified: SolutionVerifier.quadrature(integrand, x, lower, upper, value, errorEstimate)
+    };
+  }
+
+  // Iterate until successive approximations agree to about 12 significant digits
+  static root(expr: string, spec: RootSpec): CalculusSolution {
+    const { command, expression, variable: x, guesses } = spec;
+    const { method, phrase } = COMMANDS[command];
+    const { steps, push, methods } = recordSteps();
+    const f = numericFunction(expression, x);
+    const [first, second] = guesses.map(guess => evaluateNumeric(guess));
+    push(`f(${x}) = ${expression}`, `Find a root of f with ${phrase}`);
+
+    let solution: IterativeRoot;
+    if (command === 'bisection') {
+      const [fa, fb] = [f(first), f(second)];
+      if (!Number.isFinite(fa) || !Number.isFinite(fb) || Math.sign(fa) === Math.sign(fb)) {
+        throw new Error(`f(${guesses[0]}) = ${formatDecimal(fa)} and f(${guesses[1]}) = ${formatDecimal(fb)} must have opposite signs`);
+      }
+      push(`f(${displayValue(guesses[0])}) = ${formatDecimal(fa, DIGITS)}, f(${displayValue(guesses[1])}) = ${formatDecimal(fb, DIGITS)}`,
+        'f changes sign on the interval, so it has a root there', method);
+      solution = bisection(f, Math.min(first, second), Math.max(first, second), 1e-12);
+      this.table(solution.history.map(({ x: midpoint, value, lower = NaN, upper = NaN }, i) => [
+        `x${subscript(i + 1)} = ${formatDecimal(midpoint, DIGITS)}, f(x${subscript(i + 1)}) = ${formatDecimal(value, DIGITS)}`,
+        `Midpoint of [${formatDecimal(lower, DIGITS)}, ${formatDecimal(upper, DIGITS)}]; keep the half where f changes sign`
+      ]), push, method);
+    } else if (command === 'newton') {
+      const derivative = cas(`d(${expression},${x})`);
+      push(`f'(${x}) = ${derivative}`, `Differentiate for the update x${subscript(1)} = x${subscript(0)} - f(x${subscript(0)})/f'(x${subscript(0)})`, method);
+      solution = newtonMethod(f, numericFunction(derivative, x), first);
+      this.table(solution.history.map(({ x: point, value, change, slope }, i) => [
+        `x${subscript(i)} = ${formatDecimal(point, DIGITS)}, f(x${subscript(i)}) = ${formatDecimal(value, DIGITS)}`,
+        i === 0 ? 'Starting guess' : `x${subscript(i)} = x${subscript(i - 1)} - f(x${subscript(i - 1)})/f'(x${subscript(i - 1)}) with f'(x${subscript(i - 1)}) = ${formatDecimal(slope ?? NaN, DIGITS)}; |Δx| = ${change.toExponential(2)}`
+      ]), push, method);
+    } else {
+      solution = secantMethod(f, first, second);
+      this.table(solution.history.map(({ x: point, value, change, slope }, i) => [
+        `x${subscript(i)} = ${formatDecimal(point, DIGITS)}, f(x${subscript(i)}) = ${formatDecimal(value, DIGITS)}`,
+        i < 2 ? 'Starting guess' : `x${subscript(i)} = x${subscript(i - 1)} - f(x${subscript(i - 1)})/m with secant slope m = ${formatDecimal(slope ?? NaN, DIGITS)}; |Δx| = ${change.toExponential(2)}`
+      ]), push, method);
+    }
+
+    const { value: root, iterations, converged, history } = solution;
+    if (!converged || !Number.isFinite(root)) {
+      throw new Error(`${phrase} did not converge from ${guesses.join(', ')}; try other starting values`);
+    }
+    const last = history[history.length - 1];
+    const errorEstimate = command === 'bisection' ? last.change : Number.isFinite(last.change) ? last.change : 0;
+    push(`${x} ≈ ${formatDecimal(root, DIGITS)}`,
+      `Converged after ${iterations} iteration${iterations === 1 ? '' : 's'}; estimated error ${errorEstimate.toExponential(2)}, |f(${x})| = ${Math.abs(f(root)).toExponential(2)}`, method);
+
+    return {
+      original: expr,
+      result: `${x} ≈ ${formatDecimal(root, DIGITS)}`,
+      steps,
+      type: 'Numerical Method',
+      method: [...methods].join(' / '),
+      verified: SolutionVerifier.numericRoot(expression, x, root)
+    };
+  }
+
+  // March from the initial condition, estimating the error by repeating with half the step size
+  static step(expr: string, spec: StepSpec, reason?: string): CalculusSolution {
+    const { command, slope, dependent: y, independent: x, start, value, end, steps: n } = spec;
+    const { method, phrase } = COMMANDS[command];
+    const { steps, push, methods } = recordSteps();
+    const [x0, y0, x1] = [start, value, end].map(text => evaluateNumeric(text));
+    const h = (x1 - x0) / n;
+    push(`${y}' = ${slope}, ${y}(${start}) = ${value}`, reason ?? `Approximate ${y}(${displayValue(end)}) with ${phrase}`);
+
+    const compiled = compileNumeric(slope);
+    const f = (a: number, b: number) => compiled({ [x]: a, [y]: b });
+    const march = command === 'euler' ? eulerMethod : rungeKutta4;
+    const points = march(f, x0, y0, h, n);
+    push(`h = (${displayValue(end)} - ${displayValue(start)})/${n} = ${formatDecimal(h, DIGITS)}`, `Take ${n} steps of size h`, method);
+    push(command === 'euler'
+      ? `${y}ₙ₊₁ = ${y}ₙ + h·f(${x}ₙ, ${y}ₙ)`
+      : `${y}ₙ₊₁ = ${y}ₙ + h/6·(k₁ + 2k₂ + 2k₃ + k₄)`,
+    command === 'euler'
+      ? 'Follow the tangent line for one step'
+      : `k₁ = f(${x}ₙ, ${y}ₙ), k₂ = f(${x}ₙ + h/2, ${y}ₙ + h·k₁/2), k₃ = f(${x}ₙ + h/2, ${y}ₙ + h·k₂/2), k₄ = f(${x}ₙ + h, ${y}ₙ + h·k₃)`,
+    method);
+    this.table(points.map(({ x: a, y: b, slopes }, i) => [
+      `${x}${subscript(i)} = ${formatDecimal(a, DIGITS)}, ${y}${subscript(i)} = ${formatDecimal(b, DIGITS)}`,
+      i === 0
+        ? 'Initial condition'
+        : command === 'euler'
+          ? `Slope f(${x}${subscript(i - 1)}, ${y}${subscript(i - 1)}) = ${formatDecimal(slopes[0], DIGITS)}`
+          : slopes.map((k, j) => `k${subscript(j + 1)} = ${formatDecimal(k, DIGITS)}`).join(', ')
+    ]), push, method);
+
+    const result = points[points.length - 1].y;
+    if (!Number.isFinite(result)) {
+      throw new Error(`the solution could not be continued to ${x} = ${end}; f(${x}, ${y}) is undefined or blows up along the way`);
+    }
+    // Halving h divides the error by 2 for Euler's method and by 16 for RK4
+    const halved = march(f, x0, y0, h / 2, 2 * n);
+    const difference = Math.abs(halved[halved.length - 1].y - result);
+    const errorEstimate = command === 'euler' ? 2 * difference : difference * 16 / 15;
+    push(`|error| ≈ ${errorEstimate.toExponential(2)}`,
+      `Repeated with h/2, which gives ${y}(${displayValue(end)}) ≈ ${formatDecimal(halved[halved.length - 1].y, DIGITS)}; the ${command === 'euler' ? 'first-order' : 'fourth-order'} method's error is ${command === 'euler' ? '2' : '16/15'} times the difference`, method);
+
+    return {
+      original: expr,
+      result: `${y}(${displayValue(end)}) ≈ ${formatDecimal(result, DIGITS)} (error ≈ ${errorEstimate.toExponential(2)})`,
+      steps,
+      type: 'Numerical Method',
+      method: [...methods].join(' / '),
+      verified: SolutionVerifier.numericOde(slope, y, x, x0, y0, x1, result, errorEstimate)
+    };
+  }
+
+  // RK4 on one unit past the initial condition, for a first-order equation that has no closed-form solution
+  static tabulate(expr: string, node: ExpressionNode, reason: string): CalculusSolution | null {
+    let spec: OdeSpec;
+    try {
+      spec = OdeSolver.spec(node);
+    } catch {
+      return null;
+    }
+    const { dependent, independent, conditions, order } = spec;
+    const slope = order === 1 && conditions.length === 1 ? this.slope(spec) : null;
+    if (slope === null) return null;
+    const { at, value } = conditions[0];
+    const end = this.horizon(slope, dependent, independent, at, value);
+    if (end === null) return null;
+    const solution = this.step(expr, { command: 'rk4', slope, dependent, independent, start: at, value, end, steps: DEFAULT_STEPS },
+      `${reason}, so tabulate ${dependent} numerically on [${displayValue(at)}, ${displayValue(end)}]`);
+    return { ...solution, type: 'Differential Equation' };
+  }
+
+  // The longest of [x₀, x₀ + 1], [x₀, x₀ + 1/2], … on which the solution stays finite and RK4 settles, or null if none does
+  static horizon(slope: string, dependent: string, independent: string, start: string, value: string): string | null {
+    const compiled = compileNumeric(slope);
+    const f = (a: number, b: number) => compiled({ [independent]: a, [dependent]: b });
+    const [x0, y0] = [start, value].map(text => evaluateNumeric(text));
+    for (let length = 1; length >= 1 / 16; length /= 2) {
+      const [coarse, fine] = [DEFAULT_STEPS, 2 * DEFAULT_STEPS].map(n => rungeKutta4(f, x0, y0, length / n, n).pop()?.y ?? NaN);
+      if (Number.isFinite(coarse) && Number.isFinite(fine) && Math.abs(fine - coarse) <= 1e-4 * Math.max(1, Math.abs(fine))) {
+        return cas(`(${start})+1/${1 / length}`);
+      }
+    }
+    return null;
+  }
+
+  // f(x, y) for a first-order equation linear in y', or null when y' cannot be isolated that way
+  static slope(spec: OdeSpec): string | null {
+    const prime = spec.names[1];
+    const difference = cas(`(${spec.left})-(${spec.right})`);
+    const coefficient = cas(`d(${difference},${prime})`);
+    if (!isFreeOf(coefficient, prime) || coefficient === '0') return null;
+    return cas(`simplify(-(${cas(`subst(0,${prime},${difference})`)})/(${coefficient}))`);
+  }
+
+  // One step per row, eliding the middle of long tables
+  static table(rows: [string, string][], push: Push, method: string): void {
+    const half = MAX_ROWS / 2;
+    const shown = rows.length > MAX_ROWS ? [...rows.slice(0, half), null, ...rows.slice(-half)] : rows;
+    for (const row of shown) {
+      if (row) push(row[0], row[1], method);
+      else push('⋮', `${rows.length - MAX_ROWS} more rows`, method);
+    }
+  }
+}
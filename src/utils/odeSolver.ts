@@ -0,0 +1,598 @@
+import type { CalculusSolution } from './calculusEngine';
+import { EquationSolver, type EquationRoot } from './equationSolver';
+import { IntegralTracer } from './integralTracer';
+import { recordSteps, type Push } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { SystemSolver } from './systemSolver';
+import { cas, evaluateNumeric, formatDecimal, freeVariables, isFreeOf, isPolynomial, ordinal } from './expressionUtils';
+import { ExpressionParser, ParseError, type DerivativeNode, type ExpressionNode } from './expressionParser';
+
+export interface InitialCondition {
+  // y(at) = value for order 0, y'(at) = value for order 1, and so on
+  order: number;
+  at: string;
+  value: string;
+}
+
+export interface OdeSpec {
+  // Both sides with y', y'', … written as the placeholder symbols in names
+  left: string;
+  right: string;
+  dependent: string;
+  independent: string;
+  order: number;
+  // names[k] stands for the kth derivative of the dependent variable, names[0] for the variable itself
+  names: string[];
+  conditions: InitialCondition[];
+}
+
+// left = right, explicit when left is the dependent variable
+interface GeneralSolution {
+  left: string;
+  right: string;
+  constants: string[];
+  // The implicit relation behind an explicit solution that is not linear in its constant
+  relation?: { left: string; right: string };
+}
+
+// A forcing term x^degree·e^(k·x)·cos(ω·x) or sin(ω·x), up to a constant factor
+interface Family {
+  k: string;
+  omega: string;
+  degree: number;
+}
+
+// Names for the unknown coefficients of a trial solution, skipping C for the constants of integration and E for Euler's number
+const COEFFICIENT_NAMES = ['A', 'B', 'D', 'F', 'G', 'H', 'K', 'L', 'M', 'N', 'P', 'Q', 'R', 'S', 'T', 'U', 'V', 'W'];
+// Values of y tried when splitting f(x, y) = g(x)·h(y)
+const SPLIT_POINTS = ['1', '2', '3', '-1'];
+// Functions undone to make f(y) = G(x) + C explicit
+const INVERSES: Record<string, string> = { arctan: 'tan', atan: 'tan', arcsin: 'sin', asin: 'sin', arccos: 'cos', acos: 'cos' };
+
+export class OdeSolver {
+  // An equation involving y', y'' or dy/dx of an unknown function
+  static isOde(node: ExpressionNode): boolean {
+    return ExpressionParser.clauses(node).some(({ node: clause }) => clause.kind === 'equation' && this.derivatives(clause).length > 0);
+  }
+
+  // The equation is the clause with derivatives, and clauses such as y(0) = 1 or y'(0) = 0 are initial conditions
+  static spec(node: ExpressionNode): OdeSpec {
+    const clauses = ExpressionParser.clauses(node);
+    const equation = clauses.find(({ node: clause }) => clause.kind === 'equation' && this.derivatives(clause).length > 0)?.node;
+    if (equation?.kind !== 'equation') {
+      throw new ParseError('Expected a differential equation such as y\' + 2y = e^x', node.position);
+    }
+
+    const derivatives = this.derivatives(equation);
+    const dependent = derivatives[0].dependent as string;
+    if (derivatives.some(derivative => derivative.dependent !== dependent)) {
+      throw new ParseError('Only one unknown function is supported', equation.position);
+    }
+    const leibniz = derivatives.filter(derivative => !derivative.prime).map(derivative => derivative.variable);
+    if (new Set(leibniz).size > 1) {
+      throw new ParseError('Every derivative must be taken with respect to the same variable', equation.position);
+    }
+    const others = ExpressionParser.variables(equation).filter(name => name !== dependent);
+    const independent = leibniz[0] ?? (others.length === 1 ? others[0] : 'x');
+    const unknown = others.filter(name => name !== independent);
+    if (unknown.length) {
+      throw new Error(`the equation may only involve ${dependent} and ${independent}, but it also mentions ${unknown.join(', ')}`);
+    }
+
+    const order = Math.max(...derivatives.map(derivative => derivative.order));
+    const names = Array.from({ length: order + 1 }, (_, k) => (k ? `${dependent}prime${k}` : dependent));
+    const replaced = this.replaceDerivatives(equation, dependent, names);
+    if (replaced.kind !== 'equation') throw new ParseError('Expected a differential equation', equation.position);
+
+    const conditions = clauses
+      .filter(({ node: clause }) => clause !== equation)
+      .map(({ node: clause }) => this.condition(clause, dependent, order));
+    if (conditions.some((condition, i) => conditions.findIndex(other => other.order === condition.order && other.at === condition.at) !== i)) {
+      throw new Error('each initial condition may only be given once');
+    }
+
+    return {
+      left: ExpressionParser.print(replaced.left),
+      right: ExpressionParser.print(replaced.right),
+      dependent,
+      independent,
+      order,
+      names,
+      conditions
+    };
+  }
+
+  // y(a) = v parses as the product y·a, and y'(a) = v as y'·a
+  static condition(clause: ExpressionNode, dependent: string, order: number): InitialCondition {
+    const invalid = () => new ParseError(`Expected an initial condition such as ${dependent}(0) = 1`, clause.position);
+    if (clause.kind !== 'equation' || clause.left.kind !== 'binary' || clause.left.operator !== '*') throw invalid();
+    const { left: target, right: at } = clause.left;
+    const derivative = target.kind === 'derivative' && target.body === null && target.dependent === dependent ? target.order : null;
+    const conditionOrder = target.kind === 'symbol' && target.name === dependent ? 0 : derivative;
+    if (conditionOrder === null) throw invalid();
+    if (conditionOrder >= order) {
+      throw new ParseError(`A ${ordinal(order)}-order equation takes conditions on ${dependent} and its first ${order - 1} derivatives only`, clause.position);
+    }
+    if (ExpressionParser.variables(at).length || ExpressionParser.variables(clause.right).length) {
+      throw new ParseError('Initial conditions need numeric values', clause.position);
+    }
+    return { order: conditionOrder, at: ExpressionParser.print(at), value: ExpressionParser.print(clause.right) };
+  }
+
+  static solve(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    const spec = this.spec(node);
+    const { dependent: y, independent: x, order, names } = spec;
+    const { steps, push: record, methods } = recordSteps();
+    const push: Push = (expression, explanation, method) => record(this.show(expression, names), explanation, method);
+    push(`${spec.left} = ${spec.right}`, `A ${ordinal(order)}-order differential equation for ${y}(${x})`);
+
+    const difference = cas(`(${spec.left})-(${spec.right})`);
+    const general = order === 1 ? this.firstOrder(difference, spec, push) : this.constantCoefficients(difference, spec, push);
+    const described = general.constants.length === 1
+      ? `general solution, with an arbitrary constant ${general.constants[0]}`
+      : `general solution, with arbitrary constants ${general.constants.join(', ')}`;
+    // The last step of a method often is the general solution already, so label it rather than repeat it
+    const last = steps[steps.length - 1];
+    if (last.expression === this.show(`${general.left} = ${general.right}`, names)) {
+      last.explanation = `${last.explanation}, giving the ${described}`;
+    } else {
+      push(`${general.left} = ${general.right}`, `The ${described}`);
+    }
+
+    const solution = spec.conditions.length ? this.applyConditions(general, spec, push) : general;
+    const result = `${solution.left} = ${solution.right}`;
+    return {
+      original: expr,
+      result: this.show(result, names),
+      steps,
+      type: 'Differential Equation',
+      method: [...methods].join(' / '),
+      verified: SolutionVerifier.ode(spec.left, spec.right, names, x, solution, spec.conditions)
+    };
+  }
+
+  // Separable, then linear with an integrating factor, then exact
+  static firstOrder(difference: string, spec: OdeSpec, push: Push): GeneralSolution {
+    const { dependent: y, independent: x, names } = spec;
+    const [, slope] = names;
+    const n = cas(`d(${difference},${slope})`);
+    if (!isFreeOf(n, slope)) {
+      throw new Error(`the equation must be linear in ${y}'`);
+    }
+    const m = cas(`subst(0,${slope},${difference})`);
+    const f = cas(`simplify(-(${m})/(${n}))`);
+
+    const solution = this.separable(f, y, x, slope, push) ?? this.linear(m, n, y, x, slope, push) ?? this.exact(m, n, y, x, slope, push);
+    if (!solution) {
+      throw new Error(`the equation is not separable, linear or exact, so ${y}' = ${f} cannot be solved by these methods`);
+    }
+    return solution;
+  }
+
+  // y' = g(x)·h(y): divide by h(y) and integrate each side in its own variable
+  static separable(f: string, y: string, x: string, slope: string, push: Push): GeneralSolution | null {
+    if (isFreeOf(f, y)) {
+      push(`${slope} = ${f}`, `The right side does not involve ${y}, so integrate it directly`, 'Direct Integration');
+      return { left: y, right: cas(`${this.integrate(f, x)}+C`), constants: ['C'] };
+    }
+
+    const split = isFreeOf(f, x) ? { g: '1', h: f } : this.split(f, y, x);
+    if (!split) return null;
+    const { g, h } = split;
+    const method = 'Separation of Variables';
+    push(`${slope} = ${g === '1' ? h : `${this.group(g)}*${this.group(h)}`}`,
+      g === '1'
+        ? `The right side depends on ${y} alone, so the variables separate`
+        : `The right side factors as g(${x})·h(${y}), so the equation is separable`,
+      method);
+    const reciprocal = cas(`1/(${h})`);
+    push(`${reciprocal} d${y} = ${g} d${x}`, `Divide by h(${y}) and multiply by d${x}, assuming h(${y}) ≠ 0`, method);
+    const left = this.integrate(reciprocal, y);
+    const right = this.integrate(g, x);
+    const implicit = cas(`${right}+C`);
+    push(`${left} = ${implicit}`, 'Integrate both sides, collecting the constants into C', method);
+
+    // a·log(y): exponentiate, absorbing ±e^C into a new constant
+    const a = cas(`simplify(d(${left},${y})*${y})`);
+    if (a !== '0' && freeVariables(a).length === 0 && isFreeOf(cas(`simplify((${left})-(${a})*log(${y}))`), y)) {
+      const explicit = cas(`C*exp((${right})/(${a}))`);
+      push(`${y} = ${explicit}`, 'Exponentiate both sides and write ±e^C as a new constant C, which may also be 0 for the solution y = 0', method);
+      return { left: y, right: explicit, constants: ['C'] };
+    }
+    if (isPolynomial(left, y) && isFreeOf(cas(`d(${left},${y})`), y)) {
+      const explicit = cas(`((${right})-(${cas(`subst(0,${y},${left})`)}))/(${cas(`d(${left},${y})`)})+C`);
+      push(`${y} = ${explicit}`, `Solve for ${y}, rescaling the constant`, method);
+      return { left: y, right: explicit, constants: ['C'] };
+    }
+    // c·y^p with p odd has a single real pth root
+    const p = cas(`simplify(d(${left},${y})*${y}/(${left}))`);
+    const power = freeVariables(p).length === 0 ? evaluateNumeric(p) : NaN;
+    if (Number.isInteger(power) && Math.abs(power) % 2 === 1) {
+      const c = cas(`simplify((${left})/${y}^(${p}))`);
+      const explicit = cas(`(((${right})+C)/(${c}))^(1/(${p}))`);
+      push(`${y} = ${explicit}`, `Solve for ${y}`, method);
+      return { left: y, right: explicit, constants: ['C'], relation: { left, right: implicit } };
+    }
+    const inverse = this.inverse(left, y);
+    if (inverse) {
+      const explicit = cas(`${inverse}(${implicit})`);
+      push(`${y} = ${explicit}`, `Apply ${inverse} to both sides`, method);
+      return { left: y, right: explicit, constants: ['C'], relation: { left, right: implicit } };
+    }
+    return { left, right: implicit, constants: ['C'] };
+  }
+
+  // f(x, y) = g(x)·h(y) exactly when f·f_xy = f_x·f_y; read g off at a fixed y and h as the rest
+  static split(f: string, y: string, x: string): { g: string; h: string } | null {
+    const test = cas(`simplify((${f})*d(d(${f},${x}),${y})-d(${f},${x})*d(${f},${y}))`);
+    if (test !== '0') return null;
+    for (const point of SPLIT_POINTS) {
+      const g = this.tryCas(`subst(${point},${y},${f})`);
+      if (!g || g === '0' || !Number.isFinite(evaluateNumeric(g, { [x]: 0.7 }))) continue;
+      const h = cas(`simplify((${f})/(${g}))`);
+      if (isFreeOf(h, x)) return { g, h };
+    }
+    return null;
+  }
+
+  // y' + P(x)·y = Q(x): multiplying by μ = e^(∫P dx) makes the left side (μ·y)'
+  static linear(m: string, n: string, y: string, x: string, slope: string, push: Push): GeneralSolution | null {
+    const coefficient = cas(`d(${m},${y})`);
+    if (!isFreeOf(n, y) || !isFreeOf(coefficient, y)) return null;
+    const p = cas(`simplify((${coefficient})/(${n}))`);
+    const q = cas(`simplify(-(${cas(`subst(0,${y},${m})`)})/(${n}))`);
+    const method = 'Integrating Factor';
+    push(`${slope} + ${this.group(p)}*${y} = ${q}`, `Write the equation in the standard form ${y}' + P(${x})·${y} = Q(${x})`, method);
+
+    const integral = this.integrate(p, x);
+    const mu = this.exponential(integral);
+    push(mu === cas(`exp(${integral})`) ? `μ(${x}) = ${mu}` : `μ(${x}) = exp(${integral}) = ${mu}`, `The integrating factor is μ = e^(∫P d${x})`, method);
+    const product = cas(`simplify((${mu})*(${q}))`);
+    push(`d(${mu}*${y}, ${x}) = ${product}`, `Multiplying by μ turns the left side into the derivative of μ·${y}`, method);
+    const antiderivative = this.integrate(product, x);
+    push(`${mu}*${y} = ${antiderivative} + C`, 'Integrate both sides', method);
+    const explicit = cas(`(${antiderivative})/(${mu})+C/(${mu})`);
+    push(`${y} = ${explicit}`, 'Divide by μ', method);
+    return { left: y, right: explicit, constants: ['C'] };
+  }
+
+  // M + N·y' = 0 with ∂M/∂y = ∂N/∂x is dψ = 0 for a potential ψ(x, y)
+  static exact(m: string, n: string, y: string, x: string, slope: string, push: Push): GeneralSolution | null {
+    const my = cas(`d(${m},${y})`);
+    if (cas(`simplify((${my})-d(${n},${x}))`) !== '0') return null;
+    const method = 'Exact Equation';
+    push(`${this.group(m)} + ${this.group(n)}*${slope} = 0`, `∂M/∂${y} = ∂N/∂${x} = ${my}, so M d${x} + N d${y} = 0 is exact`, method);
+
+    const partial = this.integrate(m, x);
+    push(`ψ = ${partial} + h(${y})`, `Integrate M with respect to ${x}, leaving a function h(${y}) as the constant`, method);
+    const rest = cas(`simplify((${n})-d(${partial},${y}))`);
+    if (!isFreeOf(rest, x)) return null;
+    const h = this.integrate(rest, y);
+    push(`h'(${y}) = ${rest}, h(${y}) = ${h}`, `Differentiate ψ with respect to ${y} and match N`, method);
+    const potential = cas(`${partial}+(${h})`);
+    push(`${potential} = C`, 'The solutions are the level curves ψ(x, y) = C', method);
+    return { left: potential, right: 'C', constants: ['C'] };
+  }
+
+  // a_n·y⁽ⁿ⁾ + … + a_0·y = g(x) with constant a_k: characteristic roots, then undetermined coefficients for g
+  static constantCoefficients(difference: string, spec: OdeSpec, push: Push): GeneralSolution {
+    const { independent: x, order, names } = spec;
+    const coefficients = names.map(name => cas(`d(${difference},${name})`));
+    if (coefficients.some(coefficient => freeVariables(coefficient).length > 0)) {
+      throw new Error(`${ordinal(order)}-order equations are solved only when they are linear with constant coefficients`);
+    }
+    const forcing = cas(`-(${names.reduce((text, name) => cas(`subst(0,${name},${text})`), difference)})`);
+
+    const r = x === 'r' ? 'm' : 'r';
+    const polynomial = cas(coefficients.map((coefficient, k) => `(${coefficient})*${r}^${k}`).join('+'));
+    push(`${polynomial} = 0`, `Substituting ${names[0]} = e^(${r}${x}) into the homogeneous equation gives the characteristic equation`, 'Characteristic Equation');
+    const roots = EquationSolver.derive({ left: polynomial, right: '0', variable: r }).roots;
+    if (roots.reduce((total, root) => total + root.multiplicity, 0) !== order) {
+      throw new Error('not every root of the characteristic equation could be found');
+    }
+    push(roots.map(root => `${r} = ${root.value}${root.multiplicity > 1 ? ` (multiplicity ${root.multiplicity})` : ''}`).join(', '),
+      'Roots of the characteristic equation', 'Characteristic Equation');
+
+    const basis = this.basis(roots, x);
+    const constants = basis.map((_, i) => `C${i + 1}`);
+    const homogeneous = cas(basis.map((term, i) => `${constants[i]}*(${term})`).join('+'));
+    const kinds = [
+      roots.some(root => root.real) && `each real root ${r} gives e^(${r}${x})`,
+      roots.some(root => root.multiplicity > 1) && `a root of multiplicity m also gives ${x}·e^(${r}${x}), …, ${x}^(m-1)·e^(${r}${x})`,
+      roots.some(root => !root.real) && `each pair α ± βi gives e^(α${x})·cos(β${x}) and e^(α${x})·sin(β${x})`
+    ].filter(Boolean).join(', ');
+    push(`${names[0]}_h = ${homogeneous}`, `Homogeneous solution: ${kinds}`, 'Characteristic Equation');
+    if (forcing === '0') {
+      return { left: names[0], right: homogeneous, constants };
+    }
+
+    const particular = this.undeterminedCoefficients(forcing, coefficients, roots, spec, push);
+    return { left: names[0], right: cas(`${homogeneous}+(${particular})`), constants };
+  }
+
+  // x^j·e^(αx), with cos(βx) and sin(βx) for complex pairs, for every root and every power below its multiplicity
+  static basis(roots: EquationRoot[], x: string): string[] {
+    return roots.flatMap(root => {
+      const { re, im } = this.parts(root);
+      if (evaluateNumeric(im) < 0) return [];
+      return Array.from({ length: root.multiplicity }, (_, j) => {
+        const factor = `${x}^${j}*exp((${re})*${x})`;
+        return im === '0' ? [cas(factor)] : [cas(`${factor}*cos((${im})*${x})`), cas(`${factor}*sin((${im})*${x})`)];
+      }).flat();
+    });
+  }
+
+  // Guess y_p in the form of each group of forcing terms, substitute and match coefficients
+  static undeterminedCoefficients(forcing: string, coefficients: string[], roots: EquationRoot[], spec: OdeSpec, push: Push): string {
+    const { independent: x, names } = spec;
+    const y = names[0];
+    const method = 'Undetermined Coefficients';
+    push(`g(${x}) = ${forcing}`, 'The forcing term is made of polynomials, exponentials, sines and cosines, so guess a particular solution of the same form', method);
+
+    // Terms sharing e^(kx) and ω are guessed together, up to the highest power of x among them
+    const groups = new Map<string, { family: Family; terms: string[] }>();
+    for (const term of this.terms(ExpressionParser.parse(forcing))) {
+      const family = this.family(term, x);
+      if (!family) {
+        throw new Error(`undetermined coefficients needs a forcing term built from polynomials, exponentials, sines and cosines, but it contains ${ExpressionParser.print(term)}`);
+      }
+      const key = `${family.k}|${family.omega}`;
+      const group = groups.get(key) ?? { family, terms: [] };
+      group.family.degree = Math.max(group.family.degree, family.degree);
+      group.terms.push(ExpressionParser.print(term));
+      groups.set(key, group);
+    }
+
+    const available = [...COEFFICIENT_NAMES].filter(name => name !== x && name !== y);
+    const parts: string[] = [];
+    for (const { family: { k, omega, degree }, terms } of groups.values()) {
+      const multiplicity = this.multiplicity(roots, k, omega);
+      const unknowns: string[] = [];
+      const polynomial = () => {
+        const chosen = available.splice(0, degree + 1);
+        if (chosen.length < degree + 1) throw new Error('the forcing term needs too many unknown coefficients');
+        unknowns.push(...chosen);
+        return chosen.map((name, j) => `${name}*${x}^${j}`).join('+');
+      };
+      const envelope = `${x}^${multiplicity}*exp((${k})*${x})`;
+      const trial = cas(omega === '0'
+        ? `${envelope}*(${polynomial()})`
+        : `${envelope}*((${polynomial()})*cos((${omega})*${x})+(${polynomial()})*sin((${omega})*${x}))`);
+      const s = omega === '0' ? k : cas(`${k}+(${omega})*i`);
+      push(`${y}_p = ${trial}`, multiplicity
+        ? `${s} is a root of multiplicity ${multiplicity} of the characteristic equation, so the usual guess is multiplied by ${x}${multiplicity > 1 ? `^${multiplicity}` : ''}`
+        : `Guess for ${terms.join(' + ')}`,
+      method);
+
+      const substituted = cas(coefficients.map((coefficient, order) => `(${coefficient})*d(${trial},${x},${order})`).join('+'));
+      const residual = cas(`expand(((${substituted})-(${terms.join('+')}))*exp(-(${k})*${x}))`);
+      const equations = this.matchCoefficients(residual, x, omega, degree + multiplicity);
+      push(equations.map(equation => `${equation} = 0`).join(', '), `Substitute ${y}_p into the equation and match the coefficients of each term`, method);
+
+      const [values] = SystemSolver.gaussianElimination(equations, unknowns, push);
+      if (!values || unknowns.some(unknown => values[unknown] === undefined)) {
+        throw new Error('the coefficients of the trial solution could not be determined');
+      }
+      parts.push(unknowns.reduce((text, unknown) => cas(`subst((${values[unknown]}),${unknown},${text})`), trial));
+    }
+
+    const particular = cas(parts.join('+'));
+    push(`${y}_p = ${particular}`, 'Particular solution', method);
+    return particular;
+  }
+
+  // With e^(kx) divided out, the residual is a polynomial in x times cos(ωx) and sin(ωx), and each coefficient must vanish
+  static matchCoefficients(residual: string, x: string, omega: string, degree: number): string[] {
+    const polynomials = omega === '0'
+      ? [residual]
+      : (() => {
+          const [cosine, sine] = [cas(`cos((${omega})*${x})`), cas(`sin((${omega})*${x})`)];
+          const marked = cas(`subst(odesine,${sine},subst(odecosine,${cosine},${residual}))`);
+          return [cas(`coeff(${marked},odecosine,1)`), cas(`coeff(${marked},odesine,1)`)];
+        })();
+    return polynomials
+      .flatMap(polynomial => Array.from({ length: degree + 1 }, (_, j) => cas(`coeff(${polynomial},${x},${j})`)))
+      .filter(equation => equation !== '0');
+  }
+
+  // Solve for the constants from y(a) = v, y'(a) = v, …, or from the implicit relation
+  static applyConditions(general: GeneralSolution, spec: OdeSpec, push: Push): GeneralSolution {
+    const { independent: x, names, conditions } = spec;
+    const y = names[0];
+    const relation = general.left === y ? general.relation : general;
+    const equations = conditions.map(({ order, at, value }) => {
+      if (relation) {
+        if (order > 0) throw new Error(`conditions on ${y}' need an explicit solution`);
+        return cas(`subst((${value}),${y},subst((${at}),${x},(${relation.left})-(${relation.right})))`);
+      }
+      return cas(`subst((${at}),${x},${order ? `d(${general.right},${x},${order})` : general.right})-(${value})`);
+    });
+    push(conditions.map(({ order, at, value }, i) => `${y}${"'".repeat(order)}(${at}) = ${value}: ${equations[i]} = 0`).join(', '),
+      'Apply the initial conditions to the general solution');
+
+    if (!SystemSolver.isLinear(equations, general.constants)) {
+      throw new Error('the initial conditions do not give linear equations for the constants');
+    }
+    const [values] = general.constants.length === 1 && equations.length === 1
+      ? this.solveConstant(equations[0], general.constants[0], push)
+      : SystemSolver.gaussianElimination(equations, general.constants, push);
+    if (!values) {
+      throw new Error('no solution satisfies the initial conditions');
+    }
+    const substitute = (text: string) => general.constants.reduce((current, constant) =>
+      (values[constant] === undefined ? current : cas(`subst((${values[constant]}),${constant},${current})`)), text);
+    const solution = {
+      left: substitute(general.left),
+      right: substitute(general.right),
+      constants: general.constants.filter(constant => values[constant] === undefined)
+    };
+    push(`${solution.left} = ${solution.right}`, solution.constants.length
+      ? `Substitute the constants that are determined; ${solution.constants.join(', ')} stay arbitrary`
+      : 'Substitute the constants into the general solution');
+    return solution;
+  }
+
+  // A single linear equation a·C + b = 0
+  static solveConstant(equation: string, constant: string, push: Push): Record<string, string>[] {
+    const coefficient = cas(`d(${equation},${constant})`);
+    if (coefficient === '0') return cas(`simplify(${equation})`) === '0' ? [{}] : [];
+    const value = cas(`-(${cas(`subst(0,${constant},${equation})`)})/(${coefficient})`);
+    push(`${constant} = ${value}`, `Solve for ${constant}`);
+    return [{ [constant]: value }];
+  }
+
+  // The inverse of f when the implicit solution is f(y) = G(x) + C
+  static inverse(left: string, y: string): string | null {
+    const node = ExpressionParser.parse(left);
+    if (node.kind !== 'call' || node.args.length !== 1 || node.args[0].kind !== 'symbol' || node.args[0].name !== y) return null;
+    return INVERSES[node.name] ?? null;
+  }
+
+  // Write the placeholder symbols back as y', y'', …
+  static show(text: string, names: string[]): string {
+    return names.slice(1).reverse().reduce(
+      (current, name, i) => current.split(name).join(`${names[0]}${"'".repeat(names.length - 1 - i)}`),
+      text
+    );
+  }
+
+  // Derivatives of an unknown function, e.g. y' and d²y/dx²
+  static derivatives(node: ExpressionNode): DerivativeNode[] {
+    return ExpressionParser.nodes(node).filter(
+      (child): child is DerivativeNode => child.kind === 'derivative' && child.body === null && Boolean(child.dependent)
+    );
+  }
+
+  static replaceDerivatives(node: ExpressionNode, dependent: string, names: string[]): ExpressionNode {
+    const replace = (child: ExpressionNode) => this.replaceDerivatives(child, dependent, names);
+    switch (node.kind) {
+      case 'derivative':
+        return node.body === null && node.dependent === dependent ? { kind: 'symbol', name: names[node.order], position: node.position } : node;
+      case 'unary':
+        return { ...node, operand: replace(node.operand) };
+      case 'binary':
+      case 'equation':
+        return { ...node, left: replace(node.left), right: replace(node.right) };
+      case 'call':
+        return { ...node, args: node.args.map(replace) };
+      case 'list':
+        return { ...node, items: node.items.map(replace) };
+      default:
+        return node;
+    }
+  }
+
+  // Top-level terms of a sum, with subtraction folded into a negated term
+  static terms(node: ExpressionNode): ExpressionNode[] {
+    if (node.kind === 'binary' && (node.operator === '+' || node.operator === '-')) {
+      const right = this.terms(node.right);
+      return [
+        ...this.terms(node.left),
+        ...(node.operator === '-' ? right.map((term): ExpressionNode => ({ kind: 'unary', operator: '-', operand: term, position: term.position })) : right)
+      ];
+    }
+    return [node];
+  }
+
+  // Read x^j, e^(kx), cos(ωx) and sin(ωx) off the factors of a term; null for anything else that involves x
+  static family(node: ExpressionNode, x: string): Family | null {
+    const family: Family = { k: '0', omega: '0', degree: 0 };
+    const slope = (argument: ExpressionNode) => {
+      const rate = cas(`d(${ExpressionParser.print(argument)},${x})`);
+      return isFreeOf(rate, x) ? rate : null;
+    };
+    const visit = (factor: ExpressionNode): boolean => {
+      if (!ExpressionParser.mentions(factor, x)) return true;
+      if (factor.kind === 'unary') return visit(factor.operand);
+      if (factor.kind === 'symbol') {
+        family.degree += 1;
+        return true;
+      }
+      if (factor.kind === 'binary' && factor.operator === '*') return visit(factor.left) && visit(factor.right);
+      if (factor.kind === 'binary' && factor.operator === '/') return !ExpressionParser.mentions(factor.right, x) && visit(factor.left);
+      if (factor.kind === 'binary' && factor.operator === '^') {
+        if (factor.left.kind === 'symbol' && factor.left.name === x) {
+          const power = factor.right.kind === 'number' ? Number(factor.right.value) : NaN;
+          if (!Number.isInteger(power) || power < 0) return false;
+          family.degree += power;
+          return true;
+        }
+        if (factor.left.kind !== 'symbol' || factor.left.name !== 'e') return false;
+        const rate = slope(factor.right);
+        if (rate === null) return false;
+        family.k = cas(`${family.k}+(${rate})`);
+        return true;
+      }
+      if (factor.kind === 'call' && factor.args.length === 1) {
+        const rate = slope(factor.args[0]);
+        if (rate === null) return false;
+        if (factor.name === 'exp') {
+          family.k = cas(`${family.k}+(${rate})`);
+          return true;
+        }
+        if ((factor.name === 'sin' || factor.name === 'cos') && family.omega === '0') {
+          family.omega = cas(`abs(${rate})`);
+          return true;
+        }
+      }
+      return false;
+    };
+    return visit(node) ? family : null;
+  }
+
+  // How many times k + ωi is a root of the characteristic equation
+  static multiplicity(roots: EquationRoot[], k: string, omega: string): number {
+    const [re, im] = [evaluateNumeric(k), evaluateNumeric(omega)];
+    return roots
+      .filter(root => {
+        const parts = this.parts(root);
+        return Math.abs(evaluateNumeric(parts.re) - re) < 1e-9 && Math.abs(evaluateNumeric(parts.im) - im) < 1e-9;
+      })
+      .reduce((total, root) => total + root.multiplicity, 0);
+  }
+
+  // Real and imaginary parts of a root, exact unless the root was only approximated
+  static parts(root: EquationRoot): { re: string; im: string } {
+    if (root.real) return { re: root.value, im: '0' };
+    if (!root.approximate) return { re: cas(`real(${root.value})`), im: cas(`imag(${root.value})`) };
+    const value = SolutionVerifier.complexValue(root.value.replace(/(\d)\s*i\b/g, '$1*i'));
+    return value ? { re: formatDecimal(value.re), im: formatDecimal(value.im) } : { re: root.value, im: '0' };
+  }
+
+  // e^(∫P dx), with a·log(u) terms written as u^a
+  static exponential(exponent: string): string {
+    const factors = this.terms(ExpressionParser.parse(exponent)).map(term => {
+      const negated = term.kind === 'unary';
+      const inner = term.kind === 'unary' ? term.operand : term;
+      const [coefficient, logarithm] = inner.kind === 'binary' && inner.operator === '*' && inner.right.kind === 'call'
+        ? [ExpressionParser.print(inner.left), inner.right]
+        : ['1', inner];
+      if (logarithm.kind !== 'call' || logarithm.name !== 'log' || freeVariables(coefficient).length) {
+        return `exp(${ExpressionParser.print(term)})`;
+      }
+      return `(${ExpressionParser.print(logarithm.args[0])})^(${negated ? '-' : ''}(${coefficient}))`;
+    });
+    return cas(`simplify(${factors.join('*')})`);
+  }
+
+  static integrate(expr: string, variable: string): string {
+    if (expr === '0') return '0';
+    try {
+      return IntegralTracer.trace(expr, variable).result;
+    } catch {
+      throw new Error(`no antiderivative of ${expr} with respect to ${variable} could be found`);
+    }
+  }
+
+  static group(text: string): string {
+    return /^[\w.]+$/.test(text) ? text : `(${text})`;
+  }
+
+  static tryCas(command: string): string | null {
+    try {
+      return cas(command);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,231 @@
+import type { CalculusSolution } from './calculusEngine';
+import { EquationSolver } from './equationSolver';
+import { OdeSolver } from './odeSolver';
+import { PolynomialSolver } from './polynomialSolver';
+import { recordSteps, type Push } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { SystemSolver } from './systemSolver';
+import { cas, evaluateNumeric, freeVariables, isFreeOf, isPolynomial, toAlgebrite } from './expressionUtils';
+import { ExpressionParser, ParseError, type ExpressionNode } from './expressionParser';
+
+export interface PartialFractionSpec {
+  expression: string;
+  variable: string;
+}
+
+// A/(x − r)^power for a real root r, and (B·x + C)/(x² + p·x + q)^power for an irreducible quadratic with roots α ± βi
+export type PartialFraction =
+  | { kind: 'linear'; root: string; power: number; coefficient: string }
+  | { kind: 'quadratic'; re: string; im: string; power: number; linear: string; constant: string };
+
+export interface Decomposition {
+  // The polynomial part from long division, 0 for a proper fraction
+  quotient: string;
+  fractions: PartialFraction[];
+  // The quotient and the fractions added up
+  result: string;
+}
+
+// A factor of the denominator: x − r for a real root, or (x − α)² + β² expanded for a pair α ± βi
+interface Factor {
+  text: string;
+  re: string;
+  im: string;
+  multiplicity: number;
+}
+
+// One term of the decomposition before its unknowns are known
+interface Term {
+  factor: Factor;
+  power: number;
+  unknowns: string[];
+}
+
+const COMMANDS = new Set(['apart', 'partfrac', 'partial_fractions', 'partialfractions']);
+// Cube and higher roots, as in the roots of a cubic by Cardano's formula
+const NESTED_RADICAL = /\^\(\d+\/([3-9]|\d\d)\)/;
+// Names for the unknown coefficients, skipping letters that read as constants
+const UNKNOWNS = ['A', 'B', 'C', 'D', 'F', 'G', 'H', 'J', 'K', 'M', 'N', 'P', 'Q', 'R', 'S', 'T', 'U', 'V', 'W'];
+
+export class PartialFractionSolver {
+  static isPartialFractions(node: ExpressionNode): boolean {
+    return node.kind === 'call' && COMMANDS.has(node.name);
+  }
+
+  static solve(expr: string, node: ExpressionNode): CalculusSolution {
+    const spec = this.spec(node);
+    const { steps, push, methods } = recordSteps();
+    push(spec.expression, `Decompose into a polynomial plus simple fractions over the factors of the denominator in ${spec.variable}`);
+    const { result } = this.decompose(spec.expression, spec.variable, push);
+    return {
+      original: expr,
+      result,
+      steps,
+      type: 'Partial Fractions',
+      method: [...methods].join(' / '),
+      verified: SolutionVerifier.partialFractions(spec.expression, spec.variable, result)
+    };
+  }
+
+  // apart(P/Q, x), with x defaulting to the only variable, or x when there are several
+  static spec(node: ExpressionNode): PartialFractionSpec {
+    if (node.kind !== 'call' || !COMMANDS.has(node.name) || node.args.length < 1 || node.args.length > 2 || (node.args[1] && node.args[1].kind !== 'symbol')) {
+      throw new ParseError('Expected apart(P/Q) or apart(P/Q, x)', node.position);
+    }
+    const [body, variable] = node.args;
+    const variables = ExpressionParser.variables(body);
+    return {
+      expression: ExpressionParser.print(body),
+      variable: variable?.kind === 'symbol' ? variable.name : variables.length === 1 ? variables[0] : 'x',
+    };
+  }
+
+  // Long division when improper, then one term per power of each factor, with coefficients by cover-up and by equating coefficients
+  static decompose(R: string, x: string, push: Push): Decomposition {
+    const [numerator, denominator] = this.lowestTerms(R, x, push);
+    const fraction = `(${numerator})/(${denominator})`;
+    const degree = Number(cas(`deg(${denominator},${x})`));
+    let quotient = '0';
+    let proper = numerator;
+    if (Number(cas(`deg(${numerator},${x})`)) >= degree) {
+      quotient = cas(`quotient(${numerator},${denominator},${x})`);
+      proper = cas(`expand((${numerator})-(${quotient})*(${denominator}))`);
+      push(`${fraction} = ${quotient}${proper === '0' ? '' : ` + (${proper})/(${denominator})`}`,
+        `The numerator's degree is not less than the denominator's, so divide first: the quotient is ${quotient} and the remainder ${proper}`,
+        'Polynomial Long Division');
+      if (proper === '0') return { quotient, fractions: [], result: quotient };
+    }
+
+    const { leading, factors, approximate } = this.factor(denominator, x);
+    if (factors.length === 1 && factors[0].multiplicity === 1) {
+      const [{ re, im }] = factors;
+      const fractions: PartialFraction[] = im === '0'
+        ? [{ kind: 'linear', root: re, power: 1, coefficient: cas(`(${proper})/(${leading})`) }]
+        : [{ kind: 'quadratic', re, im, power: 1, linear: cas(`coeff(${proper},${x},1)/(${leading})`), constant: cas(`coeff(${proper},${x},0)/(${leading})`) }];
+      const result = [...(quotient === '0' ? [] : [quotient]), this.display(fractions[0], x)].join(' + ').replace(/\+ -/g, '- ');
+      // After long division the remainder over a lone factor is already shown in its final form
+      if (quotient === '0') {
+        push(`${fraction} = ${result}`, `The denominator is a single ${im === '0' ? 'linear factor' : 'irreducible quadratic'}, so the fraction is already a partial fraction`, 'Partial Fractions');
+      }
+      return { quotient, fractions, result };
+    }
+    const powered = factors.map(({ text, multiplicity }) => (multiplicity > 1 ? `(${text})^${multiplicity}` : `(${text})`));
+    push(`${denominator} = ${leading === '1' ? '' : `${this.group(leading)}·`}${powered.join('·')}`,
+      `Factor the denominator using its roots ${factors.map(({ re, im }) => (im === '0' ? re : `${re} ± ${this.group(im)}i`)).join(', ')}; a pair of complex roots α ± βi gives the irreducible quadratic (${x} - α)^2 + β^2`,
+      'Factoring');
+
+    const names = UNKNOWNS.filter(name => name !== x && !freeVariables(R).includes(name));
+    if (names.length < degree) throw new Error(`the denominator has degree ${degree}, more than the ${names.length} unknown coefficients available`);
+    let next = 0;
+    const terms: Term[] = factors.flatMap(factor => Array.from({ length: factor.multiplicity }, (_, j) => ({
+      factor,
+      power: j + 1,
+      unknowns: factor.im === '0' ? [names[next++]] : [names[next++], names[next++]],
+    })));
+    const shape = (term: Term, numerator: string) => `${numerator}/${term.power > 1 ? `(${term.factor.text})^${term.power}` : `(${term.factor.text})`}`;
+    push(`(${proper})/(${denominator}) = ${terms.map(term => shape(term, term.factor.im === '0' ? term.unknowns[0] : `(${term.unknowns[0]}·${x} + ${term.unknowns[1]})`)).join(' + ')}`,
+      `Write one term for each power of each factor: a constant over a linear factor and a linear numerator over an irreducible quadratic`,
+      'Partial Fractions');
+
+    // The rest of the denominator once a term's own factor is divided out
+    const cofactor = (term: Term) => cas(`quotient(${denominator},(${term.factor.text})^${term.power},${x})`);
+    const values: Record<string, string> = {};
+    // With decimal roots a covered-up value would not quite agree with the remaining equations, so solve for every unknown at once
+    terms.filter(term => !approximate && term.factor.im === '0' && term.power === term.factor.multiplicity).forEach(term => {
+      const { re } = term.factor;
+      const [name] = term.unknowns;
+      const rest = cofactor(term);
+      values[name] = cas(`simplify(subst(${this.group(re)},${x},${proper})/subst(${this.group(re)},${x},${rest}))`);
+      push(`${name} = (${proper})/(${rest}) at ${x} = ${re} = ${values[name]}`,
+        `Cover up ${powered[factors.indexOf(term.factor)]}: multiply both sides by it and set ${x} = ${re}, which clears every other term`,
+        'Cover-Up Method');
+    });
+
+    const unknown = terms.flatMap(term => term.unknowns).filter(name => !(name in values));
+    if (unknown.length) {
+      const combination = terms.map(term => `(${term.factor.im === '0' ? term.unknowns[0] : `${term.unknowns[0]}*${x}+${term.unknowns[1]}`})*(${cofactor(term)})`).join('+');
+      const identity = cas(`expand(${combination})`);
+      push(`${proper} = ${identity}`, 'Multiply both sides by the denominator, so the numerators must agree as polynomials', 'Equating Coefficients');
+      const known = Object.entries(values).reduce((text, [name, value]) => cas(`subst(${this.group(value)},${name},${text})`), identity);
+      const equations = Array.from({ length: degree }, (_, k) => ({ k, left: cas(`coeff(${known},${x},${k})`), right: cas(`coeff(${proper},${x},${k})`) }))
+        .filter(({ left, right }) => cas(`(${left})-(${right})`) !== '0');
+      push(equations.map(({ k, left, right }) => `${k === 0 ? '1' : k === 1 ? x : `${x}^${k}`}: ${left} = ${right}`).join(', '),
+        `Equate the coefficients of each power of ${x}${Object.keys(values).length ? `, with the values already found substituted` : ''}`, 'Equating Coefficients');
+      const [solution] = SystemSolver.gaussianElimination(equations.map(({ left, right }) => `(${left})-(${right})`), unknown, push);
+      if (!solution || unknown.some(name => !isFreeOf(solution[name], name) || unknown.some(other => !isFreeOf(solution[name], other)))) {
+        throw new Error('the equations for the coefficients have no unique solution');
+      }
+      Object.assign(values, solution);
+    }
+
+    const fractions: PartialFraction[] = terms.flatMap((term): PartialFraction[] => {
+      const { re, im } = term.factor;
+      if (im === '0') {
+        const coefficient = values[term.unknowns[0]];
+        return coefficient === '0' ? [] : [{ kind: 'linear', root: re, power: term.power, coefficient }];
+      }
+      const [linear, constant] = term.unknowns.map(name => values[name]);
+      return linear === '0' && constant === '0' ? [] : [{ kind: 'quadratic', re, im, power: term.power, linear, constant }];
+    });
+    const parts = [...(quotient === '0' ? [] : [quotient]), ...fractions.map(part => this.display(part, x))];
+    const result = parts.length ? parts.join(' + ').replace(/\+ -/g, '- ') : '0';
+    push(`${fraction} = ${result}`, 'The partial fraction decomposition', 'Partial Fractions');
+    return { quotient, fractions, result };
+  }
+
+  // The leading coefficient and the real linear and irreducible quadratic factors, with decimal roots
+  // when the exact ones are nested radicals, which would make every later step unwieldy
+  static factor(denominator: string, x: string): { leading: string; factors: Factor[]; approximate: boolean } {
+    const degree = Number(cas(`deg(${denominator},${x})`));
+    const leading = cas(`coeff(${denominator},${x},${degree})`);
+    const roots = EquationSolver.derive({ left: denominator, right: '0', variable: x }).roots;
+    const approximate = roots.some(({ value }) => NESTED_RADICAL.test(value));
+    const factors = roots.flatMap(root => {
+      const { re, im } = approximate && root.real ? { re: root.decimal, im: '0' } : OdeSolver.parts(approximate ? { ...root, approximate } : root);
+      const imaginary = evaluateNumeric(im);
+      if (imaginary < 0) return [];
+      return imaginary > 0
+        ? [{ text: toAlgebrite(cas(`expand((${x}-(${re}))^2+(${im})^2)`)), re, im, multiplicity: root.multiplicity }]
+        : [{ text: toAlgebrite(cas(`${x}-(${re})`)), re, im: '0', multiplicity: root.multiplicity }];
+    });
+    if (factors.reduce((total, { im, multiplicity }) => total + multiplicity * (im === '0' ? 1 : 2), 0) !== degree) {
+      throw new Error(`not every root of ${denominator} could be found`);
+    }
+    return { leading, factors, approximate };
+  }
+
+  static display(fraction: PartialFraction, x: string): string {
+    if (fraction.kind === 'linear') {
+      const { root, power, coefficient } = fraction;
+      return toAlgebrite(cas(`(${coefficient})/(${x}-(${root}))^${power}`));
+    }
+    const { re, im, power, linear, constant } = fraction;
+    const quadratic = cas(`expand((${x}-(${re}))^2+(${im})^2)`);
+    if (linear === '0') return toAlgebrite(cas(`(${constant})/(${quadratic})^${power}`));
+    return toAlgebrite(`(${cas(`(${linear})*${x}+(${constant})`)})/(${quadratic})${power > 1 ? `^${power}` : ''}`);
+  }
+
+  // Numerator and denominator of a rational function of x, with common factors cancelled
+  static lowestTerms(R: string, x: string, push?: Push): [string, string] {
+    const rational = cas(`rationalize(${R})`);
+    const [numerator, denominator] = [cas(`numerator(${rational})`), cas(`denominator(${rational})`)];
+    if (!isPolynomial(numerator, x) || !isPolynomial(denominator, x) || isFreeOf(denominator, x)) {
+      throw new Error(`expected a rational function of ${x}, a quotient of polynomials, but got ${R}`);
+    }
+    if (freeVariables(denominator).some(name => name !== x)) {
+      throw new Error(`the denominator ${denominator} needs numeric coefficients so that its roots can be found`);
+    }
+    // Bringing terms over a common denominator can leave factors that cancel
+    const common = PolynomialSolver.gcd(numerator, denominator, x);
+    if (common === '1') return [numerator, denominator];
+    const reduced: [string, string] = [cas(`quotient(${numerator},${common},${x})`), cas(`quotient(${denominator},${common},${x})`)];
+    push?.(`(${numerator})/(${denominator}) = (${reduced[0]})/(${reduced[1]})`,
+      `Cancel the common factor ${common} of the numerator and the denominator`, 'Cancellation');
+    return reduced;
+  }
+
+  static group(text: string): string {
+    return /^[\w.]+$/.test(text) ? text : `(${text})`;
+  }
+
+}
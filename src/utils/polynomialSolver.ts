@@ -0,0 +1,443 @@
+import type { CalculusSolution } from './calculusEngine';
+import { EquationSolver } from './equationSolver';
+import { OdeSolver } from './odeSolver';
+import { recordSteps, type Push } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { cas, evaluateNumeric, formatDecimal, isFreeOf, isPolynomial } from './expressionUtils';
+import { ExpressionParser, ParseError, type ExpressionNode } from './expressionParser';
+
+export type PolynomialOperation = 'factor' | 'expand' | 'divide' | 'synthetic' | 'gcd' | 'lcm' | 'bounds';
+
+export interface PolynomialSpec {
+  operation: PolynomialOperation;
+  polynomials: string[];
+  variable: string;
+}
+
+export interface RootBounds {
+  // Every complex root has |z| at most the Cauchy bound
+  radius: string;
+  // Integers bracketing the real roots, from the upper and lower bound tests
+  lower: number;
+  upper: number;
+  // Sign changes of p(x) and p(−x), the most positive and negative real roots there can be
+  positive: number;
+  negative: number;
+}
+
+// Accepted function names for each operation
+const OPERATIONS: Record<string, PolynomialOperation> = {
+  factor: 'factor',
+  expand: 'expand',
+  divide: 'divide',
+  polydiv: 'divide',
+  longdiv: 'divide',
+  synthetic: 'synthetic',
+  syntheticdiv: 'synthetic',
+  gcd: 'gcd',
+  polygcd: 'gcd',
+  lcm: 'lcm',
+  polylcm: 'lcm',
+  bounds: 'bounds',
+  rootbounds: 'bounds',
+};
+// Usage shown when the arguments do not fit, and how many polynomials each operation takes at least
+const USAGE: Record<PolynomialOperation, { text: string; operands: number }> = {
+  factor: { text: 'factor(p) or factor(p, x)', operands: 1 },
+  expand: { text: 'expand(p)', operands: 1 },
+  divide: { text: 'divide(p, d) or divide(p, d, x)', operands: 2 },
+  synthetic: { text: 'synthetic(p, r) or synthetic(p, x - r)', operands: 2 },
+  gcd: { text: 'gcd(p, q, ...) or gcd(p, q, x)', operands: 2 },
+  lcm: { text: 'lcm(p, q, ...) or lcm(p, q, x)', operands: 2 },
+  bounds: { text: 'bounds(p) or bounds(p, x)', operands: 1 },
+};
+// Largest power multiplied out term by term
+const MAX_POWER = 12;
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+export class PolynomialSolver {
+  static isPolynomialOperation(node: ExpressionNode): boolean {
+    return node.kind === 'call' && node.name in OPERATIONS;
+  }
+
+  static solve(expr: string, node: ExpressionNode): CalculusSolution {
+    const { operation, polynomials, variable } = this.spec(node);
+    const { steps, push, methods } = recordSteps();
+    const solution = (result: string, verified: CalculusSolution['verified']): CalculusSolution => ({
+      original: expr,
+      result,
+      steps,
+      type: 'Polynomial',
+      method: [...methods].join(' / '),
+      verified
+    });
+    const [p, d] = polynomials;
+
+    switch (operation) {
+      case 'factor': {
+        const result = this.factor(p, variable, push);
+        return solution(result, SolutionVerifier.factorization(p, result));
+      }
+      case 'expand': {
+        push(p, 'Multiply out every product and power, then collect like terms');
+        const result = this.expansion(node.kind === 'call' ? node.args[0] : node, push);
+        push(result, 'The expanded polynomial', 'Collecting Like Terms');
+        return solution(result, SolutionVerifier.expansion(p, result));
+      }
+      case 'divide': {
+        const { quotient, remainder } = this.longDivision(p, d, variable, push);
+        return solution(this.showDivision(quotient, remainder), SolutionVerifier.division(p, d, variable, quotient, remainder));
+      }
+      case 'synthetic': {
+        const { quotient, remainder, divisor } = this.syntheticDivision(p, d, variable, push);
+        return solution(this.showDivision(quotient, remainder), SolutionVerifier.division(p, divisor, variable, quotient, remainder));
+      }
+      case 'gcd':
+      case 'lcm': {
+        const result = polynomials.slice(1).reduce((combined, next) => (operation === 'gcd'
+          ? this.gcd(combined, next, variable, push)
+          : this.lcm(combined, next, variable, push)), p);
+        return solution(result, SolutionVerifier.divisibility(polynomials, variable, result, operation));
+      }
+      case 'bounds': {
+        const bounds = this.rootBounds(p, variable, push);
+        const { radius, lower, upper, positive, negative } = bounds;
+        const result = `real roots in [${lower}, ${upper}]; |z| ≤ ${radius} for every root; ${this.countRoots(positive)} positive and ${this.countRoots(negative)} negative real roots`;
+        return solution(result, SolutionVerifier.rootBounds(p, variable, bounds));
+      }
+    }
+  }
+
+  // The polynomials an operation applies to, with a trailing variable beyond the operands it needs taken as x
+  static spec(node: ExpressionNode): PolynomialSpec {
+    if (node.kind !== 'call' || !(node.name in OPERATIONS)) {
+      throw new ParseError('Expected factor(p), expand(p), divide(p, d), synthetic(p, r), gcd(p, q), lcm(p, q) or bounds(p)', node.position);
+    }
+    const operation = OPERATIONS[node.name];
+    const usage = USAGE[operation];
+    const last = node.args[node.args.length - 1];
+    const explicit = node.args.length > usage.operands && last?.kind === 'symbol';
+    const operands = explicit ? node.args.slice(0, -1) : node.args;
+    if (operands.length < usage.operands || (!['gcd', 'lcm'].includes(operation) && operands.length > usage.operands)) {
+      throw new ParseError(`Expected ${usage.text}`, node.position);
+    }
+    const polynomials = operands.map(operand => ExpressionParser.print(operand));
+    const variables = [...new Set(operands.flatMap(operand => ExpressionParser.variables(operand)))];
+    const variable = explicit && last.kind === 'symbol'
+      ? last.name
+      : variables.length === 1 || !variables.includes('x') ? variables[0] ?? 'x' : 'x';
+    if (operation !== 'expand') {
+      const operand = polynomials.find((polynomial, i) => !(operation === 'synthetic' && i === 1 && isFreeOf(polynomial, variable)) && !isPolynomial(polynomial, variable));
+      if (operand) throw new Error(`${operand} is not a polynomial in ${variable}`);
+    }
+    return { operation, polynomials, variable };
+  }
+
+  // Greatest common factor, then rational roots divided out one at a time, then what is left over the rationals
+  static factor(p: string, x: string, push: Push): string {
+    const expanded = cas(`expand(${p})`);
+    const degree = this.degree(expanded, x);
+    if (degree < 1) throw new Error(`${p} is constant in ${x}, so there is nothing to factor`);
+    const coefficients = this.coefficients(expanded, x);
+    const rationals = coefficients.map(coefficient => coefficient.match(/^(-?\d+)(?:\/(\d+))?$/));
+    const irrational = coefficients.find((_, k) => !rationals[k]);
+    if (irrational) throw new Error(`factoring over the rationals needs rational coefficients, but ${p} has the coefficient ${irrational}`);
+
+    // Clear denominators, then take out the integer GCD of the coefficients with the sign of the leading one
+    const scale = rationals.reduce((lcm, fraction) => lcm * Number(fraction?.[2] ?? 1) / gcd(lcm, Number(fraction?.[2] ?? 1)), 1);
+    const integers = rationals.map(fraction => Number(fraction?.[1]) * scale / Number(fraction?.[2] ?? 1));
+    const common = integers.reduce((g, n) => gcd(g, n), 0) * Math.sign(integers[degree]);
+    const content = cas(`${common}/${scale}`);
+    const lowest = coefficients.findIndex(coefficient => coefficient !== '0');
+    const monomial = lowest === 0 ? '' : lowest === 1 ? x : `${x}^${lowest}`;
+    let remaining = cas(`expand((${expanded})/((${content})*${x}^${lowest}))`);
+    if (content !== '1' || lowest > 0) {
+      const outside = [content === '1' ? '' : content === '-1' ? '-' : this.group(content), monomial].filter(Boolean).join('·').replace(/^-·/, '-');
+      push(`${expanded} = ${outside}·(${remaining})`,
+        `Take out the greatest common factor ${outside}${content === '1' ? '' : ', leaving integer coefficients with no common divisor'}`, 'Common Factor');
+    }
+
+    const factors = new Map<string, number>();
+    const add = (factor: string) => factors.set(factor, (factors.get(factor) ?? 0) + 1);
+    const theorem = this.degree(remaining, x) >= 2 ? EquationSolver.rationalCandidates(remaining, x) : null;
+    if (theorem) {
+      const { candidates, constant, leading } = theorem;
+      push(`${x} ∈ {${candidates.join(', ')}}`,
+        `Rational root theorem: a rational root p/q has p dividing the constant term ${constant} and q dividing the leading coefficient ${leading}`,
+        'Rational Root Theorem');
+      for (const candidate of candidates) {
+        while (this.degree(remaining, x) >= 2 && cas(`subst((${candidate}),${x},${remaining})`) === '0') {
+          const [numerator, denominator = '1'] = candidate.split('/');
+          const factor = cas(`${denominator}*${x}-(${numerator})`);
+          const quotient = cas(`quotient(${remaining},${factor},${x})`);
+          push(`${remaining} = (${factor})·(${quotient})`,
+            `${x} = ${candidate} makes it 0, so ${factor} is a factor; divide it out${denominator === '1' ? ' by synthetic division' : ''}`,
+            denominator === '1' ? 'Synthetic Division' : 'Polynomial Long Division');
+          add(factor);
+          remaining = quotient;
+        }
+      }
+    }
+
+    const rest = this.degree(remaining, x);
+    if (rest === 2) {
+      const [c, b, a] = this.coefficients(remaining, x);
+      const discriminant = cas(`(${b})^2-4*(${a})*(${c})`);
+      push(`b^2 - 4ac = ${discriminant}`,
+        `${remaining} has no rational roots, since its discriminant ${discriminant} is not the square of a rational, so it is irreducible over the rationals`,
+        'Discriminant');
+    } else if (rest >= 3) {
+      const split = this.biquadratic(remaining, x, push);
+      const parts = split ?? this.factorsOf(cas(`factor(${remaining},${x})`));
+      if (!split && parts.length > 1) {
+        push(`${remaining} = ${parts.map(part => `(${part})`).join('·')}`, `${remaining} has no rational roots but splits into factors of higher degree`, 'Computer Algebra');
+      }
+      if (parts.length === 1) {
+        push(remaining, rest === 3
+          ? `${remaining} is a cubic with no rational roots, so it has no linear factor and is irreducible over the rationals`
+          : `${remaining} has no rational roots and no factorization into lower-degree rational polynomials was found`, 'Rational Root Theorem');
+      }
+      parts.forEach(add);
+      remaining = '1';
+    }
+    if (remaining !== '1') add(remaining);
+
+    const product = [...factors].map(([factor, multiplicity]) => `(${factor})${multiplicity > 1 ? `^${multiplicity}` : ''}`);
+    const leadingFactors = [content === '1' ? '' : content === '-1' ? '-' : `${this.group(content)}*`, monomial ? `${monomial}${product.length ? '*' : ''}` : ''].join('');
+    const result = `${leadingFactors}${product.join('*')}`.replace(/\*$/, '') || '1';
+    push(`${expanded} = ${result}`, factors.size + (monomial ? 1 : 0) > 1 || [...factors.values()].some(m => m > 1) || content !== '1'
+      ? 'The complete factorization over the rationals'
+      : `${expanded} is irreducible over the rationals`, 'Factoring');
+    return result;
+  }
+
+  // a·x⁴ + b·x² + c as a quadratic in u = x², split when its discriminant is a rational square
+  static biquadratic(p: string, x: string, push: Push): string[] | null {
+    if (this.degree(p, x) !== 4) return null;
+    const [c, odd1, b, odd3, a] = this.coefficients(p, x);
+    if (odd1 !== '0' || odd3 !== '0') return null;
+    const discriminant = cas(`(${b})^2-4*(${a})*(${c})`);
+    const root = cas(`sqrt(${discriminant})`);
+    if (!/^\d+(\/\d+)?$/.test(root)) return null;
+    const factors = [cas(`(-(${b})+(${root}))/(2*(${a}))`), cas(`(-(${b})-(${root}))/(2*(${a}))`)].map(u => {
+      const [numerator, denominator = '1'] = u.split('/');
+      return cas(`${denominator}*${x}^2-(${numerator})`);
+    });
+    const factor = cas(`(${a})/((${cas(`coeff(${factors[0]},${x},2)`)})*(${cas(`coeff(${factors[1]},${x},2)`)}))`);
+    const split = factor === '1' ? factors : [factor, ...factors];
+    push(`${p} = ${split.map(part => `(${part})`).join('·')}`,
+      `Only even powers of ${x} appear, so with u = ${x}^2 it is the quadratic ${cas(`(${a})*u^2+(${b})*u+(${c})`)}, whose discriminant ${discriminant} is a perfect square`,
+      'Substitution');
+    return split;
+  }
+
+  // Multiply out sums of products and powers from the inside out
+  static expansion(node: ExpressionNode, push: Push): string {
+    if (node.kind === 'binary' && (node.operator === '+' || node.operator === '-')) {
+      return cas(`expand((${this.expansion(node.left, push)})${node.operator}(${this.expansion(node.right, push)}))`);
+    }
+    if (node.kind === 'unary' && node.operator === '-') return cas(`expand(-(${this.expansion(node.operand, push)}))`);
+    if (node.kind === 'binary' && node.operator === '*') return this.distribute(this.expansion(node.left, push), this.expansion(node.right, push), push);
+    if (node.kind === 'binary' && node.operator === '/' && ExpressionParser.variables(node.right).length === 0) {
+      return cas(`expand((${this.expansion(node.left, push)})/(${ExpressionParser.print(node.right)}))`);
+    }
+    if (node.kind === 'binary' && node.operator === '^') {
+      const n = Number(ExpressionParser.print(node.right));
+      const base = this.expansion(node.left, push);
+      const terms = this.terms(base);
+      if (!Number.isInteger(n) || n < 2 || terms.length < 2) return cas(`(${base})^(${ExpressionParser.print(node.right)})`);
+      if (n > MAX_POWER) throw new Error(`multiplying out a power above ${MAX_POWER} term by term is too long to show`);
+      if (terms.length === 2) {
+        const [a, b] = terms;
+        const binomial = Array.from({ length: n + 1 }, (_, k) => cas(`choose(${n},${k})*(${a})^${n - k}*(${b})^${k}`));
+        const result = cas(`expand((${base})^${n})`);
+        push(`(${base})^${n} = ${this.sum(binomial)}${this.sum(binomial) === result ? '' : ` = ${result}`}`,
+          `Binomial theorem: (a + b)^n = Σ C(n, k)·a^(n-k)·b^k with a = ${a}, b = ${b} and n = ${n}`, 'Binomial Theorem');
+        return result;
+      }
+      return Array.from({ length: n - 1 }).reduce<string>(product => this.distribute(product, base, push), base);
+    }
+    return cas(ExpressionParser.print(node));
+  }
+
+  // Every term of one factor times every term of the other, then like terms collected
+  static distribute(left: string, right: string, push: Push): string {
+    const result = cas(`expand((${left})*(${right}))`);
+    const [a, b] = [this.terms(left), this.terms(right)];
+    if (a.length === 1 && b.length === 1) return result;
+    const products = this.sum(a.flatMap(p => b.map(q => cas(`(${p})*(${q})`))));
+    push(`(${left})·(${right}) = ${products}${products === result ? '' : ` = ${result}`}`,
+      `Multiply each term of ${left} by each term of ${right}${products === result ? '' : ', then collect like terms'}`, 'Distributive Property');
+    return result;
+  }
+
+  // Divide the leading term, multiply back and subtract, until the remainder's degree drops below the divisor's
+  static longDivision(p: string, d: string, x: string, push: Push): { quotient: string; remainder: string } {
+    const [dividend, divisor] = [cas(`expand(${p})`), cas(`expand(${d})`)];
+    if (divisor === '0') throw new Error('division by the zero polynomial');
+    const degree = this.degree(divisor, x);
+    const leading = cas(`coeff(${divisor},${x},${degree})`);
+    let quotient = '0';
+    let remainder = dividend;
+    for (let guard = this.degree(dividend, x) + 1; remainder !== '0' && this.degree(remainder, x) >= degree && guard >= 0; guard--) {
+      const power = this.degree(remainder, x) - degree;
+      const term = cas(`(${cas(`coeff(${remainder},${x},${power + degree})`)})/(${leading})*${x}^${power}`);
+      const product = cas(`expand((${term})*(${divisor}))`);
+      const next = cas(`expand((${remainder})-(${product}))`);
+      push(`${remainder} - ${this.group(term)}·(${divisor}) = ${next}`,
+        `Divide the leading term of ${remainder} by the leading term of ${divisor} to get ${term}, multiply it by the divisor and subtract`,
+        'Polynomial Long Division');
+      quotient = cas(`(${quotient})+(${term})`);
+      remainder = next;
+    }
+    push(`${dividend} = (${divisor})·(${quotient})${this.plus(remainder)}`,
+      remainder === '0'
+        ? `The remainder is 0, so ${divisor} divides ${dividend} exactly`
+        : `Stop once the remainder's degree is below the divisor's ${degree}: the quotient is ${quotient} and the remainder ${remainder}`,
+      'Polynomial Long Division');
+    return { quotient, remainder };
+  }
+
+  // Division by x − r on the coefficients alone: bring the first down, then multiply by r and add along the row
+  static syntheticDivision(p: string, d: string, x: string, push: Push): { quotient: string; remainder: string; divisor: string } {
+    let r = d;
+    if (!isFreeOf(d, x)) {
+      const divisor = cas(`expand(${d})`);
+      if (this.degree(divisor, x) !== 1 || cas(`coeff(${divisor},${x},1)`) !== '1') {
+        throw new Error(`synthetic division needs a divisor ${x} - r, so use divide(p, d) for ${d}`);
+      }
+      r = cas(`-(${cas(`coeff(${divisor},${x},0)`)})`);
+    }
+    const dividend = cas(`expand(${p})`);
+    const degree = this.degree(dividend, x);
+    if (degree < 1) throw new Error(`${p} has degree 0 in ${x}, so there is nothing to divide`);
+    const coefficients = this.coefficients(dividend, x).reverse();
+    push(`${r} | ${coefficients.join('  ')}`, `Write r = ${r} beside the coefficients of ${dividend} from ${x}^${degree} down, with 0 for every missing power`, 'Synthetic Division');
+
+    const row = [coefficients[0]];
+    for (let k = 1; k <= degree; k++) {
+      const product = cas(`(${r})*(${row[k - 1]})`);
+      row.push(cas(`(${coefficients[k]})+(${product})`));
+      push(row.join('  '), `${k === 1 ? `Bring down ${coefficients[0]}, then m` : 'M'}ultiply ${row[k - 1]} by ${r} and add ${product} to ${coefficients[k]}, giving ${row[k]}`, 'Synthetic Division');
+    }
+    const remainder = row[degree];
+    const quotient = cas(row.slice(0, degree).map((coefficient, k) => `(${coefficient})*${x}^${degree - 1 - k}`).join('+'));
+    const divisor = cas(`${x}-(${r})`);
+    push(`${dividend} = (${divisor})·(${quotient})${this.plus(remainder)}`,
+      `The last entry ${remainder} is the remainder, which is also the value at ${x} = ${r} by the remainder theorem, and the others are the coefficients of the quotient${remainder === '0' ? `; ${r} is a root` : ''}`,
+      'Synthetic Division');
+    return { quotient, remainder, divisor };
+  }
+
+  // Euclid's algorithm on polynomials in x, made monic, recording each division when push is given
+  static gcd(a: string, b: string, x: string, push?: Push): string {
+    let [p, q] = this.degree(a, x) >= this.degree(b, x) ? [a, b] : [b, a];
+    for (let guard = this.degree(q, x) + 1; q !== '0' && guard >= 0; guard--) {
+      const quotient = cas(`quotient(${p},${q},${x})`);
+      const remainder = cas(`expand((${p})-(${quotient})*(${q}))`);
+      push?.(`${p} = (${q})·${this.group(quotient)}${this.plus(remainder)}`,
+        remainder === '0' ? `The remainder is 0, so the last divisor ${q} is a greatest common divisor` : `Divide and carry the remainder ${remainder} into the next division`,
+        'Euclidean Algorithm');
+      [p, q] = [q, remainder];
+    }
+    if (q !== '0') return '1';
+    const monic = cas(`expand((${p})/coeff(${p},${x},deg(${p},${x})))`);
+    if (monic !== p) push?.(`gcd = ${monic}`, `Divide by the leading coefficient so that the GCD is monic${monic === '1' ? '; the polynomials are coprime' : ''}`, 'Euclidean Algorithm');
+    return monic;
+  }
+
+  // lcm(p, q) = p·q / gcd(p, q), made monic
+  static lcm(a: string, b: string, x: string, push: Push): string {
+    const common = this.gcd(a, b, x, push);
+    const product = cas(`expand((${a})*(${b}))`);
+    const multiple = cas(`quotient(${product},${common},${x})`);
+    const result = cas(`expand((${multiple})/coeff(${multiple},${x},deg(${multiple},${x})))`);
+    push(`lcm = (${a})·(${b})/(${common}) = ${result}`,
+      `The least common multiple is the product divided by the GCD${result === multiple ? '' : ', divided by its leading coefficient to make it monic'}`, 'Least Common Multiple');
+    return result;
+  }
+
+  // The Cauchy bound on every root, integer bounds on the real roots by synthetic division, and Descartes' rule of signs
+  static rootBounds(p: string, x: string, push: Push): RootBounds {
+    const expanded = cas(`expand(${p})`);
+    const degree = this.degree(expanded, x);
+    if (degree < 1) throw new Error(`${p} is constant in ${x}, so it has no roots to bound`);
+    const coefficients = this.coefficients(expanded, x);
+    const values = coefficients.map(coefficient => evaluateNumeric(coefficient));
+    if (values.some(value => !Number.isFinite(value))) throw new Error(`root bounds need numeric coefficients, but ${p} has symbolic ones`);
+
+    const leading = coefficients[degree];
+    const largest = values.slice(0, degree).reduce((best, value, k) => (Math.abs(value) > Math.abs(values[best]) ? k : best), 0);
+    const radius = cas(`1+abs(${coefficients[largest]})/abs(${leading})`);
+    push(`|z| ≤ 1 + ${this.group(cas(`abs(${coefficients[largest]})`))}/${this.group(cas(`abs(${leading})`))} = ${radius}`,
+      `Cauchy bound: every root, real or complex, satisfies |z| ≤ 1 + max|aₖ|/|aₙ| over the lower coefficients, the largest of which here is ${coefficients[largest]}`,
+      'Cauchy Bound');
+
+    // Synthetic division by x − c, scaled so that the leading coefficient is positive
+    const sign = Math.sign(values[degree]);
+    const row = (c: number) => values.slice().reverse().reduce<number[]>((entries, a) => [...entries, sign * a + c * (entries[entries.length - 1] ?? 0)], []);
+    const limit = Math.ceil(evaluateNumeric(radius));
+    let upper = 0;
+    while (upper < limit && row(upper).some(entry => entry < 0)) upper++;
+    push(`${upper} | ${row(upper).map(entry => formatDecimal(entry)).join('  ')}`,
+      `Upper bound test: dividing by ${x} - ${upper} leaves no negative entry in the bottom row, so no real root exceeds ${upper}`, 'Upper Bound Test');
+    // Entries alternate in sign, with a 0 counting as whichever sign its place needs
+    const alternates = (entries: number[]) => entries.every((entry, k) => entry === 0 || Math.sign(entry) === (k % 2 ? -1 : 1));
+    let lower = 0;
+    while (lower > -limit && !alternates(row(lower))) lower--;
+    push(`${lower} | ${row(lower).map(entry => formatDecimal(entry)).join('  ')}`,
+      `Lower bound test: dividing by ${x} - (${lower}) leaves a bottom row alternating in sign, so no real root is below ${lower}`, 'Lower Bound Test');
+
+    const changes = (signs: number[]) => signs.filter(s => s !== 0).reduce((count, s, k, nonzero) => count + (k > 0 && s !== nonzero[k - 1] ? 1 : 0), 0);
+    const positive = changes(values.map(Math.sign));
+    const negative = changes(values.map((value, k) => Math.sign(value) * (k % 2 ? -1 : 1)));
+    push(`p(${x}): ${positive} sign change${positive === 1 ? '' : 's'}, p(-${x}): ${negative} sign change${negative === 1 ? '' : 's'}`,
+      `Descartes' rule of signs: there are ${this.countRoots(positive)} positive and ${this.countRoots(negative)} negative real roots, counted with multiplicity`,
+      "Descartes' Rule of Signs");
+    return { radius, lower, upper, positive, negative };
+  }
+
+  // V, V − 2, …, down to 0 or 1, the possible counts from V sign changes
+  static countRoots(changes: number): string {
+    const counts = Array.from({ length: Math.floor(changes / 2) + 1 }, (_, k) => changes - 2 * k);
+    return counts.length > 1 ? `${counts.slice(0, -1).join(', ')} or ${counts[counts.length - 1]}` : String(changes);
+  }
+
+  static showDivision(quotient: string, remainder: string): string {
+    return `quotient ${quotient}, remainder ${remainder}`;
+  }
+
+  static degree(p: string, x: string): number {
+    return p === '0' ? -1 : Number(cas(`deg(${p},${x})`));
+  }
+
+  // Coefficients from the constant term up, with 0 for every missing power
+  static coefficients(p: string, x: string): string[] {
+    return Array.from({ length: this.degree(p, x) + 1 }, (_, k) => cas(`coeff(${p},${x},${k})`));
+  }
+
+  // The factors of a product printed by the CAS
+  static factorsOf(product: string): string[] {
+    const factors = (node: ExpressionNode): ExpressionNode[] => (node.kind === 'binary' && node.operator === '*' ? [...factors(node.left), ...factors(node.right)] : [node]);
+    return factors(ExpressionParser.parse(product)).map(part => cas(ExpressionParser.print(part)));
+  }
+
+  static terms(p: string): string[] {
+    return OdeSolver.terms(ExpressionParser.parse(p)).map(term => ExpressionParser.print(term));
+  }
+
+  // + r after a product, written − c for a negative number and left out for 0
+  static plus(remainder: string): string {
+    if (remainder === '0') return '';
+    return /^-[\w./]+$/.test(remainder) ? ` - ${remainder.slice(1)}` : ` + ${this.group(remainder)}`;
+  }
+
+  static sum(terms: string[]): string {
+    return terms.join(' + ').replace(/\+ -/g, '- ');
+  }
+
+  static group(text: string): string {
+    return /^[\w.]+$/.test(text) ? text : `(${text})`;
+  }
+}
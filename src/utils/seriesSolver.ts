@@ -0,0 +1,605 @@
+import type { CalculusSolution, CalculusStep } from './calculusEngine';
+import { IntegralTracer } from './integralTracer';
+import { LimitSolver, type LimitValue } from './limitSolver';
+import { recordSteps, type Push } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { cas, displayValue, evaluateNumeric, formatDecimal, freeVariables, isFreeOf, isInfinite } from './expressionUtils';
+import { ExpressionParser, ParseError, type ExpressionNode } from './expressionParser';
+
+export interface SeriesSpec {
+  term: string;
+  index: string;
+  start: string;
+  upper: string;
+}
+
+// The test that settled convergence, with the exact sum when one is known
+interface TestOutcome {
+  converges: boolean;
+  test: string;
+  sum?: string;
+  // How an alternating or sign-changing series converges
+  mode?: 'absolutely' | 'conditionally';
+}
+
+// Largest index shift looked for when matching the terms of a telescoping series
+const MAX_SHIFT = 4;
+// Terms checked for being defined from the starting index, and for monotonicity
+const CHECKED_TERMS = 300;
+const MAX_FINITE_TERMS = 200;
+// Offsets from the starting index at which a_{n+1}/a_n is sampled before asking the CAS whether it is constant
+const RATIO_SAMPLES = [1, 2, 5, 9];
+// Functions bounded by 1 in absolute value, dropped from a numerator for the comparison test
+const BOUNDED_FUNCTIONS = new Set(['sin', 'cos']);
+
+export class SeriesSolver {
+  static isSeries(node: ExpressionNode): boolean {
+    return ExpressionParser.head(node).kind === 'sum' || (node.kind === 'call' && node.name === 'series');
+  }
+
+  // Σ_{n=a}^{∞} f, sum(f, n, a, infinity) or series(f[, n[, a]])
+  static spec(node: ExpressionNode): SeriesSpec {
+    const head = ExpressionParser.head(node);
+    if (head.kind === 'sum') {
+      return this.validate({
+        term: ExpressionParser.print(head.body),
+        index: head.variable,
+        start: ExpressionParser.print(head.lower),
+        upper: ExpressionParser.print(head.upper)
+      });
+    }
+
+    if (node.kind !== 'call' || node.name !== 'series' || !node.args.length || node.args.length > 3) {
+      throw new ParseError('Expected Σ_{n=1}^{∞} a_n, sum(a_n, n, 1, infinity) or series(a_n, n, 1)', node.position);
+    }
+    const [body, index, start] = node.args;
+    if (index && index.kind !== 'symbol') {
+      throw new ParseError('Expected the index of summation as a name such as n', index.position);
+    }
+    const variables = ExpressionParser.variables(body);
+    return this.validate({
+      term: ExpressionParser.print(body),
+      index: index?.kind === 'symbol' ? index.name : variables.length === 1 ? variables[0] : 'n',
+      start: start ? ExpressionParser.print(start) : '1',
+      upper: 'infinity'
+    });
+  }
+
+  static validate(spec: SeriesSpec): SeriesSpec {
+    if (!Number.isInteger(evaluateNumeric(spec.start))) {
+      throw new Error('The starting index must be an integer');
+    }
+    const others = freeVariables(spec.term).filter(name => name !== spec.index);
+    if (others.length) {
+      throw new Error(`The terms may only depend on the index ${spec.index}, but they also mention ${others.join(', ')}`);
+    }
+    if (!isInfinite(spec.upper) && !Number.isInteger(evaluateNumeric(spec.upper))) {
+      throw new Error('The upper limit must be an integer or ∞');
+    }
+    return spec;
+  }
+
+  static solve(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    const spec = this.spec(node);
+    const { index: n, start } = spec;
+    const term = cas(spec.term);
+    const first = evaluateNumeric(start);
+
+    const { steps, push } = recordSteps();
+    const series = `Σ_{${n}=${start}}^${displayValue(spec.upper)} ${term}`;
+    push(series, `The general term is a_${n} = ${term}`);
+
+    const undefinedAt = this.firstUndefined(term, n, first, isInfinite(spec.upper) ? CHECKED_TERMS : evaluateNumeric(spec.upper) - first + 1);
+    if (undefinedAt !== null) {
+      throw new Error(`the term a_${undefinedAt} is undefined`);
+    }
+
+    if (!isInfinite(spec.upper)) {
+      return this.finite(expr, spec, term, series, steps, push);
+    }
+
+    const outcome = this.analyze(term, n, first, push);
+    const verdict = outcome === null
+      ? 'Inconclusive'
+      : outcome.sum !== undefined
+        ? `Converges to ${this.withDecimal(outcome.sum)}`
+        : outcome.converges ? `Converges${outcome.mode ? ` ${outcome.mode}` : ''}` : 'Diverges';
+    push(`${series}: ${verdict}`, outcome === null
+      ? 'None of the tests decides whether the series converges'
+      : `Conclusion (${outcome.test})`);
+
+    return {
+      original: expr,
+      result: verdict,
+      steps,
+      type: 'Series',
+      method: outcome?.test ?? 'Convergence Tests',
+      verified: outcome?.sum !== undefined
+        ? SolutionVerifier.series(term, n, first, outcome.sum)
+        : SolutionVerifier.unverified(this.partialSums(term, n, first))
+    };
+  }
+
+  // Add up a finite sum term by term
+  static finite(expr: string, spec: SeriesSpec, term: string, series: string, steps: CalculusStep[], push: Push): CalculusSolution {
+    const [first, last] = [evaluateNumeric(spec.start), evaluateNumeric(spec.upper)];
+    if (last - first + 1 > MAX_FINITE_TERMS) {
+      throw new Error(`finite sums are added term by term, so at most ${MAX_FINITE_TERMS} terms are supported`);
+    }
+    const terms = Array.from({ length: Math.max(0, last - first + 1) }, (_, i) => cas(`subst(${first + i},${spec.index},${term})`));
+    const shown = terms.length > 6 ? [...terms.slice(0, 3), '…', ...terms.slice(-2)] : terms;
+    push(`${series} = ${shown.map(value => (value.startsWith('-') ? `(${value})` : value)).join(' + ') || '0'}`,
+      `Write out the terms for ${spec.index} = ${first}, …, ${last}`);
+    const sum = terms.length ? cas(terms.map(value => `(${value})`).join('+')) : '0';
+    push(`${series} = ${this.withDecimal(sum)}`, 'Add the terms');
+    return {
+      original: expr,
+      result: sum,
+      steps,
+      type: 'Series',
+      method: 'Direct Summation',
+      verified: SolutionVerifier.series(term, spec.index, first, sum, last)
+    };
+  }
+
+  // Run the tests in order: divergence, geometric, telescoping, then the tests for positive or alternating terms
+  static analyze(term: string, n: string, start: number, push: Push): TestOutcome | null {
+    const { sign, magnitude } = this.splitSign(term, n, start);
+    const size = sign === null ? term : magnitude;
+
+    const divergence = this.divergence(size, n, sign !== null, push);
+    if (divergence) return divergence;
+
+    const exact = this.geometric(term, n, start, push) ?? this.telescoping(term, n, start, push);
+    if (exact) return exact;
+
+    if (sign !== null) {
+      push(`a_${n} = (-1)^${this.group(sign)}·${this.group(magnitude)}`,
+        `The terms alternate in sign; test Σ |a_${n}| = Σ ${magnitude} first, since absolute convergence implies convergence`);
+      const absolute = this.positive(magnitude, n, start, push);
+      if (absolute?.converges) return { ...absolute, mode: 'absolutely' };
+      return this.alternating(magnitude, n, start, absolute !== null, push);
+    }
+
+    const signs = this.signs(term, n, start);
+    if (signs > 0) return this.positive(term, n, start, push);
+    if (signs < 0) {
+      const negated = cas(`-(${term})`);
+      push(`Σ a_${n} = -Σ ${this.group(negated)}`, 'The terms are negative, so factor out -1 and test the positive series');
+      return this.positive(negated, n, start, push);
+    }
+
+    // Terms of varying sign: bound |a_n| and look for absolute convergence
+    const bound = this.bound(term, n);
+    if (bound === null || this.signs(bound, n, start) <= 0) {
+      push(`a_${n} = ${term}`, 'The terms change sign irregularly, and no bound on |a_n| is available');
+      return null;
+    }
+    push(`|a_${n}| ≤ ${bound}`, `Each of ${[...BOUNDED_FUNCTIONS].join(', ')} is at most 1 in absolute value`, 'Direct Comparison Test');
+    const compared = this.positive(bound, n, start, push, false);
+    if (!compared?.converges) return null;
+    push(`Σ |a_${n}| ≤ Σ ${bound} < ∞`, 'Σ |a_n| converges by comparison, so the series converges absolutely', 'Direct Comparison Test');
+    return { converges: true, test: 'Direct Comparison Test', mode: 'absolutely' };
+  }
+
+  // Tests for a series of positive terms, from the most specific to the most general
+  static positive(term: string, n: string, start: number, push: Push, compare = true): TestOutcome | null {
+    return this.pSeries(term, n, push)
+      ?? this.ratio(term, n, push)
+      ?? this.root(term, n, push)
+      ?? (compare ? this.boundedComparison(term, n, start, push) : null)
+      ?? this.limitComparison(term, n, push)
+      ?? this.integral(term, n, start, push);
+  }
+
+  // lim aₙ ≠ 0 (or no limit) means divergence; a zero limit decides nothing
+  static divergence(term: string, n: string, absolute: boolean, push: Push): TestOutcome | null {
+    const limit = this.limit(term, n);
+    const shown = `lim ${n}→∞ ${absolute ? `|a_${n}|` : term}`;
+    if (limit === null) {
+      push(`${shown} = ?`, 'Divergence test: the limit of the terms could not be determined, so this test is skipped', 'Divergence Test');
+      return null;
+    }
+    if (limit.kind === 'finite' && this.isZero(limit.value)) {
+      push(`${shown} = 0`, 'Divergence test: the terms tend to 0, so this test is inconclusive', 'Divergence Test');
+      return null;
+    }
+    push(`${shown} ${LimitSolver.equals(limit)}`, limit.kind === 'none'
+      ? 'Divergence test: the terms have no limit, so they do not tend to 0 and the series diverges'
+      : 'Divergence test: the terms do not tend to 0, so the series diverges', 'Divergence Test');
+    return { converges: false, test: 'Divergence Test' };
+  }
+
+  // A constant ratio r between consecutive terms: Σ converges to a/(1 − r) exactly when |r| < 1
+  static geometric(term: string, n: string, start: number, push: Push): TestOutcome | null {
+    // A ratio that varies at sampled indices rules the test out; the CAS can take seconds to simplify a ratio of rational terms
+    const ratios = RATIO_SAMPLES
+      .map(offset => evaluateNumeric(term, { [n]: start + offset + 1 }) / evaluateNumeric(term, { [n]: start + offset }))
+      .filter(value => Number.isFinite(value));
+    if (ratios.length >= 2 && ratios.some(value => Math.abs(value - ratios[0]) > 1e-9 * Math.max(1, Math.abs(ratios[0])))) return null;
+
+    const ratio = this.tryCas(`simplify(${this.shift(term, n, 1)}/(${term}))`);
+    if (ratio === null || !isFreeOf(ratio, n) || !Number.isFinite(evaluateNumeric(ratio))) return null;
+
+    push(`a_{${n}+1}/a_${n} = ${ratio}`, `Consecutive terms have the constant ratio r = ${ratio}, so the series is geometric`, 'Geometric Series');
+    const r = evaluateNumeric(ratio);
+    if (Math.abs(r) >= 1) {
+      push(`|r| = ${formatDecimal(Math.abs(r))} ≥ 1`, 'A geometric series with |r| ≥ 1 diverges', 'Geometric Series');
+      return { converges: false, test: 'Geometric Series' };
+    }
+    const first = cas(`subst(${start},${n},${term})`);
+    const sum = cas(`(${first})/(1-(${ratio}))`);
+    push(`S = a_${start}/(1 − r) = ${this.group(first)}/(1 − ${this.group(ratio)}) = ${sum}`,
+      `|r| = ${displayValue(cas(`abs(${ratio})`))} < 1, so the series converges to its first term over 1 − r`, 'Geometric Series');
+    return { converges: true, test: 'Geometric Series', sum };
+  }
+
+  // aₙ = Σ cᵢ·g(n + kᵢ) with Σ cᵢ = 0: the partial sums collapse to a few terms at either end
+  static telescoping(term: string, n: string, start: number, push: Push): TestOutcome | null {
+    const expanded = this.tryCas(`expand(${term},${n})`);
+    if (expanded === null) return null;
+    const terms = this.terms(expanded);
+    if (terms.length < 2) return null;
+
+    const [g] = terms;
+    const shifts = [0, ...Array.from({ length: MAX_SHIFT }, (_, i) => [i + 1, -(i + 1)]).flat()];
+    const parts = new Map<number, string>();
+    for (const part of terms) {
+      const match = shifts
+        .map(shift => ({ shift, coefficient: this.tryCas(`simplify((${part})/(${this.shift(g, n, shift)}))`) }))
+        .find(({ coefficient }) => coefficient !== null && coefficient !== '0' && isFreeOf(coefficient, n));
+      if (!match) return null;
+      parts.set(match.shift, cas(`(${parts.get(match.shift) ?? '0'})+(${match.coefficient})`));
+    }
+    if (parts.size < 2 || cas([...parts.values()].map(c => `(${c})`).join('+')) !== '0') return null;
+
+    // Only g(m) near either end of n = start, …, N survives; each keeps the coefficients of the shifts that reach it
+    const total = n === 'N' ? 'M' : 'N';
+    const keys = [...parts.keys()];
+    const [low, high] = [Math.min(...keys), Math.max(...keys)];
+    const survivors: string[] = [];
+    try {
+      for (let m = start + low; m < start + high; m++) {
+        const coefficient = cas(keys.filter(k => k <= m - start).map(k => `(${parts.get(k)})`).join('+') || '0');
+        if (coefficient !== '0') survivors.push(cas(`(${coefficient})*(${this.shift(g, n, m, true)})`));
+      }
+    } catch {
+      return null;
+    }
+    for (let j = low + 1; j <= high; j++) {
+      const coefficient = cas(keys.filter(k => k >= j).map(k => `(${parts.get(k)})`).join('+') || '0');
+      if (coefficient !== '0') survivors.push(`(${coefficient})*(${cas(`subst(${total}+${j},${n},${g})`)})`);
+    }
+    const partial = cas(survivors.map(survivor => `(${survivor})`).join('+') || '0');
+
+    push(`a_${n} = ${expanded}`, 'Split the term into pieces that are shifts of one another', 'Telescoping Series');
+    push(`S_${total} = Σ_{${n}=${start}}^${total} a_${n} = ${partial}`,
+      'Consecutive pieces cancel, leaving only the first and last few', 'Telescoping Series');
+    const limit = this.limit(partial, total);
+    if (limit === null || limit.kind === 'none') return null;
+    push(`S = lim ${total}→∞ S_${total} ${LimitSolver.equals(limit)}`, limit.kind === 'finite'
+      ? 'The partial sums converge, so the series converges to their limit'
+      : 'The partial sums grow without bound, so the series diverges', 'Telescoping Series');
+    return limit.kind === 'finite'
+      ? { converges: true, test: 'Telescoping Series', ...(limit.approximate ? {} : { sum: limit.value }) }
+      : { converges: false, test: 'Telescoping Series' };
+  }
+
+  // aₙ = C/nᵖ converges exactly when p > 1
+  static pSeries(term: string, n: string, push: Push): TestOutcome | null {
+    const power = this.tryCas(`simplify(-${n}*d(${term},${n})/(${term}))`);
+    if (power === null || !isFreeOf(power, n) || !Number.isFinite(evaluateNumeric(power))) return null;
+
+    const p = evaluateNumeric(power);
+    const coefficient = cas(`simplify((${term})*${n}^(${power}))`);
+    push(`Σ ${term}${evaluateNumeric(coefficient) === 1 ? '' : ` = ${this.group(coefficient)}·Σ 1/${this.power(n, power)}`}`,
+      `p-series with p = ${power}: Σ 1/${n}^p converges exactly when p > 1, and here p ${p > 1 ? '>' : '≤'} 1`, 'p-Series Test');
+    return { converges: p > 1, test: 'p-Series Test' };
+  }
+
+  // L = lim aₙ₊₁/aₙ: L < 1 converges, L > 1 diverges; tried for factorials and exponentials
+  static ratio(term: string, n: string, push: Push): TestOutcome | null {
+    const node = ExpressionParser.parse(term);
+    const suited = ExpressionParser.nodes(node).some(child =>
+      (child.kind === 'call' && child.name === 'factorial') ||
+      (child.kind === 'binary' && child.operator === '^' && ExpressionParser.mentions(child.right, n) && !ExpressionParser.mentions(child.left, n)));
+    if (!suited) return null;
+
+    const ratio = this.tryCas(`simplify(${this.shift(term, n, 1)}/(${term}))`);
+    const limit = ratio === null ? null : this.limit(this.combinePowers(ratio), n);
+    if (limit === null || limit.kind === 'none') return null;
+    return this.decide(`lim ${n}→∞ a_{${n}+1}/a_${n} = lim ${n}→∞ ${ratio}`, limit, 'Ratio Test', push);
+  }
+
+  // L = lim ⁿ√aₙ: L < 1 converges, L > 1 diverges; tried when n appears in an exponent over a base that varies with n
+  static root(term: string, n: string, push: Push): TestOutcome | null {
+    const node = ExpressionParser.parse(term);
+    const suited = ExpressionParser.nodes(node).some(child =>
+      child.kind === 'binary' && child.operator === '^' && ExpressionParser.mentions(child.right, n) && ExpressionParser.mentions(child.left, n));
+    if (!suited) return null;
+
+    const root = this.tryCas(this.nthRoot(node, n));
+    const limit = root === null ? null : this.limit(root, n);
+    if (limit === null || limit.kind === 'none') return null;
+    return this.decide(`lim ${n}→∞ (a_${n})^(1/${n}) = lim ${n}→∞ ${root}`, limit, 'Root Test', push);
+  }
+
+  // Shared conclusion of the ratio and root tests
+  static decide(setup: string, limit: LimitValue, test: string, push: Push): TestOutcome | null {
+    const value = limit.kind === 'finite' ? evaluateNumeric(limit.value) : Infinity;
+    if (Math.abs(value - 1) < 1e-9) {
+      push(`${setup} = 1`, `${test}: L = 1, so this test is inconclusive`, test);
+      return null;
+    }
+    const converges = value < 1;
+    push(`${setup} ${LimitSolver.equals(limit)}`, `${test}: L ${converges ? '< 1, so the series converges' : '> 1, so the series diverges'}`, test);
+    return { converges, test };
+  }
+
+  // 0 ≤ aₙ ≤ bₙ with sin and cos in the numerator replaced by 1, and Σ bₙ convergent
+  static boundedComparison(term: string, n: string, start: number, push: Push): TestOutcome | null {
+    const bound = this.bound(term, n);
+    if (bound === null || this.signs(bound, n, start) <= 0) return null;
+
+    push(`0 < a_${n} ≤ ${bound}`, `Each of ${[...BOUNDED_FUNCTIONS].join(', ')} is at most 1, so compare with Σ ${bound}`, 'Direct Comparison Test');
+    const compared = this.positive(bound, n, start, push, false);
+    if (!compared?.converges) return null;
+    push(`Σ a_${n} ≤ Σ ${bound} < ∞`, 'The larger series converges, so the series converges', 'Direct Comparison Test');
+    return { converges: true, test: 'Direct Comparison Test' };
+  }
+
+  // Compare with Σ 1/nᵖ for p = lim −n·aₙ'/aₙ, the power at which the terms decay
+  static limitComparison(term: string, n: string, push: Push): TestOutcome | null {
+    const decay = this.tryCas(`simplify(-${n}*d(${term},${n})/(${term}))`);
+    const limit = decay === null ? null : this.limit(decay, n);
+    if (limit === null || limit.kind !== 'finite') return null;
+    const power = limit.approximate ? formatDecimal(evaluateNumeric(limit.value), 4) : limit.value;
+    const p = evaluateNumeric(power);
+    if (!(p > 0)) return null;
+
+    const comparison = (q: string) => ({ q, limit: this.limit(`(${term})*${n}^(${q})`, n) });
+    const { limit: ratio } = comparison(power);
+    if (ratio === null || ratio.kind === 'none') return null;
+    const setup = (q: string, value: LimitValue) => `lim ${n}→∞ a_${n}/(1/${this.power(n, q)}) ${LimitSolver.equals(value)}`;
+    const pSeries = (q: number) => `Σ 1/${n}^p ${q > 1 ? 'converges' : 'diverges'} (p-series, p ${q > 1 ? '>' : '≤'} 1)`;
+
+    if (ratio.kind === 'finite' && !this.isZero(ratio.value)) {
+      push(setup(power, ratio), `Limit comparison with Σ 1/${this.power(n, power)}: the limit is finite and positive, and ${pSeries(p)}`, 'Limit Comparison Test');
+      return { converges: p > 1, test: 'Limit Comparison Test' };
+    }
+    const zero = ratio.kind === 'finite';
+    if (zero ? p > 1 : p <= 1) {
+      push(setup(power, ratio), `Limit comparison with Σ 1/${this.power(n, power)}: the limit is ${zero ? '0' : '∞'} and ${pSeries(p)}, so the series ${zero ? 'converges' : 'diverges'} as well`, 'Limit Comparison Test');
+      return { converges: zero, test: 'Limit Comparison Test' };
+    }
+    if (p === 1) return null;
+
+    // The terms decay slightly faster (or slower) than 1/nᵖ: compare directly with a power between p and 1
+    const { q, limit: between } = comparison(cas(`(1+(${power}))/2`));
+    if (between === null || between.kind === 'none' || (between.kind === 'finite' && this.isZero(between.value)) !== !zero) return null;
+    push(setup(q, between), zero
+      ? `So a_${n} ≥ 1/${this.power(n, q)} for large ${n}, and Σ 1/${this.power(n, q)} diverges (p-series, p ≤ 1)`
+      : `So a_${n} ≤ 1/${this.power(n, q)} for large ${n}, and Σ 1/${this.power(n, q)} converges (p-series, p > 1)`, 'Direct Comparison Test');
+    return { converges: !zero, test: 'Direct Comparison Test' };
+  }
+
+  // f(x) = aₓ positive and decreasing: Σ aₙ and ∫ f dx converge or diverge together
+  static integral(term: string, n: string, start: number, push: Push): TestOutcome | null {
+    const from = this.decreasingFrom(term, n, start);
+    if (from === null) return null;
+    let antiderivative: string;
+    try {
+      antiderivative = IntegralTracer.trace(term, n).result;
+    } catch {
+      return null;
+    }
+    const atInfinity = this.limit(antiderivative, n);
+    if (atInfinity === null || atInfinity.kind === 'none') return null;
+
+    push(`f(${n}) = ${term}`, `f is positive and decreasing for ${n} ≥ ${from}, so compare the series with ∫_${from}^∞ f(${n}) d${n}`, 'Integral Test');
+    const atStart = cas(`subst(${from},${n},${antiderivative})`);
+    const value = atInfinity.kind === 'finite' ? this.withDecimal(cas(`(${atInfinity.value})-(${atStart})`)) : '∞';
+    push(`∫_${from}^∞ ${term} d${n} = [${antiderivative}]_${from}^∞ = ${value}`, atInfinity.kind === 'finite'
+      ? 'The integral converges, so the series converges'
+      : 'The integral diverges, so the series diverges', 'Integral Test');
+    return { converges: atInfinity.kind === 'finite', test: 'Integral Test' };
+  }
+
+  // bₙ decreasing to 0 makes Σ (−1)ⁿbₙ converge; conditionally when Σ bₙ diverges
+  static alternating(magnitude: string, n: string, start: number, absoluteDiverges: boolean, push: Push): TestOutcome | null {
+    const from = this.decreasingFrom(magnitude, n, start);
+    if (from === null) {
+      push(`b_${n} = ${magnitude}`, 'Alternating series test: b_n is not eventually decreasing, so the test does not apply', 'Alternating Series Test');
+      return null;
+    }
+    push(`b_${n} = ${magnitude} decreases to 0 for ${n} ≥ ${from}`, absoluteDiverges
+      ? 'Alternating series test: the series converges, but Σ |a_n| diverges, so the convergence is conditional'
+      : 'Alternating series test: the terms decrease in size to 0, so the series converges', 'Alternating Series Test');
+    return { converges: true, test: 'Alternating Series Test', ...(absoluteDiverges ? { mode: 'conditionally' as const } : {}) };
+  }
+
+  // Separate a factor (−1)^e or (−c)^e with e depending on n, giving e and the remaining magnitude
+  static splitSign(term: string, n: string, start: number): { sign: string | null; magnitude: string } {
+    const exponents: string[] = [];
+    const strip = (node: ExpressionNode): ExpressionNode => {
+      if (node.kind === 'unary') {
+        exponents.push('1');
+        return strip(node.operand);
+      }
+      if (node.kind === 'binary' && (node.operator === '*' || node.operator === '/')) {
+        return { ...node, left: strip(node.left), right: strip(node.right) };
+      }
+      if (node.kind === 'binary' && node.operator === '^' && node.left.kind === 'unary' && ExpressionParser.mentions(node.right, n)) {
+        exponents.push(ExpressionParser.print(node.right));
+        return { ...node, left: node.left.operand };
+      }
+      return node;
+    };
+    const magnitude = cas(ExpressionParser.print(strip(ExpressionParser.parse(term))));
+    const alternates = exponents.some(exponent => !isFreeOf(exponent, n));
+    if (!alternates) return { sign: null, magnitude: term };
+
+    const sign = cas(exponents.map(exponent => `(${exponent})`).join('+'));
+    return this.signs(magnitude, n, start) < 0
+      ? { sign: cas(`(${sign})+1`), magnitude: cas(`-(${magnitude})`) }
+      : { sign, magnitude };
+  }
+
+  // Replace sin and cos factors of the numerator, and their powers, by 1 to bound |aₙ| from above
+  static bound(term: string, n: string): string | null {
+    let replaced = false;
+    const bounded = (node: ExpressionNode): boolean =>
+      node.kind === 'call' && BOUNDED_FUNCTIONS.has(node.name) && ExpressionParser.mentions(node, n);
+    const replace = (node: ExpressionNode): ExpressionNode => {
+      if (bounded(node) || (node.kind === 'binary' && node.operator === '^' && bounded(node.left) && node.right.kind === 'number')) {
+        replaced = true;
+        return { kind: 'number', value: '1', position: node.position };
+      }
+      if (node.kind === 'unary') return replace(node.operand);
+      if (node.kind === 'binary' && node.operator === '*') return { ...node, left: replace(node.left), right: replace(node.right) };
+      if (node.kind === 'binary' && node.operator === '/') return { ...node, left: replace(node.left) };
+      return node;
+    };
+    const bound = ExpressionParser.print(replace(ExpressionParser.parse(term)));
+    return replaced ? cas(bound) : null;
+  }
+
+  // ⁿ√aₙ, taking each power's exponent over n so that the CAS need not simplify (fⁿ)^(1/n)
+  static nthRoot(node: ExpressionNode, n: string): string {
+    const print = (child: ExpressionNode) => `(${this.nthRoot(child, n)})`;
+    if (node.kind === 'binary' && node.operator === '*') return `${print(node.left)}*${print(node.right)}`;
+    if (node.kind === 'binary' && node.operator === '/') return `${print(node.left)}/${print(node.right)}`;
+    if (node.kind === 'binary' && node.operator === '^' && ExpressionParser.mentions(node.right, n)) {
+      return `(${ExpressionParser.print(node.left)})^((${ExpressionParser.print(node.right)})/${n})`;
+    }
+    return `(${ExpressionParser.print(node)})^(1/${n})`;
+  }
+
+  // fᵍ/hᵍ as (f/h)ᵍ, so that neither power overflows when the limit is sampled numerically
+  static combinePowers(expr: string): string {
+    const node = ExpressionParser.parse(expr);
+    if (node.kind !== 'binary' || (node.operator !== '*' && node.operator !== '/')) return expr;
+    const { left, right } = node;
+    if (left.kind !== 'binary' || right.kind !== 'binary' || left.operator !== '^' || right.operator !== '^') return expr;
+    const exponent = ExpressionParser.print(left.right);
+    if (exponent !== ExpressionParser.print(right.right)) return expr;
+    return `(${ExpressionParser.print(left.left)}${node.operator}(${ExpressionParser.print(right.left)}))^(${exponent})`;
+  }
+
+  // 1 when the terms are eventually positive, -1 when eventually negative, 0 when they keep changing sign
+  static signs(term: string, n: string, start: number): number {
+    // Terms that underflow to 0 far out keep their sign
+    const values = this.samples(term, n, start).filter(Number.isFinite);
+    if (values.some(value => value > 0) && values.every(value => value >= 0)) return 1;
+    if (values.some(value => value < 0) && values.every(value => value <= 0)) return -1;
+    return 0;
+  }
+
+  // The index from which the terms decrease, judged from the first few hundred and a few far-out terms
+  static decreasingFrom(term: string, n: string, start: number): number | null {
+    const values = Array.from({ length: CHECKED_TERMS }, (_, i) => evaluateNumeric(term, { [n]: start + i }));
+    if (!values.every(Number.isFinite) || values.some(value => value < 0)) return null;
+    const far = [1e3, 1e4, 1e5].every(x => evaluateNumeric(term, { [n]: x + 1 }) <= evaluateNumeric(term, { [n]: x }));
+    if (!far) return null;
+
+    let from = start;
+    values.forEach((value, i) => {
+      if (i > 0 && value > values[i - 1]) from = start + i;
+    });
+    return from < start + CHECKED_TERMS / 2 ? from : null;
+  }
+
+  static samples(term: string, n: string, start: number): number[] {
+    const indices = [...Array.from({ length: 50 }, (_, i) => start + 10 + i), 100, 1000, 10000];
+    return indices.map(index => evaluateNumeric(term, { [n]: index }));
+  }
+
+  // The first index from start at which the term is undefined, or null
+  static firstUndefined(term: string, n: string, start: number, count: number): number | null {
+    for (let index = start; index < start + Math.min(count, CHECKED_TERMS); index++) {
+      if (Number.isFinite(evaluateNumeric(term, { [n]: index }))) continue;
+      // Huge factorials and powers overflow in floating point without being undefined
+      const exact = this.tryCas(`subst(${index},${n},${term})`);
+      if (exact === null || /infinity|undefined/.test(exact)) return index;
+    }
+    return null;
+  }
+
+  // lim n→∞ f, or null when the limit cannot be computed or rests on values that overflowed
+  static limit(f: string, n: string): LimitValue | null {
+    const compute = (g: string): LimitValue | null => {
+      try {
+        const value = LimitSolver.compute(g, { expression: g, variable: n, point: 'infinity', direction: 'both' }, [], 0);
+        if (value.kind === 'none' && [1e3, 1e5, 1e7].some(x => !Number.isFinite(evaluateNumeric(g, { [n]: x })))) return null;
+        return value;
+      } catch {
+        return null;
+      }
+    };
+    const value = compute(f);
+    if (value !== null && value.kind !== 'none') return value;
+
+    // Sampling misses slowly settling sums such as 1/2 + 1/log(n); finite limits of the terms add up
+    const parts = this.terms(f);
+    const limits = parts.length > 1 ? parts.map(compute) : [];
+    if (!limits.length || !limits.every(limit => limit?.kind === 'finite')) return value;
+    const finite = limits as Extract<LimitValue, { kind: 'finite' }>[];
+    return {
+      kind: 'finite',
+      value: cas(finite.map(limit => `(${limit.value})`).join('+')),
+      ...(finite.some(limit => limit.approximate) ? { approximate: true } : {})
+    };
+  }
+
+  // f with n replaced by n + k, or by the number k itself
+  static shift(f: string, n: string, k: number, absolute = false): string {
+    return cas(`subst(${absolute ? k : `${n}+(${k})`},${n},${f})`);
+  }
+
+  // Top-level terms of a sum, with their signs
+  static terms(expr: string): string[] {
+    const collect = (node: ExpressionNode, negative: boolean): string[] => {
+      if (node.kind === 'binary' && (node.operator === '+' || node.operator === '-')) {
+        return [...collect(node.left, negative), ...collect(node.right, node.operator === '-' ? !negative : negative)];
+      }
+      const text = ExpressionParser.print(node);
+      return [negative ? cas(`-(${text})`) : text];
+    };
+    return collect(ExpressionParser.parse(expr), false);
+  }
+
+  // Partial sums for reference when only convergence, not a value, was established
+  static partialSums(term: string, n: string, start: number): string {
+    const [s1, s2] = [1000, 2000].map(count => SolutionVerifier.partialSum(term, n, start, start + count - 1));
+    const shown = Number.isFinite(s1) && Number.isFinite(s2)
+      ? `; for reference, the first 1000 and 2000 terms add up to ${formatDecimal(s1)} and ${formatDecimal(s2)}`
+      : '';
+    return `Convergence tests have no independent numerical check${shown}`;
+  }
+
+  static isZero(value: string): boolean {
+    return value === '0' || Math.abs(evaluateNumeric(value)) < 1e-12;
+  }
+
+  static withDecimal(value: string): string {
+    const numeric = evaluateNumeric(value);
+    return Number.isFinite(numeric) && formatDecimal(numeric) !== value ? `${value} ≈ ${formatDecimal(numeric)}` : value;
+  }
+
+  // nᵖ for display, plain n when p = 1
+  static power(n: string, p: string): string {
+    return p === '1' ? n : `${n}^${this.group(p)}`;
+  }
+
+  static group(text: string): string {
+    return /^[\w.]+$/.test(text) ? text : `(${text})`;
+  }
+
+  static tryCas(command: string): string | null {
+    try {
+      return cas(command);
+    } catch {
+      return null;
+    }
+  }
+}
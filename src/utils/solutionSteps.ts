@@ -0,0 +1,22 @@
+import type { CalculusStep } from './calculusEngine';
+
+// Record one step of a solution, tagged with the method it applies when there is one
+export type Push = (expression: string, explanation: string, method?: string) => void;
+
+export interface StepRecorder {
+  steps: CalculusStep[];
+  push: Push;
+  // Every method a step has been tagged with, in the order first used
+  methods: Set<string>;
+}
+
+// Steps numbered from 1 in the order they are pushed
+export function recordSteps(): StepRecorder {
+  const steps: CalculusStep[] = [];
+  const methods = new Set<string>();
+  const push: Push = (expression, explanation, method) => {
+    steps.push({ step: String(steps.length + 1), expression, explanation, ...(method ? { method } : {}) });
+    if (method) methods.add(method);
+  };
+  return { steps, push, methods };
+}
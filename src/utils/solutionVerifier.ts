@@ -0,0 +1,940 @@
+import { compile, complex, det, evaluate, isComplex, isMatrix, type EvalFunction } from 'mathjs';
+import { cas, compileNumeric, displayValue, evaluateNumeric, formatDecimal, freeVariables, isInfinite, numericFunction, toMathjs } from './expressionUtils';
+import type { CriticalPoint, CurveAnalysis } from './curveAnalyzer';
+import type { FourierCoefficient, FourierPiece } from './fourierSolver';
+import type { LimitSpec, LimitValue } from './limitSolver';
+import type { Eigenspace } from './linearAlgebraSolver';
+import type { CoordinateChange, IntegrationLevel } from './multipleIntegralSolver';
+import type { InitialCondition } from './odeSolver';
+import type { RootBounds } from './polynomialSolver';
+import type { FieldOperator, LineIntegralSpec, SurfaceIntegralSpec } from './vectorCalculusSolver';
+import { adaptiveSimpson, gaussKronrod, iteratedSimpson, polynomialRoots, rungeKutta4 } from './numericalMethods';
+
+export type VerificationStatus = 'verified' | 'failed' | 'unverified';
+
+export interface Verification {
+  status: VerificationStatus;
+  // The check that was performed, or why none could be
+  check: string;
+}
+
+type Scope = Record<string, number>;
+type Complex = { re: number; im: number };
+
+const SAMPLE_COUNT = 4;
+const MAX_ATTEMPTS = 24;
+// Step sizes for nested central differences, balancing truncation against rounding error by order
+const STEP_SIZES = [1e-5, 1e-3, 1e-2, 2e-2];
+// Terms added when checking the sum of an infinite series, largest first
+const SERIES_TERMS = [2000, 400, 80];
+// Evenly spaced samples when checking absolute extrema on an interval
+const CURVE_SAMPLES = 2000;
+// Runge–Kutta steps for the reference solution when checking a numerical ODE solution
+const ODE_STEPS = 4000;
+// Large times at which log|f(t)|/t estimates the exponential order of f, and real values of s beyond it for the Laplace integral
+const GROWTH_TIMES = [20, 40];
+const LAPLACE_OFFSETS = [1.3, 2.9];
+
+export class SolutionVerifier {
+  static unverified(check: string): Verification {
+    return { status: 'unverified', check };
+  }
+
+  // Compare a (partial) derivative with nested central finite differences at random points
+  static derivative(expression: string, variables: string[], result: string): Verification {
+    const order = variables.length;
+    const h = STEP_SIZES[order - 1] ?? 5e-2;
+    const tolerance = order === 1 ? 1e-6 : order === 2 ? 1e-4 : 1e-2;
+
+    const f = (scope: Scope) => evaluateNumeric(expression, scope);
+    const approximate = variables.reduce<(scope: Scope) => number>(
+      (g, variable) => (scope: Scope) =>
+        (g({ ...scope, [variable]: scope[variable] + h }) - g({ ...scope, [variable]: scope[variable] - h })) / (2 * h),
+      f
+    );
+
+    return this.compareAtRandomPoints(
+      [...new Set([...freeVariables(expression), ...freeVariables(result), ...variables])],
+      scope => [evaluateNumeric(result, scope), approximate(scope)],
+      tolerance,
+      count => `Compared with central finite differences at ${count} random points`,
+      'finite difference'
+    );
+  }
+
+  // Differentiate an antiderivative back and compare it with the integrand
+  static antiderivative(integrand: string, variable: string, antiderivative: string): Verification {
+    const derivative = cas(`d(${antiderivative},${variable})`);
+    const variables = [...new Set([...freeVariables(integrand), ...freeVariables(antiderivative), variable])];
+    // Decimal coefficients, from approximate roots, carry about six significant digits
+    const tolerance = /\d\.\d/.test(antiderivative) ? 1e-5 : 1e-8;
+    const numeric = this.compareAtRandomPoints(
+      variables,
+      scope => [evaluateNumeric(derivative, scope), evaluateNumeric(integrand, scope)],
+      tolerance,
+      count => `Differentiated the antiderivative back and matched the integrand at ${count} random points`,
+      'integrand'
+    );
+    if (numeric.status !== 'unverified') return numeric;
+
+    // Forms with complex constants, such as logs over the complex roots of a cubic, are sampled in complex arithmetic;
+    // a mismatch in the imaginary parts counts against the real parts
+    const complex = this.compareAtRandomPoints(
+      variables,
+      scope => {
+        const [actual, expected] = [this.complexValue(derivative, scope), this.complexValue(integrand, scope)];
+        return actual && expected ? [actual.re + Math.abs(actual.im - expected.im), expected.re] : [NaN, NaN];
+      },
+      tolerance,
+      count => `Differentiated the antiderivative back and matched the integrand in complex arithmetic at ${count} random points`,
+      'integrand'
+    );
+    if (complex.status !== 'unverified') return complex;
+
+    // Forms such as erf(i·x) cannot be evaluated at all, so fall back to the CAS
+    return cas(`simplify((${derivative})-(${integrand}))`) === '0'
+      ? { status: 'verified', check: 'Differentiated the antiderivative back to the integrand symbolically' }
+      : this.unverified('The derivative of the antiderivative could not be matched to the integrand');
+  }
+
+  // Compare an exact definite integral with adaptive quadrature
+  static definiteIntegral(integrand: string, variable: string, lower: string, upper: string, value: string): Verification {
+    const exact = evaluateNumeric(value);
+    const a = evaluateNumeric(lower);
+    const b = evaluateNumeric(upper);
+    if (!Number.isFinite(exact) || Number.isNaN(a) || Number.isNaN(b)) {
+      return this.unverified('The value or the bounds are not numeric, so quadrature cannot check them');
+    }
+
+    const numeric = adaptiveSimpson(x => evaluateNumeric(integrand, { [variable]: x }), a, b);
+    const improper = isInfinite(lower) || isInfinite(upper);
+    const tolerance = (improper ? 1e-3 : 1e-6) * Math.max(1, Math.abs(exact));
+    if (!Number.isFinite(numeric.value)) {
+      return this.unverified('Numerical quadrature did not converge');
+    }
+    if (Math.abs(numeric.value - exact) <= tolerance) {
+      return { status: 'verified', check: `Matched adaptive Simpson quadrature ≈ ${formatDecimal(numeric.value)}` };
+    }
+    return numeric.errorEstimate > tolerance
+      ? this.unverified('Numerical quadrature is too inaccurate here to confirm the value')
+      : { status: 'failed', check: `Adaptive Simpson quadrature gives ≈ ${formatDecimal(numeric.value)}, not ${formatDecimal(exact)}` };
+  }
+
+  // Compare an iterated integral with nested adaptive Simpson quadrature
+  // A Cartesian integrand is checked in its original form, through the coordinate formulas and a finite-difference Jacobian,
+  // so that a wrong conversion cannot verify itself
+  static multipleIntegral(integrand: string, levels: IntegrationLevel[], value: string, change?: CoordinateChange): Verification {
+    const exact = evaluateNumeric(value);
+    if (!Number.isFinite(exact) || levels.some(level => isInfinite(level.lower) || isInfinite(level.upper))) {
+      return this.unverified('The value or the bounds are not finite, so quadrature cannot check them');
+    }
+    const f = compileNumeric(integrand);
+    let evaluateAt = f;
+    if (change) {
+      const formulas = Object.entries(change.formulas).map(([name, formula]) => [name, compileNumeric(formula)] as const);
+      const h = 1e-6;
+      evaluateAt = scope => {
+        const cartesian = Object.fromEntries(formulas.map(([name, formula]) => [name, formula(scope)]));
+        const jacobian = formulas.map(([, formula]) => change.coordinates.map(coordinate =>
+          (formula({ ...scope, [coordinate]: scope[coordinate] + h }) - formula({ ...scope, [coordinate]: scope[coordinate] - h })) / (2 * h)));
+        return f({ ...scope, ...cartesian }) * Math.abs(det(jacobian));
+      };
+    }
+    const numeric = iteratedSimpson(evaluateAt, levels.map(level => ({
+      variable: level.variable,
+      lower: compileNumeric(level.lower),
+      upper: compileNumeric(level.upper)
+    })));
+    if (!Number.isFinite(numeric.value)) {
+      return this.unverified('Nested quadrature did not converge');
+    }
+    return Math.abs(numeric.value - exact) <= 1e-6 * Math.max(1, Math.abs(exact))
+      ? { status: 'verified', check: `Matched nested adaptive Simpson quadrature ≈ ${formatDecimal(numeric.value)}` }
+      : { status: 'failed', check: `Nested adaptive Simpson quadrature gives ≈ ${formatDecimal(numeric.value)}, not ${formatDecimal(exact)}` };
+  }
+
+  // A numerical estimate should lie within its own error estimate of an independent, more accurate quadrature
+  static quadrature(integrand: string, variable: string, lower: string, upper: string, value: number, errorEstimate: number): Verification {
+    const reference = adaptiveSimpson(numericFunction(integrand, variable), evaluateNumeric(lower), evaluateNumeric(upper));
+    if (!Number.isFinite(reference.value) || reference.errorEstimate > Math.max(errorEstimate, 1e-9)) {
+      return this.unverified('Adaptive Simpson quadrature is not accurate enough here to check the estimate');
+    }
+    const actual = Math.abs(value - reference.value);
+    return actual <= 2 * errorEstimate + 1e-9 * Math.max(1, Math.abs(reference.value))
+      ? { status: 'verified', check: `Within the error estimate of adaptive Simpson quadrature ≈ ${formatDecimal(reference.value, 10)}` }
+      : this.unverified(`Adaptive Simpson quadrature gives ≈ ${formatDecimal(reference.value, 10)}, so the actual error ${actual.toExponential(2)} exceeds the estimate`);
+  }
+
+  // f should nearly vanish at a numerical root and change sign (or touch zero) right around it
+  static numericRoot(expression: string, variable: string, root: number): Verification {
+    const f = numericFunction(expression, variable);
+    const h = 1e-6 * Math.max(1, Math.abs(root));
+    const [left, middle, right] = [f(root - h), f(root), f(root + h)];
+    if (![left, middle, right].every(Number.isFinite)) {
+      return this.unverified('f could not be evaluated around the root');
+    }
+    const residual = Math.abs(middle);
+    if (residual > 1e-8 * Math.max(1, Math.abs(left), Math.abs(right))) {
+      return { status: 'failed', check: `f(${formatDecimal(root, 10)}) = ${formatDecimal(middle, 10)} is not close to 0` };
+    }
+    return Math.sign(left) !== Math.sign(right) || residual === 0
+      ? { status: 'verified', check: `|f| = ${residual.toExponential(2)} at the root, and f changes sign within ${h.toExponential(0)} of it` }
+      : { status: 'verified', check: `|f| = ${residual.toExponential(2)} at the root, where f touches zero without changing sign` };
+  }
+
+  // Compare y(x1) from a numerical method with RK4 on a much finer grid
+  static numericOde(slope: string, dependent: string, independent: string, x0: number, y0: number, x1: number, value: number, errorEstimate: number): Verification {
+    const compiled = compileNumeric(slope);
+    const points = rungeKutta4((x, y) => compiled({ [independent]: x, [dependent]: y }), x0, y0, (x1 - x0) / ODE_STEPS, ODE_STEPS);
+    const reference = points[points.length - 1].y;
+    if (!Number.isFinite(reference)) {
+      return this.unverified('A finer Runge–Kutta solution could not be computed');
+    }
+    const actual = Math.abs(value - reference);
+    return actual <= 2 * errorEstimate + 1e-9 * Math.max(1, Math.abs(reference))
+      ? { status: 'verified', check: `Within the error estimate of RK4 with ${ODE_STEPS} steps, which gives ≈ ${formatDecimal(reference, 10)}` }
+      : this.unverified(`RK4 with ${ODE_STEPS} steps gives ≈ ${formatDecimal(reference, 10)}, so the actual error ${actual.toExponential(2)} exceeds the estimate`);
+  }
+
+  // Compare a limit with the values of the function sampled ever closer to the point
+  static limit(spec: LimitSpec, result: string, probed: LimitValue): Verification {
+    if (result.startsWith('≈')) {
+      return this.unverified('The value is itself a numerical estimate');
+    }
+
+    const described = probed.kind === 'finite' ? probed.value : probed.kind === 'infinite' ? (probed.sign > 0 ? '∞' : '-∞') : 'no single value';
+    let agrees: boolean;
+    if (result === '∞' || result === '-∞') {
+      agrees = probed.kind === 'infinite' && probed.sign === (result === '∞' ? 1 : -1);
+    } else if (result === 'does not exist') {
+      agrees = probed.kind === 'none';
+    } else {
+      const expected = evaluateNumeric(result);
+      agrees = probed.kind === 'finite' && Number.isFinite(expected)
+        && Math.abs(evaluateNumeric(probed.value) - expected) <= 1e-3 * Math.max(1, Math.abs(expected));
+    }
+
+    const approach = `${spec.variable} → ${displayValue(spec.point)}`;
+    if (agrees) {
+      return { status: 'verified', check: `Values sampled approaching ${approach} tend to ${described}` };
+    }
+    // Sampling cannot see oscillation or very slow convergence, so disagreement alone is not a failure
+    return probed.kind === 'none'
+      ? this.unverified('Sampled values near the point do not settle, so the limit could not be confirmed numerically')
+      : { status: 'failed', check: `Sampled values approaching ${approach} tend to ${described}, not ${result}` };
+  }
+
+  // dy/dx for F(x, y) = 0 must satisfy ∂F/∂x + ∂F/∂y·dy/dx = 0 everywhere
+  static implicitDerivative(left: string, right: string, dependent: string, independent: string, derivative: string): Verification {
+    const h = STEP_SIZES[0];
+    const F = (scope: Scope) => evaluateNumeric(`(${left})-(${right})`, scope);
+    const partial = (variable: string) => (scope: Scope) =>
+      (F({ ...scope, [variable]: scope[variable] + h }) - F({ ...scope, [variable]: scope[variable] - h })) / (2 * h);
+    const Fx = partial(independent);
+    const Fy = partial(dependent);
+
+    return this.compareAtRandomPoints(
+      [...new Set([...freeVariables(left), ...freeVariables(right), dependent, independent])],
+      scope => [Fy(scope) * evaluateNumeric(derivative, scope), -Fx(scope)],
+      1e-6,
+      count => `Checked ∂F/∂${independent} + ∂F/∂${dependent}·d${dependent}/d${independent} = 0 with finite differences at ${count} random points`,
+      'implicit relation'
+    );
+  }
+
+  // Compare each gradient component with finite differences, at the given point if there is one
+  static gradient(expression: string, variables: string[], vector: string[], point?: string[]): Verification {
+    if (!point) {
+      for (const [i, variable] of variables.entries()) {
+        const check = this.derivative(expression, [variable], vector[i]);
+        if (check.status !== 'verified') return check;
+      }
+      return { status: 'verified', check: 'Compared every component with central finite differences at random points' };
+    }
+
+    const h = STEP_SIZES[0];
+    const scope = Object.fromEntries(variables.map((variable, i) => [variable, evaluateNumeric(point[i])]));
+    for (const [i, variable] of variables.entries()) {
+      const approximate = (evaluateNumeric(expression, { ...scope, [variable]: scope[variable] + h })
+        - evaluateNumeric(expression, { ...scope, [variable]: scope[variable] - h })) / (2 * h);
+      const value = evaluateNumeric(vector[i]);
+      if (!Number.isFinite(approximate) || !Number.isFinite(value)) {
+        return this.unverified('The gradient could not be evaluated numerically at the point');
+      }
+      if (Math.abs(approximate - value) > 1e-6 * Math.max(1, Math.abs(value))) {
+        return { status: 'failed', check: `The finite difference for ∂f/∂${variable} at the point is ${formatDecimal(approximate)}, not ${vector[i]}` };
+      }
+    }
+    return { status: 'verified', check: 'Compared every component with central finite differences at the point' };
+  }
+
+  // Compare a Taylor polynomial with the CAS's own expansion, symbolically or at random points
+  static taylor(expression: string, variable: string, center: string, order: number, polynomial: string): Verification {
+    const expansion = cas(`taylor(${expression},${variable},${order},${center})`);
+    if (cas(`simplify((${polynomial})-(${expansion}))`) === '0') {
+      return { status: 'verified', check: 'Matched the CAS\'s built-in Taylor expansion term by term' };
+    }
+    return this.compareAtRandomPoints(
+      [...new Set([...freeVariables(polynomial), ...freeVariables(expansion), variable])],
+      scope => [evaluateNumeric(polynomial, scope), evaluateNumeric(expansion, scope)],
+      1e-9,
+      count => `Matched the CAS's built-in Taylor expansion at ${count} random points`,
+      'built-in expansion'
+    );
+  }
+
+  // Add the partial fractions back up and compare with the original rational function at random points
+  static partialFractions(expression: string, variable: string, result: string): Verification {
+    // Decimal roots carry rounding into every coefficient
+    const tolerance = /\d\.\d/.test(result) ? 1e-5 : 1e-9;
+    return this.compareAtRandomPoints(
+      [...new Set([...freeVariables(expression), ...freeVariables(result), variable])],
+      scope => [evaluateNumeric(result, scope), evaluateNumeric(expression, scope)],
+      tolerance,
+      count => `Added the fractions back up and matched the original at ${count} random points`,
+      'original'
+    );
+  }
+
+  static factorization(expression: string, factored: string): Verification {
+    return this.compareAtRandomPoints(
+      [...new Set([...freeVariables(expression), ...freeVariables(factored)])],
+      scope => [evaluateNumeric(factored, scope), evaluateNumeric(expression, scope)],
+      1e-9,
+      count => `Multiplied the factors back together and matched the original at ${count} random points`,
+      'original'
+    );
+  }
+
+  static expansion(expression: string, expanded: string): Verification {
+    return this.compareAtRandomPoints(
+      [...new Set([...freeVariables(expression), ...freeVariables(expanded)])],
+      scope => [evaluateNumeric(expanded, scope), evaluateNumeric(expression, scope)],
+      1e-9,
+      count => `Evaluated the original and the expansion at ${count} random points and they agree`,
+      'original'
+    );
+  }
+
+  static identity(left: string, right: string): Verification {
+    return this.compareAtRandomPoints(
+      [...new Set([...freeVariables(left), ...freeVariables(right)])],
+      scope => [evaluateNumeric(right, scope), evaluateNumeric(left, scope)],
+      1e-9,
+      count => `Evaluated both sides at ${count} random points and they agree`,
+      'left side'
+    );
+  }
+
+  // Both sides defined at the point and clearly different there
+  static counterexample(left: string, right: string, point: Scope): Verification {
+    const [a, b] = [evaluateNumeric(left, point), evaluateNumeric(right, point)];
+    const where = Object.entries(point).map(([name, value]) => `${name} = ${value}`).join(', ');
+    if (!Number.isFinite(a) || !Number.isFinite(b)) return { status: 'failed', check: `A side is undefined at ${where}` };
+    return Math.abs(a - b) > 1e-6 * Math.max(1, Math.abs(a), Math.abs(b))
+      ? { status: 'verified', check: `Re-evaluated both sides at ${where}: ${formatDecimal(a)} ≠ ${formatDecimal(b)}` }
+      : { status: 'failed', check: `The two sides agree at ${where}` };
+  }
+
+  // Dividend = divisor·quotient + remainder, with the remainder of lower degree than the divisor
+  static division(dividend: string, divisor: string, variable: string, quotient: string, remainder: string): Verification {
+    if (remainder !== '0' && Number(cas(`deg(${remainder},${variable})`)) >= Number(cas(`deg(${divisor},${variable})`))) {
+      return { status: 'failed', check: `The remainder ${remainder} does not have lower degree than the divisor ${divisor}` };
+    }
+    return this.compareAtRandomPoints(
+      [...new Set([dividend, divisor, quotient, remainder].flatMap(text => freeVariables(text)))],
+      scope => [evaluateNumeric(`(${divisor})*(${quotient})+(${remainder})`, scope), evaluateNumeric(dividend, scope)],
+      1e-9,
+      count => `Checked divisor × quotient + remainder against the dividend at ${count} random points, with the remainder of lower degree`,
+      'dividend'
+    );
+  }
+
+  // A GCD divides every polynomial and every polynomial divides an LCM, with no remainder
+  static divisibility(polynomials: string[], variable: string, result: string, kind: 'gcd' | 'lcm'): Verification {
+    for (const polynomial of polynomials) {
+      const [dividend, divisor] = kind === 'gcd' ? [polynomial, result] : [result, polynomial];
+      const remainder = cas(`expand((${dividend})-quotient(${dividend},${divisor},${variable})*(${divisor}))`);
+      if (remainder !== '0') return { status: 'failed', check: `Dividing ${dividend} by ${divisor} leaves the remainder ${remainder}` };
+    }
+    return {
+      status: 'verified',
+      check: kind === 'gcd' ? 'Divided each polynomial by the GCD with remainder 0' : 'Divided the LCM by each polynomial with remainder 0'
+    };
+  }
+
+  // Every root found numerically lies within the bounds, and the real root counts fit Descartes' rule of signs
+  static rootBounds(p: string, variable: string, bounds: RootBounds): Verification {
+    const degree = Number(cas(`deg(${p},${variable})`));
+    const coefficients = Array.from({ length: degree + 1 }, (_, k) => evaluateNumeric(cas(`coeff(${p},${variable},${k})`)));
+    const roots = polynomialRoots(coefficients);
+    const radius = evaluateNumeric(bounds.radius);
+    const real = roots.filter(root => Math.abs(root.im) <= 1e-7 * Math.max(1, Math.abs(root.re))).map(root => root.re);
+    const outside = roots.find(root => Math.hypot(root.re, root.im) > radius * (1 + 1e-9));
+    if (outside) return { status: 'failed', check: `The root ${formatDecimal(outside.re)} + ${formatDecimal(outside.im)}i lies outside |z| ≤ ${bounds.radius}` };
+    const stray = real.find(root => root < bounds.lower - 1e-9 || root > bounds.upper + 1e-9);
+    if (stray !== undefined) return { status: 'failed', check: `The real root ${formatDecimal(stray)} lies outside [${bounds.lower}, ${bounds.upper}]` };
+    const counts = [[real.filter(root => root > 1e-9).length, bounds.positive, 'positive'], [real.filter(root => root < -1e-9).length, bounds.negative, 'negative']] as const;
+    for (const [count, changes, sign] of counts) {
+      if (count > changes || (changes - count) % 2) {
+        return { status: 'failed', check: `There are ${count} ${sign} real roots, which ${changes} sign changes do not allow` };
+      }
+    }
+    return {
+      status: 'verified',
+      check: `Found all ${degree} roots numerically: they lie within the bounds, and the ${counts[0][0]} positive and ${counts[1][0]} negative real roots fit Descartes' rule`
+    };
+  }
+
+  // Compare a sum with the partial sums, allowing for the tail an infinite series has left after the last term added
+  static series(term: string, index: string, start: number, sum: string, end?: number): Verification {
+    const expected = evaluateNumeric(sum);
+    // Powers and factorials overflow in floating point after a few hundred terms, so add fewer when they do
+    const count = end === undefined
+      ? SERIES_TERMS.find(terms => Number.isFinite(this.partialSum(term, index, start, start + terms - 1))) ?? SERIES_TERMS[0]
+      : end - start + 1;
+    const last = start + count - 1;
+    const partial = this.partialSum(term, index, start, last);
+    if (!Number.isFinite(expected) || !Number.isFinite(partial)) {
+      return this.unverified('The terms or the sum could not be evaluated numerically');
+    }
+
+    // Partial sums over successive doublings shrink their differences by a ratio ρ, so the tail is about d·ρ/(1 − ρ)
+    let tail = 0;
+    if (end === undefined) {
+      const [quarter, half] = [count / 4, count / 2].map(terms => this.partialSum(term, index, start, start + terms - 1));
+      const [d1, d2] = [half - quarter, partial - half];
+      const ratio = d1 === 0 ? 0 : d2 / d1;
+      tail = ratio > 0 && ratio < 1 ? (d2 * ratio) / (1 - ratio) : 0;
+    }
+    const difference = Math.abs(partial + tail - expected);
+    if (difference > 0.1 * Math.abs(tail) + 1e-9 * Math.max(1, Math.abs(expected))) {
+      return { status: 'failed', check: `The first ${last - start + 1} terms add up to ${formatDecimal(partial)}, which does not approach ${formatDecimal(expected)}` };
+    }
+    return {
+      status: 'verified',
+      check: end === undefined
+        ? `The first ${count} terms add up to ${formatDecimal(partial)}, and with the extrapolated tail to ${formatDecimal(partial + tail)}`
+        : `Added the ${last - start + 1} terms numerically`
+    };
+  }
+
+  // aₛ + … + aₑ in floating point, NaN when a term does not evaluate
+  static partialSum(term: string, index: string, start: number, end: number): number {
+    let compiled: EvalFunction;
+    try {
+      compiled = compile(toMathjs(term));
+    } catch {
+      return NaN;
+    }
+    let sum = 0;
+    for (let k = start; k <= end; k++) {
+      let value: unknown;
+      try {
+        value = compiled.evaluate({ [index]: k });
+      } catch {
+        return NaN;
+      }
+      if (typeof value !== 'number' || Number.isNaN(value)) return NaN;
+      sum += value;
+    }
+    return sum;
+  }
+
+  // Substitute each root back into the equation, numerically where both sides evaluate and symbolically otherwise
+  static roots(left: string, right: string, variable: string, roots: string[]): Verification {
+    for (const root of roots) {
+      const numeric = this.complexValue(root);
+      const sides = numeric && this.sidesAt(left, right, { [variable]: numeric.im === 0 ? numeric.re : complex(numeric.re, numeric.im) });
+      if (sides) {
+        const [l, r] = sides;
+        const difference = Math.hypot(l.re - r.re, l.im - r.im);
+        if (difference > 1e-9 * Math.max(1, Math.hypot(l.re, l.im), Math.hypot(r.re, r.im))) {
+          return { status: 'failed', check: `Substituting ${variable} = ${root} leaves a residual of ${formatDecimal(difference)}` };
+        }
+        continue;
+      }
+
+      const residual = cas(`subst((${root}),${variable},(${left})-(${right}))`);
+      if (residual === '0') continue;
+      const value = this.magnitude(residual);
+      const scale = Math.max(1, this.magnitude(root));
+      if (Number.isNaN(value) && cas(`simplify(${residual})`) !== '0') {
+        return this.unverified(`Substituting ${variable} = ${root} leaves ${residual}, which could not be reduced to 0`);
+      }
+      if (Math.abs(value) > 1e-9 * scale) {
+        return { status: 'failed', check: `Substituting ${variable} = ${root} leaves a residual of ${formatDecimal(value)}` };
+      }
+    }
+    return { status: 'verified', check: `Substituted ${roots.length === 1 ? 'the root' : `all ${roots.length} roots`} back into the equation` };
+  }
+
+  // Absolute value of a real or complex number, NaN when it is not numeric
+  static magnitude(expr: string): number {
+    const value = this.complexValue(expr);
+    return value ? Math.hypot(value.re, value.im) : NaN;
+  }
+
+  // Substitute each solution of a system into every equation, giving free parameters random values
+  static system(equations: { left: string; right: string }[], solutions: Record<string, string>[], parameters: string[]): Verification {
+    for (const solution of solutions) {
+      let checked = false;
+      for (let attempt = 0; attempt < MAX_ATTEMPTS && !checked; attempt++) {
+        const scope: Record<string, unknown> = Object.fromEntries(parameters.map(name => [name, Number((Math.random() * 6 - 3).toFixed(3))]));
+        for (const [variable, expr] of Object.entries(solution)) {
+          const value = this.complexValue(expr, scope);
+          if (value) scope[variable] = value.im === 0 ? value.re : complex(value.re, value.im);
+        }
+
+        const sides = equations.map(({ left, right }) => this.sidesAt(left, right, scope));
+        if (sides.some(pair => !pair)) continue;
+        checked = true;
+        for (const [i, [l, r]] of sides.entries()) {
+          const difference = Math.hypot(l.re - r.re, l.im - r.im);
+          if (difference > 1e-9 * Math.max(1, Math.hypot(l.re, l.im), Math.hypot(r.re, r.im))) {
+            const described = Object.entries(solution).map(([variable, value]) => `${variable} = ${value}`).join(', ');
+            return { status: 'failed', check: `${described} leaves a residual of ${formatDecimal(difference)} in ${equations[i].left} = ${equations[i].right}` };
+          }
+        }
+      }
+      if (!checked) {
+        return this.unverified('A solution could not be evaluated numerically in every equation');
+      }
+    }
+    return {
+      status: 'verified',
+      check: `Substituted ${solutions.length === 1 ? 'the solution' : `all ${solutions.length} solutions`} into every equation${parameters.length ? `, with random values for ${parameters.join(', ')}` : ''}`
+    };
+  }
+
+  // Substitute a solution y(x) and its derivatives into the differential equation at random points, names[k] standing for
+  // the kth derivative; an implicit solution F(x, y) = C supplies y' = -F_x/F_y instead
+  static ode(
+    left: string,
+    right: string,
+    names: string[],
+    independent: string,
+    solution: { left: string; right: string; constants: string[] },
+    conditions: InitialCondition[]
+  ): Verification {
+    const y = names[0];
+    const explicit = solution.left === y;
+    const relation = `(${solution.left})-(${solution.right})`;
+    // A unit step is constant away from its jump, so it is held as a symbol while differentiating
+    const jumps = [...new Set(solution.right.match(/\bheaviside\([^()]*\)/g) ?? [])];
+    const held = jumps.map((_, k) => `unitstep${k}`);
+    const smooth = jumps.reduce((text, jump, k) => text.split(jump).join(held[k]), solution.right);
+    const derivatives = explicit
+      ? names.map((_, k) => (k ? cas(`d(${smooth},${independent},${k})`) : smooth))
+      : [y, cas(`-d(${relation},${independent})/d(${relation},${y})`)];
+    if (derivatives.length < names.length) {
+      return this.unverified('Only first-order implicit solutions can be substituted back');
+    }
+
+    const numeric = this.compareAtRandomPoints(
+      [...new Set([independent, ...(explicit ? [] : [y]), ...solution.constants, ...derivatives.flatMap(freeVariables)])].filter(name => !held.includes(name)),
+      scope => {
+        const steps = { ...scope, ...Object.fromEntries(jumps.map((jump, k) => [held[k], evaluateNumeric(jump, scope)])) };
+        const values = { ...steps, ...Object.fromEntries(names.map((name, k) => [name, evaluateNumeric(derivatives[k], steps)])) };
+        return [evaluateNumeric(left, values), evaluateNumeric(right, values)];
+      },
+      1e-8,
+      count => `Substituted ${explicit ? `${y} and its derivatives` : `${y}' from the implicit solution`} into the equation at ${count} random points${explicit && solution.constants.length ? `, with random values for ${solution.constants.join(', ')}` : ''}`,
+      'equation\'s right side'
+    );
+    if (numeric.status !== 'verified' || !conditions.length) return numeric;
+
+    for (const { order, at, value } of conditions) {
+      const x = evaluateNumeric(at);
+      const expected = evaluateNumeric(value);
+      const point = { [independent]: x, ...Object.fromEntries(jumps.map((jump, k) => [held[k], evaluateNumeric(jump, { [independent]: x })])) };
+      const actual = explicit ? evaluateNumeric(derivatives[order], point) : 0;
+      const residual = explicit ? actual - expected : evaluateNumeric(relation, { [independent]: x, [y]: expected });
+      if (!Number.isFinite(residual)) {
+        return this.unverified(`${numeric.check}, but the solution could not be evaluated at ${independent} = ${at}`);
+      }
+      if (Math.abs(residual) > 1e-9 * Math.max(1, Math.abs(expected))) {
+        return { status: 'failed', check: `The solution misses the condition ${y}${"'".repeat(order)}(${at}) = ${value} by ${formatDecimal(residual)}` };
+      }
+    }
+    return { status: 'verified', check: `${numeric.check}, and checked the initial conditions` };
+  }
+
+  // Sample f beside every local extremum, and densely across the interval for absolute extrema
+  static curveAnalysis(f: string, variable: string, criticalPoints: CriticalPoint[], extrema?: CurveAnalysis['extrema']): Verification {
+    const fn = numericFunction(f, variable);
+    const extremes = criticalPoints.filter(point => point.kind !== 'neither');
+    if (!extremes.length && !extrema) {
+      return this.unverified('There are no extrema to check');
+    }
+
+    for (const point of extremes) {
+      const c = evaluateNumeric(point.x);
+      const value = fn(c);
+      const tolerance = 1e-9 * Math.max(1, Math.abs(value));
+      const neighbours = [1e-2, 1e-3, -1e-3, -1e-2].map(h => fn(c + h * Math.max(1, Math.abs(c))));
+      const beaten = neighbours.find(nearby => point.kind === 'local maximum' ? nearby > value + tolerance : nearby < value - tolerance);
+      if (beaten !== undefined) {
+        return { status: 'failed', check: `f is ${formatDecimal(beaten)} near ${variable} = ${point.x}, so ${formatDecimal(value)} is not a ${point.kind}` };
+      }
+    }
+    if (!extrema) {
+      return { status: 'verified', check: `Sampled f on both sides of ${extremes.length} local extrem${extremes.length === 1 ? 'um' : 'a'}` };
+    }
+
+    const [a, b] = extrema.interval.map(bound => evaluateNumeric(bound));
+    const [largest, smallest] = [extrema.maximum[0].y, extrema.minimum[0].y].map(y => evaluateNumeric(y));
+    const tolerance = 1e-9 * Math.max(1, Math.abs(largest), Math.abs(smallest));
+    for (let i = 0; i <= CURVE_SAMPLES; i++) {
+      const x = a + (b - a) * i / CURVE_SAMPLES;
+      const value = fn(x);
+      if (value > largest + tolerance || value < smallest - tolerance) {
+        return { status: 'failed', check: `f(${formatDecimal(x)}) ≈ ${formatDecimal(value)} lies outside [${formatDecimal(smallest)}, ${formatDecimal(largest)}]` };
+      }
+    }
+    return { status: 'verified', check: `Sampled f at ${CURVE_SAMPLES + 1} evenly spaced points of the interval and none beat the absolute extrema` };
+  }
+
+  // Recompute div, curl or the Laplacian with central differences at random points, or at the given point
+  static fieldOperator(operator: FieldOperator, field: string[], variables: string[], result: string[], point?: string[]): Verification {
+    const first = (expression: string, variable: string, scope: Scope) => {
+      const h = STEP_SIZES[0];
+      return (evaluateNumeric(expression, { ...scope, [variable]: scope[variable] + h }) - evaluateNumeric(expression, { ...scope, [variable]: scope[variable] - h })) / (2 * h);
+    };
+    const second = (expression: string, variable: string, scope: Scope) => {
+      const h = STEP_SIZES[1];
+      return (evaluateNumeric(expression, { ...scope, [variable]: scope[variable] + h }) - 2 * evaluateNumeric(expression, scope)
+        + evaluateNumeric(expression, { ...scope, [variable]: scope[variable] - h })) / (h * h);
+    };
+    const expected = (scope: Scope): number[] => {
+      if (operator === 'divergence') return [variables.reduce((sum, variable, i) => sum + first(field[i], variable, scope), 0)];
+      if (operator === 'laplacian') return field.map(component => variables.reduce((sum, variable) => sum + second(component, variable, scope), 0));
+      const [x, y, z] = variables;
+      return field.length === 2
+        ? [first(field[1], x, scope) - first(field[0], y, scope)]
+        : [first(field[2], y, scope) - first(field[1], z, scope), first(field[0], z, scope) - first(field[2], x, scope), first(field[1], x, scope) - first(field[0], y, scope)];
+    };
+    const tolerance = operator === 'laplacian' ? 1e-4 : 1e-6;
+
+    if (point) {
+      const scope = Object.fromEntries(variables.map((variable, i) => [variable, evaluateNumeric(point[i])]));
+      const [actual, approximate] = [result.map(component => evaluateNumeric(component)), expected(scope)];
+      if (![...actual, ...approximate].every(Number.isFinite)) {
+        return this.unverified('The field could not be evaluated numerically at the point');
+      }
+      const index = actual.findIndex((value, i) => Math.abs(value - approximate[i]) > tolerance * Math.max(1, Math.abs(approximate[i])));
+      return index < 0
+        ? { status: 'verified', check: 'Compared with central finite differences at the point' }
+        : { status: 'failed', check: `Finite differences give ${formatDecimal(approximate[index])} but the result gives ${formatDecimal(actual[index])}` };
+    }
+
+    const names = [...new Set([...variables, ...field.flatMap(component => freeVariables(component)), ...result.flatMap(component => freeVariables(component))])];
+    for (const [i, component] of result.entries()) {
+      const check = this.compareAtRandomPoints(names, scope => [evaluateNumeric(component, scope), expected(scope)[i]], tolerance,
+        count => `Compared with central finite differences at ${count} random points`, 'finite difference');
+      if (check.status !== 'verified' || i === result.length - 1) return check;
+    }
+    return this.unverified('There is nothing to compare');
+  }
+
+  // Integrate F(r(t))·r'(t) or f(r(t))·|r'(t)| numerically, differentiating the curve by central differences
+  static lineIntegral(spec: LineIntegralSpec, value: number): Verification {
+    const { field, scalar, variables, curve, parameter, lower, upper } = spec;
+    const [a, b] = [lower, upper].map(bound => evaluateNumeric(bound));
+    if (![value, a, b].every(Number.isFinite)) {
+      return this.unverified('The value or the bounds are not finite, so quadrature cannot check them');
+    }
+    const position = curve.map(component => compileNumeric(component));
+    const components = field.map(component => compileNumeric(component));
+    const h = STEP_SIZES[0];
+    const numeric = adaptiveSimpson(t => {
+      const point = Object.fromEntries(variables.map((variable, i) => [variable, position[i]({ [parameter]: t })]));
+      const velocity = position.map(component => (component({ [parameter]: t + h }) - component({ [parameter]: t - h })) / (2 * h));
+      return scalar
+        ? components[0](point) * Math.hypot(...velocity)
+        : components.reduce((sum, component, i) => sum + component(point) * velocity[i], 0);
+    }, a, b);
+    return this.compareQuadrature(numeric.value, value, 'Integrated the original field along the curve numerically');
+  }
+
+  // Integrate over the parameter rectangle numerically, with the tangent vectors from central differences
+  static surfaceIntegral(spec: SurfaceIntegralSpec, value: number): Verification {
+    const { field, scalar, variables, surface, parameters } = spec;
+    if (!Number.isFinite(value) || parameters.some(level => !Number.isFinite(evaluateNumeric(level.lower)) || !Number.isFinite(evaluateNumeric(level.upper)))) {
+      return this.unverified('The value or the bounds are not finite, so quadrature cannot check them');
+    }
+    const [u, v] = parameters.map(level => level.variable);
+    const position = surface.map(component => compileNumeric(component));
+    const components = field.map(component => compileNumeric(component));
+    const h = STEP_SIZES[0];
+    const numeric = iteratedSimpson(point => {
+      const at = (du: number, dv: number) => position.map(component => component({ [u]: point[u] + du, [v]: point[v] + dv }));
+      const [ru, rv] = [[at(h, 0), at(-h, 0)], [at(0, h), at(0, -h)]].map(([plus, minus]) => plus.map((coordinate, i) => (coordinate - minus[i]) / (2 * h)));
+      const normal = [ru[1] * rv[2] - ru[2] * rv[1], ru[2] * rv[0] - ru[0] * rv[2], ru[0] * rv[1] - ru[1] * rv[0]];
+      const scope = Object.fromEntries(variables.map((variable, i) => [variable, at(0, 0)[i]]));
+      return scalar
+        ? components[0](scope) * Math.hypot(...normal)
+        : components.reduce((sum, component, i) => sum + component(scope) * normal[i], 0);
+    }, parameters.map(level => ({ variable: level.variable, lower: () => evaluateNumeric(level.lower), upper: () => evaluateNumeric(level.upper) })));
+    return this.compareQuadrature(numeric.value, value, 'Integrated the original field over the surface numerically');
+  }
+
+  static compareQuadrature(numeric: number, value: number, description: string): Verification {
+    if (!Number.isFinite(numeric)) {
+      return this.unverified('Numerical quadrature did not converge');
+    }
+    return Math.abs(numeric - value) <= 1e-6 * Math.max(1, Math.abs(value))
+      ? { status: 'verified', check: `${description} ≈ ${formatDecimal(numeric)}` }
+      : { status: 'failed', check: `${description} and got ≈ ${formatDecimal(numeric)}, not ${formatDecimal(value)}` };
+  }
+
+  // Compare F(s) with ∫₀^∞ e^(−st)·f(t) dt at real values of s past the exponential order of f, with random positive parameters
+  static laplace(f: string, t: string, transform: string, s: string): Verification {
+    const parameters = freeVariables(`(${f})+(${transform})`).filter(name => name !== t && name !== s);
+    const scope = Object.fromEntries(parameters.map(name => [name, Number((0.5 + Math.random() * 2).toFixed(3))]));
+    const original = compileNumeric(f);
+    const value = (x: number) => original({ ...scope, [t]: x });
+    const growth = Math.max(0, ...GROWTH_TIMES.map(x => Math.log(Math.abs(value(x))) / x).filter(Number.isFinite));
+
+    const points: string[] = [];
+    for (const offset of LAPLACE_OFFSETS) {
+      const point = Number((growth + offset).toFixed(3));
+      // Far out the weight underflows to 0 before f overflows, and the integrand is taken as 0 there rather than 0·∞
+      const numeric = gaussKronrod(x => {
+        const weight = Math.exp(-point * x);
+        return weight === 0 ? 0 : weight * value(x);
+      }, 0, Infinity).value;
+      const exact = evaluateNumeric(transform, { ...scope, [s]: point });
+      if (!Number.isFinite(numeric) || !Number.isFinite(exact)) {
+        return this.unverified(`The Laplace integral could not be evaluated numerically at ${s} = ${point}`);
+      }
+      if (Math.abs(numeric - exact) > 1e-6 * Math.max(1, Math.abs(exact))) {
+        return { status: 'failed', check: `At ${s} = ${point} the Laplace integral is ≈ ${formatDecimal(numeric)}, not ${formatDecimal(exact)}` };
+      }
+      points.push(String(point));
+    }
+    const values = parameters.length ? `, with ${parameters.map(name => `${name} = ${scope[name]}`).join(', ')}` : '';
+    return { status: 'verified', check: `Integrated e^(-${s}${t})·f(${t}) from 0 to ∞ numerically at ${s} = ${points.join(' and ')}${values}` };
+  }
+
+  // Recompute every Fourier coefficient by Gauss–Kronrod quadrature over the pieces of f, at random values of any parameters
+  static fourier(pieces: FourierPiece[], x: string, half: string, coefficients: FourierCoefficient[]): Verification {
+    const texts = [half, ...pieces.flatMap(({ expression, from, to }) => [expression, from, to]), ...coefficients.flatMap(({ a, b }) => [a, b])];
+    const parameters = [...new Set(texts.flatMap(text => freeVariables(text)))].filter(name => name !== x);
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const scope = this.randomScope(parameters);
+      const L = evaluateNumeric(half, scope);
+      const parts = pieces.map(({ expression, from, to }) => ({ f: compileNumeric(expression), from: evaluateNumeric(from, scope), to: evaluateNumeric(to, scope) }));
+      if (!(L > 0) || !parts.every(({ from, to }) => Number.isFinite(from) && Number.isFinite(to))) continue;
+      for (const { n, a, b } of coefficients) {
+        for (const [name, claimed, kernel] of [['a', a, Math.cos], ['b', b, Math.sin]] as const) {
+          const numeric = parts.reduce((sum, { f, from, to }) =>
+            sum + gaussKronrod(u => f({ ...scope, [x]: u }) * kernel((n * Math.PI * u) / L), from, to).value, 0) / L;
+          const exact = evaluateNumeric(claimed, scope);
+          if (!Number.isFinite(numeric) || !Number.isFinite(exact)) {
+            return this.unverified(`The coefficient ${name}${n} could not be evaluated numerically`);
+          }
+          if (Math.abs(numeric - exact) > 1e-6 * Math.max(1, Math.abs(exact))) {
+            return { status: 'failed', check: `Numerical integration gives ${name}${n} ≈ ${formatDecimal(numeric)}, not ${claimed}` };
+          }
+        }
+      }
+      const values = parameters.length ? `, with ${parameters.map(name => `${name} = ${scope[name]}`).join(', ')}` : '';
+      return { status: 'verified', check: `Integrated f(${x})·cos(nπ${x}/L) and f(${x})·sin(nπ${x}/L) numerically for n = 0 to ${coefficients[coefficients.length - 1].n}${values}` };
+    }
+    return this.unverified('The pieces of f could not be evaluated numerically');
+  }
+
+  // Recompute a matrix expression with mathjs and compare entry by entry, at random values of any parameters
+  static matrix(expression: string, result: string | string[][], parameters: string[]): Verification {
+    const claimed = typeof result === 'string' ? [[result]] : result;
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const scope = this.randomScope(parameters);
+      const actual = this.matrixEntries(expression, scope);
+      const expected = claimed.map(row => row.map(entry => this.complexValue(entry, scope)));
+      if (!actual || expected.some(row => row.some(entry => !entry || ![entry.re, entry.im].every(Number.isFinite)))) continue;
+      if (actual.length !== expected.length || actual[0].length !== expected[0].length) {
+        return { status: 'failed', check: `mathjs gives a ${actual.length}×${actual[0].length} result, not ${expected.length}×${expected[0].length}` };
+      }
+      for (const [i, row] of actual.entries()) {
+        for (const [j, value] of row.entries()) {
+          const entry = expected[i][j] as Complex;
+          if (Math.hypot(value.re - entry.re, value.im - entry.im) > 1e-9 * Math.max(1, Math.hypot(value.re, value.im))) {
+            return { status: 'failed', check: `mathjs gives ${formatDecimal(value.re)}${value.im ? ` + ${formatDecimal(value.im)}i` : ''} for entry (${i + 1}, ${j + 1}), not ${claimed[i][j]}` };
+          }
+        }
+      }
+      return { status: 'verified', check: `Recomputed numerically with mathjs${parameters.length ? ` at random values of ${parameters.join(', ')}` : ''}` };
+    }
+    return this.unverified('The expression could not be evaluated numerically');
+  }
+
+  // A sends every basis vector to 0, the vectors are independent, and there are as many as columns minus the rank
+  static nullSpace(matrix: string[][], basis: string[][], parameters: string[]): Verification {
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const scope = this.randomScope(parameters);
+      const [a, vectors] = [matrix, basis].map(rows => rows.map(row => row.map(entry => evaluateNumeric(entry, scope))));
+      if (![...a, ...vectors].every(row => row.every(Number.isFinite))) continue;
+      const scale = Math.max(1, ...a.flat().map(Math.abs));
+      for (const vector of vectors) {
+        const residual = Math.max(...a.map(row => Math.abs(row.reduce((sum, entry, j) => sum + entry * vector[j], 0))));
+        if (residual > 1e-9 * scale * Math.max(1, ...vector.map(Math.abs))) {
+          return { status: 'failed', check: `A·[${vector.map(value => formatDecimal(value)).join(', ')}] is not the zero vector` };
+        }
+      }
+      const rank = this.numericRank(a);
+      const nullity = a[0].length - rank;
+      if (vectors.length !== nullity || this.numericRank(vectors) !== vectors.length) {
+        return { status: 'failed', check: `A has rank ${rank}, so its null space has dimension ${nullity}, but ${vectors.length} independent vectors were found` };
+      }
+      return {
+        status: 'verified',
+        check: `Numerical elimination gives rank ${rank}${nullity ? `, and A sends ${nullity === 1 ? 'the basis vector' : `all ${nullity} independent basis vectors`} of the null space to 0` : ' with a trivial null space'}`
+      };
+    }
+    return this.unverified('The matrix could not be evaluated numerically');
+  }
+
+  // Av = λv for every eigenvector, and the eigenvalues add up to the trace and multiply to the determinant
+  static eigen(matrix: string[][], eigenspaces: Eigenspace[], parameters: string[]): Verification {
+    const n = matrix.length;
+    const complete = eigenspaces.reduce((total, space) => total + space.multiplicity, 0) === n;
+    const count = eigenspaces.reduce((total, space) => total + space.vectors.length, 0);
+    if (!complete && !count) {
+      return this.unverified('Not every eigenvalue was found, so neither the trace nor eigenvectors can be checked');
+    }
+    const times = (x: Complex, y: Complex): Complex => ({ re: x.re * y.re - x.im * y.im, im: x.re * y.im + x.im * y.re });
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const scope = this.randomScope(parameters);
+      const value = (entry: string) => this.complexValue(entry, scope);
+      const a = matrix.map(row => row.map(value));
+      const spaces = eigenspaces.map(space => ({ value: value(space.value), vectors: space.vectors.map(vector => vector.map(value)) }));
+      const values = [...a.flat(), ...spaces.flatMap(space => [space.value, ...space.vectors.flat()])];
+      if (values.some(entry => !entry || ![entry.re, entry.im].every(Number.isFinite))) continue;
+
+      const scale = Math.max(1, ...values.map(entry => Math.hypot((entry as Complex).re, (entry as Complex).im)));
+      for (const [k, space] of spaces.entries()) {
+        const lambda = space.value as Complex;
+        for (const vector of space.vectors as Complex[][]) {
+          const residual = Math.max(...(a as Complex[][]).map((row, i) => {
+            const product = row.reduce((sum, entry, j) => {
+              const term = times(entry, vector[j]);
+              return { re: sum.re + term.re, im: sum.im + term.im };
+            }, { re: 0, im: 0 });
+            const expected = times(lambda, vector[i]);
+            return Math.hypot(product.re - expected.re, product.im - expected.im);
+          }));
+          if (residual > 1e-8 * scale * scale) {
+            return { status: 'failed', check: `Av ≠ λv for λ = ${eigenspaces[k].value} and v = [${eigenspaces[k].vectors[space.vectors.indexOf(vector)].join(', ')}]` };
+          }
+        }
+      }
+      if (!complete) {
+        return { status: 'verified', check: `Av = λv holds numerically for ${count === 1 ? 'the eigenvector' : `all ${count} eigenvectors`}` };
+      }
+
+      const trace = (a as Complex[][]).reduce((sum, row, i) => ({ re: sum.re + row[i].re, im: sum.im + row[i].im }), { re: 0, im: 0 });
+      const sum = spaces.reduce((total, space, k) => ({
+        re: total.re + eigenspaces[k].multiplicity * (space.value as Complex).re,
+        im: total.im + eigenspaces[k].multiplicity * (space.value as Complex).im
+      }), { re: 0, im: 0 });
+      const product = spaces.reduce((total, space, k) => Array.from({ length: eigenspaces[k].multiplicity })
+        .reduce<Complex>(result => times(result, space.value as Complex), total), { re: 1, im: 0 });
+      const determinant = this.complexValue(`det(${JSON.stringify(matrix).replace(/"/g, '')})`, scope);
+      if (Math.hypot(trace.re - sum.re, trace.im - sum.im) > 1e-8 * scale) {
+        return { status: 'failed', check: `The eigenvalues add up to ${formatDecimal(sum.re)}, not the trace ${formatDecimal(trace.re)}` };
+      }
+      if (determinant && Math.hypot(determinant.re - product.re, determinant.im - product.im) > 1e-8 * scale ** n) {
+        return { status: 'failed', check: `The eigenvalues multiply to ${formatDecimal(product.re)}, not det A = ${formatDecimal(determinant.re)}` };
+      }
+      return {
+        status: 'verified',
+        check: `${count ? `Av = λv holds numerically for ${count === 1 ? 'the eigenvector' : `all ${count} eigenvectors`}, and the` : 'The'} eigenvalues add up to the trace${determinant ? ' and multiply to the determinant' : ''}`
+      };
+    }
+    return this.unverified('The matrix could not be evaluated numerically');
+  }
+
+  // Rank by Gaussian elimination with partial pivoting, ignoring pivots at rounding level
+  static numericRank(matrix: number[][]): number {
+    const rows = matrix.map(row => [...row]);
+    const tolerance = 1e-9 * Math.max(1, ...rows.flat().map(Math.abs));
+    let rank = 0;
+    for (let column = 0; column < (rows[0]?.length ?? 0) && rank < rows.length; column++) {
+      const pivot = rows.reduce((best, row, i) => (i >= rank && Math.abs(row[column]) > Math.abs(rows[best][column]) ? i : best), rank);
+      if (Math.abs(rows[pivot][column]) <= tolerance) continue;
+      [rows[rank], rows[pivot]] = [rows[pivot], rows[rank]];
+      for (let i = rank + 1; i < rows.length; i++) {
+        const factor = rows[i][column] / rows[rank][column];
+        rows[i] = rows[i].map((entry, j) => entry - factor * rows[rank][j]);
+      }
+      rank++;
+    }
+    return rank;
+  }
+
+  // Entries of a mathjs matrix, vector or number as complex numbers, row by row; a vector is a column
+  static matrixEntries(expression: string, scope: Record<string, unknown>): Complex[][] | null {
+    try {
+      const value = evaluate(toMathjs(expression), { ...scope });
+      const array: unknown = isMatrix(value) ? value.toArray() : value;
+      const toComplex = (entry: unknown): Complex | null =>
+        typeof entry === 'number' ? { re: entry, im: 0 } : isComplex(entry) ? { re: entry.re, im: entry.im } : null;
+      const rows = Array.isArray(array)
+        ? array.map(row => (Array.isArray(row) ? row : [row]).map(toComplex))
+        : [[toComplex(array)]];
+      return rows.every(row => row.every(entry => entry && [entry.re, entry.im].every(Number.isFinite))) ? (rows as Complex[][]) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  static randomScope(parameters: string[]): Record<string, number> {
+    return Object.fromEntries(parameters.map(name => [name, Number((Math.random() * 6 - 3).toFixed(3))]));
+  }
+
+  // Both sides of an equation for the given values, which may be complex, or null when either is not a finite number
+  static sidesAt(left: string, right: string, scope: Record<string, unknown>): [Complex, Complex] | null {
+    const [l, r] = [left, right].map(side => this.complexValue(side, scope));
+    return l && r && [l.re, l.im, r.re, r.im].every(Number.isFinite) ? [l, r] : null;
+  }
+
+  static complexValue(expr: string, scope: Record<string, unknown> = {}): Complex | null {
+    try {
+      const value = evaluate(toMathjs(expr), { ...scope });
+      if (typeof value === 'number') return { re: value, im: 0 };
+      return isComplex(value) ? { re: value.re, im: value.im } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Sample random points where both sides are real and compare them within a relative tolerance
+  static compareAtRandomPoints(
+    variables: string[],
+    evaluatePair: (scope: Scope) => [number, number],
+    tolerance: number,
+    describe: (count: number) => string,
+    expectedName: string
+  ): Verification {
+    let count = 0;
+    for (let attempt = 0; attempt < MAX_ATTEMPTS && count < SAMPLE_COUNT; attempt++) {
+      const scope = Object.fromEntries(variables.map(variable => [variable, Number((Math.random() * 6 - 3).toFixed(3))]));
+      const [actual, expected] = evaluatePair(scope);
+      if (!Number.isFinite(actual) || !Number.isFinite(expected)) continue;
+
+      count++;
+      if (Math.abs(actual - expected) > tolerance * Math.max(1, Math.abs(expected), Math.abs(actual))) {
+        const point = variables.map(variable => `${variable} = ${scope[variable]}`).join(', ');
+        return {
+          status: 'failed',
+          check: `At ${point} the ${expectedName} value is ${formatDecimal(expected)} but the result gives ${formatDecimal(actual)}`
+        };
+      }
+    }
+
+    return count >= 2
+      ? { status: 'verified', check: describe(count) }
+      : this.unverified('Too few sample points lie in the domain to check the result');
+  }
+}
@@ -0,0 +1,284 @@
+import { complex } from 'mathjs';
+import type { CalculusSolution } from './calculusEngine';
+import { EquationSolver } from './equationSolver';
+import { recordSteps, type Push } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { cas, isFreeOf, isPolynomial } from './expressionUtils';
+import { ExpressionParser, ParseError, type EquationNode, type ExpressionNode } from './expressionParser';
+
+export interface SystemSpec {
+  equations: { left: string; right: string }[];
+  variables: string[];
+}
+
+export class SystemSolver {
+  // Two or more equations, as {e1, e2}, as clauses "e1, e2", or solve({e1, e2}, [x, y])
+  static isSystem(node: ExpressionNode): boolean {
+    if (node.kind === 'call' && node.name === 'solve') {
+      const [equations, variables] = node.args;
+      return equations?.kind === 'list' || variables?.kind === 'list';
+    }
+    return this.equations(node).length >= 2;
+  }
+
+  // The equations of a list or of comma-separated clauses; empty unless every item is an equation
+  static equations(node: ExpressionNode): EquationNode[] {
+    const items = node.kind === 'list'
+      ? node.items
+      : node.kind === 'sequence' && node.clauses.every(({ separator }) => separator === null || separator === ',' || separator === ';')
+        ? node.clauses.map(clause => clause.node)
+        : [node];
+    return items.every((item): item is EquationNode => item.kind === 'equation') ? (items as EquationNode[]) : [];
+  }
+
+  static spec(node: ExpressionNode): SystemSpec {
+    let system = node;
+    let named: string[] | undefined;
+    if (node.kind === 'call' && node.name === 'solve') {
+      const [equations, variables] = node.args;
+      if (node.args.length > 2) {
+        throw new ParseError('Expected solve({equations}, [variables])', node.position);
+      }
+      system = equations;
+      if (variables) {
+        const items = variables.kind === 'list' ? variables.items : [variables];
+        if (items.some(item => item.kind !== 'symbol')) {
+          throw new ParseError('Expected the variables as [x, y]', variables.position);
+        }
+        named = items.map(item => (item.kind === 'symbol' ? item.name : ''));
+      }
+    }
+
+    const equations = this.equations(system);
+    if (!equations.length) {
+      throw new ParseError('Expected a system of equations such as {2x + y = 5, x - y = 1}', system.position);
+    }
+    const variables = named ?? [...new Set(equations.flatMap(equation => ExpressionParser.variables(equation)))].sort();
+    if (!variables.length) {
+      throw new ParseError('The system has no variables to solve for', system.position);
+    }
+    return {
+      equations: equations.map(equation => ({ left: ExpressionParser.print(equation.left), right: ExpressionParser.print(equation.right) })),
+      variables
+    };
+  }
+
+  static solve(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    const { equations, variables } = this.spec(node);
+    const { steps, push, methods } = recordSteps();
+    push(equations.map(({ left, right }) => `${left} = ${right}`).join(', '), `Solve for ${variables.join(', ')}`);
+
+    const expressions = equations.map(({ left, right }) => cas(`(${left})-(${right})`));
+    const linear = this.isLinear(expressions, variables);
+    const found = linear ? this.gaussianElimination(expressions, variables, push) : this.substitution(expressions, variables, push);
+
+    // Substitution can pick up roots of squared or cleared equations, so check every candidate in the originals
+    const solutions: Record<string, string>[] = [];
+    const rejected: string[] = [];
+    for (const candidate of found) {
+      const solution = Object.fromEntries(variables.map(variable => [variable, candidate[variable] ?? variable]));
+      const key = variables.map(variable => solution[variable]).join(', ');
+      if (solutions.some(existing => variables.map(variable => existing[variable]).join(', ') === key)) continue;
+      if (!linear && this.satisfies(equations, solution) === false) rejected.push(`(${key})`);
+      else solutions.push(solution);
+    }
+    if (rejected.length) {
+      push(`(${variables.join(', ')}) = ${rejected.join(', ')}`,
+        `${rejected.length === 1 ? 'This candidate fails' : 'These candidates fail'} an original equation, so ${rejected.length === 1 ? 'it is' : 'they are'} extraneous`, 'Extraneous Root Check');
+    }
+
+    const free = variables.filter(variable => solutions.some(solution => solution[variable] === variable));
+    const result = this.describe(variables, solutions, free);
+    push(result, solutions.length === 0
+      ? 'No values satisfy every equation at once'
+      : free.length ? 'Every choice of the free variables gives a solution' : solutions.length === 1 ? 'The unique solution' : 'All solutions');
+
+    const parameters = [...new Set([
+      ...equations.flatMap(({ left, right }) => ExpressionParser.variables(ExpressionParser.parse(`${left} = ${right}`))).filter(name => !variables.includes(name)),
+      ...free
+    ])];
+    const assigned = solutions.map(solution => Object.fromEntries(Object.entries(solution).filter(([variable, value]) => variable !== value)));
+    return {
+      original: expr,
+      result,
+      steps,
+      type: 'System of Equations',
+      method: [...methods].join(' / '),
+      solutions,
+      verified: solutions.length
+        ? SolutionVerifier.system(equations, assigned, parameters)
+        : SolutionVerifier.unverified('The system has no solution to substitute back')
+    };
+  }
+
+  // x = 2, y = 1 for a unique solution, (x, y) = (3, 4), (-3, 4) for several
+  static describe(variables: string[], solutions: Record<string, string>[], free: string[]): string {
+    if (!solutions.length) return 'No solution';
+    if (solutions.length > 1) {
+      return `(${variables.join(', ')}) = ${solutions.map(solution => `(${variables.map(variable => solution[variable]).join(', ')})`).join(', ')}`;
+    }
+    const [solution] = solutions;
+    const assigned = variables.filter(variable => solution[variable] !== variable).map(variable => `${variable} = ${solution[variable]}`);
+    if (!free.length) return assigned.join(', ');
+    const parameters = `${free.join(', ')} ${free.length === 1 ? 'is' : 'are'} free`;
+    return `${assigned.length ? `${assigned.join(', ')}; ` : ''}${parameters} (infinitely many solutions)`;
+  }
+
+  // Every equation is affine in the variables: each coefficient is free of all of them
+  static isLinear(expressions: string[], variables: string[]): boolean {
+    return expressions.every(expression => variables.every(variable => {
+      if (!isPolynomial(expression, variable)) return false;
+      const coefficient = cas(`d(${expression},${variable})`);
+      return variables.every(other => isFreeOf(coefficient, other));
+    }));
+  }
+
+  // Row-reduce the augmented matrix [A | b] to echelon form, then back-substitute
+  static gaussianElimination(expressions: string[], variables: string[], push: Push): Record<string, string>[] {
+    const n = variables.length;
+    const rows = expressions.map(expression => {
+      const constant = variables.reduce((text, variable) => cas(`subst(0,${variable},${text})`), expression);
+      return [...variables.map(variable => cas(`d(${expression},${variable})`)), cas(`-(${constant})`)];
+    });
+    const show = () => rows.map(row => `[${row.slice(0, n).join(', ')} | ${row[n]}]`).join(', ');
+    push(show(), `Write the system as the augmented matrix [A | b] with columns ${variables.join(', ')}`, 'Gaussian Elimination');
+
+    const pivots: number[] = [];
+    let rank = 0;
+    for (let column = 0; column < n && rank < rows.length; column++) {
+      const pivot = rows.findIndex((row, i) => i >= rank && !this.isZero(row[column]));
+      if (pivot < 0) continue;
+      if (pivot !== rank) {
+        [rows[rank], rows[pivot]] = [rows[pivot], rows[rank]];
+        push(show(), `Swap R${rank + 1} and R${pivot + 1} to bring a nonzero pivot into the ${variables[column]} column`, 'Gaussian Elimination');
+      }
+      for (let i = rank + 1; i < rows.length; i++) {
+        if (this.isZero(rows[i][column])) continue;
+        const factor = cas(`(${rows[i][column]})/(${rows[rank][column]})`);
+        rows[i] = rows[i].map((entry, j) => cas(`simplify((${entry})-(${factor})*(${rows[rank][j]}))`));
+        const multiple = factor === '1' ? '' : /^-?[\w.]+$/.test(factor) && !factor.startsWith('-') ? `${factor}·` : `(${factor})·`;
+        push(show(), `R${i + 1} → R${i + 1} − ${multiple}R${rank + 1} eliminates ${variables[column]} from row ${i + 1}`, 'Gaussian Elimination');
+      }
+      pivots.push(column);
+      rank++;
+    }
+
+    const contradiction = rows.findIndex((row, i) => i >= rank && !this.isZero(row[n]));
+    if (contradiction >= 0) {
+      push(`0 = ${rows[contradiction][n]}`, `Row ${contradiction + 1} reads 0 = ${rows[contradiction][n]}, a contradiction, so the system is inconsistent`);
+      return [];
+    }
+    if (rank < rows.length) {
+      push(`rank = ${rank}`, `${rows.length - rank === 1 ? 'One row reduces' : `${rows.length - rank} rows reduce`} to 0 = 0 and adds no information`);
+    }
+
+    const free = variables.filter((_, column) => !pivots.includes(column));
+    if (free.length) {
+      push(free.join(', '), `${free.join(', ')} ${free.length === 1 ? 'has no pivot, so it is' : 'have no pivots, so they are'} free and the system has infinitely many solutions`);
+    }
+
+    const values: Record<string, string> = Object.fromEntries(free.map(variable => [variable, variable]));
+    for (let i = rank - 1; i >= 0; i--) {
+      const column = pivots[i];
+      const known = variables
+        .map((variable, j) => (j > column && rows[i][j] !== '0' ? `-(${rows[i][j]})*(${values[variable]})` : ''))
+        .join('');
+      const value = cas(`simplify(((${rows[i][n]})${known})/(${rows[i][column]}))`);
+      values[variables[column]] = value;
+      push(`${variables[column]} = ${value}`,
+        known ? `Back-substitute the known values into row ${i + 1} and solve for ${variables[column]}` : `Row ${i + 1} gives ${variables[column]} directly`,
+        'Back Substitution');
+    }
+    return [values];
+  }
+
+  // Solve one equation for one variable, substitute into the rest and repeat, branching on multiple roots
+  // An entry that is zero, including the 0.0 that decimal arithmetic leaves behind
+  static isZero(entry: string): boolean {
+    return entry === '0' || Number(entry.replace(/\.\.\.$/, '')) === 0;
+  }
+
+  static substitution(expressions: string[], variables: string[], push: Push): Record<string, string>[] {
+    const pending = expressions.filter(expression => expression !== '0');
+    const constant = pending.find(expression => variables.every(variable => isFreeOf(expression, variable)));
+    if (constant !== undefined) {
+      if (cas(`simplify(${constant})`) === '0') {
+        return this.substitution(pending.filter(expression => expression !== constant), variables, push);
+      }
+      push(`${constant} = 0`, 'This leaves a false statement, so there is no solution along this branch');
+      return [];
+    }
+    if (!pending.length || !variables.length) return [{}];
+
+    const { expression, variable } = this.choose(pending, variables);
+    const coefficient = cas(`d(${expression},${variable})`);
+    let values: string[];
+    if (isPolynomial(expression, variable) && isFreeOf(coefficient, variable)) {
+      values = [cas(`simplify(-(${cas(`subst(0,${variable},${expression})`)})/(${coefficient}))`)];
+      push(`${variable} = ${values[0]}`, `Solve ${expression} = 0 for ${variable}`, 'Substitution');
+    } else {
+      const derivation = EquationSolver.derive({ left: expression, right: '0', variable });
+      if (derivation.identity) {
+        return this.substitution(pending.filter(other => other !== expression), variables, push);
+      }
+      values = derivation.roots.map(root => root.value);
+      push(values.length ? values.map(value => `${variable} = ${value}`).join(' or ') : `${expression} = 0`,
+        values.length
+          ? `Solve ${expression} = 0 for ${variable}${derivation.methods.length ? ` (${derivation.methods.join(', ')})` : ''}`
+          : `${expression} = 0 has no solution for ${variable}, so there is no solution along this branch`,
+        'Substitution');
+    }
+
+    const rest = pending.filter(other => other !== expression);
+    const remaining = variables.filter(other => other !== variable);
+    const solutions: Record<string, string>[] = [];
+    for (const value of values) {
+      const substituted = rest.map(other => cas(`subst((${value}),${variable},${other})`));
+      if (substituted.length) {
+        push(substituted.map(other => `${other} = 0`).join(', '),
+          `Substitute ${variable} = ${value} into the remaining equation${rest.length === 1 ? '' : 's'}`);
+      }
+      for (const partial of this.substitution(substituted, remaining, push)) {
+        const resolved = Object.entries(partial).reduce((text, [name, known]) => cas(`subst((${known}),${name},${text})`), value);
+        solutions.push({ ...partial, [variable]: resolved });
+      }
+    }
+    return solutions;
+  }
+
+  // Prefer an equation linear in a variable with a constant coefficient, then one in a single variable, then the lowest degree
+  static choose(expressions: string[], variables: string[]): { expression: string; variable: string } {
+    const options = expressions.flatMap(expression => variables
+      .filter(variable => !isFreeOf(expression, variable))
+      .map(variable => {
+        const polynomial = isPolynomial(expression, variable);
+        const degree = polynomial ? Number(cas(`deg(${expression},${variable})`)) : Infinity;
+        const coefficient = degree === 1 ? cas(`d(${expression},${variable})`) : '';
+        const mentioned = variables.filter(other => !isFreeOf(expression, other)).length;
+        const rank = degree === 1 && variables.every(other => isFreeOf(coefficient, other)) ? 0
+          : mentioned === 1 ? 1
+            : degree === 1 && isFreeOf(coefficient, variable) ? 2
+              : 3 + Math.min(degree, 10);
+        return { expression, variable, rank };
+      }));
+    return options.reduce((best, option) => (option.rank < best.rank ? option : best));
+  }
+
+  // Whether a solution satisfies every original equation; null when one cannot be evaluated numerically
+  static satisfies(equations: { left: string; right: string }[], solution: Record<string, string>): boolean | null {
+    const scope: Record<string, unknown> = {};
+    for (const [variable, value] of Object.entries(solution)) {
+      const numeric = SolutionVerifier.complexValue(value);
+      if (!numeric) return null;
+      scope[variable] = numeric.im === 0 ? numeric.re : complex(numeric.re, numeric.im);
+    }
+
+    for (const { left, right } of equations) {
+      const sides = SolutionVerifier.sidesAt(left, right, scope);
+      if (!sides) return false;
+      const [l, r] = sides;
+      if (Math.hypot(l.re - r.re, l.im - r.im) > 1e-8 * Math.max(1, Math.hypot(l.re, l.im), Math.hypot(r.re, r.im))) return false;
+    }
+    return true;
+  }
+}
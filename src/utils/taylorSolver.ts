@@ -0,0 +1,270 @@
+import type { CalculusSolution } from './calculusEngine';
+import { recordSteps } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { cas, evaluateNumeric, formatDecimal, ordinal, superscript } from './expressionUtils';
+import { ExpressionParser, ParseError, type ExpressionNode } from './expressionParser';
+
+export interface TaylorSpec {
+  expression: string;
+  variable: string;
+  center: string;
+  order: number;
+  // Point at which to evaluate the polynomial and bound its error
+  point?: string;
+}
+
+// A standard Maclaurin series g(u) = Σ term, valid for |u| < radius
+interface KnownSeries {
+  name: string;
+  g: (u: string) => string;
+  // General term with u and k, for display
+  term: string;
+  start: number;
+  // null when the series converges for every u
+  radius: number | null;
+  // Whether u = -radius and u = radius belong to the interval
+  endpoints: [boolean, boolean];
+}
+
+const KNOWN_SERIES: KnownSeries[] = [
+  { name: 'exp(u)', g: u => `exp(${u})`, term: 'u^k/k!', start: 0, radius: null, endpoints: [false, false] },
+  { name: 'sin(u)', g: u => `sin(${u})`, term: '(-1)^k*u^(2k+1)/(2k+1)!', start: 0, radius: null, endpoints: [false, false] },
+  { name: 'cos(u)', g: u => `cos(${u})`, term: '(-1)^k*u^(2k)/(2k)!', start: 0, radius: null, endpoints: [false, false] },
+  { name: 'sinh(u)', g: u => `sinh(${u})`, term: 'u^(2k+1)/(2k+1)!', start: 0, radius: null, endpoints: [false, false] },
+  { name: 'cosh(u)', g: u => `cosh(${u})`, term: 'u^(2k)/(2k)!', start: 0, radius: null, endpoints: [false, false] },
+  { name: 'log(1 + u)', g: u => `log(1+${u})`, term: '(-1)^(k+1)*u^k/k', start: 1, radius: 1, endpoints: [false, true] },
+  { name: '1/(1 - u)', g: u => `1/(1-${u})`, term: 'u^k', start: 0, radius: 1, endpoints: [false, false] },
+  { name: 'arctan(u)', g: u => `arctan(${u})`, term: '(-1)^k*u^(2k+1)/(2k+1)', start: 0, radius: 1, endpoints: [true, true] },
+];
+
+const MAX_ORDER = 20;
+const DEFAULT_ORDER = 5;
+// Stand-in for u while the known series are differentiated
+const SERIES_SYMBOL = 'seriesarg';
+const REMAINDER_SAMPLES = 400;
+
+export class TaylorSolver {
+  // taylor(f[, x[, a[, n[, x0]]]]) or maclaurin(f[, x[, n]])
+  static spec(node: ExpressionNode): TaylorSpec {
+    if (node.kind !== 'call' || (node.name !== 'taylor' && node.name !== 'maclaurin')) {
+      throw new ParseError('Expected taylor(f, x, a, n) or maclaurin(f, x, n)', node.position);
+    }
+    const maclaurin = node.name === 'maclaurin';
+    const [body, variable, ...options] = node.args;
+    const [center, order, point] = maclaurin ? [undefined, ...options] : options;
+    if (!body || node.args.length > (maclaurin ? 3 : 5)) {
+      throw new ParseError(maclaurin ? 'Expected maclaurin(f, x, n)' : 'Expected taylor(f, x, a, n) or taylor(f, x, a, n, x0)', node.position);
+    }
+    if (variable && variable.kind !== 'symbol') {
+      throw new ParseError('Expected the variable of expansion as a name such as x', variable.position);
+    }
+    if (order && (order.kind !== 'number' || !Number.isInteger(Number(order.value)))) {
+      throw new ParseError('Expected the order as a whole number', order.position);
+    }
+
+    const variables = ExpressionParser.variables(body);
+    const spec: TaylorSpec = {
+      expression: ExpressionParser.print(body),
+      variable: variable?.kind === 'symbol' ? variable.name : variables.length === 1 ? variables[0] : 'x',
+      center: center ? ExpressionParser.print(center) : '0',
+      order: order?.kind === 'number' ? Number(order.value) : DEFAULT_ORDER,
+      ...(point ? { point: ExpressionParser.print(point) } : {})
+    };
+    if (spec.order < 0 || spec.order > MAX_ORDER) {
+      throw new Error(`The order must be between 0 and ${MAX_ORDER}`);
+    }
+    return spec;
+  }
+
+  static solve(expr: string, node = ExpressionParser.parse(expr)): CalculusSolution {
+    const spec = this.spec(node);
+    const { expression: f, variable: x, center: a, order: n, point } = spec;
+    const { steps, push } = recordSteps();
+
+    const base = a === '0' ? x : `(${cas(`${x}-(${a})`)})`;
+    push(`P${this.subscript(n)}(${x}) = Σ_{k=0}^{${n}} f⁽ᵏ⁾(${a})/k!·${base}ᵏ`,
+      `${a === '0' ? 'Maclaurin' : 'Taylor'} polynomial of order ${n} of f(${x}) = ${f} about ${x} = ${a}`);
+
+    // One order beyond n for the remainder, and at least four to recognise a known series
+    const derivatives = [f];
+    for (let k = 1; k <= Math.max(n + 1, 4); k++) derivatives.push(cas(`d(${derivatives[k - 1]},${x})`));
+    const values = derivatives.map(derivative => this.valueAt(derivative, x, a));
+
+    const coefficients: string[] = [];
+    for (let k = 0; k <= n; k++) {
+      if (values[k] === null) {
+        throw new Error(`${this.derivativeName(k)}(${x}) = ${derivatives[k]} is undefined at ${x} = ${a}, so f has no Taylor expansion there`);
+      }
+      push(`${this.derivativeName(k)}(${x}) = ${derivatives[k]}  ⇒  ${this.derivativeName(k)}(${a}) = ${values[k]}`,
+        k === 0 ? `Evaluate f at ${x} = ${a}` : `The ${ordinal(k)} derivative, evaluated at ${x} = ${a}`,
+        k === 0 ? undefined : 'Differentiation');
+      coefficients.push(cas(`(${values[k]})/${this.factorial(k)}`));
+    }
+
+    const polynomial = this.display(coefficients, base);
+    const sum = coefficients.map((c, k) => `(${c})*(${x}-(${a}))^${k}`).join('+');
+    push(`P${this.subscript(n)}(${x}) = ${polynomial}`, `Divide each f⁽ᵏ⁾(${a}) by k! and sum the terms`, 'Taylor Polynomial');
+
+    const known = this.recognize(f, x, a, values);
+    if (known) {
+      push(`f(${x}) = ${known.general}`, known.explanation, 'Known Series');
+      push(known.interval.expression, known.interval.explanation, 'Interval of Convergence');
+    } else {
+      push(`f(${x}) = ${f}`, 'The function does not match a standard series, so no general term or interval of convergence is given');
+    }
+
+    const remainder = this.remainder(f, sum, derivatives[n + 1], x, a, n, point, known?.radius);
+    if (remainder) {
+      remainder.forEach(({ expression, explanation }) => push(expression, explanation, 'Lagrange Remainder'));
+    }
+
+    const approximation = point ? evaluateNumeric(sum, { [x]: evaluateNumeric(point) }) : NaN;
+    return {
+      original: expr,
+      result: point && Number.isFinite(approximation)
+        ? `${polynomial}, P${this.subscript(n)}(${point}) ≈ ${formatDecimal(approximation, 10)}`
+        : polynomial,
+      steps,
+      type: 'Taylor Series',
+      method: ['Differentiation', 'Taylor Polynomial', ...(known ? ['Known Series'] : []), ...(remainder ? ['Lagrange Remainder'] : [])].join(' / '),
+      verified: SolutionVerifier.taylor(f, x, a, n, sum)
+    };
+  }
+
+  // The value of a derivative at the center, or null where it is undefined
+  static valueAt(expression: string, variable: string, center: string): string | null {
+    try {
+      const value = cas(`subst((${center}),${variable},${expression})`);
+      const numeric = evaluateNumeric(value);
+      return Number.isNaN(numeric) || Number.isFinite(numeric) ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Match f = A·g(c·(x − a)) + B for a standard series g, from the derivatives of both at the center
+  static recognize(f: string, x: string, a: string, values: (string | null)[]) {
+    for (const series of KNOWN_SERIES) {
+      const g = series.g(SERIES_SYMBOL);
+      const derivatives = [g];
+      for (let k = 1; k <= 4; k++) derivatives.push(cas(`d(${derivatives[k - 1]},${SERIES_SYMBOL})`));
+      const at = derivatives.map(derivative => cas(`subst(0,${SERIES_SYMBOL},${derivative})`));
+
+      // The first two nonzero derivatives of g fix c and A
+      const [m1, m2] = [1, 2, 3, 4].filter(k => at[k] !== '0');
+      if (m2 === undefined || !values[m1] || !values[m2] || values[m1] === '0' || values[0] === null) continue;
+      const ratio = cas(`(${values[m2]})*(${at[m1]})/((${values[m1]})*(${at[m2]}))`);
+      const c = m2 - m1 === 1 ? ratio : cas(`(${ratio})^(1/${m2 - m1})`);
+      if (c === '0' || !Number.isFinite(evaluateNumeric(c))) continue;
+      const A = cas(`(${values[m1]})/((${at[m1]})*(${c})^${m1})`);
+      const B = cas(`(${values[0]})-(${A})*(${at[0]})`);
+
+      const u = `(${c})*(${x}-(${a}))`;
+      try {
+        if (cas(`simplify((${f})-((${A})*(${series.g(u)})+(${B})))`) !== '0') continue;
+      } catch {
+        continue;
+      }
+
+      const shown = cas(u);
+      const term = series.term.replace(/u/g, /^[\w.]+$/.test(shown) ? shown : `(${shown})`);
+      const general = `${B === '0' ? '' : `${B} + `}Σ_{k=${series.start}}^∞ ${A === '1' ? '' : A === '-1' ? '-' : `${A}·`}${term}`;
+      return {
+        general,
+        explanation: `f matches the standard series ${series.name} = Σ ${series.term} with u = ${shown}`,
+        radius: series.radius === null ? Infinity : series.radius / Math.abs(evaluateNumeric(c)),
+        interval: this.interval(series, c, x, a)
+      };
+    }
+    return null;
+  }
+
+  // |u| < R with u = c·(x − a) gives |x − a| < R/|c|, with the endpoints the standard series includes
+  static interval(series: KnownSeries, c: string, x: string, a: string): { expression: string; explanation: string } {
+    if (series.radius === null) {
+      return { expression: `${x} ∈ (-∞, ∞)`, explanation: `${series.name} converges for every u, so the radius of convergence is R = ∞` };
+    }
+    const negative = evaluateNumeric(c) < 0;
+    const halfWidth = cas(`${series.radius}/(${negative ? `-(${c})` : c})`);
+    const [left, right] = [cas(`(${a})-(${halfWidth})`), cas(`(${a})+(${halfWidth})`)];
+    // x = a − R/|c| corresponds to u = −R when c > 0 and to u = R when c < 0
+    const [includeLeft, includeRight] = negative ? [series.endpoints[1], series.endpoints[0]] : series.endpoints;
+    return {
+      expression: `${x} ∈ ${includeLeft ? '[' : '('}${left}, ${right}${includeRight ? ']' : ')'}`,
+      explanation: `${series.name} converges for -${series.radius} ${series.endpoints[0] ? '≤' : '<'} u ${series.endpoints[1] ? '≤' : '<'} ${series.radius}, so the radius of convergence is R = ${halfWidth}`
+    };
+  }
+
+  // |Rₙ(x)| ≤ M·|x − a|ⁿ⁺¹/(n + 1)! with M the largest |f⁽ⁿ⁺¹⁾| between a and x, sampled numerically
+  static remainder(f: string, polynomial: string, next: string, x: string, a: string, n: number, point: string | undefined, radius = Infinity) {
+    const center = evaluateNumeric(a);
+    if (!Number.isFinite(center)) return null;
+
+    const target = point === undefined ? NaN : evaluateNumeric(point);
+    if (point !== undefined && !Number.isFinite(target)) {
+      throw new Error(`the evaluation point ${point} is not a number`);
+    }
+    let [low, high] = point !== undefined
+      ? [Math.min(center, target), Math.max(center, target)]
+      : [center - Math.min(1, radius / 2), center + Math.min(1, radius / 2)];
+
+    const derivative = (t: number) => Math.abs(evaluateNumeric(next, { [x]: t }));
+    let bound = NaN;
+    for (let attempt = 0; attempt < 6 && !Number.isFinite(bound); attempt++) {
+      if (attempt > 0 && point === undefined) [low, high] = [(low + center) / 2, (high + center) / 2];
+      let largest = 0;
+      for (let i = 0; i <= REMAINDER_SAMPLES; i++) largest = Math.max(largest, derivative(low + ((high - low) * i) / REMAINDER_SAMPLES));
+      bound = largest;
+    }
+    if (!Number.isFinite(bound)) return null;
+
+    const h = Math.max(high - center, center - low);
+    const error = (bound * h ** (n + 1)) / this.factorial(n + 1);
+    const name = this.derivativeName(n + 1);
+    const distance = a === '0' ? `|${x}|` : `|${x} − ${a}|`;
+    const steps = [{
+      expression: `|R${this.subscript(n)}(${x})| = |${name}(ξ)|/${n + 1}!·${distance}${superscript(n + 1)} ≤ ${formatDecimal(bound)}·${formatDecimal(h)}${superscript(n + 1)}/${n + 1}! ≈ ${error.toPrecision(4)}`,
+      explanation: `Lagrange remainder for ${point === undefined ? `${distance} ≤ ${formatDecimal(h)}` : `${x} = ${point}`}: ξ lies between ${a} and ${x}, and |${name}| ≤ ${formatDecimal(bound)} on [${formatDecimal(low)}, ${formatDecimal(high)}] (sampled)`
+    }];
+
+    if (point !== undefined) {
+      const exact = evaluateNumeric(f, { [x]: target });
+      const approximation = evaluateNumeric(polynomial, { [x]: target });
+      if (Number.isFinite(exact) && Number.isFinite(approximation)) {
+        steps.push({
+          expression: `f(${point}) ≈ ${formatDecimal(exact, 10)}, P${this.subscript(n)}(${point}) ≈ ${formatDecimal(approximation, 10)}, actual error ≈ ${Math.abs(exact - approximation).toPrecision(4)}`,
+          explanation: `The actual error is within the bound ${error.toPrecision(4)}`
+        });
+      }
+    }
+    return steps;
+  }
+
+  // P = c₀ + c₁(x − a) + ..., with unit coefficients and zero terms omitted
+  static display(coefficients: string[], base: string): string {
+    const terms = coefficients
+      .map((coefficient, k) => {
+        if (coefficient === '0') return null;
+        const power = k === 0 ? '' : k === 1 ? base : `${base}^${k}`;
+        if (!power) return coefficient;
+        if (coefficient === '1') return power;
+        if (coefficient === '-1') return `-${power}`;
+        return `${/[+-]/.test(coefficient.slice(1)) ? `(${coefficient})` : coefficient}*${power}`;
+      })
+      .filter((term): term is string => term !== null);
+    return terms.length ? terms.join(' + ').replace(/\+ -/g, '- ') : '0';
+  }
+
+  static derivativeName(k: number): string {
+    return k <= 3 ? `f${"'".repeat(k)}` : `f⁽${superscript(k)}⁾`;
+  }
+
+  static subscript(n: number): string {
+    const digits = '₀₁₂₃₄₅₆₇₈₉';
+    return String(n).split('').map(digit => digits[Number(digit)]).join('');
+  }
+
+  static factorial(n: number): number {
+    return n <= 1 ? 1 : n * this.factorial(n - 1);
+  }
+}
@@ -0,0 +1,519 @@
+import type { CalculusSolution } from './calculusEngine';
+import { OdeSolver } from './odeSolver';
+import { PolynomialSolver } from './polynomialSolver';
+import { recordSteps, type Push } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { PRODUCT_TO_SUM } from './laplaceSolver';
+import { cas, evaluateNumeric, formatDecimal, freeVariables, isFreeOf, isPolynomial } from './expressionUtils';
+import { ExpressionParser, ParseError, type ExpressionNode } from './expressionParser';
+
+export interface TrigIdentitySpec {
+  left: string;
+  right: string;
+}
+
+// Each angle appearing in the expressions, with sin and cos of it renamed to plain symbols for the algebra
+interface Angles {
+  // Variable → the smallest angle c·x whose integer multiples give every angle in x
+  bases: Map<string, string>;
+  // Angle → index of its symbols
+  symbols: Map<string, number>;
+}
+
+// The reduced form of one side: a quotient of polynomials in the sine and cosine symbols
+interface Reduction {
+  numerator: string;
+  denominator: string;
+  form: string;
+  steps: Step[];
+}
+
+type Step = [expression: string, explanation: string, method?: string];
+type Eliminated = 'sin' | 'cos';
+
+const PROVE_COMMANDS = new Set(['prove', 'identity', 'verify']);
+const SIMPLIFY_COMMANDS = new Set(['trigsimp', 'simplify']);
+// Each function in terms of sin and cos, with the identity's name
+const RECIPROCALS: Record<string, { rewrite: (u: string) => string; identity: string }> = {
+  tan: { rewrite: u => `sin(${u})/cos(${u})`, identity: 'tan(u) = sin(u)/cos(u)' },
+  cot: { rewrite: u => `cos(${u})/sin(${u})`, identity: 'cot(u) = cos(u)/sin(u)' },
+  sec: { rewrite: u => `1/cos(${u})`, identity: 'sec(u) = 1/cos(u)' },
+  csc: { rewrite: u => `1/sin(${u})`, identity: 'csc(u) = 1/sin(u)' },
+};
+// sin A ± sin B and cos A ± cos B as products, keyed by function and sign
+const SUM_TO_PRODUCT: Record<string, (half: string, difference: string) => string> = {
+  'sin,+': (half, difference) => `2*sin(${half})*cos(${difference})`,
+  'sin,-': (half, difference) => `2*cos(${half})*sin(${difference})`,
+  'cos,+': (half, difference) => `2*cos(${half})*cos(${difference})`,
+  'cos,-': (half, difference) => `-2*sin(${half})*sin(${difference})`,
+};
+// Largest multiple of the base angle expanded with the double-angle and addition formulas
+const MAX_MULTIPLE = 8;
+// Points tried in turn for a counterexample, irregular so that they avoid the special angles
+const TRIAL_POINTS = [0.7, 1.3, 0.37, 2.1, -0.9, 2.9];
+// Symbols standing for sin and cos of the ith angle while the CAS does the algebra
+const SINE = (i: number) => `trigsine${i}`;
+const COSINE = (i: number) => `trigcosine${i}`;
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+export class TrigIdentitySolver {
+  // prove(lhs = rhs) and the like, or an equation of trigonometric expressions that holds at every point tried
+  static isIdentity(node: ExpressionNode): boolean {
+    if (node.kind === 'call') return PROVE_COMMANDS.has(node.name);
+    if (node.kind !== 'equation' || !this.isTrigonometric(node)) return false;
+    const [left, right] = [ExpressionParser.print(node.left), ExpressionParser.print(node.right)];
+    return freeVariables(`(${left})-(${right})`).length > 0 && this.counterexample(left, right) === null
+      && TRIAL_POINTS.some(point => Number.isFinite(this.sides(left, right, this.scope(left, right, point))[0]));
+  }
+
+  static isSimplification(node: ExpressionNode): boolean {
+    return node.kind === 'call' && SIMPLIFY_COMMANDS.has(node.name);
+  }
+
+  static isTrigonometric(node: ExpressionNode): boolean {
+    return ExpressionParser.functions(node).some(name => name === 'sin' || name === 'cos' || name in RECIPROCALS);
+  }
+
+  static solve(expr: string, node: ExpressionNode): CalculusSolution {
+    const { steps, push, methods } = recordSteps();
+    const solution = (result: string, type: string, verified: CalculusSolution['verified']): CalculusSolution => ({
+      original: expr,
+      result,
+      steps,
+      type,
+      method: [...methods].join(' / '),
+      verified
+    });
+
+    if (this.isIdentity(node)) {
+      const { left, right } = this.spec(node);
+      const point = this.counterexample(left, right);
+      if (point) {
+        const [a, b] = this.sides(left, right, point);
+        const at = Object.entries(point).map(([name, value]) => `${name} = ${value}`).join(', ');
+        push(`${left} = ${formatDecimal(a)}, ${right} = ${formatDecimal(b)} at ${at}`,
+          `The two sides differ at ${at}, so the equation is not an identity`, 'Counterexample');
+        return solution(`Not an identity: at ${at} the left side is ${formatDecimal(a)} and the right side ${formatDecimal(b)}`,
+          'Trigonometric Identity', SolutionVerifier.counterexample(left, right, point));
+      }
+      const proven = this.prove(left, right, push);
+      return solution(proven ? `${left} = ${right} is an identity` : `${left} = ${right} holds at every point tried, but no chain of identities was found`,
+        'Trigonometric Identity', proven ? SolutionVerifier.identity(left, right) : SolutionVerifier.unverified('No chain of identities turned one side into the other'));
+    }
+
+    const original = node.kind === 'call' && SIMPLIFY_COMMANDS.has(node.name) ? ExpressionParser.print(node.args[0]) : ExpressionParser.print(node);
+    if (node.kind === 'call' && node.args.length !== 1) throw new ParseError(`Expected ${node.name}(f)`, node.position);
+    const result = this.simplify(original, push);
+    return solution(result, 'Trigonometric', SolutionVerifier.identity(original, result));
+  }
+
+  // prove(lhs = rhs), identity(lhs = rhs) or a bare equation
+  static spec(node: ExpressionNode): TrigIdentitySpec {
+    const equation = node.kind === 'call' ? node.args[0] : node;
+    if (equation?.kind !== 'equation' || (node.kind === 'call' && node.args.length !== 1)) {
+      throw new ParseError('Expected prove(lhs = rhs) with an equation between two expressions', node.position);
+    }
+    return { left: ExpressionParser.print(equation.left), right: ExpressionParser.print(equation.right) };
+  }
+
+  // Reduce both sides to quotients of polynomials in sines and cosines, trying each side of the Pythagorean identity
+  static prove(left: string, right: string, push: Push): boolean {
+    const angles = this.angles([left, right]);
+    const attempts = (['sin', 'cos'] as Eliminated[]).flatMap(eliminated => {
+      try {
+        return [{ eliminated, sides: [this.reduce(left, angles, eliminated), this.reduce(right, angles, eliminated)] }];
+      } catch {
+        return [];
+      }
+    });
+    // Prefer the chain that leaves the right side as written
+    const matching = attempts
+      .filter(({ sides: [a, b] }) => cas(`(${a.form})-(${b.form})`) === '0')
+      .sort((first, second) => first.sides[1].steps.length - second.sides[1].steps.length)[0];
+    const replay = (reduction: Reduction, side: string) => reduction.steps.forEach(([expression, explanation, method], k) => {
+      push(expression, k === 0 ? `${explanation} (${side})` : explanation, method);
+    });
+
+    if (matching) {
+      const [a, b] = matching.sides;
+      replay(a, 'left side');
+      replay(b, 'right side');
+      // When one side needs no rewriting the chain runs straight from one side to the other
+      const chain = [left, a.form, right].filter((text, k, all) => k === 0 || text.replace(/\s/g, '') !== all[k - 1].replace(/\s/g, ''));
+      const explanation = a.steps.length && b.steps.length ? 'Both sides reduce to the same expression, so the identity holds'
+        : a.steps.length ? 'The left side has been transformed into the right side' : 'The right side has been transformed into the left side';
+      push(chain.join(' = '), explanation, 'Identity Proven');
+      return true;
+    }
+
+    for (const { eliminated, sides: [a, b] } of attempts) {
+      const cross = this.pythagorean(cas(`expand((${a.numerator})*(${b.denominator})-(${b.numerator})*(${a.denominator}))`), angles, eliminated);
+      if (cross !== '0') continue;
+      replay(a, 'left side');
+      replay(b, 'right side');
+      const [p, q, r, t] = [a.numerator, b.denominator, b.numerator, a.denominator].map(part => this.group(this.show(part, angles)));
+      push(`${p}·${q} - ${r}·${t} = 0`,
+        `Cross-multiply the two quotients: the difference reduces to 0 by the Pythagorean identity, so the identity holds`, 'Identity Proven');
+      return true;
+    }
+    return false;
+  }
+
+  // The shortest of the fully reduced forms and the sum-to-product and product-to-sum rewrites
+  static simplify(expression: string, push: Push): string {
+    const evaluated = this.special(expression);
+    const candidates: { form: string; steps: Step[] }[] = [{ form: cas(expression), steps: evaluated ? [[`${expression} = ${evaluated[0]}`, evaluated[1], evaluated[2]]] : [] }];
+    // Against the angles as they stand and against half of them, so that sin(2x) can become 2sin(x)cos(x) and cos(x) can use x/2
+    const angles = this.angles([expression]);
+    const halved: Angles = { bases: new Map([...angles.bases].map(([variable, base]) => [variable, cas(`(${base})/2`)])), symbols: new Map() };
+    for (const context of [angles, halved]) {
+      for (const eliminated of ['sin', 'cos'] as Eliminated[]) {
+        try {
+          candidates.push(this.quotientIdentity(this.reduce(expression, { bases: context.bases, symbols: new Map() }, eliminated)));
+        } catch {
+          // Algebra the CAS cannot finish leaves this candidate out
+        }
+      }
+    }
+    const sumToProduct = this.sumToProduct(expression);
+    if (sumToProduct) candidates.push(sumToProduct);
+    const productToSum = this.productToSum(expression);
+    if (productToSum) candidates.push(productToSum);
+    const contraction = this.contraction(expression);
+    if (contraction) candidates.push(contraction);
+
+    // A sum of two sines or cosines that nothing shortens is still worth writing as a product
+    const shortest = candidates.reduce((best, candidate) => (this.size(candidate.form) < this.size(best.form) ? candidate : best));
+    const best = shortest === candidates[0] && sumToProduct ? sumToProduct : shortest;
+    push(expression, best.steps.length ? 'Simplify using the trigonometric identities' : 'The expression is already in its simplest form');
+    best.steps.forEach(([step, explanation, method]) => push(step, explanation, method));
+    return best.form;
+  }
+
+  // Rewrite in sin and cos, expand multiple angles, combine into one fraction, then use sin² + cos² = 1 and cancel
+  static reduce(expression: string, angles: Angles, eliminated: Eliminated): Reduction {
+    const steps: Step[] = [];
+    const evaluated = this.special(expression);
+    if (evaluated) steps.push(evaluated);
+    let current = evaluated ? evaluated[0] : expression;
+
+    const used = new Set<string>();
+    const rewritten = this.rewrite(ExpressionParser.parse(current), node => {
+      if (node.kind !== 'call' || !(node.name in RECIPROCALS)) return node;
+      used.add(RECIPROCALS[node.name].identity);
+      return ExpressionParser.parse(RECIPROCALS[node.name].rewrite(ExpressionParser.print(node.args[0])));
+    });
+    if (used.size) {
+      current = ExpressionParser.print(rewritten);
+      steps.push([current, `Write everything in terms of sin and cos: ${[...used].join(', ')}`, 'Reciprocal and Quotient Identities']);
+    }
+
+    const identities = new Set<string>();
+    const expanded = ExpressionParser.print(this.rewrite(ExpressionParser.parse(current), node => {
+      if (node.kind !== 'call' || (node.name !== 'sin' && node.name !== 'cos')) return node;
+      return ExpressionParser.parse(this.expandAngle(node.name, cas(ExpressionParser.print(node.args[0])), angles, identities));
+    }));
+    if (identities.size) {
+      current = expanded;
+      const method = identities.has('Half-Angle Identity') ? 'Half-Angle Identity' : identities.has('Double-Angle Identity') ? 'Double-Angle Identity' : 'Angle Addition';
+      steps.push([current, `Expand the angles using ${[...identities].map(name => name.toLowerCase().replace(/y$/, 'ies')).join(' and ')}: ${this.formulas(identities)}`, method]);
+    }
+
+    // The algebra runs on plain symbols so that the CAS cannot apply identities of its own
+    const symbolic = cas(ExpressionParser.print(this.rewrite(ExpressionParser.parse(current), node => {
+      if (node.kind !== 'call' || (node.name !== 'sin' && node.name !== 'cos')) return node;
+      const angle = cas(ExpressionParser.print(node.args[0]));
+      if (!angles.symbols.has(angle)) angles.symbols.set(angle, angles.symbols.size);
+      const index = angles.symbols.get(angle) as number;
+      return { kind: 'symbol', name: node.name === 'sin' ? SINE(index) : COSINE(index), position: node.position };
+    })));
+    const rational = cas(`rationalize(${symbolic})`);
+    let [numerator, denominator] = [cas(`expand(numerator(${rational}))`), cas(`expand(denominator(${rational}))`)];
+    if (denominator !== '1' && this.isCompound(current)) {
+      steps.push([this.show(`(${numerator})/(${denominator})`, angles), 'Combine into a single fraction over a common denominator', 'Common Denominator']);
+    }
+
+    const [reducedNumerator, reducedDenominator] = [this.pythagorean(numerator, angles, eliminated), this.pythagorean(denominator, angles, eliminated)];
+    if (reducedNumerator !== numerator || reducedDenominator !== denominator) {
+      [numerator, denominator] = [reducedNumerator, reducedDenominator];
+      steps.push([this.show(this.quotient(numerator, denominator), angles),
+        eliminated === 'sin' ? 'Pythagorean identity: replace sin²u by 1 - cos²u' : 'Pythagorean identity: replace cos²u by 1 - sin²u', 'Pythagorean Identity']);
+    }
+
+    for (const symbol of this.symbols(angles)) {
+      if (isFreeOf(numerator, symbol) || isFreeOf(denominator, symbol)) continue;
+      const found = this.commonFactor(numerator, denominator, symbol);
+      if (!found) continue;
+      // Cancel 1 - cos(x) rather than -1 + cos(x)
+      const common = this.show(found, angles).startsWith('-') ? cas(`-(${found})`) : found;
+      [numerator, denominator] = this.constants(cas(`quotient(${numerator},${common},${symbol})`), cas(`quotient(${denominator},${common},${symbol})`));
+      steps.push([this.show(this.quotient(numerator, denominator), angles), `Cancel the common factor ${this.show(common, angles)}`, 'Cancellation']);
+    }
+
+    const form = this.show(this.quotient(numerator, denominator), angles);
+    const previous = steps.length ? steps[steps.length - 1][0] : expression;
+    if (previous.replace(/\s/g, '') !== form.replace(/\s/g, '')) steps.push([form, 'Collect the terms', 'Algebra']);
+    return { numerator, denominator, form, steps: steps.map(([text, explanation, method], k) => [`${k === 0 ? `${expression} = ` : '= '}${text}`, explanation, method]) };
+  }
+
+  // The step for the special values and shifts the CAS applies by itself, when they change any sine or cosine
+  static special(expression: string): Step | null {
+    const calls = (text: string) => ExpressionParser.nodes(ExpressionParser.parse(text))
+      .flatMap(node => (node.kind === 'call' && (node.name === 'sin' || node.name === 'cos') ? [`${node.name}(${cas(ExpressionParser.print(node.args[0]))})`] : []))
+      .filter((call, k, all) => all.indexOf(call) === k).sort().join(',');
+    const current = cas(expression);
+    return calls(current) === calls(expression) ? null
+      : [current, 'Use the special values and shifts, such as sin(u + π/2) = cos(u), cos(-u) = cos(u) and cos(π/3) = 1/2', 'Special Angles'];
+  }
+
+  // sin(u)/cos(u) as tan(u) and cos(u)/sin(u) as cot(u) once everything else is done
+  static quotientIdentity(reduction: Reduction): Reduction {
+    const node = ExpressionParser.parse(reduction.form);
+    if (node.kind !== 'binary' || node.operator !== '/' || node.left.kind !== 'call' || node.right.kind !== 'call') return reduction;
+    const [numerator, denominator] = [node.left, node.right];
+    const angle = ExpressionParser.print(numerator.args[0]);
+    if (angle !== ExpressionParser.print(denominator.args[0])) return reduction;
+    const name = { 'sin,cos': 'tan', 'cos,sin': 'cot' }[`${numerator.name},${denominator.name}`];
+    if (!name) return reduction;
+    const form = `${name}(${angle})`;
+    return { ...reduction, form, steps: [...reduction.steps, [`= ${form}`, `Quotient identity: ${RECIPROCALS[name].identity}`, 'Reciprocal and Quotient Identities']] };
+  }
+
+  // sin and cos of a sum by the addition formulas, and of k times the base angle by the double-angle formulas
+  static expandAngle(name: 'sin' | 'cos', angle: string, angles: Angles, identities: Set<string>): string {
+    const sine = (u: string) => this.expandAngle('sin', u, angles, identities);
+    const cosine = (u: string) => this.expandAngle('cos', u, angles, identities);
+    const addition = (a: string, b: string) => {
+      identities.add('Angle Addition');
+      return name === 'sin' ? `(${sine(a)}*${cosine(b)}+${cosine(a)}*${sine(b)})` : `(${cosine(a)}*${cosine(b)}-${sine(a)}*${sine(b)})`;
+    };
+
+    const terms = OdeSolver.terms(ExpressionParser.parse(angle)).map(term => cas(ExpressionParser.print(term)));
+    const variable = terms.filter(term => freeVariables(term).length > 0);
+    // Constant shifts such as π/2 are left to the CAS, which knows the special values
+    if (terms.length > 1 && variable.length > 0 && (variable.length > 1 || evaluateNumeric(cas(terms.filter(term => !variable.includes(term)).join('+'))) !== 0)) {
+      const [first, ...rest] = variable.length > 1 ? terms : [variable[0], ...terms.filter(term => term !== variable[0])];
+      const remaining = cas(rest.join('+'));
+      if (freeVariables(remaining).length === 0 && cas(`${name}(${remaining})`).includes(name)) return `${name}(${angle})`;
+      return addition(first, remaining);
+    }
+
+    const multiple = this.multiple(angle, angles);
+    if (!multiple || multiple.k === 1 || Math.abs(multiple.k) > MAX_MULTIPLE) return `${name}(${angle})`;
+    const { k, base } = multiple;
+    if (k < 0) return name === 'sin' ? `(-${sine(cas(`-(${angle})`))})` : cosine(cas(`-(${angle})`));
+    if (k % 2) return addition(cas(`${k - 1}*(${base})`), base);
+    const half = cas(`${k / 2}*(${base})`);
+    identities.add(/\/\d/.test(base) && !/\/\d/.test(angle) ? 'Half-Angle Identity' : 'Double-Angle Identity');
+    return name === 'sin' ? `(2*${sine(half)}*${cosine(half)})` : `(${cosine(half)}^2-${sine(half)}^2)`;
+  }
+
+  // The formulas behind the identities used, for the explanation
+  static formulas(identities: Set<string>): string {
+    return [
+      identities.has('Angle Addition') ? 'sin(a + b) = sin(a)cos(b) + cos(a)sin(b), cos(a + b) = cos(a)cos(b) - sin(a)sin(b)' : '',
+      identities.has('Double-Angle Identity') ? 'sin(2u) = 2sin(u)cos(u), cos(2u) = cos²(u) - sin²(u)' : '',
+      identities.has('Half-Angle Identity') ? 'sin(u) = 2sin(u/2)cos(u/2), cos(u) = cos²(u/2) - sin²(u/2)' : '',
+    ].filter(Boolean).join('; ');
+  }
+
+  // Each variable's base angle: the rational gcd of its coefficients across every sin and cos argument
+  static angles(expressions: string[]): Angles {
+    const bases = new Map<string, string>();
+    const coefficients = new Map<string, [number, number][]>();
+    for (const expression of expressions) {
+      for (const node of ExpressionParser.nodes(ExpressionParser.parse(cas(expression)))) {
+        if (node.kind !== 'call' || !['sin', 'cos', ...Object.keys(RECIPROCALS)].includes(node.name)) continue;
+        for (const term of OdeSolver.terms(node.args[0])) {
+          const text = cas(ExpressionParser.print(term));
+          const [variable, ...others] = freeVariables(text);
+          if (!variable || others.length) continue;
+          const coefficient = cas(`(${text})/${variable}`).match(/^-?(\d+)(?:\/(\d+))?$/);
+          if (coefficient) coefficients.set(variable, [...(coefficients.get(variable) ?? []), [Number(coefficient[1]), Number(coefficient[2] ?? 1)]]);
+        }
+      }
+    }
+    for (const [variable, fractions] of coefficients) {
+      const [p, q] = fractions.reduce(([a, b], [c, d]) => {
+        const numerator = gcd(a * d, c * b);
+        const denominator = b * d;
+        const common = gcd(numerator, denominator);
+        return [numerator / common, denominator / common];
+      });
+      bases.set(variable, cas(`${p}/${q}*${variable}`));
+    }
+    return { bases, symbols: new Map() };
+  }
+
+  // The angle as k times its variable's base angle, for whole k
+  static multiple(angle: string, angles: Angles): { k: number; base: string } | null {
+    const [variable, ...others] = freeVariables(angle);
+    const base = variable && !others.length ? angles.bases.get(variable) : undefined;
+    if (!base) return null;
+    const k = Number(cas(`(${angle})/(${base})`));
+    return Number.isInteger(k) ? { k, base } : null;
+  }
+
+  // Replace even powers of the eliminated function using sin²u + cos²u = 1, leaving it at most to the first power
+  static pythagorean(p: string, angles: Angles, eliminated: Eliminated): string {
+    return [...angles.symbols.values()].reduce((text, i) => {
+      const [gone, kept] = eliminated === 'sin' ? [SINE(i), COSINE(i)] : [COSINE(i), SINE(i)];
+      const degree = isFreeOf(text, gone) ? 0 : Number(cas(`deg(${text},${gone})`));
+      if (degree < 2) return text;
+      const terms = Array.from({ length: degree + 1 }, (_, k) => `(${cas(`coeff(${text},${gone},${k})`)})*(1-${kept}^2)^${Math.floor(k / 2)}*${gone}^${k % 2}`);
+      return cas(`expand(${terms.join('+')})`);
+    }, p);
+  }
+
+  // A nonconstant polynomial factor shared by the numerator and the denominator, by Euclid's algorithm in one symbol
+  static commonFactor(numerator: string, denominator: string, symbol: string): string | null {
+    try {
+      const common = PolynomialSolver.gcd(numerator, denominator, symbol);
+      if (common === '1' || isFreeOf(common, symbol) || this.symbolsIn(common).some(other => !isPolynomial(common, other))) return null;
+      const divides = (p: string) => cas(`expand((${p})-quotient(${p},${common},${symbol})*(${common}))`) === '0';
+      return divides(numerator) && divides(denominator) ? common : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // sin A ± sin B or cos A ± cos B as a product of sin and cos of the half sum and half difference
+  static sumToProduct(expression: string): { form: string; steps: Step[] } | null {
+    const terms = OdeSolver.terms(ExpressionParser.parse(expression));
+    if (terms.length !== 2) return null;
+    const [first, second] = terms.map(term => {
+      const negated = term.kind === 'unary';
+      const inner = term.kind === 'unary' ? term.operand : term;
+      return inner.kind === 'call' && (inner.name === 'sin' || inner.name === 'cos') ? { name: inner.name, angle: ExpressionParser.print(inner.args[0]), negated } : null;
+    });
+    if (!first || !second || first.negated || first.name !== second.name || cas(`(${first.angle})-(${second.angle})`) === '0') return null;
+    const half = cas(`((${first.angle})+(${second.angle}))/2`);
+    const difference = cas(`((${first.angle})-(${second.angle}))/2`);
+    const form = cas(SUM_TO_PRODUCT[`${first.name},${second.negated ? '-' : '+'}`](half, difference));
+    const sign = second.negated ? '-' : '+';
+    return {
+      form,
+      steps: [[`${expression} = ${form}`,
+        `Sum-to-product: ${first.name} A ${sign} ${first.name} B = ${SUM_TO_PRODUCT[`${first.name},${sign}`]('(A + B)/2', '(A - B)/2').replace(/\*/g, '·')} with A = ${first.angle} and B = ${second.angle}`,
+        'Sum-to-Product']],
+    };
+  }
+
+  // sin A·cos B and the like as a sum, by the product-to-sum identities
+  static productToSum(expression: string): { form: string; steps: Step[] } | null {
+    const node = ExpressionParser.parse(expression);
+    if (node.kind !== 'binary' || node.operator !== '*' || node.left.kind !== 'call' || node.right.kind !== 'call') return null;
+    const [first, second] = [node.left, node.right];
+    const identity = PRODUCT_TO_SUM[`${first.name},${second.name}`];
+    if (!identity) return null;
+    const form = cas(identity(ExpressionParser.print(first.args[0]), ExpressionParser.print(second.args[0])));
+    return {
+      form,
+      steps: [[`${expression} = ${form}`, `Product-to-sum: ${first.name} A·${second.name} B = ${identity('A', 'B').replace(/\(\(A\)([+-])\(B\)\)/g, '(A $1 B)')}`, 'Product-to-Sum']],
+    };
+  }
+
+  // A multiple of sin(2u) or cos(2u) for the base angle u, such as cos²(x) - sin²(x) = cos(2x)
+  static contraction(expression: string): { form: string; steps: Step[] } | null {
+    const bases = [...this.angles([expression]).bases.values()];
+    if (bases.length !== 1) return null;
+    const variable = freeVariables(bases[0])[0];
+    for (const name of ['sin', 'cos'] as const) {
+      const target = cas(`${name}(2*(${bases[0]}))`);
+      const ratios = TRIAL_POINTS.slice(0, 2).map(point => evaluateNumeric(expression, { [variable]: point }) / evaluateNumeric(target, { [variable]: point }));
+      const denominator = Array.from({ length: 12 }, (_, k) => k + 1).find(q => Math.abs(ratios[0] * q - Math.round(ratios[0] * q)) < 1e-9);
+      if (!denominator || Math.abs(ratios[0] - ratios[1]) > 1e-9 || ratios[0] === 0) continue;
+      const form = cas(`${Math.round(ratios[0] * denominator)}/${denominator}*${target}`);
+      const angles = this.angles([expression, target]);
+      try {
+        if (this.reduce(`(${expression})-(${form})`, angles, 'sin').form !== '0') continue;
+      } catch {
+        continue;
+      }
+      return {
+        form,
+        steps: [[`${expression} = ${form}`,
+          `Double-angle identity: ${name === 'sin' ? 'sin(2u) = 2sin(u)cos(u)' : 'cos(2u) = cos²(u) - sin²(u) = 2cos²(u) - 1 = 1 - 2sin²(u)'} with u = ${bases[0]}`,
+          'Double-Angle Identity']],
+      };
+    }
+    return null;
+  }
+
+  // A point where the two sides are both defined and differ, or null when they agree wherever they were tried
+  static counterexample(left: string, right: string): Record<string, number> | null {
+    for (const point of TRIAL_POINTS) {
+      const scope = this.scope(left, right, point);
+      const [a, b] = this.sides(left, right, scope);
+      if (!Number.isFinite(a) || !Number.isFinite(b)) continue;
+      if (Math.abs(a - b) > 1e-9 * Math.max(1, Math.abs(a), Math.abs(b))) return scope;
+    }
+    return null;
+  }
+
+  // Every variable at the trial value, shifted a little per variable so that they differ
+  static scope(left: string, right: string, point: number): Record<string, number> {
+    return Object.fromEntries(freeVariables(`(${left})-(${right})`).map((name, k) => [name, Number((point + 0.23 * k).toFixed(2))]));
+  }
+
+  static sides(left: string, right: string, scope: Record<string, number>): [number, number] {
+    return [evaluateNumeric(left, scope), evaluateNumeric(right, scope)];
+  }
+
+  // Numerator and denominator with their common numeric factor divided out
+  static constants(numerator: string, denominator: string): [string, string] {
+    const ratio = cas(`rationalize((${numerator})/(${denominator}))`);
+    return [cas(`expand(numerator(${ratio}))`), cas(`expand(denominator(${ratio}))`)];
+  }
+
+  // A quotient below the top of the tree, so that there are fractions to combine
+  static isCompound(text: string): boolean {
+    const root = ExpressionParser.parse(text);
+    return ExpressionParser.nodes(root).some(node => node !== root && node.kind === 'binary'
+      && (node.operator === '/' || (node.operator === '^' && node.right.kind === 'unary')));
+  }
+
+  static quotient(numerator: string, denominator: string): string {
+    if (isFreeOf(denominator, 'trig') && freeVariables(denominator).length === 0) return cas(`(${numerator})/(${denominator})`);
+    return `(${numerator})/(${denominator})`;
+  }
+
+  // Back from the symbols to sin and cos of the angles, tidied by the CAS
+  static show(text: string, angles: Angles): string {
+    const restored = text.replace(/trig(sine|cosine)(\d+)/g, (_, name: string, i: string) => this.restore(name, Number(i), angles));
+    const node = ExpressionParser.parse(restored);
+    if (node.kind === 'binary' && node.operator === '/') return `${this.group(cas(ExpressionParser.print(node.left)))}/${this.group(cas(ExpressionParser.print(node.right)))}`;
+    return cas(restored);
+  }
+
+  static restore(name: string, index: number, angles: Angles): string {
+    const angle = [...angles.symbols].find(([, i]) => i === index)?.[0] ?? '';
+    return `${name === 'sine' ? 'sin' : 'cos'}(${angle})`;
+  }
+
+  static symbols(angles: Angles): string[] {
+    return [...angles.symbols.values()].flatMap(i => [SINE(i), COSINE(i)]);
+  }
+
+  static symbolsIn(text: string): string[] {
+    return freeVariables(text).filter(name => name.startsWith('trig'));
+  }
+
+  // Rebuild a tree from the leaves up, letting visit replace each node once its children are done
+  static rewrite(node: ExpressionNode, visit: (node: ExpressionNode) => ExpressionNode): ExpressionNode {
+    if (node.kind === 'unary') return visit({ ...node, operand: this.rewrite(node.operand, visit) });
+    if (node.kind === 'binary') return visit({ ...node, left: this.rewrite(node.left, visit), right: this.rewrite(node.right, visit) });
+    if (node.kind === 'call') return visit({ ...node, args: node.args.map(arg => this.rewrite(arg, visit)) });
+    return visit(node);
+  }
+
+  // Length of the printed form without spaces, as a measure of simplicity
+  static size(text: string): number {
+    return text.replace(/\s/g, '').length;
+  }
+
+  static group(text: string): string {
+    return /^(\w+\([^()]*\)|[\w.]+)(\^\d+)?$/.test(text) ? text : `(${text})`;
+  }
+}
@@ -0,0 +1,468 @@
+import type { CalculusSolution, CalculusStep } from './calculusEngine';
+import { MultipleIntegralSolver, type IntegrationLevel } from './multipleIntegralSolver';
+import { MultivariableSolver } from './multivariableSolver';
+import { recordSteps, type Push } from './solutionSteps';
+import { SolutionVerifier } from './solutionVerifier';
+import { cas, compileNumeric, displayValue, evaluateNumeric, formatDecimal, isFreeOf } from './expressionUtils';
+import { ExpressionParser, ParseError, type CallNode, type ExpressionNode } from './expressionParser';
+import { adaptiveSimpson, iteratedSimpson } from './numericalMethods';
+
+export type FieldOperator = 'divergence' | 'curl' | 'laplacian';
+
+export interface FieldSpec {
+  operator: FieldOperator;
+  // A single component for a scalar field
+  field: string[];
+  scalar: boolean;
+  variables: string[];
+  point?: string[];
+}
+
+export interface LineIntegralSpec {
+  field: string[];
+  scalar: boolean;
+  variables: string[];
+  // r(t), one component per variable
+  curve: string[];
+  parameter: string;
+  lower: string;
+  upper: string;
+}
+
+export interface SurfaceIntegralSpec {
+  field: string[];
+  scalar: boolean;
+  // Set when the field was given as curl(G), so Stokes' theorem applies
+  curlOf?: string[];
+  variables: string[];
+  // r(u, v) with u and v over the two parameter levels, u first
+  surface: string[];
+  parameters: IntegrationLevel[];
+}
+
+// ∫_a^b f dt with steps, supplied by the engine so every technique of the integral solver is available
+export type Integrate = (integrand: string, variable: string, lower: string, upper: string) => CalculusSolution;
+
+const COMMANDS: Record<string, 'divergence' | 'curl' | 'laplacian' | 'line' | 'surface'> = {
+  div: 'divergence',
+  divergence: 'divergence',
+  curl: 'curl',
+  rot: 'curl',
+  laplacian: 'laplacian',
+  line_integral: 'line',
+  lineintegral: 'line',
+  flux: 'surface',
+  surface_integral: 'surface',
+  surfaceintegral: 'surface',
+};
+const AXES = ['x', 'y', 'z'];
+const COMPONENT_NAMES = ['P', 'Q', 'R'];
+// Fractions of each parameter range where a curve or surface is tested for being closed, and absolute values for a sign
+const SAMPLES = [0, 0.13, 0.37, 0.5, 0.61, 0.89, 1];
+// Relative agreement needed for a theorem cross-check to count as a match
+const CROSS_CHECK_TOLERANCE = 1e-6;
+
+export class VectorCalculusSolver {
+  static isVectorCalculus(node: ExpressionNode): boolean {
+    return node.kind === 'call' && node.name in COMMANDS;
+  }
+
+  static solve(expr: string, node: ExpressionNode, integrate: Integrate): CalculusSolution {
+    if (node.kind !== 'call' || !(node.name in COMMANDS)) {
+      throw new ParseError('Expected div(F), curl(F), laplacian(f), line_integral(F, r, t, a, b) or flux(F, r, u, a, b, v, c, d)', node.position);
+    }
+    const command = COMMANDS[node.name];
+    if (command === 'line') return this.lineIntegral(expr, this.lineSpec(node), integrate);
+    if (command === 'surface') return this.surfaceIntegral(expr, this.surfaceSpec(node));
+    return this.fieldOperator(expr, this.fieldSpec(node, command));
+  }
+
+  // div(F, [x, y, z], [point]), curl(F, ...) and laplacian(f, ...), with the variables and point optional
+  static fieldSpec(node: CallNode, operator: FieldOperator): FieldSpec {
+    const [fieldNode, variableList, pointList] = node.args;
+    if (!fieldNode || node.args.length > 3) {
+      throw new ParseError(`Expected ${node.name}(F, [x, y, z]) with F a ${operator === 'laplacian' ? 'function' : 'vector field such as [P, Q, R]'}`, node.position);
+    }
+    const { field, scalar } = this.field(fieldNode);
+    if (scalar && operator !== 'laplacian') {
+      throw new ParseError(`The ${operator} needs a vector field such as [P, Q, R]`, fieldNode.position);
+    }
+    const variables = variableList
+      ? MultivariableSolver.variableList(variableList)
+      : scalar ? ExpressionParser.variables(fieldNode) : this.axes(field.length, fieldNode);
+    if (!scalar && field.length !== variables.length) {
+      throw new Error(`the field has ${field.length} components but there are ${variables.length} variables`);
+    }
+    if (operator === 'curl' && field.length !== 2 && field.length !== 3) {
+      throw new Error('the curl needs a field in two or three dimensions');
+    }
+    const point = pointList ? MultivariableSolver.items(pointList).map(coordinate => ExpressionParser.print(coordinate)) : undefined;
+    if (point && point.length !== variables.length) {
+      throw new Error(`Expected a point with ${variables.length} coordinates`);
+    }
+    return { operator, field, scalar, variables, point };
+  }
+
+  // line_integral(F, r, t, a, b) with F = [P, Q] or a scalar f, optionally followed by the variables [x, y]
+  static lineSpec(node: CallNode): LineIntegralSpec {
+    const [fieldNode, curveNode, parameter, lower, upper, variableList] = node.args;
+    if (node.args.length < 5 || node.args.length > 6 || parameter.kind !== 'symbol' || curveNode.kind !== 'list') {
+      throw new ParseError('Expected line_integral(F, [x(t), y(t)], t, a, b)', node.position);
+    }
+    const { field, scalar } = this.field(fieldNode);
+    const curve = curveNode.items.map(item => ExpressionParser.print(item));
+    const variables = variableList ? MultivariableSolver.variableList(variableList) : this.axes(curve.length, curveNode);
+    if (curve.length !== variables.length || (!scalar && field.length !== curve.length)) {
+      throw new Error(`the curve, the field and the variables must all have the same dimension, but they have ${curve.length}, ${scalar ? 'a scalar' : field.length} and ${variables.length}`);
+    }
+    return { field, scalar, variables, curve, parameter: parameter.name, lower: ExpressionParser.print(lower), upper: ExpressionParser.print(upper) };
+  }
+
+  // flux(F, r, u, a, b, v, c, d) for ∬ F·n dS, or with a scalar f for ∬ f dS; F may be given as curl(G)
+  static surfaceSpec(node: CallNode): SurfaceIntegralSpec {
+    const [fieldNode, surfaceNode, u, uLower, uUpper, v, vLower, vUpper, variableList] = node.args;
+    if (node.args.length < 8 || node.args.length > 9 || surfaceNode.kind !== 'list' || u.kind !== 'symbol' || v.kind !== 'symbol') {
+      throw new ParseError('Expected flux(F, [x(u, v), y(u, v), z(u, v)], u, a, b, v, c, d)', node.position);
+    }
+    const surface = surfaceNode.items.map(item => ExpressionParser.print(item));
+    const variables = variableList ? MultivariableSolver.variableList(variableList) : this.axes(surface.length, surfaceNode);
+    if (surface.length !== 3 || variables.length !== 3) {
+      throw new Error('a surface needs three coordinate functions x(u, v), y(u, v), z(u, v)');
+    }
+    const parameters = [
+      { variable: u.name, lower: ExpressionParser.print(uLower), upper: ExpressionParser.print(uUpper) },
+      { variable: v.name, lower: ExpressionParser.print(vLower), upper: ExpressionParser.print(vUpper) }
+    ];
+    if (parameters.some(level => [level.lower, level.upper].some(bound => !isFreeOf(bound, u.name) || !isFreeOf(bound, v.name)))) {
+      throw new Error('the parameter bounds must be constants, describing a rectangle in the uv-plane');
+    }
+
+    if (fieldNode?.kind === 'call' && COMMANDS[fieldNode.name] === 'curl') {
+      const { field: potential, scalar } = this.field(fieldNode.args[0]);
+      if (scalar || potential.length !== 3) {
+        throw new ParseError('Expected curl([P, Q, R])', fieldNode.position);
+      }
+      return { field: this.curl(potential, variables), scalar: false, curlOf: potential, variables, surface, parameters };
+    }
+    const { field, scalar } = this.field(fieldNode);
+    if (!scalar && field.length !== 3) {
+      throw new Error('the flux needs a vector field with three components');
+    }
+    return { field, scalar, variables, surface, parameters };
+  }
+
+  static fieldOperator(expr: string, spec: FieldSpec): CalculusSolution {
+    const { operator, field, scalar, variables, point } = spec;
+    const { steps, push, methods } = recordSteps();
+    const names = this.componentNames(field.length);
+    const definition = scalar ? `f = ${field[0]}` : `F = [${field.join(', ')}]`;
+    let result: string[];
+
+    if (operator === 'divergence') {
+      push(`∇·F = ${variables.map((variable, i) => `∂${names[i]}/∂${variable}`).join(' + ')}, ${definition}`,
+        'The divergence adds the rate of change of each component along its own axis');
+      const partials = variables.map((variable, i) => {
+        const partial = cas(`d(${field[i]},${variable})`);
+        push(`∂${names[i]}/∂${variable} = ${partial}`, MultivariableSolver.heldConstantNote(variable, variables), 'Partial Differentiation');
+        return partial;
+      });
+      result = [cas(`simplify(${partials.map(partial => `(${partial})`).join('+')})`)];
+      push(`∇·F = ${result[0]}`, 'Add the partial derivatives', 'Divergence');
+    } else if (operator === 'curl') {
+      push(`∇×F, ${definition}`, field.length === 3
+        ? 'Expand the determinant with rows (i, j, k), (∂/∂x, ∂/∂y, ∂/∂z) and (P, Q, R)'
+        : 'In the plane the curl is the scalar ∂Q/∂x − ∂P/∂y, the k-component of the three-dimensional curl');
+      const pairs = field.length === 3 ? [[2, 1, 1, 2], [0, 2, 2, 0], [1, 0, 0, 1]] : [[1, 0, 0, 1]];
+      result = pairs.map(([a, across, b, along], k) => {
+        const [first, second] = [cas(`d(${field[a]},${variables[across]})`), cas(`d(${field[b]},${variables[along]})`)];
+        const component = cas(`simplify((${first})-(${second}))`);
+        const label = field.length === 3 ? `(∇×F)·${['i', 'j', 'k'][k]}` : '∇×F';
+        push(`${label} = ∂${names[a]}/∂${variables[across]} - ∂${names[b]}/∂${variables[along]} = ${first} - ${this.group(second)} = ${component}`,
+          field.length === 3 ? `The ${['i', 'j', 'k'][k]}-component of the curl` : 'The scalar curl of a plane field', 'Curl');
+        return component;
+      });
+      if (result.length === 3) push(`∇×F = [${result.join(', ')}]`, 'Assemble the curl', 'Curl');
+    } else {
+      push(`∇²${scalar ? 'f' : 'F'} = ${variables.map(variable => `∂²${scalar ? 'f' : ''}/∂${variable}²`).join(' + ')}, ${definition}`,
+        scalar ? 'The Laplacian adds the unmixed second partial derivatives' : 'The vector Laplacian applies the Laplacian to each component');
+      result = field.map((component, i) => {
+        const seconds = variables.map(variable => cas(`d(${component},${variable},2)`));
+        const value = cas(`simplify(${seconds.map(second => `(${second})`).join('+')})`);
+        push(`∇²${scalar ? 'f' : names[i]} = ${seconds.join(' + ')} = ${value}`,
+          `Differentiate ${scalar ? 'f' : names[i]} twice with respect to each of ${variables.join(', ')} and add`, 'Laplacian');
+        return value;
+      });
+      if (!scalar) push(`∇²F = [${result.join(', ')}]`, 'Assemble the vector Laplacian', 'Laplacian');
+    }
+
+    let value = result;
+    if (point) {
+      value = result.map(component => variables.reduce((text, variable, i) => cas(`subst((${point[i]}),${variable},${text})`), component));
+      push(`${this.symbol(operator, scalar)}(${point.join(', ')}) = ${this.show(value)}`,
+        `Evaluate at (${variables.join(', ')}) = (${point.join(', ')})`);
+    }
+    return {
+      original: expr,
+      result: this.show(value),
+      steps,
+      type: 'Vector Calculus',
+      method: [...methods].join(' / '),
+      ...(value.length > 1 ? { vector: value } : {}),
+      verified: SolutionVerifier.fieldOperator(operator, field, variables, value, point)
+    };
+  }
+
+  // Pull the integral back to the parameter: F(r(t))·r'(t) dt, or f(r(t))·|r'(t)| dt for a scalar field
+  static lineIntegral(expr: string, spec: LineIntegralSpec, integrate: Integrate): CalculusSolution {
+    const { field, scalar, variables, curve, parameter: t, lower, upper } = spec;
+    const { steps, push, methods } = recordSteps();
+    push(`${scalar ? '∫_C f ds' : '∫_C F·dr'}, ${scalar ? `f = ${field[0]}` : `F = [${field.join(', ')}]`}, r(${t}) = [${curve.join(', ')}], ${displayValue(lower)} ≤ ${t} ≤ ${displayValue(upper)}`,
+      scalar ? 'Integrate the scalar field with respect to arc length along the curve' : 'Integrate the tangential component of the field along the curve');
+
+    const velocity = curve.map(component => cas(`d(${component},${t})`));
+    push(`r'(${t}) = [${velocity.join(', ')}]`, `Differentiate each coordinate with respect to ${t}`, 'Parametrization');
+    const along = field.map(component => this.substitute(component, variables, curve));
+    let integrand: string;
+    if (scalar) {
+      const speed = cas(`simplify(sqrt(${velocity.map(component => `(${component})^2`).join('+')}))`);
+      push(`|r'(${t})| = ${speed}`, `ds = |r'(${t})| d${t}`, 'Parametrization');
+      integrand = cas(`simplify((${along[0]})*(${speed}))`);
+      push(`f(r(${t}))·|r'(${t})| = ${integrand}`, `Substitute ${variables.map((variable, i) => `${variable} = ${curve[i]}`).join(', ')} into f`, 'Parametrization');
+    } else {
+      push(`F(r(${t})) = [${along.join(', ')}]`, `Substitute ${variables.map((variable, i) => `${variable} = ${curve[i]}`).join(', ')} into F`, 'Parametrization');
+      integrand = cas(`simplify(${along.map((component, i) => `(${component})*(${velocity[i]})`).join('+')})`);
+      push(`F(r(${t}))·r'(${t}) = ${integrand}`, 'Take the dot product with the velocity', 'Parametrization');
+    }
+
+    const integral = integrate(integrand, t, lower, upper);
+    this.splice(integral.steps, push);
+    const value = integral.result;
+    if (!scalar) this.lineCrossCheck(spec, value, push);
+    push(`${scalar ? '∫_C f ds' : '∫_C F·dr'} = ${value}`, 'Value of the line integral');
+    return {
+      original: expr,
+      result: value,
+      steps,
+      type: 'Vector Calculus',
+      method: [...methods, 'Line Integral'].join(' / '),
+      verified: SolutionVerifier.lineIntegral(spec, this.numeric(value))
+    };
+  }
+
+  // Pull the integral back to the parameter rectangle: F(r)·(r_u × r_v) du dv, or f(r)·|r_u × r_v| du dv
+  static surfaceIntegral(expr: string, spec: SurfaceIntegralSpec): CalculusSolution {
+    const { field, scalar, curlOf, variables, surface, parameters } = spec;
+    const [u, v] = parameters.map(level => level.variable);
+    const { steps, push, methods } = recordSteps();
+    const notation = scalar ? '∬_S f dS' : '∬_S F·n dS';
+    push(`${notation}, ${scalar ? `f = ${field[0]}` : curlOf ? `F = ∇×[${curlOf.join(', ')}] = [${field.join(', ')}]` : `F = [${field.join(', ')}]`}, r(${u}, ${v}) = [${surface.join(', ')}], ${parameters.map(level => `${displayValue(level.lower)} ≤ ${level.variable} ≤ ${displayValue(level.upper)}`).join(', ')}`,
+      scalar ? 'Integrate the scalar field over the surface' : 'Integrate the normal component of the field over the surface, oriented by r_u × r_v');
+
+    const [ru, rv] = [u, v].map(parameter => surface.map(component => cas(`d(${component},${parameter})`)));
+    push(`r_${u} = [${ru.join(', ')}], r_${v} = [${rv.join(', ')}]`, `Differentiate r with respect to ${u} and ${v}`, 'Parametrization');
+    const normal = this.cross(ru, rv);
+    push(`r_${u} × r_${v} = [${normal.join(', ')}]`, 'The cross product is normal to the surface, and its length is the area scale factor', 'Parametrization');
+
+    const along = field.map(component => this.substitute(component, variables, surface));
+    let integrand: string;
+    if (scalar) {
+      const scale = this.dropAbsolute(cas(`simplify(sqrt(${normal.map(component => `(${component})^2`).join('+')}))`), parameters);
+      push(`|r_${u} × r_${v}| = ${scale}`, `dS = |r_${u} × r_${v}| d${u} d${v}`, 'Parametrization');
+      integrand = cas(`simplify((${along[0]})*(${scale}))`);
+    } else {
+      push(`F(r(${u}, ${v})) = [${along.join(', ')}]`, `Substitute ${variables.map((variable, i) => `${variable} = ${surface[i]}`).join(', ')} into F`, 'Parametrization');
+      integrand = cas(`simplify(${along.map((component, i) => `(${component})*(${normal[i]})`).join('+')})`);
+    }
+    push(`${scalar ? `f(r)·|r_${u} × r_${v}|` : `F(r)·(r_${u} × r_${v})`} = ${integrand}`,
+      `The surface integral becomes a double integral over the ${u}${v}-rectangle`, 'Parametrization');
+
+    const [inner, outer] = parameters;
+    const integral = MultipleIntegralSolver.solve(
+      `integral(integral(${integrand}, ${inner.variable}, ${inner.lower}, ${inner.upper}), ${outer.variable}, ${outer.lower}, ${outer.upper})`);
+    this.splice(integral.steps.slice(1), push);
+    const value = integral.result;
+    if (!scalar) this.surfaceCrossCheck(spec, normal, value, push);
+    push(`${notation} = ${value}`, scalar ? 'Value of the surface integral' : 'Value of the flux');
+    return {
+      original: expr,
+      result: value,
+      steps,
+      type: 'Vector Calculus',
+      method: [...methods, scalar ? 'Surface Integral' : 'Flux Integral'].join(' / '),
+      verified: SolutionVerifier.surfaceIntegral(spec, this.numeric(value))
+    };
+  }
+
+  // A potential for a conservative field gives the value from the endpoints; a closed plane curve allows Green's theorem
+  static lineCrossCheck(spec: LineIntegralSpec, value: string, push: Push): void {
+    const { field, variables, curve, parameter: t, lower, upper } = spec;
+    const potential = this.potential(field, variables);
+    const [start, end] = [lower, upper].map(bound => curve.map(component => cas(`subst((${bound}),${t},${component})`)));
+    if (potential !== null) {
+      const [initial, final] = [start, end].map(point => this.substitute(potential, variables, point));
+      const difference = cas(`simplify((${final})-(${initial}))`);
+      push(`φ = ${potential}, φ(${end.join(', ')}) - φ(${start.join(', ')}) = ${difference}`,
+        `Cross-check: ∇φ = F, so by the Fundamental Theorem for Line Integrals the integral depends only on the endpoints${this.agreement(difference, value)}`,
+        'Fundamental Theorem for Line Integrals');
+      return;
+    }
+
+    const closed = start.every((coordinate, i) => Math.abs(evaluateNumeric(coordinate) - evaluateNumeric(end[i])) < 1e-9);
+    if (field.length !== 2 || !closed) return;
+    // Green's theorem: ∬_D (Q_x − P_y) dA = ∮ M dy for any M with M_x = Q_x − P_y
+    const [x, y] = variables;
+    const rotation = cas(`simplify(d(${field[1]},${x})-d(${field[0]},${y}))`);
+    const antiderivative = cas(`integral(${rotation},${x})`);
+    if (/integral/.test(antiderivative)) return;
+    const integrand = compileNumeric(cas(`(${this.substitute(antiderivative, variables, curve)})*(${cas(`d(${curve[1]},${t})`)})`));
+    const { value: area } = adaptiveSimpson(s => integrand({ [t]: s }), evaluateNumeric(lower), evaluateNumeric(upper));
+    push(`∬_D (∂Q/∂${x} - ∂P/∂${y}) dA = ∬_D ${this.group(rotation)} dA = ∮ ${this.group(antiderivative)} d${y} ≈ ${formatDecimal(area)}`,
+      `Cross-check with Green's theorem, since C is closed${this.agreement(String(area), value)}`, "Green's Theorem");
+  }
+
+  // Stokes' theorem when F = ∇×G, the divergence theorem when the surface is closed
+  static surfaceCrossCheck(spec: SurfaceIntegralSpec, normal: string[], value: string, push: Push): void {
+    const { field, curlOf, variables, surface, parameters } = spec;
+    const [u, v] = parameters.map(level => level.variable);
+    const [[u0, u1], [v0, v1]] = parameters.map(level => [evaluateNumeric(level.lower), evaluateNumeric(level.upper)]);
+    const position = surface.map(component => compileNumeric(component));
+    const at = (a: number, b: number) => position.map(component => component({ [u]: a, [v]: b }));
+
+    if (curlOf) {
+      // The boundary of the uv-rectangle, counterclockwise, maps onto ∂S with the orientation of r_u × r_v
+      const pulled = [u, v].map((parameter, k) => compileNumeric(
+        curlOf.map((component, i) => `(${this.substitute(component, variables, surface)})*(${cas(`d(${surface[i]},${parameter})`)})`).join('+')));
+      const edge = (k: number, fixed: number, from: number, to: number) => adaptiveSimpson(
+        s => pulled[k](k === 0 ? { [u]: s, [v]: fixed } : { [u]: fixed, [v]: s }), from, to).value;
+      const circulation = edge(0, v0, u0, u1) + edge(1, u1, v0, v1) + edge(0, v1, u1, u0) + edge(1, u0, v1, v0);
+      push(`∮_∂S G·dr ≈ ${formatDecimal(circulation)}, G = [${curlOf.join(', ')}]`,
+        `Cross-check with Stokes' theorem: the flux of ∇×G equals the circulation of G around the image of the ${u}${v}-rectangle's boundary${this.agreement(String(circulation), value)}`,
+        "Stokes' Theorem");
+      return;
+    }
+
+    const coincide = (p: number[], q: number[]) => p.every((coordinate, i) => Math.abs(coordinate - q[i]) < 1e-9 * Math.max(1, Math.abs(coordinate)));
+    const edgePoints = (k: number, fixed: number) => SAMPLES.map(s => (k === 0 ? at(fixed, v0 + s * (v1 - v0)) : at(u0 + s * (u1 - u0), fixed)));
+    const closed = [[u0, u1], [v0, v1]].every(([first, second], k) => {
+      const [a, b] = [edgePoints(k, first), edgePoints(k, second)];
+      const degenerate = (points: number[][]) => points.every(point => coincide(point, points[0]));
+      return (degenerate(a) && degenerate(b)) || a.every((point, i) => coincide(point, b[i]));
+    });
+    if (!closed) return;
+
+    // Fill the solid as c + s·(r − c), 0 ≤ s ≤ 1, which covers it once when it is star-shaped about its centre c
+    const grid = SAMPLES.flatMap(a => SAMPLES.map(b => at(u0 + a * (u1 - u0), v0 + b * (v1 - v0))));
+    const centre = [0, 1, 2].map(i => Number(formatDecimal(grid.reduce((sum, point) => sum + point[i], 0) / grid.length)));
+    const divergence = compileNumeric(cas(`simplify(${field.map((component, i) => `d(${component},${variables[i]})`).join('+')})`));
+    const normals = normal.map(component => compileNumeric(component));
+    const { value: volume } = iteratedSimpson(point => {
+      const r = at(point[u], point[v]);
+      const offset = r.map((coordinate, i) => coordinate - centre[i]);
+      const inside = Object.fromEntries(variables.map((variable, i) => [variable, centre[i] + point.s * offset[i]]));
+      const n = normals.map(component => component(point));
+      return divergence(inside) * point.s ** 2 * offset.reduce((sum, component, i) => sum + component * n[i], 0);
+    }, [
+      { variable: 's', lower: () => 0, upper: () => 1 },
+      { variable: u, lower: () => u0, upper: () => u1 },
+      { variable: v, lower: () => v0, upper: () => v1 }
+    ]);
+    push(`∭_E ∇·F dV ≈ ${formatDecimal(volume)}, ∇·F = ${cas(`simplify(${field.map((component, i) => `d(${component},${variables[i]})`).join('+')})`)}`,
+      `Cross-check with the divergence theorem, since S is closed${this.agreement(String(volume), value)}`, 'Divergence Theorem');
+  }
+
+  // φ with ∇φ = F, built one variable at a time, or null when F is not conservative
+  static potential(field: string[], variables: string[]): string | null {
+    let potential = '0';
+    for (const [i, variable] of variables.entries()) {
+      const remainder = cas(`simplify((${field[i]})-d(${potential},${variable}))`);
+      if (variables.slice(0, i).some(earlier => !isFreeOf(remainder, earlier))) return null;
+      const antiderivative = cas(`integral(${remainder},${variable})`);
+      if (/integral/.test(antiderivative)) return null;
+      potential = cas(`simplify((${potential})+(${antiderivative}))`);
+    }
+    return variables.every((variable, i) => cas(`simplify(d(${potential},${variable})-(${field[i]}))`) === '0') ? potential : null;
+  }
+
+  static curl(field: string[], variables: string[]): string[] {
+    const [x, y, z] = variables;
+    const [p, q, r] = field;
+    return [`d(${r},${y})-d(${q},${z})`, `d(${p},${z})-d(${r},${x})`, `d(${q},${x})-d(${p},${y})`].map(component => cas(`simplify(${component})`));
+  }
+
+  static cross(a: string[], b: string[]): string[] {
+    return [[1, 2], [2, 0], [0, 1]].map(([i, j]) => cas(`simplify((${a[i]})*(${b[j]})-(${a[j]})*(${b[i]}))`));
+  }
+
+  // |g| becomes g or −g when g keeps one sign over the parameter rectangle, so that it can be integrated exactly
+  static dropAbsolute(expression: string, parameters: IntegrationLevel[]): string {
+    const match = /^abs\((.*)\)$/.exec(expression);
+    if (!match) return expression;
+    const inside = compileNumeric(match[1]);
+    const ranges = parameters.map(level => [evaluateNumeric(level.lower), evaluateNumeric(level.upper)]);
+    const values = SAMPLES.flatMap(a => SAMPLES.map(b => inside(Object.fromEntries(parameters.map((level, i) =>
+      [level.variable, ranges[i][0] + (i === 0 ? a : b) * (ranges[i][1] - ranges[i][0])])))));
+    if (values.every(value => value >= -1e-12)) return match[1];
+    if (values.every(value => value <= 1e-12)) return cas(`-(${match[1]})`);
+    return expression;
+  }
+
+  static field(node: ExpressionNode): { field: string[]; scalar: boolean } {
+    if (node.kind === 'list') {
+      if (node.items.length < 2) throw new ParseError('A vector field needs at least two components', node.position);
+      return { field: node.items.map(item => ExpressionParser.print(item)), scalar: false };
+    }
+    return { field: [ExpressionParser.print(node)], scalar: true };
+  }
+
+  static axes(count: number, node: ExpressionNode): string[] {
+    if (count > AXES.length) {
+      throw new ParseError(`Name the variables of a ${count}-dimensional field, as in [x1, x2, ..., x${count}]`, node.position);
+    }
+    return AXES.slice(0, count);
+  }
+
+  static substitute(expression: string, variables: string[], values: string[]): string {
+    // Substitute through placeholders so that a value mentioning a later variable is not replaced again
+    const placeholders = variables.map((_, i) => `vcplaceholder${i}`);
+    const marked = variables.reduce((text, variable, i) => cas(`subst(${placeholders[i]},${variable},${text})`), expression);
+    return cas(`simplify(${placeholders.reduce((text, placeholder, i) => cas(`subst((${values[i]}),${placeholder},${text})`), marked)})`);
+  }
+
+  // Steps of a nested solution, keeping the techniques in the explanations
+  static splice(steps: CalculusStep[], push: Push): void {
+    for (const { expression, explanation, method } of steps) {
+      push(expression, method ? `${explanation} (${method})` : explanation, 'Integration');
+    }
+  }
+
+  // ", which agrees" or ", which differs" for a numerical cross-check of a result
+  static agreement(check: string, value: string): string {
+    const [a, b] = [this.numeric(check), this.numeric(value)];
+    if (!Number.isFinite(a) || !Number.isFinite(b)) return '';
+    if (Math.abs(a - b) <= CROSS_CHECK_TOLERANCE * Math.max(1, Math.abs(b))) return ', which agrees';
+    return Math.abs(a + b) <= CROSS_CHECK_TOLERANCE * Math.max(1, Math.abs(b))
+      ? ', which agrees up to sign, so the orientation is reversed'
+      : ', which differs';
+  }
+
+  // The value of an exact result, or of a quadrature result written as "≈ v (error ≈ e)"
+  static numeric(value: string): number {
+    return evaluateNumeric(value.replace(/^≈\s*/, '').replace(/\s*\(error ≈ [^)]*\)$/, ''));
+  }
+
+  static componentNames(count: number): string[] {
+    return count <= COMPONENT_NAMES.length ? COMPONENT_NAMES.slice(0, count) : Array.from({ length: count }, (_, i) => `F${i + 1}`);
+  }
+
+  static symbol(operator: FieldOperator, scalar: boolean): string {
+    return operator === 'divergence' ? '∇·F' : operator === 'curl' ? '∇×F' : scalar ? '∇²f' : '∇²F';
+  }
+
+  static show(components: string[]): string {
+    return components.length === 1 ? components[0] : `[${components.join(', ')}]`;
+  }
+
+  static group(text: string): string {
+    return /^[\w.]+$/.test(text) ? text : `(${text})`;
+  }
+}